@@ -0,0 +1,90 @@
+import { APIGatewayProxyEvent } from "aws-lambda";
+import { config } from "../common/config";
+import { UserRole } from "../common/enums";
+import { ErrorCodes } from "../common/error-codes";
+import { UnauthorizedError } from "../errors/unauthorized.error";
+import { AuthContext } from "../types/auth";
+import { createTokenVerifier, TokenVerifier } from "./token-verifier";
+
+// Cognito groups (or a custom:role claim) mapped to roles, case-insensitive
+const roleByGroup: Record<string, UserRole> = {
+  requester: UserRole.REQUESTER,
+  requesters: UserRole.REQUESTER,
+  agent: UserRole.AGENT,
+  agents: UserRole.AGENT,
+  admin: UserRole.ADMIN,
+  admins: UserRole.ADMIN,
+};
+
+// Cached across invocations of the same Lambda container
+let verifierPromise: Promise<TokenVerifier> | undefined;
+
+export function setTokenVerifier(verifier: TokenVerifier | undefined): void {
+  verifierPromise = verifier ? Promise.resolve(verifier) : undefined;
+}
+
+function getTokenVerifier(): Promise<TokenVerifier> {
+  verifierPromise ??= createTokenVerifier();
+  return verifierPromise;
+}
+
+// Claims from API Gateway authorizers arrive as strings, e.g. cognito:groups = "[admin agent]" or "admin,agent"
+function parseGroups(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === "string") {
+    return value.replace(/^\[|\]$/g, "").split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+export function toAuthContext(claims: Record<string, unknown>): AuthContext {
+  const userId = claims.sub;
+  if (typeof userId !== "string" || userId.length === 0) {
+    throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Token has no subject");
+  }
+
+  const groups = [...parseGroups(claims["cognito:groups"]), ...parseGroups(claims["custom:role"])];
+  const roles = [...new Set(groups.map(group => roleByGroup[group.toLowerCase()]).filter(Boolean))];
+
+  const tenantId = claims[config.tenancy.claim];
+  if (tenantId !== undefined && (typeof tenantId !== "string" || tenantId.length === 0)) {
+    throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Token has an invalid organization");
+  }
+
+  return {
+    userId,
+    // Users without a known group are plain requesters
+    roles: roles.length > 0 ? roles : [UserRole.REQUESTER],
+    email: typeof claims.email === "string" ? claims.email : undefined,
+    tenantId,
+  };
+}
+
+function getBearerToken(event: APIGatewayProxyEvent): string {
+  const headers = event.headers ?? {};
+  const key = Object.keys(headers).find(header => header.toLowerCase() === "authorization");
+  const value = key ? headers[key] : undefined;
+
+  const match = value ? /^Bearer\s+(\S+)$/i.exec(value) : null;
+  if (!match) {
+    throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Missing bearer token");
+  }
+
+  return match[1];
+}
+
+export async function authenticate(event: APIGatewayProxyEvent): Promise<AuthContext> {
+  if (config.auth.mode === "apigateway") {
+    const claims = event.requestContext?.authorizer?.claims;
+    if (!claims) {
+      throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Missing authorizer claims");
+    }
+    return toAuthContext(claims);
+  }
+
+  const verifier = await getTokenVerifier();
+  const claims = await verifier.verify(getBearerToken(event));
+  return toAuthContext(claims as Record<string, unknown>);
+}
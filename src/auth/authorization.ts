@@ -0,0 +1,106 @@
+import { UserRole } from "../common/enums";
+import { ErrorCodes } from "../common/error-codes";
+import { ForbiddenError } from "../errors/forbidden.error";
+import { AuthContext } from "../types/auth";
+import { Ticket } from "../types/ticket";
+
+// Policies only look at who reported and who is assigned
+type TicketOwnership = Pick<Ticket, "reporterId" | "assignedToId">;
+
+export function hasRole(auth: AuthContext, role: UserRole): boolean {
+  return auth.roles.includes(role);
+}
+
+export function isAdmin(auth: AuthContext): boolean {
+  return hasRole(auth, UserRole.ADMIN);
+}
+
+export function isAgent(auth: AuthContext): boolean {
+  return hasRole(auth, UserRole.AGENT);
+}
+
+// Admins and agents see every ticket; requesters only the tickets they reported
+export function canViewTicket(auth: AuthContext, ticket: TicketOwnership): boolean {
+  return isAdmin(auth) || isAgent(auth) || ticket.reporterId === auth.userId;
+}
+
+// Admins edit any ticket, agents the tickets assigned to them, requesters the tickets they reported
+export function canEditTicket(auth: AuthContext, ticket: TicketOwnership): boolean {
+  return isAdmin(auth)
+    || (isAgent(auth) && ticket.assignedToId === auth.userId)
+    || ticket.reporterId === auth.userId;
+}
+
+export function assertCanViewTicket(auth: AuthContext, ticket: TicketOwnership): void {
+  if (!canViewTicket(auth, ticket)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "You are not allowed to access this ticket");
+  }
+}
+
+export function assertCanEditTicket(auth: AuthContext, ticket: TicketOwnership): void {
+  if (!canEditTicket(auth, ticket)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "You are not allowed to modify this ticket");
+  }
+}
+
+export function assertCanDeleteTicket(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can delete tickets");
+  }
+}
+
+// The trash (listing, restoring, purging) is as restricted as deleting
+export function assertCanManageTrash(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can manage deleted tickets");
+  }
+}
+
+// Reporting on behalf of someone else and reassigning the reporter are reserved to staff
+export function assertCanSetReporter(auth: AuthContext, reporterId: string | undefined): void {
+  if (reporterId !== undefined && reporterId !== auth.userId && !isAdmin(auth) && !isAgent(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "You can only report tickets as yourself");
+  }
+}
+
+// Merging closes other people's tickets, so it is reserved to staff
+export function assertCanMergeTickets(auth: AuthContext): void {
+  if (!isAdmin(auth) && !isAgent(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only staff can merge tickets");
+  }
+}
+
+// Queues and their rules are configured by admins
+export function assertCanManageQueues(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can manage queues");
+  }
+}
+
+// Staff can see the queues and work through their tickets
+export function assertCanViewQueues(auth: AuthContext): void {
+  if (!isAdmin(auth) && !isAgent(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only staff can access queues");
+  }
+}
+
+// Custom fields change what every ticket of a type must hold, so admins define them; anyone can read them to fill them in
+export function assertCanManageFieldDefinitions(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can manage custom fields");
+  }
+}
+
+// Imports create tickets on behalf of anyone, with the ids and timestamps of another system
+export function assertCanImportTickets(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can import tickets");
+  }
+}
+
+// Webhooks send ticket data to external systems, so only admins configure them
+export function assertCanManageWebhooks(auth: AuthContext): void {
+  if (!isAdmin(auth)) {
+    throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only admins can manage webhooks");
+  }
+}
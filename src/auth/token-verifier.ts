@@ -0,0 +1,72 @@
+import { readFileSync } from "fs";
+import { createLocalJWKSet, createRemoteJWKSet, importSPKI, JWTPayload, JWTVerifyGetKey, jwtVerify, KeyLike } from "jose";
+import { config } from "../common/config";
+import { ErrorCodes } from "../common/error-codes";
+import { UnauthorizedError } from "../errors/unauthorized.error";
+import { logger } from "../observability/logger";
+
+export interface TokenVerifier {
+  verify(token: string): Promise<JWTPayload>;
+}
+
+export interface JwtVerifierOptions {
+  key: JWTVerifyGetKey | KeyLike | Uint8Array;
+  issuer?: string;
+  audience?: string;
+}
+
+export class JwtTokenVerifier implements TokenVerifier {
+  constructor(private readonly options: JwtVerifierOptions) {}
+
+  async verify(token: string): Promise<JWTPayload> {
+    let payload: JWTPayload;
+    try {
+      // jose overloads differ for key sets and single keys; both are accepted at runtime
+      const result = await jwtVerify(token, this.options.key as JWTVerifyGetKey, { issuer: this.options.issuer });
+      payload = result.payload;
+    } catch (error) {
+      logger.warn("Token verification failed", { message: (error as Error).message });
+      throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Invalid or expired token");
+    }
+
+    // Cognito ID tokens carry the app client in "aud", access tokens in "client_id"
+    const { audience } = this.options;
+    if (audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud, payload.client_id];
+      if (!audiences.includes(audience)) {
+        throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Token audience is not allowed");
+      }
+    }
+
+    return payload;
+  }
+}
+
+// Builds the verifier from the environment; see config.auth for the supported key sources
+export async function createTokenVerifier(authConfig = config.auth): Promise<TokenVerifier> {
+  const cognitoIssuer = authConfig.cognitoUserPoolId
+    ? `https://cognito-idp.${authConfig.region}.amazonaws.com/${authConfig.cognitoUserPoolId}`
+    : undefined;
+  const issuer = authConfig.issuer ?? cognitoIssuer;
+  const audience = authConfig.audience;
+
+  const jwksUrl = authConfig.jwksUrl ?? (cognitoIssuer ? `${cognitoIssuer}/.well-known/jwks.json` : undefined);
+  if (jwksUrl) {
+    return new JwtTokenVerifier({ key: createRemoteJWKSet(new URL(jwksUrl)), issuer, audience });
+  }
+
+  if (authConfig.jwksFile) {
+    const jwks = JSON.parse(readFileSync(authConfig.jwksFile, "utf8"));
+    return new JwtTokenVerifier({ key: createLocalJWKSet(jwks), issuer, audience });
+  }
+
+  if (authConfig.jwtPublicKey) {
+    return new JwtTokenVerifier({ key: await importSPKI(authConfig.jwtPublicKey, "RS256"), issuer, audience });
+  }
+
+  if (authConfig.jwtSecret) {
+    return new JwtTokenVerifier({ key: new TextEncoder().encode(authConfig.jwtSecret), issuer, audience });
+  }
+
+  throw new Error("No JWT key source configured: set AUTH_COGNITO_USER_POOL_ID, AUTH_JWKS_URL, AUTH_JWKS_FILE, AUTH_JWT_PUBLIC_KEY or AUTH_JWT_SECRET");
+}
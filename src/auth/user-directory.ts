@@ -0,0 +1,81 @@
+import { AdminListGroupsForUserCommand, CognitoIdentityProviderClient, ListUsersCommand } from "@aws-sdk/client-cognito-identity-provider";
+import { config } from "../common/config";
+import { AuthContext } from "../types/auth";
+import { toAuthContext } from "./authenticator";
+
+// Users looked up by email address, for callers that do not present a token (e.g. inbound email)
+export interface UserDirectory {
+  // The user with the address and their roles, as if they had authenticated; undefined if there is none
+  findByEmail(email: string): Promise<AuthContext | undefined>;
+}
+
+// Users of the Cognito user pool that issues the API tokens, with their groups as roles
+export class CognitoUserDirectory implements UserDirectory {
+  constructor(
+    private readonly userPoolId: string,
+    private readonly client: CognitoIdentityProviderClient = new CognitoIdentityProviderClient({})
+  ) {}
+
+  async findByEmail(email: string): Promise<AuthContext | undefined> {
+    // The filter is a quoted string; addresses with quotes or backslashes are not looked up
+    if (/["\\]/.test(email)) {
+      return undefined;
+    }
+
+    const response = await this.client.send(new ListUsersCommand({
+      UserPoolId: this.userPoolId,
+      Filter: `email = "${email}"`,
+      Limit: 2,
+    }));
+    const users = (response.Users ?? []).filter(user => user.Enabled !== false);
+    // An address shared by several users identifies none of them
+    if (users.length !== 1) {
+      return undefined;
+    }
+
+    const attributes = Object.fromEntries((users[0].Attributes ?? []).map(attribute => [attribute.Name, attribute.Value]));
+    const groups = await this.client.send(new AdminListGroupsForUserCommand({
+      UserPoolId: this.userPoolId,
+      Username: users[0].Username,
+    }));
+
+    return toAuthContext({
+      sub: attributes.sub,
+      email: attributes.email,
+      "cognito:groups": (groups.Groups ?? []).map(group => group.GroupName),
+      // The custom attribute behind the organization claim of the user's tokens
+      [config.tenancy.claim]: attributes[config.tenancy.claim],
+    });
+  }
+}
+
+// Fixed set of users, for tests and local runs
+export class InMemoryUserDirectory implements UserDirectory {
+  private readonly users = new Map<string, AuthContext>();
+
+  add(user: AuthContext & { email: string }): void {
+    this.users.set(user.email.toLowerCase(), user);
+  }
+
+  async findByEmail(email: string): Promise<AuthContext | undefined> {
+    return this.users.get(email.toLowerCase());
+  }
+}
+
+// Cached across invocations of the same Lambda container
+let userDirectory: UserDirectory | undefined;
+
+// Replaces the directory, e.g. with an InMemoryUserDirectory in tests
+export function setUserDirectory(directory: UserDirectory | undefined): void {
+  userDirectory = directory;
+}
+
+export function getUserDirectory(): UserDirectory {
+  if (!userDirectory) {
+    if (!config.auth.cognitoUserPoolId) {
+      throw new Error("AUTH_COGNITO_USER_POOL_ID is required to look up users by email");
+    }
+    userDirectory = new CognitoUserDirectory(config.auth.cognitoUserPoolId);
+  }
+  return userDirectory;
+}
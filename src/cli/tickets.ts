@@ -0,0 +1,249 @@
+// Imports and exports tickets through the API handler, against DynamoDB Local by default:
+//   npm run tickets -- create-table
+//   npm run tickets -- import tickets.csv [--mapping Summary:title] [--dry-run]
+//   npm run tickets -- export [--format csv] [--output tickets.csv] [--status OPEN ...]
+import { CreateTableCommand, DynamoDBClient, ResourceInUseException } from '@aws-sdk/client-dynamodb';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { createReadStream, createWriteStream } from 'fs';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { config } from '../common/config';
+import { ticketTableDefinition } from '../repositories/dynamodb-table';
+import { MAX_IMPORT_ROWS } from '../schemas/schemas';
+import { ImportResult } from '../types/import';
+import { CsvReader, toCsv } from '../utils/csv';
+import { handler } from '../handlers/index';
+
+const USAGE = `Usage: npm run tickets -- <command> [options]
+
+Commands:
+  create-table            Create the tickets table
+  import <file>           Import a CSV or NDJSON file, in parts of ${MAX_IMPORT_ROWS} rows
+  export                  Export tickets, to stdout unless --output is set
+
+Options:
+  --endpoint <url>        DynamoDB endpoint (DYNAMODB_ENDPOINT, default http://localhost:8000)
+  --tenant <id>           Organization to act for (default: the default organization)
+  --user <id>             Admin user the changes are recorded for (default: tickets-cli)
+  --format <csv|ndjson>   Format of the file; imports default to the file extension, exports to ndjson
+  --mapping <pairs>       Import column renames, e.g. Summary:title,Opened:createdAt
+  --dry-run               Validate the import without creating tickets
+  --output <file>         File to write the export to
+  --status, --priority, --type, --reporterId, --assignedToId, --slaState, --createdFrom, --createdTo,
+  --customFields, --sort  Export filters, as the query parameters of GET /v1/tickets:export`;
+
+const EXPORT_FILTERS = ["status", "priority", "type", "reporterId", "assignedToId", "slaState", "createdFrom", "createdTo", "customFields", "sort"] as const;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    endpoint: { type: "string" },
+    tenant: { type: "string" },
+    user: { type: "string", default: "tickets-cli" },
+    format: { type: "string" },
+    mapping: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+    output: { type: "string" },
+    help: { type: "boolean", default: false },
+    status: { type: "string" },
+    priority: { type: "string" },
+    type: { type: "string" },
+    reporterId: { type: "string" },
+    assignedToId: { type: "string" },
+    slaState: { type: "string" },
+    createdFrom: { type: "string" },
+    createdTo: { type: "string" },
+    customFields: { type: "string" },
+    sort: { type: "string" },
+  },
+});
+
+// Requests to the handler as API Gateway sends them with a Cognito authorizer, so no token is needed
+async function callHandler(method: string, path: string, query: Record<string, string>, body?: string, contentType?: string): Promise<APIGatewayProxyResult> {
+  const claims: Record<string, string> = { sub: options.user, "cognito:groups": "admin" };
+  if (options.tenant) {
+    claims[config.tenancy.claim] = options.tenant;
+  }
+
+  const event = {
+    httpMethod: method,
+    path,
+    headers: contentType ? { "Content-Type": contentType } : {},
+    queryStringParameters: query,
+    body: body ?? null,
+    isBase64Encoded: false,
+    requestContext: { requestId: `cli-${Date.now()}`, authorizer: { claims } },
+  } as unknown as APIGatewayProxyEvent;
+
+  const response = await handler(event);
+  if (response.statusCode >= 400) {
+    const { message, details } = JSON.parse(response.body);
+    throw new Error(`${method} ${path} failed with ${response.statusCode}: ${message}${details ? `\n  ${details.join("\n  ")}` : ""}`);
+  }
+  return response;
+}
+
+async function createTable(): Promise<void> {
+  const client = new DynamoDBClient({ endpoint: config.dynamodb.endpoint });
+  try {
+    await client.send(new CreateTableCommand(ticketTableDefinition(config.dynamodb.tableName)));
+    console.error(`Created table ${config.dynamodb.tableName}`);
+  } catch (error) {
+    if (!(error instanceof ResourceInUseException)) {
+      throw error;
+    }
+    console.error(`Table ${config.dynamodb.tableName} already exists`);
+  }
+}
+
+// A part of the file: its body, and the line of the file each of its rows starts on
+interface ImportPart {
+  body: string;
+  lines: number[];
+}
+
+// CSV parts repeat the header, so the file is read record by record; quoted fields may span lines
+async function* csvParts(file: string): AsyncGenerator<ImportPart> {
+  const reader = new CsvReader();
+  let header: string[] | undefined;
+  let rows: string[][] = [];
+  let lines: number[] = [];
+
+  for await (const line of createInterface({ input: createReadStream(file), crlfDelay: Infinity })) {
+    const record = reader.push(line);
+    if (!record) {
+      continue;
+    }
+    if (!header) {
+      header = record.fields;
+      continue;
+    }
+    rows.push(record.fields);
+    lines.push(record.line);
+    if (rows.length === MAX_IMPORT_ROWS) {
+      yield { body: toCsv([header, ...rows]), lines };
+      rows = [];
+      lines = [];
+    }
+  }
+  reader.end();
+  if (header && rows.length > 0) {
+    yield { body: toCsv([header, ...rows]), lines };
+  }
+}
+
+async function* ndjsonParts(file: string): AsyncGenerator<ImportPart> {
+  let rows: string[] = [];
+  let lines: number[] = [];
+  let lineNumber = 0;
+
+  for await (const line of createInterface({ input: createReadStream(file), crlfDelay: Infinity })) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+    rows.push(line);
+    lines.push(lineNumber);
+    if (rows.length === MAX_IMPORT_ROWS) {
+      yield { body: rows.join("\n"), lines };
+      rows = [];
+      lines = [];
+    }
+  }
+  if (rows.length > 0) {
+    yield { body: rows.join("\n"), lines };
+  }
+}
+
+// Failed rows are reported with the line of the file they start on; the exit code is 1 when any row failed
+async function importFile(file: string | undefined): Promise<number> {
+  if (!file) {
+    throw new Error("import needs the file to import");
+  }
+  const format = options.format ?? (/\.csv$/i.test(file) ? "csv" : "ndjson");
+  const query: Record<string, string> = { format, dryRun: String(options["dry-run"]) };
+  if (options.mapping) {
+    query.mapping = options.mapping;
+  }
+
+  const totals = { created: 0, skipped: 0, failed: 0 };
+  for await (const part of format === "csv" ? csvParts(file) : ndjsonParts(file)) {
+    const response = await callHandler("POST", "/v1/tickets:import", query, part.body, format === "csv" ? "text/csv" : "application/x-ndjson");
+    const result: ImportResult = JSON.parse(response.body);
+    for (const row of result.rows.filter(row => row.error)) {
+      const details = Array.isArray(row.error!.details) ? `: ${row.error!.details.join("; ")}` : "";
+      console.error(`line ${part.lines[row.row - 1]}: ${row.error!.message}${details}`);
+    }
+    totals.created += result.created;
+    totals.skipped += result.skipped;
+    totals.failed += result.failed;
+  }
+
+  console.error(`${options["dry-run"] ? "Dry run: " : ""}${totals.created} created, ${totals.skipped} skipped, ${totals.failed} failed`);
+  return totals.failed > 0 ? 1 : 0;
+}
+
+// Parts are requested until X-Next-Cursor is no longer set; CSV parts after the first lose their header
+async function exportTickets(): Promise<void> {
+  const query: Record<string, string> = { format: options.format ?? "ndjson" };
+  for (const filter of EXPORT_FILTERS) {
+    const value = options[filter];
+    if (typeof value === "string") {
+      query[filter] = value;
+    }
+  }
+
+  const output = options.output ? createWriteStream(options.output) : process.stdout;
+  let part = 0;
+  let cursor: string | undefined;
+  do {
+    const response = await callHandler("GET", "/v1/tickets:export", cursor ? { ...query, cursor } : query);
+    const body = part > 0 && query.format === "csv" ? response.body.slice(response.body.indexOf("\r\n") + 2) : response.body;
+    output.write(body);
+    cursor = response.headers?.["X-Next-Cursor"] as string | undefined;
+    part++;
+  } while (cursor);
+
+  if (output !== process.stdout) {
+    await new Promise<void>(resolve => output.end(() => resolve()));
+  }
+}
+
+async function main(): Promise<number> {
+  const [command, file] = positionals;
+  if (options.help || !command) {
+    console.error(USAGE);
+    return options.help ? 0 : 1;
+  }
+
+  // Local defaults: DynamoDB Local accepts any region and credentials
+  config.dynamodb.endpoint = options.endpoint ?? config.dynamodb.endpoint ?? "http://localhost:8000";
+  process.env.AWS_REGION ??= "local";
+  process.env.AWS_ACCESS_KEY_ID ??= "local";
+  process.env.AWS_SECRET_ACCESS_KEY ??= "local";
+  // The handler trusts the claims of the events built here; its logs and metrics go to stderr, leaving stdout to the export
+  config.auth.mode = "apigateway";
+  config.logging.level = process.env.LOG_LEVEL ?? "warn";
+  console.log = console.error;
+
+  switch (command) {
+    case "create-table":
+      await createTable();
+      return 0;
+    case "import":
+      return importFile(file);
+    case "export":
+      await exportTickets();
+      return 0;
+    default:
+      console.error(`Unknown command ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+}, error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
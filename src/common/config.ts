@@ -0,0 +1,68 @@
+// Runtime configuration read from the Lambda environment variables
+export const config = {
+  dynamodb: {
+    // Single table shared by tickets and their sub-resources
+    tableName: process.env.TICKETS_TABLE_NAME ?? "dyn-tickets",
+    // Custom endpoint, e.g. http://localhost:8000 for DynamoDB Local
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+  },
+
+  // When true, PUT, PATCH and DELETE on a ticket must send an If-Match header
+  requireIfMatch: process.env.REQUIRE_IF_MATCH === "true",
+
+  auth: {
+    // "jwt" verifies the bearer token in the Lambda; "apigateway" trusts the claims of an API Gateway Cognito authorizer
+    mode: process.env.AUTH_MODE === "apigateway" ? "apigateway" : "jwt",
+    // Cognito user pool: issuer and JWKS URL are derived from it
+    cognitoUserPoolId: process.env.AUTH_COGNITO_USER_POOL_ID,
+    region: process.env.AWS_REGION,
+    // Explicit key sources, checked in this order: JWKS URL, local JWKS file, PEM public key, shared secret (HS256)
+    jwksUrl: process.env.AUTH_JWKS_URL,
+    jwksFile: process.env.AUTH_JWKS_FILE,
+    jwtPublicKey: process.env.AUTH_JWT_PUBLIC_KEY,
+    jwtSecret: process.env.AUTH_JWT_SECRET,
+    issuer: process.env.AUTH_ISSUER,
+    // Matched against "aud" (ID tokens) or "client_id" (Cognito access tokens)
+    audience: process.env.AUTH_AUDIENCE,
+  },
+  tenancy: {
+    // Organization of callers whose token names none; its items keep the unprefixed keys of a single-organization table
+    defaultTenantId: process.env.DEFAULT_TENANT_ID ?? "default",
+    // Token claim naming the caller's organization
+    claim: process.env.TENANT_CLAIM ?? "custom:tenantId",
+    // Accepts an X-Tenant-Id header from callers whose token names no organization, e.g. behind a gateway that sets it
+    allowHeader: process.env.TENANT_HEADER_ENABLED === "true",
+    // JSON object of organization id -> settings (allowedTypes, defaultPriority, quotas); only listed organizations are served
+    tenants: process.env.TENANTS ?? "{}",
+  },
+  trash: {
+    // Days a deleted ticket stays restorable before the table TTL purges it
+    retentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30),
+  },
+  attachments: {
+    // S3 bucket holding the attachment contents, under tickets/<ticketId>/<attachmentId>
+    bucketName: process.env.ATTACHMENTS_BUCKET_NAME ?? "dyn-tickets-attachments",
+  },
+  logging: {
+    // Lowest level written: debug, info, warn or error
+    level: process.env.LOG_LEVEL ?? "info",
+  },
+  metrics: {
+    // CloudWatch namespace of the metrics written in Embedded Metric Format
+    namespace: process.env.METRICS_NAMESPACE ?? "TicketSystem",
+  },
+  events: {
+    // EventBridge bus that receives ticket lifecycle events
+    busName: process.env.EVENT_BUS_NAME ?? "default",
+    // "source" field of the published EventBridge entries
+    source: process.env.EVENT_SOURCE ?? "ticket-system",
+  },
+  webhooks: {
+    // Time a subscriber has to answer a delivery
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS ?? 3000),
+    // Attempts of a delivery, the first one included, before it is dead-lettered
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8),
+    // Accepts http:// target URLs, e.g. a local stand-in during development; https only otherwise
+    allowInsecureUrls: process.env.WEBHOOK_ALLOW_INSECURE_URLS === "true",
+  },
+};
@@ -2,6 +2,7 @@ export enum TicketStatus {
   NEW = "NEW",
   OPEN = "OPEN",
   IN_PROGRESS = "IN_PROGRESS",
+  WAITING_ON_CUSTOMER = "WAITING_ON_CUSTOMER",
   RESOLVED = "RESOLVED",
   CLOSED = "CLOSED",
 };
@@ -18,3 +19,97 @@ export enum TicketType {
   SERVICE_REQUEST = "SERVICE_REQUEST",
   QUESTION = "QUESTION"
 };
+
+export enum TicketHistoryAction {
+  CREATED = "CREATED",
+  UPDATED = "UPDATED",
+  DELETED = "DELETED",
+  RESTORED = "RESTORED",
+  PURGED = "PURGED",
+  // Duplicates closed into a survivor, and the survivor that took in their comments and history
+  MERGED = "MERGED"
+};
+
+export enum UserRole {
+  REQUESTER = "REQUESTER",
+  AGENT = "AGENT",
+  ADMIN = "ADMIN"
+};
+
+export enum SlaState {
+  ON_TRACK = "ON_TRACK",
+  AT_RISK = "AT_RISK",
+  BREACHED = "BREACHED"
+};
+
+// Typed links between tickets; every link is stored on both tickets, each side with its own type
+export enum TicketLinkType {
+  PARENT_OF = "PARENT_OF",
+  CHILD_OF = "CHILD_OF",
+  BLOCKS = "BLOCKS",
+  BLOCKED_BY = "BLOCKED_BY",
+  DUPLICATE_OF = "DUPLICATE_OF",
+  DUPLICATED_BY = "DUPLICATED_BY",
+  RELATES_TO = "RELATES_TO"
+};
+
+// How a queue picks the agent of a ticket routed to it
+export enum AssignmentStrategy {
+  ROUND_ROBIN = "ROUND_ROBIN",
+  LEAST_LOADED = "LEAST_LOADED"
+};
+
+// Value type of a custom field of tickets
+export enum CustomFieldKind {
+  STRING = "STRING",
+  NUMBER = "NUMBER",
+  ENUM = "ENUM",
+  // Calendar date, YYYY-MM-DD
+  DATE = "DATE",
+  // Id of a user
+  USER = "USER"
+};
+
+// Ticket changes that webhooks are notified of, plus the test delivery of POST /v1/webhooks/{id}/test
+export enum WebhookEventType {
+  TICKET_CREATED = "TicketCreated",
+  TICKET_UPDATED = "TicketUpdated",
+  TICKET_DELETED = "TicketDeleted",
+  TICKET_RESTORED = "TicketRestored",
+  TICKET_PURGED = "TicketPurged",
+  WEBHOOK_TEST = "WebhookTest"
+};
+
+// PENDING deliveries are retried with backoff until they are DELIVERED or run out of attempts (DEAD_LETTER)
+export enum WebhookDeliveryStatus {
+  PENDING = "PENDING",
+  DELIVERED = "DELIVERED",
+  DEAD_LETTER = "DEAD_LETTER"
+};
+
+// What the ingestion of an inbound email did
+export enum EmailIngestOutcome {
+  CREATED = "CREATED",
+  COMMENTED = "COMMENTED",
+  DUPLICATE = "DUPLICATE",
+  REJECTED = "REJECTED"
+};
+
+export enum ImportRowOutcome {
+  CREATED = "CREATED",
+  SKIPPED = "SKIPPED",
+  FAILED = "FAILED"
+};
+
+export enum TicketEventType {
+  TICKET_CREATED = "TicketCreated",
+  TICKET_UPDATED = "TicketUpdated",
+  TICKET_ASSIGNED = "TicketAssigned",
+  TICKET_STATUS_CHANGED = "TicketStatusChanged",
+  TICKET_PRIORITY_CHANGED = "TicketPriorityChanged",
+  TICKET_SLA_STATE_CHANGED = "TicketSlaStateChanged",
+  TICKET_DELETED = "TicketDeleted",
+  TICKET_RESTORED = "TicketRestored",
+  TICKET_PURGED = "TicketPurged",
+  TICKET_COMMENT_ADDED = "TicketCommentAdded"
+};
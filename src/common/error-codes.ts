@@ -1,6 +1,32 @@
 export enum ErrorCodes {
   BAD_REQUEST = "bad_request",
   TICKET_NOT_FOUND = "ticket_not_found",
+  TICKET_NOT_DELETED = "ticket_not_deleted",
+  COMMENT_NOT_FOUND = "comment_not_found",
+  TICKET_LINK_NOT_FOUND = "ticket_link_not_found",
+  ATTACHMENT_NOT_FOUND = "attachment_not_found",
+  QUEUE_NOT_FOUND = "queue_not_found",
+  WEBHOOK_NOT_FOUND = "webhook_not_found",
+  FIELD_DEFINITION_NOT_FOUND = "field_definition_not_found",
   PATH_NOT_FOUND = "path_not_found",
+  METHOD_NOT_ALLOWED = "method_not_allowed",
+  INVALID_STATUS_TRANSITION = "invalid_status_transition",
+  OPEN_CHILD_TICKETS = "open_child_tickets",
+  TICKET_LINK_EXISTS = "ticket_link_exists",
+  INVALID_TICKET_LINK = "invalid_ticket_link",
+  INVALID_TICKET_MERGE = "invalid_ticket_merge",
+  FIELD_DEFINITION_EXISTS = "field_definition_exists",
+  TICKET_EXISTS = "ticket_exists",
+  PRECONDITION_FAILED = "precondition_failed",
+  PRECONDITION_REQUIRED = "precondition_required",
+  UNAUTHORIZED = "unauthorized",
+  FORBIDDEN = "forbidden",
+  UNKNOWN_TENANT = "unknown_tenant",
+  RATE_LIMIT_EXCEEDED = "rate_limit_exceeded",
+  TICKET_QUOTA_EXCEEDED = "ticket_quota_exceeded",
+  BATCH_ABORTED = "batch_aborted",
+  SERVICE_UNAVAILABLE = "service_unavailable",
+  IDEMPOTENCY_KEY_REUSED = "idempotency_key_reused",
+  IDEMPOTENCY_KEY_IN_PROGRESS = "idempotency_key_in_progress",
   INTERNAL_SERVER_ERROR = "internal_server_error",
 };
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { TicketPriority, TicketStatus, TicketType } from "./enums";
+
+export interface SlaTarget {
+  // Minutes until someone other than the reporter must respond
+  responseMinutes: number;
+  // Minutes until the ticket must be resolved
+  resolutionMinutes: number;
+}
+
+export interface SlaPolicyConfig {
+  defaults: Record<TicketPriority, SlaTarget>;
+  // Per-type overrides, merged over the priority defaults
+  byType: Partial<Record<TicketType, Partial<Record<TicketPriority, Partial<SlaTarget>>>>>;
+  // A target is at risk when less than this fraction of its time remains
+  atRiskRatio: number;
+  // Statuses in which the SLA clock is stopped
+  pausedStatuses: TicketStatus[];
+}
+
+export const SlaPolicies: SlaPolicyConfig = {
+  defaults: {
+    [TicketPriority.CRITICAL]: { responseMinutes: 15, resolutionMinutes: 4 * 60 },
+    [TicketPriority.HIGH]: { responseMinutes: 60, resolutionMinutes: 8 * 60 },
+    [TicketPriority.MEDIUM]: { responseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+    [TicketPriority.LOW]: { responseMinutes: 8 * 60, resolutionMinutes: 72 * 60 },
+  },
+  byType: {
+    [TicketType.SERVICE_REQUEST]: {
+      [TicketPriority.HIGH]: { resolutionMinutes: 24 * 60 },
+      [TicketPriority.MEDIUM]: { resolutionMinutes: 48 * 60 },
+      [TicketPriority.LOW]: { resolutionMinutes: 120 * 60 },
+    },
+    [TicketType.QUESTION]: {
+      [TicketPriority.MEDIUM]: { resolutionMinutes: 48 * 60 },
+      [TicketPriority.LOW]: { resolutionMinutes: 120 * 60 },
+    },
+  },
+  atRiskRatio: 0.25,
+  pausedStatuses: [TicketStatus.WAITING_ON_CUSTOMER],
+};
+
+export function getSlaTarget(priority: TicketPriority, type: TicketType, policies: SlaPolicyConfig = SlaPolicies): SlaTarget {
+  return { ...policies.defaults[priority], ...policies.byType[type]?.[priority] };
+}
@@ -0,0 +1,39 @@
+import { TicketStatus } from "./enums";
+
+// Ticket fields that can be required before entering a status
+export type WorkflowRequiredField = "assignedToId" | "resolutionNote";
+
+export interface TicketWorkflowConfig {
+  initialStatuses: TicketStatus[];
+  transitions: Record<TicketStatus, TicketStatus[]>;
+  requiredFields: Partial<Record<TicketStatus, WorkflowRequiredField[]>>;
+}
+
+export const TicketWorkflow: TicketWorkflowConfig = {
+  initialStatuses: [TicketStatus.NEW, TicketStatus.OPEN],
+  transitions: {
+    [TicketStatus.NEW]: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.CLOSED],
+    [TicketStatus.OPEN]: [TicketStatus.IN_PROGRESS, TicketStatus.WAITING_ON_CUSTOMER, TicketStatus.RESOLVED, TicketStatus.CLOSED],
+    [TicketStatus.IN_PROGRESS]: [TicketStatus.OPEN, TicketStatus.WAITING_ON_CUSTOMER, TicketStatus.RESOLVED],
+    [TicketStatus.WAITING_ON_CUSTOMER]: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.RESOLVED, TicketStatus.CLOSED],
+    [TicketStatus.RESOLVED]: [TicketStatus.OPEN, TicketStatus.IN_PROGRESS, TicketStatus.CLOSED],
+    [TicketStatus.CLOSED]: [TicketStatus.OPEN],
+  },
+  requiredFields: {
+    [TicketStatus.IN_PROGRESS]: ["assignedToId"],
+    [TicketStatus.RESOLVED]: ["resolutionNote"],
+  },
+};
+
+export function getAllowedNextStatuses(from: TicketStatus, workflow: TicketWorkflowConfig = TicketWorkflow): TicketStatus[] {
+  return workflow.transitions[from] ?? [];
+}
+
+// Staying in the same status is not a transition and is always allowed
+export function isTransitionAllowed(from: TicketStatus, to: TicketStatus, workflow: TicketWorkflowConfig = TicketWorkflow): boolean {
+  return from === to || getAllowedNextStatuses(from, workflow).includes(to);
+}
+
+export function getRequiredFields(status: TicketStatus, workflow: TicketWorkflowConfig = TicketWorkflow): WorkflowRequiredField[] {
+  return workflow.requiredFields[status] ?? [];
+}
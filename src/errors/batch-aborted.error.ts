@@ -0,0 +1,8 @@
+import { HttpError } from "./http-error";
+
+// Operation of an atomic batch that was valid but not applied because another operation failed
+export class BatchAbortedError extends HttpError {
+  constructor(code: string, message: string = "Batch aborted") {
+    super(424, code, message);
+  }
+}
@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class ConflictError extends HttpError {
+  constructor(code: string, message: string = "Conflict") {
+    super(409, code, message);
+  }
+}
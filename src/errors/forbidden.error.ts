@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class ForbiddenError extends HttpError {
+  constructor(code: string, message: string = "Forbidden") {
+    super(403, code, message);
+  }
+}
@@ -0,0 +1,8 @@
+import { HttpError } from "./http-error";
+
+// 409 when the move is not allowed from the current status, 422 when the target status requirements are not met
+export class InvalidStatusTransitionError extends HttpError {
+  constructor(code: string, message: string, details: string[], statusCode: 409 | 422 = 409) {
+    super(statusCode, code, message, details);
+  }
+}
@@ -0,0 +1,11 @@
+import { HttpError } from "./http-error";
+
+export class MethodNotAllowedError extends HttpError {
+  // Methods the path supports, sent back in the Allow header
+  public allowedMethods: string[];
+
+  constructor(code: string, allowedMethods: string[], message: string = "Method not allowed") {
+    super(405, code, message);
+    this.allowedMethods = allowedMethods;
+  }
+}
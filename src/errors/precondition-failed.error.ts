@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class PreconditionFailedError extends HttpError {
+  constructor(code: string, message: string = "Precondition failed") {
+    super(412, code, message);
+  }
+}
@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class PreconditionRequiredError extends HttpError {
+  constructor(code: string, message: string = "Precondition required") {
+    super(428, code, message);
+  }
+}
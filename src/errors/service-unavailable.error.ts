@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class ServiceUnavailableError extends HttpError {
+  constructor(code: string, message: string = "Service unavailable") {
+    super(503, code, message);
+  }
+}
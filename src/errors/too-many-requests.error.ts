@@ -0,0 +1,11 @@
+import { HttpError } from "./http-error";
+
+export class TooManyRequestsError extends HttpError {
+  // Seconds until the quota window is over, sent back in the Retry-After header
+  public retryAfterSeconds: number;
+
+  constructor(code: string, retryAfterSeconds: number, message: string = "Too many requests") {
+    super(429, code, message);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
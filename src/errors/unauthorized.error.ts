@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class UnauthorizedError extends HttpError {
+  constructor(code: string, message: string = "Unauthorized") {
+    super(401, code, message);
+  }
+}
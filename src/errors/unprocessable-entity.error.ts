@@ -0,0 +1,7 @@
+import { HttpError } from "./http-error";
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(code: string, message: string = "Unprocessable entity") {
+    super(422, code, message);
+  }
+}
@@ -0,0 +1,193 @@
+import { S3Event } from "aws-lambda";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { InMemoryUserDirectory, setUserDirectory } from "../auth/user-directory";
+import { config } from "../common/config";
+import { CustomFieldKind, EmailIngestOutcome, TicketPriority, TicketStatus, TicketType, UserRole } from "../common/enums";
+import { setAgentLoadStore, setAttachmentStorage, setEmailMessageStore, setFieldDefinitionRepository, setInboundMailStorage, setQueueRepository, setReportCounterStore, setSearchIndex, setTicketRepository, setWebhookRepository } from "../repositories";
+import { InMemoryAgentLoadStore } from "../repositories/in-memory-agent-load-store";
+import { InMemoryAttachmentStorage } from "../repositories/in-memory-attachment-storage";
+import { InMemoryEmailMessageStore } from "../repositories/in-memory-email-message-store";
+import { InMemoryFieldDefinitionRepository } from "../repositories/in-memory-field-definition-repository";
+import { InMemoryInboundMailStorage } from "../repositories/in-memory-inbound-mail-storage";
+import { InMemoryQueueRepository } from "../repositories/in-memory-queue-repository";
+import { InMemoryReportCounterStore } from "../repositories/in-memory-report-counter-store";
+import { InMemorySearchIndex } from "../repositories/in-memory-search-index";
+import { InMemoryTicketRepository } from "../repositories/in-memory-ticket-repository";
+import { InMemoryWebhookRepository } from "../repositories/in-memory-webhook-repository";
+import { stripQuotedText, titleFromSubject } from "../services/email-service";
+import { FieldDefinitionService } from "../services/field-definition-service";
+import { TicketService } from "../services/ticket-service";
+import { handler } from "./email-ingest";
+
+const bucket = "inbound-mail";
+const requester = { userId: "6f1c1f5e-2a4b-4c1e-9a55-000000000002", roles: [UserRole.REQUESTER], email: "maria@example.com" };
+const otherRequester = { userId: "6f1c1f5e-2a4b-4c1e-9a55-000000000005", roles: [UserRole.REQUESTER], email: "jon@example.com" };
+const acmeRequester = { userId: "6f1c1f5e-2a4b-4c1e-9a55-000000000006", roles: [UserRole.REQUESTER], email: "ana@acme.example", tenantId: "acme" };
+const acmeAgent = { userId: "6f1c1f5e-2a4b-4c1e-9a55-000000000007", roles: [UserRole.AGENT], email: "li@acme.example", tenantId: "acme" };
+
+// Fixture from test-utils/emails with its {{placeholders}} filled in
+function fixture(name: string, values: Record<string, string> = {}): string {
+  const template = readFileSync(join(__dirname, "../test-utils/emails", name), "utf8");
+  const filled: Record<string, string> = { from: requester.email, spamVerdict: "PASS", ...values };
+  return template.replace(/\{\{(\w+)\}\}/g, (_, field: string) => filled[field] ?? "");
+}
+
+function s3Event(...keys: string[]): S3Event {
+  return { Records: keys.map(key => ({ s3: { bucket: { name: bucket }, object: { key } } })) } as S3Event;
+}
+
+describe("email ingestion", () => {
+  const repository = new InMemoryTicketRepository();
+  const attachmentStorage = new InMemoryAttachmentStorage();
+  const messageStore = new InMemoryEmailMessageStore();
+  const mailStorage = new InMemoryInboundMailStorage();
+  const fieldDefinitions = new InMemoryFieldDefinitionRepository();
+
+  async function ingest(key: string, raw: string) {
+    mailStorage.put(bucket, key, raw);
+    const [result] = await handler(s3Event(key));
+    return result;
+  }
+
+  beforeEach(() => {
+    repository.clear();
+    attachmentStorage.clear();
+    messageStore.clear();
+    mailStorage.clear();
+    fieldDefinitions.clear();
+
+    const directory = new InMemoryUserDirectory();
+    directory.add(requester);
+    directory.add(otherRequester);
+    directory.add(acmeRequester);
+    directory.add(acmeAgent);
+
+    setTicketRepository(repository);
+    setAttachmentStorage(attachmentStorage);
+    setEmailMessageStore(messageStore);
+    setInboundMailStorage(mailStorage);
+    setUserDirectory(directory);
+    setSearchIndex(new InMemorySearchIndex());
+    setReportCounterStore(new InMemoryReportCounterStore());
+    setQueueRepository(new InMemoryQueueRepository());
+    setAgentLoadStore(new InMemoryAgentLoadStore());
+    setWebhookRepository(new InMemoryWebhookRepository());
+    setFieldDefinitionRepository(fieldDefinitions);
+  });
+
+  afterEach(() => {
+    config.tenancy.tenants = "{}";
+  });
+
+  afterAll(() => {
+    setUserDirectory(undefined);
+    setEmailMessageStore(undefined);
+    setInboundMailStorage(undefined);
+    setFieldDefinitionRepository(undefined);
+  });
+
+  it("creates a ticket reported by the sender, with the attachments of an accepted type", async () => {
+    const result = await ingest("mail/new ticket", fixture("new-ticket.eml"));
+
+    expect(result).toMatchObject({ messageId: "new-ticket-0001@mail.example.com", outcome: EmailIngestOutcome.CREATED, skippedAttachments: ["setup.exe"] });
+    expect(result.attachmentIds).toHaveLength(1);
+
+    const ticket = await repository.getTicket(result.ticketId!);
+    expect(ticket).toMatchObject({
+      title: "VPN drops every few minutes",
+      description: "Since this morning the VPN disconnects every five minutes.\nI attached the client log.",
+      reporterId: requester.userId,
+      status: TicketStatus.NEW,
+      priority: TicketPriority.MEDIUM,
+      type: TicketType.INCIDENT,
+    });
+    expect(ticket?.attachments).toEqual([expect.objectContaining({ fileName: "vpn-log.pdf", contentType: "application/pdf", uploadedBy: requester.userId })]);
+    expect(Buffer.from(attachmentStorage.contents.get(`tickets/${ticket!.id}/${result.attachmentIds[0]}`)!).toString()).toBe("%PDF-1.4\n%test\n");
+  });
+
+  it("creates tickets without the required custom fields, which mail cannot carry", async () => {
+    await FieldDefinitionService.createFieldDefinition({ ticketType: TicketType.INCIDENT, key: "environment", label: "Environment", kind: CustomFieldKind.STRING, required: true });
+
+    const result = await ingest("mail/1", fixture("new-ticket.eml"));
+    expect(result.outcome).toBe(EmailIngestOutcome.CREATED);
+    expect((await repository.getTicket(result.ticketId!))?.customFields).toBeUndefined();
+  });
+
+  it("skips a redelivered message", async () => {
+    const first = await ingest("mail/1", fixture("new-ticket.eml"));
+    const second = await ingest("mail/2", fixture("new-ticket.eml"));
+
+    expect(second).toMatchObject({ outcome: EmailIngestOutcome.DUPLICATE, ticketId: first.ticketId, attachmentIds: [] });
+    expect((await repository.queryTickets({ filters: {}, sort: "desc", limit: 10 })).items).toHaveLength(1);
+  });
+
+  it("adds a reply as a comment without the quoted original", async () => {
+    const created = await ingest("mail/1", fixture("new-ticket.eml"));
+    const reply = await ingest("mail/2", fixture("reply.eml"));
+
+    expect(reply).toMatchObject({ outcome: EmailIngestOutcome.COMMENTED, ticketId: created.ticketId });
+    const { items } = await repository.queryComments(created.ticketId!, { limit: 10 });
+    expect(items).toEqual([expect.objectContaining({ id: reply.commentId, authorId: requester.userId, body: "It happens on the office network too." })]);
+  });
+
+  it("threads by the ticket reference in the subject and rejects senders who cannot see the ticket", async () => {
+    const ticket = await TicketService.createTicket({ title: "Printer jam", description: "Tray 2", status: TicketStatus.NEW, priority: TicketPriority.LOW, type: TicketType.INCIDENT }, { auth: requester });
+
+    const reply = await ingest("mail/1", fixture("subject-reference.eml", { ticketId: ticket.id }));
+    expect(reply).toMatchObject({ outcome: EmailIngestOutcome.COMMENTED, ticketId: ticket.id });
+    expect((await repository.queryComments(ticket.id, { limit: 10 })).items[0].body).toBe("Cleared the tray, it works again.");
+
+    const forbidden = await ingest("mail/2", fixture("subject-reference.eml", { ticketId: ticket.id, from: otherRequester.email }).replace("reference-0003", "reference-0004"));
+    expect(forbidden).toMatchObject({ outcome: EmailIngestOutcome.REJECTED, reason: `Sender cannot comment on ticket ${ticket.id}` });
+  });
+
+  it("ingests email in the sender's organization", async () => {
+    config.tenancy.tenants = JSON.stringify({ acme: {} });
+    const defaultTicket = await TicketService.createTicket({ title: "Printer jam", description: "Tray 2", status: TicketStatus.NEW, priority: TicketPriority.LOW, type: TicketType.INCIDENT }, { auth: requester });
+
+    const created = await ingest("mail/1", fixture("new-ticket.eml", { from: acmeRequester.email }));
+    expect(created.outcome).toBe(EmailIngestOutcome.CREATED);
+    expect(await repository.getTicket(created.ticketId!)).toBeUndefined();
+    expect(await repository.forTenant("acme").getTicket(created.ticketId!)).toMatchObject({ reporterId: acmeRequester.userId });
+    expect(await messageStore.getTicketId(created.messageId)).toBeUndefined();
+
+    // Another organization's ticket is not found, so the reply opens a ticket in the sender's organization instead
+    const reply = await ingest("mail/2", fixture("subject-reference.eml", { ticketId: defaultTicket.id, from: acmeAgent.email }));
+    expect(reply).toMatchObject({ outcome: EmailIngestOutcome.CREATED });
+    expect(reply.ticketId).not.toBe(defaultTicket.id);
+    expect(await repository.forTenant("acme").getTicket(reply.ticketId!)).toMatchObject({ reporterId: acmeAgent.userId });
+    expect((await repository.queryComments(defaultTicket.id, { limit: 10 })).items).toHaveLength(0);
+  });
+
+  it("rejects senders of an organization that is not served", async () => {
+    expect(await ingest("mail/1", fixture("new-ticket.eml", { from: acmeRequester.email }))).toMatchObject({
+      outcome: EmailIngestOutcome.REJECTED,
+      reason: "Sender belongs to an unknown organization",
+    });
+  });
+
+  it("rejects unknown senders and messages flagged as spam", async () => {
+    expect(await ingest("mail/1", fixture("new-ticket.eml", { from: "someone@elsewhere.example" }))).toMatchObject({
+      outcome: EmailIngestOutcome.REJECTED,
+      reason: "Sender is not a known user",
+    });
+    expect(await ingest("mail/2", fixture("new-ticket.eml", { spamVerdict: "FAIL" }))).toMatchObject({
+      outcome: EmailIngestOutcome.REJECTED,
+      reason: "x-ses-spam-verdict is FAIL",
+    });
+    expect((await repository.queryTickets({ filters: {}, sort: "desc", limit: 10 })).items).toHaveLength(0);
+  });
+});
+
+describe("email text", () => {
+  it("derives the title from the subject", () => {
+    expect(titleFromSubject("RE: Fwd: Printer jam [#6f1c1f5e-2a4b-4c1e-9a55-000000000001]")).toBe("Printer jam");
+    expect(titleFromSubject("   ")).toBe("(no subject)");
+    expect(titleFromSubject("x".repeat(80))).toHaveLength(50);
+  });
+
+  it("keeps only the new text of a reply", () => {
+    expect(stripQuotedText("Thanks!\n> quoted\nStill broken\n\nOn Mon, 3 Mar 2025, Ana wrote:\nold text")).toBe("Thanks!\nStill broken");
+  });
+});
@@ -0,0 +1,29 @@
+import { Context, S3Event } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { logger } from "../observability/logger";
+import { runWithRequestContext } from "../observability/request-context";
+import { getInboundMailStorage } from "../repositories";
+import { EmailService } from "../services/email-service";
+import { EmailIngestResult } from "../types/email";
+
+// Object keys in S3 events are URL-encoded, with spaces as "+"
+function decodeKey(key: string): string {
+  return decodeURIComponent(key.replace(/\+/g, " "));
+}
+
+// Invoked by S3 for every raw message an SES receipt rule stores in the inbound bucket.
+// Unexpected errors fail the invocation so that it is retried; messages already ingested are skipped by Message-ID.
+export const handler = async (event: S3Event, context?: Context): Promise<EmailIngestResult[]> => {
+  return runWithRequestContext(context?.awsRequestId ?? randomUUID(), async () => {
+    const results: EmailIngestResult[] = [];
+    for (const record of event.Records) {
+      const bucket = record.s3.bucket.name;
+      const key = decodeKey(record.s3.object.key);
+      logger.info("Email received", { bucket, key });
+
+      const raw = await getInboundMailStorage().getMessage(bucket, key);
+      results.push(await EmailService.ingestEmail(raw));
+    }
+    return results;
+  });
+};
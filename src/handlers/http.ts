@@ -0,0 +1,57 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { config } from "../common/config";
+import { ErrorCodes } from "../common/error-codes";
+import { PreconditionRequiredError } from "../errors/precondition-required.error";
+import { getRequestContext } from "../observability/request-context";
+import { AuthContext } from "../types/auth";
+import { Ticket, TicketWriteOptions } from "../types/ticket";
+import { parseIfMatch, toETag } from "../utils/etag";
+
+// CORS headers configuration
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*', // In production, specify your domain
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key,If-Match,Idempotency-Key,X-Request-Id,X-Tenant-Id',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE',
+  'Access-Control-Expose-Headers': 'ETag,Idempotent-Replayed,Content-Disposition,X-Next-Cursor,X-Request-Id,Allow,Retry-After'
+};
+
+// Helper function to create CORS response
+export function createCorsResponse(statusCode: number, body: string, headers: Record<string, string> = {}): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { ...corsHeaders, ...headers },
+    body
+  };
+}
+
+// Response carrying a ticket, with its version exposed as ETag for conditional requests
+export function createTicketResponse(statusCode: number, ticket: Ticket): APIGatewayProxyResult {
+  return createCorsResponse(statusCode, JSON.stringify(ticket), { ETag: toETag(ticket.version) });
+}
+
+// API Gateway forwards headers with the client's casing
+export function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+  const headers = event.headers ?? {};
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+}
+
+// Ticket version expected by the client through If-Match ("*" matches any version)
+export function getExpectedVersion(event: APIGatewayProxyEvent): number | undefined {
+  const ifMatch = parseIfMatch(getHeader(event, "If-Match"));
+
+  if (ifMatch === undefined && config.requireIfMatch) {
+    throw new PreconditionRequiredError(ErrorCodes.PRECONDITION_REQUIRED, "If-Match header is required to modify a ticket");
+  }
+
+  return ifMatch === "*" ? undefined : ifMatch;
+}
+
+// Who is writing and under which request: permissions are checked against auth, actor and request id go to the history
+export function getWriteOptions(event: APIGatewayProxyEvent, auth: AuthContext): TicketWriteOptions {
+  return {
+    auth,
+    actorId: auth.userId,
+    requestId: getRequestContext()?.correlationId ?? event.requestContext?.requestId
+  };
+}
@@ -0,0 +1,1817 @@
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "crypto";
+import { config } from "../common/config";
+import { ErrorCodes } from "../common/error-codes";
+import { getSearchIndex, getTicketRepository, setAgentLoadStore, setAttachmentStorage, setFieldDefinitionRepository, setIdempotencyStore, setImportReferenceStore, setQueueRepository, setReportCounterStore, setSearchIndex, setTenantUsageStore, setTicketRepository, setWebhookRepository } from "../repositories";
+import { AgentLoadStore } from "../repositories/agent-load-store";
+import { DynamoDbAgentLoadStore } from "../repositories/dynamodb-agent-load-store";
+import { DynamoDbFieldDefinitionRepository } from "../repositories/dynamodb-field-definition-repository";
+import { DynamoDbIdempotencyStore } from "../repositories/dynamodb-idempotency-store";
+import { DynamoDbImportReferenceStore } from "../repositories/dynamodb-import-reference-store";
+import { DynamoDbQueueRepository } from "../repositories/dynamodb-queue-repository";
+import { DynamoDbReportCounterStore } from "../repositories/dynamodb-report-counter-store";
+import { DynamoDbSearchIndex } from "../repositories/dynamodb-search-index";
+import { DynamoDbTenantUsageStore } from "../repositories/dynamodb-tenant-usage-store";
+import { DynamoDbTicketRepository } from "../repositories/dynamodb-ticket-repository";
+import { DynamoDbWebhookRepository } from "../repositories/dynamodb-webhook-repository";
+import { ticketTableDefinition } from "../repositories/dynamodb-table";
+import { InMemoryAgentLoadStore } from "../repositories/in-memory-agent-load-store";
+import { InMemoryAttachmentStorage } from "../repositories/in-memory-attachment-storage";
+import { InMemoryFieldDefinitionRepository } from "../repositories/in-memory-field-definition-repository";
+import { InMemoryIdempotencyStore } from "../repositories/in-memory-idempotency-store";
+import { InMemoryImportReferenceStore } from "../repositories/in-memory-import-reference-store";
+import { InMemoryQueueRepository } from "../repositories/in-memory-queue-repository";
+import { InMemoryReportCounterStore } from "../repositories/in-memory-report-counter-store";
+import { InMemorySearchIndex } from "../repositories/in-memory-search-index";
+import { InMemoryTenantUsageStore } from "../repositories/in-memory-tenant-usage-store";
+import { InMemoryTicketRepository } from "../repositories/in-memory-ticket-repository";
+import { InMemoryWebhookRepository } from "../repositories/in-memory-webhook-repository";
+import { FieldDefinitionRepository } from "../repositories/field-definition-repository";
+import { IdempotencyStore } from "../repositories/idempotency-store";
+import { ImportReferenceStore } from "../repositories/import-reference-store";
+import { QueueRepository } from "../repositories/queue-repository";
+import { ReportCounterStore } from "../repositories/report-counter-store";
+import { TicketSearchIndex } from "../repositories/search-index";
+import { TenantUsageStore } from "../repositories/tenant-usage-store";
+import { TicketRepository } from "../repositories/ticket-repository";
+import { WebhookRepository } from "../repositories/webhook-repository";
+import { signWebhookPayload } from "../services/webhook-service";
+import { callApi, installTestAuth, TestUser } from "../test-utils/api";
+import { WebhookReceiver } from "../test-utils/webhook-receiver";
+import { handler as dispatchWebhooks } from "./webhook-dispatcher";
+
+interface Backend {
+  setup(): Promise<{
+    repository: TicketRepository;
+    searchIndex: TicketSearchIndex;
+    idempotencyStore: IdempotencyStore;
+    reportCounterStore: ReportCounterStore;
+    queueRepository: QueueRepository;
+    agentLoadStore: AgentLoadStore;
+    webhookRepository: WebhookRepository;
+    tenantUsageStore: TenantUsageStore;
+    fieldDefinitionRepository: FieldDefinitionRepository;
+    importReferenceStore: ImportReferenceStore;
+  }>;
+  teardown(): Promise<void>;
+}
+
+const inMemoryBackend: Backend = {
+  setup: async () => ({
+    repository: new InMemoryTicketRepository(),
+    searchIndex: new InMemorySearchIndex(),
+    idempotencyStore: new InMemoryIdempotencyStore(),
+    reportCounterStore: new InMemoryReportCounterStore(),
+    queueRepository: new InMemoryQueueRepository(),
+    agentLoadStore: new InMemoryAgentLoadStore(),
+    webhookRepository: new InMemoryWebhookRepository(),
+    tenantUsageStore: new InMemoryTenantUsageStore(),
+    fieldDefinitionRepository: new InMemoryFieldDefinitionRepository(),
+    importReferenceStore: new InMemoryImportReferenceStore(),
+  }),
+  teardown: async () => {},
+};
+
+// Integration backend: a throwaway table on DynamoDB Local, only when DYNAMODB_ENDPOINT is set
+function dynamoDbLocalBackend(endpoint: string): Backend {
+  const client = new DynamoDBClient({
+    endpoint,
+    region: process.env.AWS_REGION ?? "local",
+    credentials: { accessKeyId: "local", secretAccessKey: "local" },
+  });
+  const tableName = `tickets-test-${Date.now()}`;
+
+  return {
+    setup: async () => {
+      await client.send(new CreateTableCommand(ticketTableDefinition(tableName)));
+      const docClient = DynamoDBDocumentClient.from(client, { marshallOptions: { removeUndefinedValues: true } });
+      return {
+        repository: new DynamoDbTicketRepository(docClient, tableName),
+        searchIndex: new DynamoDbSearchIndex(docClient, tableName),
+        idempotencyStore: new DynamoDbIdempotencyStore(docClient, tableName),
+        reportCounterStore: new DynamoDbReportCounterStore(docClient, tableName),
+        queueRepository: new DynamoDbQueueRepository(docClient, tableName),
+        agentLoadStore: new DynamoDbAgentLoadStore(docClient, tableName),
+        webhookRepository: new DynamoDbWebhookRepository(docClient, tableName),
+        tenantUsageStore: new DynamoDbTenantUsageStore(docClient, tableName),
+        fieldDefinitionRepository: new DynamoDbFieldDefinitionRepository(docClient, tableName),
+        importReferenceStore: new DynamoDbImportReferenceStore(docClient, tableName),
+      };
+    },
+    teardown: async () => {
+      await client.send(new DeleteTableCommand({ TableName: tableName }));
+    },
+  };
+}
+
+// Timestamps have millisecond precision; ordering assertions need distinct ones
+function nextMillisecond(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 2));
+}
+
+function describeApi(name: string, backend: Backend) {
+  describe(`ticket API (${name})`, () => {
+    let admin: TestUser;
+    let agent: TestUser;
+    let requester: TestUser;
+    let otherRequester: TestUser;
+    // Object storage is always the local stand-in
+    const attachmentStorage = new InMemoryAttachmentStorage();
+
+    beforeAll(async () => {
+      installTestAuth();
+      const { repository, searchIndex, idempotencyStore, reportCounterStore, queueRepository, agentLoadStore, webhookRepository, tenantUsageStore, fieldDefinitionRepository, importReferenceStore } = await backend.setup();
+      setTicketRepository(repository);
+      setSearchIndex(searchIndex);
+      setIdempotencyStore(idempotencyStore);
+      setReportCounterStore(reportCounterStore);
+      setQueueRepository(queueRepository);
+      setAgentLoadStore(agentLoadStore);
+      setWebhookRepository(webhookRepository);
+      setTenantUsageStore(tenantUsageStore);
+      setFieldDefinitionRepository(fieldDefinitionRepository);
+      setImportReferenceStore(importReferenceStore);
+      setAttachmentStorage(attachmentStorage);
+    });
+
+    afterAll(async () => {
+      setTicketRepository(undefined);
+      setSearchIndex(undefined);
+      setAttachmentStorage(undefined);
+      setIdempotencyStore(undefined);
+      setReportCounterStore(undefined);
+      setQueueRepository(undefined);
+      setAgentLoadStore(undefined);
+      setWebhookRepository(undefined);
+      setTenantUsageStore(undefined);
+      setFieldDefinitionRepository(undefined);
+      setImportReferenceStore(undefined);
+      await backend.teardown();
+    });
+
+    // Fresh users per test keep tests independent on a shared table: listings filter by reporter
+    beforeEach(() => {
+      admin = { sub: randomUUID(), groups: ["admin"] };
+      agent = { sub: randomUUID(), groups: ["agent"] };
+      requester = { sub: randomUUID() };
+      otherRequester = { sub: randomUUID() };
+      config.requireIfMatch = false;
+    });
+
+    async function createTicket(user: TestUser, body: Record<string, unknown> = {}) {
+      const response = await callApi({
+        method: "POST",
+        path: "/v1/tickets",
+        user,
+        body: { title: "Printer on fire", description: "Third floor printer", ...body },
+      });
+      expect(response.statusCode).toBe(201);
+      return response.body;
+    }
+
+    describe("authentication and routing", () => {
+      it("answers CORS preflight requests without a token", async () => {
+        const response = await callApi({ method: "OPTIONS", path: "/v1/tickets", user: null });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers["Access-Control-Allow-Headers"]).toContain("If-Match");
+      });
+
+      it("rejects requests without a bearer token", async () => {
+        const response = await callApi({ method: "GET", path: "/v1/tickets", user: null });
+
+        expect(response.statusCode).toBe(401);
+        expect(response.headers["WWW-Authenticate"]).toBe("Bearer");
+        expect(response.body.code).toBe(ErrorCodes.UNAUTHORIZED);
+      });
+
+      it("rejects tokens that fail verification", async () => {
+        const response = await callApi({ method: "GET", path: "/v1/tickets", user: null, headers: { Authorization: "Bearer not.a.jwt" } });
+
+        expect(response.statusCode).toBe(401);
+      });
+
+      it("returns 404 for unknown paths", async () => {
+        const response = await callApi({ method: "GET", path: "/v2/unknown", user: requester });
+
+        expect(response.statusCode).toBe(404);
+        expect(response.body.code).toBe(ErrorCodes.PATH_NOT_FOUND);
+      });
+
+      it("returns 405 with the allowed methods for unsupported methods on known paths", async () => {
+        const search = await callApi({ method: "POST", path: "/v1/tickets/search", user: requester, body: {} });
+        expect(search.statusCode).toBe(405);
+        expect(search.headers.Allow).toBe("GET");
+        expect(search.body.code).toBe(ErrorCodes.METHOD_NOT_ALLOWED);
+
+        const ticket = await callApi({ method: "POST", path: `/v1/tickets/${randomUUID()}`, user: requester, body: {} });
+        expect(ticket.statusCode).toBe(405);
+        expect(ticket.headers.Allow).toBe("GET, PUT, PATCH, DELETE");
+      });
+
+      it("echoes the caller's X-Request-Id, or the API Gateway request id, in responses and error bodies", async () => {
+        const traced = await callApi({ method: "GET", path: `/v1/tickets/${randomUUID()}`, user: requester, headers: { "X-Request-Id": "client-trace-42" } });
+        expect(traced.statusCode).toBe(404);
+        expect(traced.headers["X-Request-Id"]).toBe("client-trace-42");
+        expect(traced.body.requestId).toBe("client-trace-42");
+
+        // Values that are not plain tokens are not echoed back
+        const untraced = await callApi({ method: "GET", path: "/v1/tickets", user: requester, headers: { "X-Request-Id": "<script>" } });
+        expect(untraced.headers["X-Request-Id"]).toMatch(/^test-/);
+      });
+
+      it("logs requests without credentials and emits route metrics", async () => {
+        const log = jest.spyOn(console, "log").mockImplementation(() => {});
+        const ticket = await createTicket(requester);
+        await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/comments`, user: requester, headers: { "X-Request-Id": "metrics-1" } });
+        await callApi({ method: "GET", path: "/v2/unknown", user: requester, headers: { "X-Request-Id": "metrics-2" } });
+
+        const lines = log.mock.calls.map(([line]) => JSON.parse(line));
+        log.mockRestore();
+        expect(JSON.stringify(lines)).not.toMatch(/Bearer (?!\[REDACTED\])/);
+
+        const received = lines.find(line => line.message === "Request received" && line.correlationId === "metrics-1");
+        expect(received).toMatchObject({ route: "GET /v1/tickets/{id}/comments", headers: { Authorization: "[REDACTED]" } });
+
+        const metrics = lines.filter(line => line._aws);
+        expect(metrics).toContainEqual(expect.objectContaining({ Route: "GET /v1/tickets/{id}/comments", Latency: expect.any(Number), ConsumedCapacity: 0 }));
+        expect(metrics).toContainEqual(expect.objectContaining({ Route: "UNMATCHED" }));
+        expect(metrics).toContainEqual(expect.objectContaining({
+          ErrorCode: ErrorCodes.PATH_NOT_FOUND,
+          Errors: 1,
+          _aws: expect.objectContaining({ CloudWatchMetrics: [expect.objectContaining({ Dimensions: [["ErrorCode"]], Metrics: [{ Name: "Errors", Unit: "Count" }] })] }),
+        }));
+      });
+
+      it("returns 400 for malformed JSON bodies", async () => {
+        const response = await callApi({ method: "POST", path: "/v1/tickets", user: requester, body: "{not json" });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body.message).toBe("Invalid JSON body");
+      });
+
+      it("returns 500 without internals when storage fails", async () => {
+        jest.spyOn(getTicketRepository(), "getTicket").mockRejectedValueOnce(new Error("connection reset"));
+
+        const response = await callApi({ method: "GET", path: `/v1/tickets/${randomUUID()}`, user: admin });
+
+        expect(response.statusCode).toBe(500);
+        expect(response.body).toEqual({ code: ErrorCodes.INTERNAL_SERVER_ERROR, message: "Unexpected server error", requestId: response.headers["X-Request-Id"] });
+      });
+
+      it("still answers a write whose follow-ups fail, and runs the other follow-ups", async () => {
+        const today = new Date().toISOString().slice(0, 10);
+        const before = await callApi({ method: "GET", path: "/v1/reports/tickets", user: agent, query: { from: today, to: today } });
+        jest.spyOn(getSearchIndex(), "indexField").mockRejectedValueOnce(new Error("throttled"));
+
+        const created = await callApi({ method: "POST", path: "/v1/tickets", user: requester, body: { title: "VPN down", description: "Cannot connect" } });
+
+        expect(created.statusCode).toBe(201);
+        const after = await callApi({ method: "GET", path: "/v1/reports/tickets", user: agent, query: { from: today, to: today } });
+        expect(after.body.counts.total - before.body.counts.total).toBe(1);
+      });
+    });
+
+    describe("POST /v1/tickets", () => {
+      it("creates a ticket reported by the caller with defaults, version and SLA targets", async () => {
+        const response = await callApi({
+          method: "POST",
+          path: "/v1/tickets",
+          user: requester,
+          body: { title: "VPN down", description: "Cannot connect", priority: "HIGH" },
+        });
+
+        expect(response.statusCode).toBe(201);
+        expect(response.headers.ETag).toBe('"1"');
+        expect(response.body).toMatchObject({
+          title: "VPN down",
+          status: "NEW",
+          type: "INCIDENT",
+          priority: "HIGH",
+          reporterId: requester.sub,
+          version: 1,
+          commentCount: 0,
+          slaState: "ON_TRACK",
+        });
+        const createdAt = Date.parse(response.body.createdAt);
+        expect(Date.parse(response.body.responseDueAt) - createdAt).toBe(60 * 60 * 1000);
+        expect(Date.parse(response.body.resolutionDueAt) - createdAt).toBe(8 * 60 * 60 * 1000);
+      });
+
+      it("returns 400 without a body", async () => {
+        const response = await callApi({ method: "POST", path: "/v1/tickets", user: requester });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body.details).toEqual(["Body not found"]);
+      });
+
+      it("returns 400 with the invalid fields", async () => {
+        const response = await callApi({ method: "POST", path: "/v1/tickets", user: requester, body: { title: "", priority: "URGENT" } });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body.code).toBe(ErrorCodes.BAD_REQUEST);
+        expect(response.body.details).toEqual(expect.arrayContaining([
+          expect.stringMatching(/^title - /),
+          expect.stringMatching(/^description - /),
+          expect.stringMatching(/^priority - /),
+        ]));
+      });
+
+      it("returns 422 for a status that is not initial", async () => {
+        const response = await callApi({ method: "POST", path: "/v1/tickets", user: requester, body: { title: "a", description: "b", status: "RESOLVED" } });
+
+        expect(response.statusCode).toBe(422);
+        expect(response.body.code).toBe(ErrorCodes.INVALID_STATUS_TRANSITION);
+        expect(response.body.details).toEqual(["NEW", "OPEN"]);
+      });
+
+      it("only lets staff report on behalf of someone else", async () => {
+        const denied = await callApi({ method: "POST", path: "/v1/tickets", user: requester, body: { title: "a", description: "b", reporterId: otherRequester.sub } });
+        expect(denied.statusCode).toBe(403);
+
+        const ticket = await createTicket(agent, { reporterId: otherRequester.sub });
+        expect(ticket.reporterId).toBe(otherRequester.sub);
+      });
+    });
+
+    describe("GET /v1/tickets/{id}", () => {
+      it("returns the ticket with its ETag", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers.ETag).toBe('"1"');
+        expect(response.body).toEqual(ticket);
+      });
+
+      it("returns 400 for an id that is not a UUID", async () => {
+        const response = await callApi({ method: "GET", path: "/v1/tickets/not-a-uuid", user: requester });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body.message).toBe("Invalid ticket ID");
+      });
+
+      it("returns 404 for a missing ticket", async () => {
+        const response = await callApi({ method: "GET", path: `/v1/tickets/${randomUUID()}`, user: admin });
+
+        expect(response.statusCode).toBe(404);
+        expect(response.body.code).toBe(ErrorCodes.TICKET_NOT_FOUND);
+      });
+
+      it("hides other requesters' tickets but not from staff", async () => {
+        const ticket = await createTicket(requester);
+
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: otherRequester })).statusCode).toBe(403);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: agent })).statusCode).toBe(200);
+      });
+    });
+
+    describe("GET /v1/tickets", () => {
+      it("filters, sorts and paginates with a cursor", async () => {
+        const first = await createTicket(requester, { priority: "LOW" });
+        const second = await createTicket(requester, { priority: "HIGH" });
+        const third = await createTicket(requester, { priority: "HIGH" });
+        await createTicket(otherRequester, { priority: "HIGH" });
+
+        const page1 = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query: { reporterId: requester.sub, limit: "2", sort: "asc" } });
+        expect(page1.statusCode).toBe(200);
+        expect(page1.body.items).toHaveLength(2);
+        expect(page1.body.nextCursor).toEqual(expect.any(String));
+
+        const page2 = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query: { reporterId: requester.sub, limit: "2", sort: "asc", cursor: page1.body.nextCursor } });
+        expect(page2.body.items).toHaveLength(1);
+        expect(page2.body.nextCursor).toBeNull();
+
+        const ids = [...page1.body.items, ...page2.body.items].map((ticket: any) => ticket.id);
+        expect(ids.sort()).toEqual([first.id, second.id, third.id].sort());
+
+        const high = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query: { reporterId: requester.sub, priority: "HIGH" } });
+        expect(high.body.items.map((ticket: any) => ticket.id).sort()).toEqual([second.id, third.id].sort());
+      });
+
+      it("accepts the SLA state in any case", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query: { reporterId: requester.sub, slaState: "on_track" } });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body.items.map((item: any) => item.id)).toEqual([ticket.id]);
+      });
+
+      it("restricts requesters to their own tickets", async () => {
+        const own = await createTicket(requester);
+        await createTicket(otherRequester);
+
+        const response = await callApi({ method: "GET", path: "/v1/tickets", user: requester });
+        expect(response.body.items.map((item: any) => item.id)).toEqual([own.id]);
+
+        const denied = await callApi({ method: "GET", path: "/v1/tickets", user: requester, query: { reporterId: otherRequester.sub } });
+        expect(denied.statusCode).toBe(403);
+      });
+
+      it.each([
+        [{ limit: "0" }],
+        [{ status: "SLEEPING" }],
+        [{ cursor: "garbage" }],
+        [{ createdFrom: "2025-02-01T00:00:00Z", createdTo: "2025-01-01T00:00:00Z" }],
+      ])("returns 400 for invalid query %j", async query => {
+        const response = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.body.code).toBe(ErrorCodes.BAD_REQUEST);
+      });
+    });
+
+    describe("PUT /v1/tickets/{id}", () => {
+      function fullTicket(ticket: any, changes: Record<string, unknown> = {}) {
+        const { title, description, status, reporterId, priority, type } = ticket;
+        return { title, description, status, reporterId, priority, type, ...changes };
+      }
+
+      it("replaces the ticket and bumps the version", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await callApi({
+          method: "PUT",
+          path: `/v1/tickets/${ticket.id}`,
+          user: requester,
+          headers: { "If-Match": '"1"' },
+          body: fullTicket(ticket, { title: "Printer fixed?" }),
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers.ETag).toBe('"2"');
+        expect(response.body).toMatchObject({ title: "Printer fixed?", version: 2 });
+      });
+
+      it("returns 412 when If-Match is stale and 400 when it is malformed", async () => {
+        const ticket = await createTicket(requester);
+        const request = { method: "PUT", path: `/v1/tickets/${ticket.id}`, user: requester, body: fullTicket(ticket) };
+
+        const stale = await callApi({ ...request, headers: { "If-Match": '"7"' } });
+        expect(stale.statusCode).toBe(412);
+        expect(stale.body.code).toBe(ErrorCodes.PRECONDITION_FAILED);
+
+        const malformed = await callApi({ ...request, headers: { "If-Match": "seven" } });
+        expect(malformed.statusCode).toBe(400);
+      });
+
+      it("returns 428 without If-Match when it is required", async () => {
+        const ticket = await createTicket(requester);
+        config.requireIfMatch = true;
+
+        const response = await callApi({ method: "PUT", path: `/v1/tickets/${ticket.id}`, user: requester, body: fullTicket(ticket) });
+
+        expect(response.statusCode).toBe(428);
+        expect(response.body.code).toBe(ErrorCodes.PRECONDITION_REQUIRED);
+      });
+
+      it("enforces the status workflow", async () => {
+        const ticket = await createTicket(requester);
+
+        const disallowed = await callApi({ method: "PUT", path: `/v1/tickets/${ticket.id}`, user: requester, body: fullTicket(ticket, { status: "RESOLVED", resolutionNote: "Done" }) });
+        expect(disallowed.statusCode).toBe(409);
+        expect(disallowed.body.details).toEqual(["OPEN", "IN_PROGRESS", "CLOSED"]);
+
+        const incomplete = await callApi({ method: "PUT", path: `/v1/tickets/${ticket.id}`, user: requester, body: fullTicket(ticket, { status: "IN_PROGRESS" }) });
+        expect(incomplete.statusCode).toBe(422);
+        expect(incomplete.body.details).toEqual(["assignedToId - Required for status IN_PROGRESS"]);
+      });
+
+      it("returns 400 for an incomplete body, 403 for other requesters and 404 for missing tickets", async () => {
+        const ticket = await createTicket(requester);
+
+        const incomplete = await callApi({ method: "PUT", path: `/v1/tickets/${ticket.id}`, user: requester, body: { title: "Only a title" } });
+        expect(incomplete.statusCode).toBe(400);
+
+        const forbidden = await callApi({ method: "PUT", path: `/v1/tickets/${ticket.id}`, user: otherRequester, body: fullTicket(ticket) });
+        expect(forbidden.statusCode).toBe(403);
+
+        const missing = await callApi({ method: "PUT", path: `/v1/tickets/${randomUUID()}`, user: admin, body: fullTicket(ticket) });
+        expect(missing.statusCode).toBe(404);
+      });
+    });
+
+    describe("PATCH /v1/tickets/{id}", () => {
+      it("assigns, moves through the workflow and records who changed the status", async () => {
+        const ticket = await createTicket(requester);
+
+        const started = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: admin, body: { assignedToId: agent.sub, status: "IN_PROGRESS" } });
+        expect(started.statusCode).toBe(200);
+        expect(started.body).toMatchObject({ status: "IN_PROGRESS", assignedToId: agent.sub, statusChangedBy: admin.sub, version: 2 });
+        expect(started.body.firstRespondedAt).toEqual(expect.any(String));
+
+        // Agents edit the tickets assigned to them
+        const waiting = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: agent, body: { status: "WAITING_ON_CUSTOMER" } });
+        expect(waiting.statusCode).toBe(200);
+        expect(waiting.body.slaPausedAt).toEqual(expect.any(String));
+
+        const resumed = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: agent, body: { status: "OPEN" } });
+        expect(resumed.body.slaPausedAt).toBeUndefined();
+        expect(resumed.body.slaPausedMs).toEqual(expect.any(Number));
+
+        const stored = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester });
+        expect(stored.body).toEqual(resumed.body);
+      });
+
+      it("removes fields set to null", async () => {
+        const ticket = await createTicket(agent, { reporterId: requester.sub, assignedToId: agent.sub });
+
+        const response = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: admin, body: { assignedToId: null } });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).not.toHaveProperty("assignedToId");
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: admin })).body).not.toHaveProperty("assignedToId");
+      });
+
+      it("returns 400 for an empty patch", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: {} });
+
+        expect(response.statusCode).toBe(400);
+      });
+
+      it("stops an agent from editing tickets not assigned to them", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: agent, body: { priority: "LOW" } });
+
+        expect(response.statusCode).toBe(403);
+      });
+
+      it("returns 412 when concurrent writes keep winning", async () => {
+        const ticket = await createTicket(requester);
+        const updateTicket = jest.spyOn(getTicketRepository(), "updateTicket").mockResolvedValue(false);
+
+        const response = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { priority: "LOW" } });
+
+        expect(response.statusCode).toBe(412);
+        expect(updateTicket).toHaveBeenCalledTimes(3);
+        updateTicket.mockRestore();
+      });
+    });
+
+    describe("DELETE /v1/tickets/{id}", () => {
+      it("only lets admins delete, and keeps the history", async () => {
+        const ticket = await createTicket(requester);
+
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: requester })).statusCode).toBe(403);
+
+        await nextMillisecond();
+        const deleted = await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin, headers: { "If-Match": '"1"' } });
+        expect(deleted.statusCode).toBe(204);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: admin })).statusCode).toBe(404);
+
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/history`, user: admin });
+        expect(history.body.items.map((entry: any) => entry.action)).toEqual(["DELETED", "CREATED"]);
+      });
+
+      it("returns 404 for missing tickets and 412 for stale versions", async () => {
+        const ticket = await createTicket(requester);
+
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${randomUUID()}`, user: admin })).statusCode).toBe(404);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin, headers: { "If-Match": '"2"' } })).statusCode).toBe(412);
+      });
+    });
+
+    describe("trash", () => {
+      it("keeps deleted tickets in the trash until they are restored", async () => {
+        const ticket = await createTicket(requester);
+        await nextMillisecond();
+        await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin });
+
+        const listed = await callApi({ method: "GET", path: "/v1/tickets", user: admin, query: { reporterId: requester.sub, limit: "100" } });
+        expect(listed.body.items.map((item: any) => item.id)).not.toContain(ticket.id);
+
+        expect((await callApi({ method: "GET", path: "/v1/tickets/trash", user: agent })).statusCode).toBe(403);
+        const trash = await callApi({ method: "GET", path: "/v1/tickets/trash", user: admin, query: { limit: "100" } });
+        expect(trash.statusCode).toBe(200);
+        const trashed = trash.body.items.find((item: any) => item.id === ticket.id);
+        expect(trashed).toMatchObject({ version: 2, deletedBy: admin.sub });
+        expect(new Date(trashed.purgeAt).getTime() - new Date(trashed.deletedAt).getTime()).toBe(config.trash.retentionDays * 24 * 60 * 60 * 1000);
+
+        await nextMillisecond();
+        expect((await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}:restore`, user: admin, headers: { "If-Match": '"1"' } })).statusCode).toBe(412);
+        const restored = await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}:restore`, user: admin, headers: { "If-Match": '"2"' } });
+        expect(restored.statusCode).toBe(200);
+        expect(restored.headers.ETag).toBe('"3"');
+        expect(restored.body.deletedAt).toBeUndefined();
+        expect(restored.body.purgeAt).toBeUndefined();
+
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester })).statusCode).toBe(200);
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/history`, user: admin });
+        expect(history.body.items.map((entry: any) => entry.action)).toEqual(["RESTORED", "DELETED", "CREATED"]);
+
+        const again = await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}:restore`, user: admin });
+        expect(again.statusCode).toBe(409);
+        expect(again.body.code).toBe(ErrorCodes.TICKET_NOT_DELETED);
+      });
+
+      it("hides deleted tickets from their sub-resources", async () => {
+        const ticket = await createTicket(requester);
+        await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin });
+
+        const comment = await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}/comments`, user: requester, body: { body: "Still there?" } });
+        expect(comment.statusCode).toBe(404);
+        expect((await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { priority: "LOW" } })).statusCode).toBe(404);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin })).statusCode).toBe(404);
+      });
+
+      it("purges tickets with hard=true, from the trash or not", async () => {
+        const trashed = await createTicket(requester);
+        const live = await createTicket(requester);
+        await nextMillisecond();
+        await callApi({ method: "DELETE", path: `/v1/tickets/${trashed.id}`, user: admin });
+
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${trashed.id}`, user: admin, query: { hard: "yes" } })).statusCode).toBe(400);
+        await nextMillisecond();
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${trashed.id}`, user: admin, query: { hard: "true" } })).statusCode).toBe(204);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${live.id}`, user: admin, query: { hard: "true" } })).statusCode).toBe(204);
+
+        const trash = await callApi({ method: "GET", path: "/v1/tickets/trash", user: admin, query: { limit: "100" } });
+        expect(trash.body.items.map((item: any) => item.id)).not.toContain(trashed.id);
+        expect((await callApi({ method: "POST", path: `/v1/tickets/${trashed.id}:restore`, user: admin })).statusCode).toBe(404);
+
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${trashed.id}/history`, user: admin });
+        expect(history.body.items.map((entry: any) => entry.action)).toEqual(["PURGED", "DELETED", "CREATED"]);
+      });
+    });
+
+    describe("comments", () => {
+      it("creates, lists, edits and deletes comments, keeping the counter", async () => {
+        const ticket = await createTicket(requester);
+        const path = `/v1/tickets/${ticket.id}/comments`;
+
+        const created = await callApi({ method: "POST", path, user: requester, body: { body: "Any news?" } });
+        expect(created.statusCode).toBe(201);
+        expect(created.body).toMatchObject({ ticketId: ticket.id, authorId: requester.sub, body: "Any news?" });
+
+        await nextMillisecond();
+        const reply = await callApi({ method: "POST", path, user: agent, body: { body: "On it" } });
+        expect(reply.statusCode).toBe(201);
+
+        const listed = await callApi({ method: "GET", path, user: requester, query: { limit: "1" } });
+        expect(listed.body.items.map((comment: any) => comment.id)).toEqual([created.body.id]);
+        const next = await callApi({ method: "GET", path, user: requester, query: { limit: "1", cursor: listed.body.nextCursor } });
+        expect(next.body.items.map((comment: any) => comment.id)).toEqual([reply.body.id]);
+
+        const edited = await callApi({ method: "PATCH", path: `${path}/${created.body.id}`, user: requester, body: { body: "Any news? It is urgent" } });
+        expect(edited.statusCode).toBe(200);
+        expect(edited.body.body).toBe("Any news? It is urgent");
+
+        const stored = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester });
+        expect(stored.body.commentCount).toBe(2);
+        // A staff reply counts as the first response
+        expect(stored.body.firstRespondedAt).toBe(reply.body.createdAt);
+
+        expect((await callApi({ method: "DELETE", path: `${path}/${reply.body.id}`, user: admin })).statusCode).toBe(204);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester })).body.commentCount).toBe(1);
+      });
+
+      it("only lets the author edit and the author or an admin delete", async () => {
+        const ticket = await createTicket(agent, { reporterId: requester.sub });
+        const comment = (await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}/comments`, user: requester, body: { body: "Hello" } })).body;
+        const path = `/v1/tickets/${ticket.id}/comments/${comment.id}`;
+
+        expect((await callApi({ method: "PATCH", path, user: agent, body: { body: "Edited" } })).statusCode).toBe(403);
+        expect((await callApi({ method: "DELETE", path, user: agent })).statusCode).toBe(403);
+        expect((await callApi({ method: "DELETE", path, user: requester })).statusCode).toBe(204);
+      });
+
+      it("returns 404 for missing tickets and comments, 403 for hidden tickets, 400 for invalid input", async () => {
+        const ticket = await createTicket(requester);
+
+        const noTicket = await callApi({ method: "POST", path: `/v1/tickets/${randomUUID()}/comments`, user: admin, body: { body: "Hello" } });
+        expect(noTicket.statusCode).toBe(404);
+        expect(noTicket.body.code).toBe(ErrorCodes.TICKET_NOT_FOUND);
+
+        const noComment = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}/comments/${randomUUID()}`, user: requester, body: { body: "Edited" } });
+        expect(noComment.statusCode).toBe(404);
+        expect(noComment.body.code).toBe(ErrorCodes.COMMENT_NOT_FOUND);
+
+        const noCommentToDelete = await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}/comments/${randomUUID()}`, user: admin });
+        expect(noCommentToDelete.statusCode).toBe(404);
+
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/comments`, user: otherRequester })).statusCode).toBe(403);
+        expect((await callApi({ method: "POST", path: `/v1/tickets/${ticket.id}/comments`, user: requester, body: { body: "" } })).statusCode).toBe(400);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}/comments/not-a-uuid`, user: admin })).statusCode).toBe(400);
+      });
+    });
+
+    describe("links and merges", () => {
+      async function link(user: TestUser, ticketId: string, type: string, linkedTicketId: string) {
+        return callApi({ method: "POST", path: `/v1/tickets/${ticketId}/links`, user, body: { type, ticketId: linkedTicketId } });
+      }
+
+      it("links both tickets, keeps one parent per ticket and refuses cycles", async () => {
+        const [parent, child, grandchild] = [await createTicket(agent), await createTicket(agent), await createTicket(agent)];
+
+        const created = await link(admin, parent.id, "PARENT_OF", child.id);
+        expect(created.statusCode).toBe(201);
+        expect(created.body).toMatchObject({ ticketId: parent.id, linkedTicketId: child.id, type: "PARENT_OF", createdBy: admin.sub });
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${child.id}/links`, user: requester })).statusCode).toBe(403);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${child.id}/links`, user: agent })).body.items)
+          .toEqual([expect.objectContaining({ linkedTicketId: parent.id, type: "CHILD_OF" })]);
+
+        expect((await link(admin, child.id, "RELATES_TO", parent.id)).body.code).toBe(ErrorCodes.TICKET_LINK_EXISTS);
+        expect((await link(admin, grandchild.id, "PARENT_OF", child.id)).body.code).toBe(ErrorCodes.INVALID_TICKET_LINK);
+        expect((await link(admin, child.id, "PARENT_OF", grandchild.id)).statusCode).toBe(201);
+        const cycle = await link(admin, grandchild.id, "PARENT_OF", parent.id);
+        expect(cycle.statusCode).toBe(409);
+        expect(cycle.body.message).toContain("would create a cycle");
+        expect((await link(admin, parent.id, "BLOCKS", parent.id)).statusCode).toBe(400);
+
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${grandchild.id}/links/${child.id}`, user: admin })).statusCode).toBe(204);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${child.id}/links`, user: agent })).body.items).toHaveLength(1);
+        const missing = await callApi({ method: "DELETE", path: `/v1/tickets/${grandchild.id}/links/${child.id}`, user: admin });
+        expect(missing.body.code).toBe(ErrorCodes.TICKET_LINK_NOT_FOUND);
+      });
+
+      it("keeps a parent open while it has open children", async () => {
+        const [parent, child] = [await createTicket(admin), await createTicket(admin)];
+        await link(admin, child.id, "CHILD_OF", parent.id);
+
+        const blocked = await callApi({ method: "PATCH", path: `/v1/tickets/${parent.id}`, user: admin, body: { status: "CLOSED" } });
+        expect(blocked.statusCode).toBe(409);
+        expect(blocked.body).toMatchObject({ code: ErrorCodes.OPEN_CHILD_TICKETS, details: [child.id] });
+
+        expect((await callApi({ method: "PATCH", path: `/v1/tickets/${child.id}`, user: admin, body: { status: "CLOSED" } })).statusCode).toBe(200);
+        expect((await callApi({ method: "PATCH", path: `/v1/tickets/${parent.id}`, user: admin, body: { status: "CLOSED" } })).statusCode).toBe(200);
+      });
+
+      it("merges duplicates into a survivor, moving their comments and copying their history", async () => {
+        const survivor = await createTicket(requester);
+        const duplicate = await createTicket(otherRequester);
+        await callApi({ method: "PATCH", path: `/v1/tickets/${duplicate.id}`, user: admin, body: { status: "IN_PROGRESS", assignedToId: agent.sub } });
+        const comment = (await callApi({ method: "POST", path: `/v1/tickets/${duplicate.id}/comments`, user: otherRequester, body: { body: "Same here" } })).body;
+        const path = `/v1/tickets/${survivor.id}:merge`;
+
+        expect((await callApi({ method: "POST", path, user: requester, body: { duplicateIds: [duplicate.id] } })).statusCode).toBe(403);
+        expect((await callApi({ method: "POST", path, user: agent, body: { duplicateIds: [survivor.id] } })).statusCode).toBe(400);
+
+        const merged = await callApi({ method: "POST", path, user: agent, body: { duplicateIds: [duplicate.id] } });
+        expect(merged.statusCode).toBe(200);
+        expect(merged.body.merged).toEqual([{ ticketId: duplicate.id, movedComments: 1, copiedHistoryEntries: 3 }]);
+        expect(merged.body.ticket).toMatchObject({ id: survivor.id, commentCount: 1, version: survivor.version + 1 });
+
+        const closed = (await callApi({ method: "GET", path: `/v1/tickets/${duplicate.id}`, user: admin })).body;
+        expect(closed).toMatchObject({ status: "CLOSED", mergedIntoId: survivor.id, commentCount: 0 });
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${duplicate.id}/links`, user: admin })).body.items)
+          .toEqual([expect.objectContaining({ linkedTicketId: survivor.id, type: "DUPLICATE_OF" })]);
+
+        const comments = await callApi({ method: "GET", path: `/v1/tickets/${survivor.id}/comments`, user: requester });
+        expect(comments.body.items).toEqual([expect.objectContaining({ id: comment.id, ticketId: survivor.id, mergedFromTicketId: duplicate.id, body: "Same here" })]);
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${survivor.id}/history`, user: admin });
+        expect(history.body.items.map((entry: any) => [entry.action, entry.mergedFromTicketId ?? null]).sort()).toEqual([
+          ["CREATED", duplicate.id],
+          ["CREATED", null],
+          ["MERGED", duplicate.id],
+          ["MERGED", null],
+          ["UPDATED", duplicate.id],
+        ].sort());
+
+        // Sent again, the merge only records itself on the survivor
+        const again = await callApi({ method: "POST", path, user: agent, body: { duplicateIds: [duplicate.id] } });
+        expect(again.body.merged).toEqual([{ ticketId: duplicate.id, movedComments: 0, copiedHistoryEntries: 3 }]);
+        const intoDuplicate = await callApi({ method: "POST", path: `/v1/tickets/${duplicate.id}:merge`, user: agent, body: { duplicateIds: [survivor.id] } });
+        expect(intoDuplicate.body.code).toBe(ErrorCodes.INVALID_TICKET_MERGE);
+      });
+    });
+
+    describe("Idempotency-Key", () => {
+      it("creates a single ticket and replays the response on retries", async () => {
+        const request = { method: "POST", path: "/v1/tickets", user: requester, headers: { "Idempotency-Key": randomUUID() }, body: { title: "VPN down", description: "Since this morning" } };
+
+        const first = await callApi(request);
+        const retry = await callApi(request);
+
+        expect(first.statusCode).toBe(201);
+        expect(first.headers["Idempotent-Replayed"]).toBeUndefined();
+        expect(retry.statusCode).toBe(201);
+        expect(retry.headers["Idempotent-Replayed"]).toBe("true");
+        expect(retry.headers.ETag).toBe('"1"');
+        expect(retry.body).toEqual(first.body);
+
+        const listed = await callApi({ method: "GET", path: "/v1/tickets", user: requester });
+        expect(listed.body.items).toHaveLength(1);
+      });
+
+      it("replays errors, and rejects a key reused for a different request with 422", async () => {
+        const ticket = await createTicket(requester);
+        const key = randomUUID();
+        const patch = { method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, headers: { "Idempotency-Key": key, "If-Match": '"2"' }, body: { priority: "HIGH" } };
+
+        expect((await callApi(patch)).statusCode).toBe(412);
+        const retry = await callApi(patch);
+        expect(retry.statusCode).toBe(412);
+        expect(retry.headers["Idempotent-Replayed"]).toBe("true");
+
+        const reused = await callApi({ ...patch, body: { priority: "LOW" } });
+        expect(reused.statusCode).toBe(422);
+        expect(reused.body.code).toBe(ErrorCodes.IDEMPOTENCY_KEY_REUSED);
+      });
+
+      it("scopes keys to the caller and validates them", async () => {
+        const key = randomUUID();
+        const body = { title: "Same key", description: "Different callers" };
+
+        expect((await callApi({ method: "POST", path: "/v1/tickets", user: requester, headers: { "Idempotency-Key": key }, body })).statusCode).toBe(201);
+        const other = await callApi({ method: "POST", path: "/v1/tickets", user: otherRequester, headers: { "Idempotency-Key": key }, body });
+        expect(other.statusCode).toBe(201);
+        expect(other.headers["Idempotent-Replayed"]).toBeUndefined();
+
+        const invalid = await callApi({ method: "POST", path: "/v1/tickets", user: requester, headers: { "Idempotency-Key": "with spaces" }, body });
+        expect(invalid.statusCode).toBe(400);
+      });
+
+      it("frees the key when the request fails with a server error", async () => {
+        const ticket = await createTicket(requester);
+        const request = { method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin, headers: { "Idempotency-Key": randomUUID() } };
+        jest.spyOn(getTicketRepository(), "updateTicket").mockRejectedValueOnce(new Error("throttled"));
+
+        expect((await callApi(request)).statusCode).toBe(500);
+        expect((await callApi(request)).statusCode).toBe(204);
+        const replayed = await callApi(request);
+        expect(replayed.statusCode).toBe(204);
+        expect(replayed.headers["Idempotent-Replayed"]).toBe("true");
+      });
+    });
+
+    describe("attachments", () => {
+      const checksum = "n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=";
+
+      function attachmentBody(overrides: Record<string, unknown> = {}) {
+        return { fileName: "screenshot.png", contentType: "image/png", size: 2048, checksum, ...overrides };
+      }
+
+      it("records the metadata, issues an upload URL and lists download URLs", async () => {
+        const ticket = await createTicket(requester);
+        const path = `/v1/tickets/${ticket.id}/attachments`;
+
+        const created = await callApi({ method: "POST", path, user: requester, body: attachmentBody() });
+        expect(created.statusCode).toBe(201);
+        expect(created.body.attachment).toMatchObject({ fileName: "screenshot.png", contentType: "image/png", size: 2048, checksum, uploadedBy: requester.sub });
+        expect(created.body.uploadUrl).toContain(`tickets/${ticket.id}/${created.body.attachment.id}`);
+        expect(created.body.uploadHeaders).toEqual({ "Content-Type": "image/png", "x-amz-checksum-sha256": checksum });
+
+        const stored = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester });
+        expect(stored.body.attachments).toEqual([created.body.attachment]);
+        expect(stored.body.version).toBe(2);
+
+        const listed = await callApi({ method: "GET", path, user: agent });
+        expect(listed.statusCode).toBe(200);
+        expect(listed.body.items).toEqual([expect.objectContaining({ ...created.body.attachment, downloadUrl: expect.stringContaining("screenshot.png") })]);
+        expect((await callApi({ method: "GET", path, user: otherRequester })).statusCode).toBe(403);
+      });
+
+      it("enforces file limits and per-ticket quotas", async () => {
+        const ticket = await createTicket(requester);
+        const path = `/v1/tickets/${ticket.id}/attachments`;
+
+        expect((await callApi({ method: "POST", path, user: requester, body: attachmentBody({ contentType: "application/x-msdownload" }) })).statusCode).toBe(400);
+        expect((await callApi({ method: "POST", path, user: requester, body: attachmentBody({ size: 11 * 1024 * 1024 }) })).statusCode).toBe(400);
+        expect((await callApi({ method: "POST", path, user: requester, body: attachmentBody({ fileName: "../etc/passwd" }) })).statusCode).toBe(400);
+        expect((await callApi({ method: "POST", path, user: requester, body: attachmentBody({ checksum: "abc" }) })).statusCode).toBe(400);
+
+        for (let count = 0; count < 5; count++) {
+          expect((await callApi({ method: "POST", path, user: requester, body: attachmentBody({ size: 10 * 1024 * 1024 }) })).statusCode).toBe(201);
+        }
+        const overQuota = await callApi({ method: "POST", path, user: requester, body: attachmentBody({ size: 1 }) });
+        expect(overQuota.statusCode).toBe(400);
+        expect(overQuota.body.details).toEqual(["attachments - Attachments of a ticket must be at most 50 MB in total"]);
+      });
+
+      it("lets the uploader or an admin delete, and cleans up objects with the ticket", async () => {
+        const ticket = await createTicket(requester);
+        const path = `/v1/tickets/${ticket.id}/attachments`;
+        const first = (await callApi({ method: "POST", path, user: requester, body: attachmentBody() })).body.attachment;
+        const second = (await callApi({ method: "POST", path, user: agent, body: attachmentBody({ fileName: "app.log", contentType: "text/plain" }) })).body.attachment;
+
+        expect((await callApi({ method: "DELETE", path: `${path}/${second.id}`, user: requester })).statusCode).toBe(403);
+        expect((await callApi({ method: "DELETE", path: `${path}/${first.id}`, user: requester })).statusCode).toBe(204);
+        expect(attachmentStorage.objects.has(`tickets/${ticket.id}/${first.id}`)).toBe(false);
+        expect((await callApi({ method: "DELETE", path: `${path}/${first.id}`, user: admin })).body.code).toBe(ErrorCodes.ATTACHMENT_NOT_FOUND);
+
+        expect(attachmentStorage.objects.has(`tickets/${ticket.id}/${second.id}`)).toBe(true);
+        // Kept while the ticket is in the trash, removed once it is purged
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin })).statusCode).toBe(204);
+        expect(attachmentStorage.objects.has(`tickets/${ticket.id}/${second.id}`)).toBe(true);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin, query: { hard: "true" } })).statusCode).toBe(204);
+        expect(attachmentStorage.objects.has(`tickets/${ticket.id}/${second.id}`)).toBe(false);
+      });
+    });
+
+    describe("POST /v1/tickets:batch", () => {
+      async function batch(user: TestUser, body: Record<string, unknown>) {
+        return callApi({ method: "POST", path: "/v1/tickets:batch", user, body });
+      }
+
+      it("runs independent operations and reports each outcome in order", async () => {
+        const assigned = await createTicket(requester, { assignedToId: agent.sub });
+        const missingId = randomUUID();
+
+        const response = await batch(agent, {
+          operations: [
+            { method: "create", body: { title: "Phone broken", description: "Screen cracked", reporterId: requester.sub } },
+            { method: "patch", id: assigned.id, version: 1, body: { status: "OPEN", priority: "HIGH" } },
+            { method: "patch", id: missingId, body: { priority: "LOW" } },
+            { method: "patch", id: assigned.id, body: { status: "NEW" } },
+            { method: "delete", id: assigned.id },
+            { method: "explode" },
+          ],
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toMatchObject({ atomic: false, succeeded: 2, failed: 4 });
+        expect(response.body.results.map((result: any) => result.status)).toEqual([201, 200, 404, 409, 403, 400]);
+        expect(response.body.results[0].ticket).toMatchObject({ title: "Phone broken", reporterId: requester.sub, version: 1 });
+        expect(response.body.results[1].ticket).toMatchObject({ status: "OPEN", priority: "HIGH", version: 2 });
+        expect(response.body.results[2].error).toEqual({ code: ErrorCodes.TICKET_NOT_FOUND, message: `Ticket with id ${missingId} not found` });
+        expect(response.body.results[4].error.code).toBe(ErrorCodes.FORBIDDEN);
+
+        const created = await callApi({ method: "GET", path: `/v1/tickets/${response.body.results[0].ticket.id}`, user: requester });
+        expect(created.statusCode).toBe(200);
+      });
+
+      it("checks versions per operation like If-Match", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await batch(admin, { operations: [{ method: "delete", id: ticket.id, version: 7 }] });
+
+        expect(response.body.results[0]).toMatchObject({ status: 412, error: { code: ErrorCodes.PRECONDITION_FAILED } });
+      });
+
+      it("applies atomic batches as a whole", async () => {
+        const first = await createTicket(requester);
+        const second = await createTicket(requester);
+
+        const response = await batch(admin, {
+          atomic: true,
+          operations: [
+            { method: "patch", id: first.id, body: { assignedToId: agent.sub } },
+            { method: "delete", id: second.id, version: 1 },
+            { method: "create", body: { title: "Replacement", description: "Merged duplicate", reporterId: requester.sub } },
+          ],
+        });
+
+        expect(response.body).toMatchObject({ atomic: true, succeeded: 3, failed: 0 });
+        expect(response.body.results.map((result: any) => result.status)).toEqual([200, 204, 201]);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${first.id}`, user: admin })).body.assignedToId).toBe(agent.sub);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${second.id}`, user: admin })).statusCode).toBe(404);
+      });
+
+      it("writes nothing when an operation of an atomic batch fails", async () => {
+        const ticket = await createTicket(requester);
+
+        const response = await batch(admin, {
+          atomic: true,
+          operations: [
+            { method: "patch", id: ticket.id, body: { priority: "CRITICAL" } },
+            { method: "create", body: { title: "Should not exist", description: "Rolled back", reporterId: requester.sub } },
+            { method: "patch", id: ticket.id, body: { status: "CLOSED" } },
+          ],
+        });
+
+        expect(response.body).toMatchObject({ atomic: true, succeeded: 0, failed: 3 });
+        expect(response.body.results.map((result: any) => result.status)).toEqual([424, 424, 400]);
+        expect(response.body.results[0].error.code).toBe(ErrorCodes.BATCH_ABORTED);
+
+        const unchanged = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: admin });
+        expect(unchanged.body).toMatchObject({ priority: "MEDIUM", version: 1 });
+        const listed = await callApi({ method: "GET", path: "/v1/tickets", user: requester });
+        expect(listed.body.items.map((item: any) => item.id)).toEqual([ticket.id]);
+      });
+
+      it("gives back the queue turns of an atomic batch that is not written", async () => {
+        const keyword = `kw${randomUUID().slice(0, 8)}`;
+        const agents = [randomUUID(), randomUUID()];
+        const queue = await callApi({ method: "POST", path: "/v1/queues", user: admin, body: { name: "Printers", agentIds: agents, rules: [{ keywords: [keyword] }] } });
+        expect(queue.statusCode).toBe(201);
+
+        try {
+          const response = await batch(admin, {
+            atomic: true,
+            operations: [
+              { method: "create", body: { title: `Printer ${keyword}`, description: "Jammed", reporterId: requester.sub } },
+              { method: "patch", id: randomUUID(), body: { priority: "LOW" } },
+            ],
+          });
+          expect(response.body.results.map((result: any) => result.status)).toEqual([424, 404]);
+
+          // The first agent still has the next turn
+          const routed = await createTicket(requester, { title: `Printer ${keyword}` });
+          expect(routed).toMatchObject({ queueId: queue.body.id, assignedToId: agents[0] });
+        } finally {
+          await callApi({ method: "DELETE", path: `/v1/queues/${queue.body.id}`, user: admin });
+        }
+      });
+
+      it("rejects empty or oversized batches", async () => {
+        const create = { method: "create", body: { title: "Bulk", description: "Bulk" } };
+
+        expect((await batch(admin, { operations: [] })).statusCode).toBe(400);
+        expect((await batch(admin, { operations: Array(51).fill(create) })).statusCode).toBe(400);
+      });
+    });
+
+    describe("GET /v1/tickets/search", () => {
+      async function search(user: TestUser, query: Record<string, string>) {
+        return callApi({ method: "GET", path: "/v1/tickets/search", user, query });
+      }
+
+      // Unique word per test, so searches on a shared table only see this test's tickets
+      function uniqueWord(): string {
+        return `zq${randomUUID().replace(/-/g, "").slice(0, 10)}`;
+      }
+
+      it("finds tickets by word prefix in title, description and comments, title matches first", async () => {
+        const word = uniqueWord();
+        const inDescription = await createTicket(requester, { title: "Cannot sign in", description: `Error ${word.toUpperCase()} on the portal: ${word}` });
+        const inTitle = await createTicket(requester, { title: `${word} login failure`, description: "Since monday" });
+        const inComment = await createTicket(requester, { title: "Printer", description: "Jammed" });
+        const comment = await callApi({ method: "POST", path: `/v1/tickets/${inComment.id}/comments`, user: requester, body: { body: `Seen again with ${word}` } });
+        await createTicket(requester, { title: "Unrelated", description: "Nothing to see" });
+
+        const response = await search(requester, { q: word.slice(0, 8) });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body.items.map((hit: any) => hit.ticket.id)).toEqual([inTitle.id, inDescription.id, inComment.id]);
+        expect(response.body.items[0].highlights).toEqual([{ field: "title", snippet: `<em>${word}</em> login failure` }]);
+        expect(response.body.items[1].highlights).toEqual([{ field: "description", snippet: `Error <em>${word.toUpperCase()}</em> on the portal: <em>${word}</em>` }]);
+        expect(response.body.items[2].highlights).toEqual([{ field: "comment", commentId: comment.body.id, snippet: `Seen again with <em>${word}</em>` }]);
+      });
+
+      it("requires every word to match and combines with filters", async () => {
+        const word = uniqueWord();
+        const high = await createTicket(requester, { title: `${word} vpn`, description: "Remote access", priority: "HIGH" });
+        await createTicket(requester, { title: `${word} vpn`, description: "Remote access", priority: "LOW" });
+        await createTicket(requester, { title: `${word} email`, description: "Mailbox full", priority: "HIGH" });
+
+        const response = await search(requester, { q: `VPN ${word}`, priority: "HIGH" });
+
+        expect(response.body.items.map((hit: any) => hit.ticket.id)).toEqual([high.id]);
+      });
+
+      it("pages through results with a cursor", async () => {
+        const word = uniqueWord();
+        for (let i = 0; i < 3; i++) {
+          await createTicket(requester, { title: `${word} ${i}` });
+        }
+
+        const first = await search(requester, { q: word, limit: "2" });
+        const second = await search(requester, { q: word, limit: "2", cursor: first.body.nextCursor });
+
+        expect(first.body.items).toHaveLength(2);
+        expect(second.body.items).toHaveLength(1);
+        expect(second.body.nextCursor).toBeNull();
+      });
+
+      it("follows ticket edits and deletions", async () => {
+        const before = uniqueWord();
+        const after = uniqueWord();
+        const ticket = await createTicket(requester, { title: `${before} issue` });
+        await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { title: `${after} issue` } });
+
+        expect((await search(requester, { q: before })).body.items).toEqual([]);
+        expect((await search(requester, { q: after })).body.items).toHaveLength(1);
+
+        await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin });
+        expect((await search(admin, { q: after })).body.items).toEqual([]);
+      });
+
+      it("only finds the tickets a requester reported", async () => {
+        const word = uniqueWord();
+        await createTicket(otherRequester, { title: `${word} other` });
+        const own = await createTicket(requester, { title: `${word} own` });
+
+        expect((await search(requester, { q: word })).body.items.map((hit: any) => hit.ticket.id)).toEqual([own.id]);
+        expect((await search(agent, { q: word })).body.items).toHaveLength(2);
+        expect((await search(requester, { q: word, reporterId: otherRequester.sub })).statusCode).toBe(403);
+      });
+
+      it("returns 400 without searchable words", async () => {
+        expect((await search(requester, {})).statusCode).toBe(400);
+        expect((await search(requester, { q: "a !" })).statusCode).toBe(400);
+      });
+    });
+
+    describe("GET /v1/tickets/{id}/history", () => {
+      it("lists field-level changes with the actor, newest first by default", async () => {
+        const ticket = await createTicket(requester);
+        await nextMillisecond();
+        await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { priority: "CRITICAL" } });
+
+        const response = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/history`, user: requester });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body.items).toHaveLength(2);
+        expect(response.body.items[0]).toMatchObject({
+          action: "UPDATED",
+          actorId: requester.sub,
+          changes: [{ field: "priority", oldValue: "MEDIUM", newValue: "CRITICAL" }],
+        });
+
+        const ascending = await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/history`, user: requester, query: { sort: "asc" } });
+        expect(ascending.body.items[0].action).toBe("CREATED");
+      });
+
+      it("returns 403 for other requesters and 404 for unknown tickets", async () => {
+        const ticket = await createTicket(requester);
+
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}/history`, user: otherRequester })).statusCode).toBe(403);
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${randomUUID()}/history`, user: admin })).statusCode).toBe(404);
+      });
+    });
+
+    // Counters are shared by every test on the table: assertions compare reports taken before and after
+    describe("GET /v1/reports/tickets", () => {
+      it("counts created and resolved tickets and breaks the open ones down", async () => {
+        const today = new Date().toISOString().slice(0, 10);
+        const before = await callApi({ method: "GET", path: "/v1/reports/tickets", user: agent, query: { from: today, to: today } });
+        expect(before.statusCode).toBe(200);
+
+        const ticket = await createTicket(requester, { priority: "CRITICAL" });
+        await createTicket(agent, { reporterId: requester.sub, assignedToId: agent.sub });
+        await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: admin, body: { status: "OPEN" } });
+        const resolved = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: admin, body: { status: "RESOLVED", resolutionNote: "Replaced the fuser" } });
+        expect(resolved.statusCode).toBe(200);
+
+        const after = await callApi({ method: "GET", path: "/v1/reports/tickets", user: agent, query: { from: today, to: today } });
+        expect(after.body).toMatchObject({ from: today, to: today, daily: [{ date: today }] });
+        expect(after.body.counts.total - before.body.counts.total).toBe(2);
+        expect(after.body.counts.open - before.body.counts.open).toBe(1);
+        expect(after.body.counts.byAssignee[agent.sub]).toBe(1);
+        expect(after.body.daily[0].created - before.body.daily[0].created).toBe(2);
+        expect(after.body.daily[0].resolved - before.body.daily[0].resolved).toBe(1);
+        expect(after.body.meanTimeToResolutionHours).toEqual(expect.any(Number));
+        expect(after.body.backlogAgeDays).toMatchObject({ p50: expect.any(Number), max: expect.any(Number) });
+      });
+
+      it("exports CSV and is limited to staff", async () => {
+        const csv = await callApi({ method: "GET", path: "/v1/reports/tickets", user: admin, query: { from: "2026-01-01", to: "2026-01-03", format: "csv" } });
+        expect(csv.statusCode).toBe(200);
+        expect(csv.headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+        expect(csv.headers["Content-Disposition"]).toBe('attachment; filename="ticket-report-2026-01-01-2026-01-03.csv"');
+        expect(csv.body.split("\r\n")[0]).toBe("metric,key,value");
+        expect(csv.body).toContain("created,2026-01-03,");
+
+        expect((await callApi({ method: "GET", path: "/v1/reports/tickets", user: requester })).statusCode).toBe(403);
+        const reversed = await callApi({ method: "GET", path: "/v1/reports/tickets", user: admin, query: { from: "2026-02-01", to: "2026-01-01" } });
+        expect(reversed.statusCode).toBe(400);
+        const tooLong = await callApi({ method: "GET", path: "/v1/reports/tickets", user: admin, query: { from: "2024-01-01", to: "2026-01-01" } });
+        expect(tooLong.statusCode).toBe(400);
+      });
+    });
+
+    describe("queues", () => {
+      // Queues are global, so each test routes on a keyword of its own and deletes its queues
+      let keyword: string;
+      const queueIds: string[] = [];
+
+      beforeEach(() => {
+        keyword = `kw${randomUUID().slice(0, 8)}`;
+      });
+
+      afterEach(async () => {
+        for (const id of queueIds.splice(0)) {
+          await callApi({ method: "DELETE", path: `/v1/queues/${id}`, user: admin });
+        }
+      });
+
+      async function createQueue(body: Record<string, unknown>) {
+        const response = await callApi({ method: "POST", path: "/v1/queues", user: admin, body: { name: "Hardware", ...body } });
+        expect(response.statusCode).toBe(201);
+        queueIds.push(response.body.id);
+        return response.body;
+      }
+
+      it("routes new tickets by rule and assigns the agents of the queue in turn", async () => {
+        const agents = [randomUUID(), randomUUID()];
+        const queue = await createQueue({ agentIds: agents, rules: [{ keywords: [keyword] }] });
+        expect(queue).toMatchObject({ strategy: "ROUND_ROBIN", position: 0, version: 1 });
+
+        const routed = [];
+        for (let i = 0; i < 3; i++) {
+          routed.push(await createTicket(requester, { title: `Printer ${keyword.toUpperCase()} jammed` }));
+          await nextMillisecond();
+        }
+        expect(routed.map(ticket => ticket.queueId)).toEqual([queue.id, queue.id, queue.id]);
+        expect(routed.map(ticket => ticket.assignedToId)).toEqual([agents[0], agents[1], agents[0]]);
+
+        // The caller's assignee is kept, and tickets matching no rule are left alone
+        const assigned = await createTicket(agent, { title: `Printer ${keyword}`, reporterId: requester.sub, assignedToId: agent.sub });
+        expect(assigned).toMatchObject({ queueId: queue.id, assignedToId: agent.sub });
+        const unrouted = await createTicket(requester, { title: "Printer jammed" });
+        expect(unrouted.queueId).toBeUndefined();
+
+        const page = await callApi({ method: "GET", path: `/v1/queues/${queue.id}/tickets`, user: agent, query: { assignedToId: agents[0] } });
+        expect(page.statusCode).toBe(200);
+        expect(page.body.items.map((ticket: any) => ticket.id)).toEqual([routed[2].id, routed[0].id]);
+
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${routed[0].id}/history`, user: admin });
+        expect(history.body.items[0].changes).toEqual(expect.arrayContaining([{ field: "assignedToId", oldValue: null, newValue: agents[0] }]));
+      });
+
+      it("assigns the least loaded agent and re-assigns re-opened tickets within their queue", async () => {
+        const agents = [randomUUID(), randomUUID()];
+        const queue = await createQueue({ strategy: "LEAST_LOADED", agentIds: agents, rules: [{ types: ["QUESTION"], keywords: [keyword] }] });
+        const title = `Where is ${keyword}`;
+
+        const first = await createTicket(requester, { title, type: "QUESTION" });
+        const second = await createTicket(requester, { title, type: "QUESTION" });
+        expect([first.assignedToId, second.assignedToId]).toEqual(agents);
+        expect((await createTicket(requester, { title })).queueId).toBeUndefined();
+
+        // Resolving frees the first agent, who gets the next ticket
+        await callApi({ method: "PATCH", path: `/v1/tickets/${first.id}`, user: admin, body: { status: "OPEN" } });
+        const resolved = await callApi({ method: "PATCH", path: `/v1/tickets/${first.id}`, user: admin, body: { status: "RESOLVED", resolutionNote: "Answered" } });
+        expect(resolved.statusCode).toBe(200);
+        expect((await createTicket(requester, { title, type: "QUESTION" })).assignedToId).toBe(agents[0]);
+
+        // Re-opened tickets keep their assignee while they are an agent of the queue
+        const reopened = await callApi({ method: "PATCH", path: `/v1/tickets/${first.id}`, user: requester, body: { status: "OPEN" } });
+        expect(reopened.body).toMatchObject({ status: "OPEN", assignedToId: agents[0] });
+
+        const patched = await callApi({ method: "PATCH", path: `/v1/queues/${queue.id}`, user: admin, body: { agentIds: [agents[1]], description: "Questions" } });
+        expect(patched.body).toMatchObject({ agentIds: [agents[1]], description: "Questions", version: 2 });
+        await callApi({ method: "PATCH", path: `/v1/tickets/${first.id}`, user: admin, body: { status: "RESOLVED", resolutionNote: "Answered again" } });
+        const moved = await callApi({ method: "PATCH", path: `/v1/tickets/${first.id}`, user: requester, body: { status: "OPEN" } });
+        expect(moved.body).toMatchObject({ queueId: queue.id, assignedToId: agents[1] });
+      });
+
+      it("is managed by admins and visible to staff only", async () => {
+        const queue = await createQueue({ rules: [{ keywords: [keyword] }], position: 5 });
+
+        expect((await callApi({ method: "POST", path: "/v1/queues", user: agent, body: { name: "Mine" } })).statusCode).toBe(403);
+        expect((await callApi({ method: "GET", path: "/v1/queues", user: requester })).statusCode).toBe(403);
+        expect((await callApi({ method: "GET", path: `/v1/queues/${queue.id}/tickets`, user: requester })).statusCode).toBe(403);
+        const list = await callApi({ method: "GET", path: "/v1/queues", user: agent });
+        expect(list.body.items.map((item: any) => item.id)).toContain(queue.id);
+
+        const invalid = await callApi({ method: "POST", path: "/v1/queues", user: admin, body: { name: "Empty rule", rules: [{}], agentIds: ["a", "a"] } });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body.details).toEqual(expect.arrayContaining([
+          "rules.0 - A rule needs at least one of types, priorities or keywords",
+          "agentIds.0 - Invalid UUID",
+        ]));
+
+        expect((await callApi({ method: "DELETE", path: `/v1/queues/${queue.id}`, user: admin })).statusCode).toBe(204);
+        const missing = await callApi({ method: "GET", path: `/v1/queues/${queue.id}`, user: admin });
+        expect(missing.statusCode).toBe(404);
+        expect(missing.body.code).toBe(ErrorCodes.QUEUE_NOT_FOUND);
+      });
+    });
+
+    describe("custom fields", () => {
+      // Definitions are global, so each test uses keys of its own and deletes its definitions
+      let prefix: string;
+      const definitionIds: string[] = [];
+
+      beforeEach(() => {
+        prefix = `f${randomUUID().slice(0, 8)}`;
+      });
+
+      afterEach(async () => {
+        for (const id of definitionIds.splice(0)) {
+          await callApi({ method: "DELETE", path: `/v1/field-definitions/${id}`, user: admin });
+        }
+      });
+
+      async function defineField(key: string, body: Record<string, unknown>) {
+        const response = await callApi({
+          method: "POST",
+          path: "/v1/field-definitions",
+          user: admin,
+          body: { ticketType: "SERVICE_REQUEST", key: `${prefix}_${key}`, label: key, kind: "STRING", ...body },
+        });
+        expect(response.statusCode).toBe(201);
+        definitionIds.push(response.body.id);
+        return response.body;
+      }
+
+      it("validates custom fields against the definitions of the ticket type", async () => {
+        await defineField("env", { kind: "ENUM", options: ["prod", "staging"], required: true });
+        await defineField("cost", { kind: "NUMBER" });
+        await defineField("due", { kind: "DATE" });
+        await defineField("owner", { kind: "USER" });
+        const [env, cost, due, owner] = ["env", "cost", "due", "owner"].map(key => `${prefix}_${key}`);
+        const create = (customFields?: Record<string, unknown>) =>
+          callApi({ method: "POST", path: "/v1/tickets", user: requester, body: { title: "New laptop", description: "For the new hire", type: "SERVICE_REQUEST", customFields } });
+
+        const missing = await create();
+        expect(missing.statusCode).toBe(400);
+        expect(missing.body.details).toEqual([`customFields.${env} - Required for SERVICE_REQUEST tickets`]);
+
+        const invalid = await create({ [env]: "dev", [cost]: "12", [due]: "tomorrow", [owner]: "me", unknown: "x" });
+        expect(invalid.statusCode).toBe(400);
+        expect(invalid.body.details).toEqual(expect.arrayContaining([
+          "customFields.unknown - Not a custom field of SERVICE_REQUEST tickets",
+          `customFields.${env} - Must be one of prod, staging`,
+          `customFields.${cost} - Must be a number`,
+          `customFields.${due} - Must be a date (YYYY-MM-DD)`,
+          `customFields.${owner} - Must be a user id`,
+        ]));
+
+        const created = await create({ [env]: "prod", [cost]: 1200, [due]: "2026-12-01" });
+        expect(created.statusCode).toBe(201);
+        expect(created.body.customFields).toEqual({ [env]: "prod", [cost]: 1200, [due]: "2026-12-01" });
+
+        // Changes are merged into the values of the ticket; null removes one, but not a required one
+        const patched = await callApi({ method: "PATCH", path: `/v1/tickets/${created.body.id}`, user: requester, body: { customFields: { [cost]: 900, [due]: null, [owner]: agent.sub } } });
+        expect(patched.statusCode).toBe(200);
+        expect(patched.body.customFields).toEqual({ [env]: "prod", [cost]: 900, [owner]: agent.sub });
+        const cleared = await callApi({ method: "PATCH", path: `/v1/tickets/${created.body.id}`, user: requester, body: { customFields: { [env]: null } } });
+        expect(cleared.statusCode).toBe(400);
+        expect(cleared.body.details).toEqual([`customFields.${env} - Required for SERVICE_REQUEST tickets`]);
+
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${created.body.id}/history`, user: admin, query: { sort: "desc" } });
+        expect(history.body.items[0].changes).toEqual(expect.arrayContaining([
+          { field: `customFields.${cost}`, oldValue: 1200, newValue: 900 },
+          { field: `customFields.${due}`, oldValue: "2026-12-01", newValue: null },
+        ]));
+
+        // Another type does not define the fields, so they are dropped with the type change
+        const retyped = await callApi({ method: "PATCH", path: `/v1/tickets/${created.body.id}`, user: requester, body: { type: "QUESTION" } });
+        expect(retyped.statusCode).toBe(200);
+        expect(retyped.body.customFields).toBeUndefined();
+      });
+
+      it("filters ticket lists by custom field values", async () => {
+        await defineField("env", { kind: "ENUM", options: ["prod", "staging"] });
+        await defineField("cost", { kind: "NUMBER" });
+        const [env, cost] = [`${prefix}_env`, `${prefix}_cost`];
+
+        const prod = await createTicket(requester, { type: "SERVICE_REQUEST", customFields: { [env]: "prod", [cost]: 5 } });
+        await createTicket(requester, { type: "SERVICE_REQUEST", customFields: { [env]: "staging", [cost]: 5 } });
+        await createTicket(requester, { type: "SERVICE_REQUEST" });
+
+        const byEnv = await callApi({ method: "GET", path: "/v1/tickets", user: requester, query: { customFields: `${env}:prod` } });
+        expect(byEnv.statusCode).toBe(200);
+        expect(byEnv.body.items.map((ticket: any) => ticket.id)).toEqual([prod.id]);
+        const byBoth = await callApi({ method: "GET", path: "/v1/tickets", user: requester, query: { type: "SERVICE_REQUEST", customFields: `${cost}:5,${env}:prod` } });
+        expect(byBoth.body.items.map((ticket: any) => ticket.id)).toEqual([prod.id]);
+        const byCost = await callApi({ method: "GET", path: "/v1/tickets", user: requester, query: { customFields: `${cost}:5` } });
+        expect(byCost.body.items).toHaveLength(2);
+
+        for (const customFields of ["unknown:x", `${cost}:five`, "no-separator"]) {
+          const invalid = await callApi({ method: "GET", path: "/v1/tickets", user: requester, query: { customFields } });
+          expect(invalid.statusCode).toBe(400);
+        }
+      });
+
+      it("is managed by admins and readable by everyone", async () => {
+        const definition = await defineField("product", { description: "Affected product" });
+        expect(definition).toMatchObject({ kind: "STRING", required: false, version: 1 });
+
+        expect((await callApi({ method: "POST", path: "/v1/field-definitions", user: agent, body: { ticketType: "QUESTION", key: "mine", label: "Mine", kind: "STRING" } })).statusCode).toBe(403);
+        const list = await callApi({ method: "GET", path: "/v1/field-definitions", user: requester, query: { ticketType: "SERVICE_REQUEST" } });
+        expect(list.statusCode).toBe(200);
+        expect(list.body.items.map((item: any) => item.id)).toContain(definition.id);
+        expect((await callApi({ method: "GET", path: "/v1/field-definitions", user: requester, query: { ticketType: "QUESTION" } })).body.items.map((item: any) => item.id)).not.toContain(definition.id);
+
+        const duplicate = await callApi({ method: "POST", path: "/v1/field-definitions", user: admin, body: { ticketType: "SERVICE_REQUEST", key: definition.key, label: "Again", kind: "NUMBER" } });
+        expect(duplicate.statusCode).toBe(409);
+        expect(duplicate.body.code).toBe(ErrorCodes.FIELD_DEFINITION_EXISTS);
+        const noOptions = await callApi({ method: "POST", path: "/v1/field-definitions", user: admin, body: { ticketType: "SERVICE_REQUEST", key: `${prefix}_tier`, label: "Tier", kind: "ENUM" } });
+        expect(noOptions.body.details).toEqual(["options - Options are required for ENUM fields and only allowed for them"]);
+        expect((await callApi({ method: "PATCH", path: `/v1/field-definitions/${definition.id}`, user: admin, body: { options: ["a"] } })).statusCode).toBe(400);
+
+        const patched = await callApi({ method: "PATCH", path: `/v1/field-definitions/${definition.id}`, user: admin, body: { label: "Product", description: null } });
+        expect(patched.body).toMatchObject({ label: "Product", version: 2 });
+        expect(patched.body.description).toBeUndefined();
+
+        // Tickets keep the values of a deleted field until they are removed
+        const ticket = await createTicket(requester, { type: "SERVICE_REQUEST", customFields: { [definition.key]: "Payments" } });
+        expect((await callApi({ method: "DELETE", path: `/v1/field-definitions/${definition.id}`, user: admin })).statusCode).toBe(204);
+        const missing = await callApi({ method: "GET", path: `/v1/field-definitions/${definition.id}`, user: admin });
+        expect(missing.statusCode).toBe(404);
+        expect(missing.body.code).toBe(ErrorCodes.FIELD_DEFINITION_NOT_FOUND);
+
+        expect((await callApi({ method: "GET", path: `/v1/tickets/${ticket.id}`, user: requester })).body.customFields).toEqual({ [definition.key]: "Payments" });
+        const rejected = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { customFields: { [definition.key]: "Billing" } } });
+        expect(rejected.statusCode).toBe(400);
+        const removed = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: requester, body: { customFields: { [definition.key]: null } } });
+        expect(removed.statusCode).toBe(200);
+        expect(removed.body.customFields).toBeUndefined();
+      });
+    });
+
+    describe("import and export", () => {
+      const importTickets = (body: string, contentType: string, query: Record<string, string> = {}, user: TestUser = admin) =>
+        callApi({ method: "POST", path: "/v1/tickets:import", user, body, query, headers: { "Content-Type": contentType } });
+
+      it("imports CSV rows with mapped columns and custom fields, after a dry run", async () => {
+        const key = `f${randomUUID().slice(0, 8)}_cost`;
+        const definition = await callApi({ method: "POST", path: "/v1/field-definitions", user: admin, body: { ticketType: "QUESTION", key, label: "Cost", kind: "NUMBER" } });
+        expect(definition.statusCode).toBe(201);
+        const csv = [
+          "Summary,description,type,reporterId,Cost,priority",
+          `VPN down,"Cannot connect, since 9am",QUESTION,${requester.sub},12,HIGH`,
+          `,No title,QUESTION,${requester.sub},,`,
+        ].join("\r\n");
+        const query = { mapping: `Summary:title,Cost:customFields.${key}` };
+
+        try {
+          const dryRun = await importTickets(csv, "text/csv", { ...query, dryRun: "true" });
+          expect(dryRun.statusCode).toBe(200);
+          expect(dryRun.body).toMatchObject({ dryRun: true, created: 1, skipped: 0, failed: 1 });
+          expect(dryRun.body.rows[1]).toMatchObject({ row: 2, line: 3, outcome: "FAILED", error: { code: ErrorCodes.BAD_REQUEST } });
+          expect(dryRun.body.rows[1].error.details).toEqual([expect.stringMatching(/^title - /)]);
+          expect((await callApi({ method: "GET", path: "/v1/tickets", user: requester })).body.items).toEqual([]);
+
+          const imported = await importTickets(csv, "text/csv; charset=utf-8", query);
+          expect(imported.body).toMatchObject({ dryRun: false, created: 1, failed: 1 });
+          const ticket = await callApi({ method: "GET", path: `/v1/tickets/${imported.body.rows[0].ticketId}`, user: requester });
+          expect(ticket.body).toMatchObject({ title: "VPN down", description: "Cannot connect, since 9am", priority: "HIGH", customFields: { [key]: 12 } });
+        } finally {
+          await callApi({ method: "DELETE", path: `/v1/field-definitions/${definition.body.id}`, user: admin });
+        }
+      });
+
+      it("keeps the ids and timestamps of NDJSON rows, and skips references imported before", async () => {
+        const id = randomUUID();
+        const externalRef = `JIRA-${randomUUID()}`;
+        const ndjson = [
+          JSON.stringify({ id, externalRef, title: "Old outage", description: "From the old tracker", reporterId: requester.sub, createdAt: "2024-03-01T09:00:00Z", updatedAt: "2024-03-02T10:00:00+01:00" }),
+          "",
+          "{not json",
+          JSON.stringify({ id, title: "Same id", description: "Again", reporterId: requester.sub }),
+        ].join("\n");
+
+        expect((await importTickets(ndjson, "application/x-ndjson", {}, agent)).statusCode).toBe(403);
+
+        const imported = await importTickets(ndjson, "application/x-ndjson");
+        expect(imported.statusCode).toBe(200);
+        expect(imported.body.rows).toEqual([
+          { row: 1, line: 1, outcome: "CREATED", ticketId: id },
+          { row: 2, line: 3, outcome: "FAILED", error: expect.objectContaining({ code: ErrorCodes.BAD_REQUEST }) },
+          { row: 3, line: 4, outcome: "FAILED", error: expect.objectContaining({ code: ErrorCodes.TICKET_EXISTS }) },
+        ]);
+
+        const ticket = await callApi({ method: "GET", path: `/v1/tickets/${id}`, user: requester });
+        expect(ticket.body).toMatchObject({ externalRef, createdAt: "2024-03-01T09:00:00.000Z", updatedAt: "2024-03-02T09:00:00.000Z", version: 1 });
+        const history = await callApi({ method: "GET", path: `/v1/tickets/${id}/history`, user: admin });
+        expect(history.body.items.map((entry: any) => [entry.action, entry.occurredAt])).toEqual([["CREATED", "2024-03-01T09:00:00.000Z"]]);
+
+        // Sent again, e.g. after a timeout: the reference is skipped
+        const again = await importTickets(ndjson.split("\n")[0], "text/plain", { format: "ndjson" });
+        expect(again.body).toMatchObject({ created: 0, skipped: 1, rows: [{ outcome: "SKIPPED", ticketId: id }] });
+      });
+
+      it("imports an export of closed tickets back as they were", async () => {
+        const ticket = await createTicket(agent, { reporterId: requester.sub, assignedToId: agent.sub });
+        const path = `/v1/tickets/${ticket.id}`;
+        for (const body of [{ status: "OPEN" }, { status: "RESOLVED", resolutionNote: "Replaced the fuser" }, { status: "CLOSED" }]) {
+          expect((await callApi({ method: "PATCH", path, user: agent, body })).statusCode).toBe(200);
+        }
+        const closed = (await callApi({ method: "GET", path, user: admin })).body;
+        await nextMillisecond();
+        const unassigned = await createTicket(requester, { title: "=SUM(A1) printer" });
+        expect((await callApi({ method: "PATCH", path: `/v1/tickets/${unassigned.id}`, user: admin, body: { status: "CLOSED" } })).statusCode).toBe(200);
+        const exported = await callApi({ method: "GET", path: "/v1/tickets:export", user: admin, query: { reporterId: requester.sub, format: "csv" } });
+        // Spreadsheets would run the title as a formula
+        expect(exported.body).toContain(`${unassigned.id},,'=SUM(A1) printer,`);
+
+        // Into another organization, where the kept id is still free
+        const acme = `acme-${randomUUID().slice(0, 8)}`;
+        const acmeAdmin = { sub: randomUUID(), groups: ["admin"], tenantId: acme };
+        config.tenancy.tenants = JSON.stringify({ [acme]: {} });
+        try {
+          // Closed tickets are routed to the queue they match, but not handed to its agents
+          const queue = await callApi({ method: "POST", path: "/v1/queues", user: acmeAdmin, body: { name: "Printers", agentIds: [randomUUID()], rules: [{ keywords: ["printer"] }] } });
+          expect(queue.statusCode).toBe(201);
+
+          const imported = await importTickets(exported.body, "text/csv", {}, acmeAdmin);
+          expect(imported.body.rows).toEqual([
+            { row: 1, line: 2, outcome: "CREATED", ticketId: ticket.id },
+            { row: 2, line: 3, outcome: "CREATED", ticketId: unassigned.id },
+          ]);
+          const unassignedCopy = await callApi({ method: "GET", path: `/v1/tickets/${unassigned.id}`, user: acmeAdmin });
+          expect(unassignedCopy.body).toMatchObject({ title: "=SUM(A1) printer", status: "CLOSED", queueId: queue.body.id });
+          expect(unassignedCopy.body.assignedToId).toBeUndefined();
+          const copy = await callApi({ method: "GET", path, user: acmeAdmin });
+          expect(copy.body).toMatchObject({
+            status: "CLOSED",
+            assignedToId: agent.sub,
+            resolutionNote: "Replaced the fuser",
+            resolvedAt: closed.resolvedAt,
+            createdAt: closed.createdAt,
+            updatedAt: closed.updatedAt,
+            version: 1,
+          });
+
+          // Other statuses still need the fields the workflow requires
+          const unresolved = await importTickets(JSON.stringify({ title: "Fixed", description: "No note", reporterId: requester.sub, status: "RESOLVED" }), "application/x-ndjson", {}, acmeAdmin);
+          expect(unresolved.body.rows[0].error).toMatchObject({ code: ErrorCodes.INVALID_STATUS_TRANSITION, details: ["resolutionNote - Required for status RESOLVED"] });
+        } finally {
+          config.tenancy.tenants = "{}";
+        }
+      });
+
+      it("does not take turns of the round robin on a dry run", async () => {
+        const keyword = `kw${randomUUID().slice(0, 8)}`;
+        const agents = [randomUUID(), randomUUID()];
+        const queue = await callApi({ method: "POST", path: "/v1/queues", user: admin, body: { name: "Printers", agentIds: agents, rules: [{ keywords: [keyword] }] } });
+        expect(queue.statusCode).toBe(201);
+
+        try {
+          const ndjson = JSON.stringify({ title: `Printer ${keyword}`, description: "Jammed", reporterId: requester.sub });
+          const dryRun = await importTickets(ndjson, "application/x-ndjson", { dryRun: "true" });
+          expect(dryRun.body).toMatchObject({ created: 1, failed: 0 });
+
+          // The first agent still has the next turn
+          const routed = await createTicket(requester, { title: `Printer ${keyword}` });
+          expect(routed).toMatchObject({ queueId: queue.body.id, assignedToId: agents[0] });
+        } finally {
+          await callApi({ method: "DELETE", path: `/v1/queues/${queue.body.id}`, user: admin });
+        }
+      });
+
+      it("rejects bodies it cannot read before importing any row", async () => {
+        const unknown = await importTickets("title\nPrinter", "application/json");
+        expect(unknown.statusCode).toBe(400);
+        expect(unknown.body.message).toBe("Unsupported import format");
+
+        const unterminated = await importTickets(`title,description,reporterId\n"Printer,jammed,${requester.sub}`, "text/csv");
+        expect(unterminated.statusCode).toBe(400);
+        expect(unterminated.body.details).toEqual(["line 2 - Unterminated quoted field in the record starting on line 2"]);
+
+        const tooMany = await importTickets(`title\n${"Printer\n".repeat(501)}`, "text/csv");
+        expect(tooMany.statusCode).toBe(400);
+        expect(tooMany.body.details).toEqual(["Body - At most 500 rows can be imported per request"]);
+
+        const badMapping = await importTickets("title\nPrinter", "text/csv", { mapping: "Summary:headline" });
+        expect(badMapping.statusCode).toBe(400);
+        expect(badMapping.body.message).toBe("Invalid query parameters");
+      });
+
+      it("exports the matching tickets as NDJSON or CSV", async () => {
+        const first = await createTicket(requester, { title: "Printer, jammed", priority: "HIGH" });
+        await nextMillisecond();
+        const second = await createTicket(requester, { title: "Monitor flickers" });
+        await createTicket(otherRequester);
+
+        const ndjson = await callApi({ method: "GET", path: "/v1/tickets:export", user: admin, query: { reporterId: requester.sub } });
+        expect(ndjson.statusCode).toBe(200);
+        expect(ndjson.headers["Content-Type"]).toBe("application/x-ndjson; charset=utf-8");
+        expect(ndjson.headers["Content-Disposition"]).toBe('attachment; filename="tickets.ndjson"');
+        expect(ndjson.headers["X-Next-Cursor"]).toBeUndefined();
+        expect(ndjson.body.trim().split("\n").map((line: string) => JSON.parse(line))).toEqual([first, second]);
+
+        const csv = await callApi({ method: "GET", path: "/v1/tickets:export", user: admin, query: { reporterId: requester.sub, priority: "HIGH", format: "csv" } });
+        expect(csv.headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+        const [header, row, ...rest] = csv.body.split("\r\n");
+        expect(header).toMatch(/^id,externalRef,title,description,status,priority,type,reporterId,/);
+        expect(row).toMatch(new RegExp(`^${first.id},,"Printer, jammed",Third floor printer,NEW,HIGH,INCIDENT,${requester.sub},`));
+        expect(rest).toEqual([""]);
+
+        // Requesters only export their own tickets
+        const own = await callApi({ method: "GET", path: "/v1/tickets:export", user: otherRequester, query: { reporterId: requester.sub } });
+        expect(own.statusCode).toBe(403);
+      });
+    });
+
+    describe("webhooks", () => {
+      // Webhooks are global, so each test deletes its own; deliveries go to a local HTTP stand-in
+      const receiver = new WebhookReceiver();
+      const secret = "whsec-test-0123456789";
+      const webhookIds: string[] = [];
+
+      beforeAll(async () => {
+        await receiver.start();
+        config.webhooks.allowInsecureUrls = true;
+      });
+
+      afterAll(async () => {
+        config.webhooks.allowInsecureUrls = false;
+        await receiver.stop();
+      });
+
+      beforeEach(() => {
+        receiver.requests.splice(0);
+        receiver.statusCode = 204;
+      });
+
+      afterEach(async () => {
+        config.webhooks.maxAttempts = 8;
+        for (const id of webhookIds.splice(0)) {
+          await callApi({ method: "DELETE", path: `/v1/webhooks/${id}`, user: admin });
+        }
+      });
+
+      async function createWebhook(body: Record<string, unknown> = {}) {
+        const response = await callApi({ method: "POST", path: "/v1/webhooks", user: admin, body: { url: receiver.url, secret, ...body } });
+        expect(response.statusCode).toBe(201);
+        webhookIds.push(response.body.id);
+        return response.body;
+      }
+
+      async function listDeliveries(webhookId: string, query: Record<string, string> = {}) {
+        const response = await callApi({ method: "GET", path: `/v1/webhooks/${webhookId}/deliveries`, user: admin, query });
+        expect(response.statusCode).toBe(200);
+        return response.body.items;
+      }
+
+      // Scheduled run of the dispatcher at the given time
+      async function dispatchAt(time: Date) {
+        return dispatchWebhooks({ id: randomUUID(), time: time.toISOString() } as Parameters<typeof dispatchWebhooks>[0]);
+      }
+
+      it("posts signed deliveries of the ticket changes matching the filter", async () => {
+        const webhook = await createWebhook({ filter: { types: ["QUESTION"], events: ["TicketCreated", "TicketUpdated"] } });
+        expect(webhook.secret).toBeUndefined();
+
+        const ticket = await createTicket(requester, { type: "QUESTION" });
+        await createTicket(requester, { type: "INCIDENT" });
+        const patched = await callApi({ method: "PATCH", path: `/v1/tickets/${ticket.id}`, user: admin, body: { priority: "HIGH" } });
+        expect(patched.statusCode).toBe(200);
+
+        // Writes only record the deliveries; the dispatcher sends them
+        expect(receiver.requests).toEqual([]);
+        expect((await listDeliveries(webhook.id, { status: "PENDING" })).map((delivery: any) => delivery.attempts)).toEqual([0, 0]);
+        expect(await dispatchAt(new Date())).toMatchObject({ due: 2, delivered: 2 });
+
+        expect(receiver.requests.map(request => request.headers["x-webhook-event"]).sort()).toEqual(["TicketCreated", "TicketUpdated"]);
+        for (const { headers, body } of receiver.requests) {
+          expect(headers["x-webhook-signature"]).toBe(signWebhookPayload(secret, Number(headers["x-webhook-timestamp"]), body));
+          expect(JSON.parse(body)).toMatchObject({ id: headers["x-webhook-delivery"], webhookId: webhook.id, data: { ticket: { id: ticket.id } } });
+        }
+        const updated = receiver.requests.find(request => request.headers["x-webhook-event"] === "TicketUpdated")!;
+        expect(JSON.parse(updated.body).data.changedFields).toContain("priority");
+
+        const deliveries = await listDeliveries(webhook.id);
+        expect(deliveries.map((delivery: any) => [delivery.eventType, delivery.status, delivery.attempts])).toEqual([
+          ["TicketUpdated", "DELIVERED", 1],
+          ["TicketCreated", "DELIVERED", 1],
+        ]);
+
+        expect((await callApi({ method: "GET", path: "/v1/webhooks", user: agent })).statusCode).toBe(403);
+        config.webhooks.allowInsecureUrls = false;
+        const insecure = await callApi({ method: "POST", path: "/v1/webhooks", user: admin, body: { url: receiver.url, secret } });
+        config.webhooks.allowInsecureUrls = true;
+        expect(insecure.statusCode).toBe(400);
+        expect(insecure.body.details).toEqual(["url - Must be an https URL"]);
+      });
+
+      it("retries failed deliveries with backoff and dead-letters them once out of attempts", async () => {
+        config.webhooks.maxAttempts = 2;
+        const webhook = await createWebhook({ filter: { events: ["TicketDeleted"] } });
+        receiver.statusCode = 500;
+
+        const test = await callApi({ method: "POST", path: `/v1/webhooks/${webhook.id}/test`, user: admin });
+        expect(test.statusCode).toBe(200);
+        expect(test.body).toMatchObject({ eventType: "WebhookTest", status: "DEAD_LETTER", attempts: 1, responseStatus: 500 });
+
+        const ticket = await createTicket(requester);
+        expect((await callApi({ method: "DELETE", path: `/v1/tickets/${ticket.id}`, user: admin })).statusCode).toBe(204);
+        await dispatchAt(new Date());
+        expect(receiver.requests).toHaveLength(2);
+        const [pending] = await listDeliveries(webhook.id, { status: "PENDING" });
+        expect(pending).toMatchObject({ eventType: "TicketDeleted", ticketId: ticket.id, attempts: 1, error: "Endpoint answered 500" });
+
+        // Not due before the backoff has passed
+        await dispatchAt(new Date());
+        expect(receiver.requests).toHaveLength(2);
+
+        await dispatchAt(new Date(new Date(pending.nextAttemptAt).getTime() + 1000));
+        expect(receiver.requests).toHaveLength(3);
+        expect(receiver.requests[2].headers["x-webhook-delivery"]).toBe(pending.id);
+        expect(await listDeliveries(webhook.id, { status: "DEAD_LETTER" })).toEqual([
+          expect.objectContaining({ id: pending.id, attempts: 2 }),
+          expect.objectContaining({ id: test.body.id }),
+        ]);
+        expect(await listDeliveries(webhook.id, { status: "PENDING" })).toEqual([]);
+      });
+    });
+
+    describe("organizations", () => {
+      // Organizations of their own per test keep their quota counters apart on a shared table
+      let acme: string;
+      let globex: string;
+      let limited: string;
+
+      beforeEach(() => {
+        acme = `acme-${randomUUID().slice(0, 8)}`;
+        globex = `globex-${randomUUID().slice(0, 8)}`;
+        limited = `limited-${randomUUID().slice(0, 8)}`;
+        config.tenancy.tenants = JSON.stringify({
+          [acme]: { allowedTypes: ["INCIDENT", "QUESTION"], defaultPriority: "HIGH" },
+          [globex]: {},
+          [limited]: { quotas: { requestsPerMinute: 3, ticketsPerDay: 1 } },
+        });
+      });
+
+      afterEach(() => {
+        config.tenancy.tenants = "{}";
+        config.tenancy.allowHeader = false;
+      });
+
+      it("keeps the tickets of each organization out of reach of the others", async () => {
+        const acmeRequester = { sub: randomUUID(), tenantId: acme };
+        const acmeAdmin = { sub: randomUUID(), groups: ["admin"], tenantId: acme };
+        const globexAdmin = { sub: randomUUID(), groups: ["admin"], tenantId: globex };
+        const ticket = await createTicket(acmeRequester);
+        const path = `/v1/tickets/${ticket.id}`;
+
+        for (const user of [globexAdmin, admin]) {
+          expect((await callApi({ method: "GET", path, user })).statusCode).toBe(404);
+          expect((await callApi({ method: "PATCH", path, user, body: { priority: "LOW" } })).statusCode).toBe(404);
+          expect((await callApi({ method: "DELETE", path, user })).statusCode).toBe(404);
+          const listed = await callApi({ method: "GET", path: "/v1/tickets", user, query: { reporterId: acmeRequester.sub } });
+          expect(listed.body.items).toEqual([]);
+        }
+
+        expect((await callApi({ method: "GET", path, user: acmeAdmin })).body).toMatchObject({ id: ticket.id, version: 1 });
+        const listed = await callApi({ method: "GET", path: "/v1/tickets", user: acmeAdmin, query: { reporterId: acmeRequester.sub } });
+        expect(listed.body.items.map((item: any) => item.id)).toEqual([ticket.id]);
+        const comment = await callApi({ method: "POST", path: `${path}/comments`, user: acmeAdmin, body: { body: "On it" } });
+        expect(comment.statusCode).toBe(201);
+        expect((await callApi({ method: "GET", path: `${path}/comments`, user: acmeAdmin })).body.items).toHaveLength(1);
+      });
+
+      it("takes the organization from the token, or from X-Tenant-Id when enabled", async () => {
+        const acmeAgent = { sub: randomUUID(), groups: ["agent"], tenantId: acme };
+        const other = await callApi({ method: "GET", path: "/v1/tenant", user: acmeAgent, headers: { "X-Tenant-Id": globex } });
+        expect(other.statusCode).toBe(403);
+        expect(other.body.code).toBe(ErrorCodes.FORBIDDEN);
+
+        const unknown = await callApi({ method: "GET", path: "/v1/tenant", user: { sub: randomUUID(), tenantId: "initech" } });
+        expect(unknown.statusCode).toBe(403);
+        expect(unknown.body.code).toBe(ErrorCodes.UNKNOWN_TENANT);
+
+        expect((await callApi({ method: "GET", path: "/v1/tenant", user: requester, headers: { "X-Tenant-Id": acme } })).statusCode).toBe(400);
+        config.tenancy.allowHeader = true;
+        const viaHeader = await callApi({ method: "GET", path: "/v1/tenant", user: requester, headers: { "X-Tenant-Id": acme } });
+        expect(viaHeader.statusCode).toBe(200);
+        expect(viaHeader.body.id).toBe(acme);
+
+        const fallback = await callApi({ method: "GET", path: "/v1/tenant", user: requester });
+        expect(fallback.body).toMatchObject({ id: config.tenancy.defaultTenantId, defaultPriority: "MEDIUM", quotas: {} });
+      });
+
+      it("applies the default priority and allowed types of the organization", async () => {
+        const acmeRequester = { sub: randomUUID(), tenantId: acme };
+        expect(await createTicket(acmeRequester)).toMatchObject({ priority: "HIGH", type: "INCIDENT" });
+        expect(await createTicket(acmeRequester, { priority: "LOW" })).toMatchObject({ priority: "LOW" });
+        expect(await createTicket(requester)).toMatchObject({ priority: "MEDIUM" });
+
+        const refused = await callApi({ method: "POST", path: "/v1/tickets", user: acmeRequester, body: { title: "New laptop", description: "For the new hire", type: "SERVICE_REQUEST" } });
+        expect(refused.statusCode).toBe(400);
+        expect(refused.body.details).toEqual(["type - Ticket type SERVICE_REQUEST is not enabled for this organization"]);
+      });
+
+      it("answers 429 with Retry-After once a quota is used up", async () => {
+        const limitedRequester = { sub: randomUUID(), tenantId: limited };
+        await createTicket(limitedRequester);
+
+        const overTickets = await callApi({ method: "POST", path: "/v1/tickets", user: limitedRequester, body: { title: "Second", description: "Over the daily quota" } });
+        expect(overTickets.statusCode).toBe(429);
+        expect(overTickets.body.code).toBe(ErrorCodes.TICKET_QUOTA_EXCEEDED);
+
+        const tenant = await callApi({ method: "GET", path: "/v1/tenant", user: limitedRequester });
+        expect(tenant.body.usage).toEqual({ requestsThisMinute: 3, ticketsToday: 1 });
+
+        const overRequests = await callApi({ method: "GET", path: "/v1/tenant", user: limitedRequester });
+        expect(overRequests.statusCode).toBe(429);
+        expect(overRequests.body.code).toBe(ErrorCodes.RATE_LIMIT_EXCEEDED);
+        expect(Number(overRequests.headers["Retry-After"])).toBeGreaterThan(0);
+        expect(Number(overRequests.headers["Retry-After"])).toBeLessThanOrEqual(60);
+      });
+
+      it("does not count the tickets of an atomic batch that is not written", async () => {
+        const limitedAdmin = { sub: randomUUID(), groups: ["admin"], tenantId: limited };
+        const failed = await callApi({
+          method: "POST",
+          path: "/v1/tickets:batch",
+          user: limitedAdmin,
+          body: {
+            atomic: true,
+            operations: [
+              { method: "create", body: { title: "First", description: "Rolled back", reporterId: limitedAdmin.sub } },
+              { method: "patch", id: randomUUID(), body: { priority: "LOW" } },
+            ],
+          },
+        });
+        expect(failed.body).toMatchObject({ succeeded: 0, failed: 2 });
+
+        expect((await callApi({ method: "POST", path: "/v1/tickets", user: limitedAdmin, body: { title: "First", description: "Within the daily quota" } })).statusCode).toBe(201);
+        const tenant = await callApi({ method: "GET", path: "/v1/tenant", user: limitedAdmin });
+        expect(tenant.body.usage).toEqual({ requestsThisMinute: 3, ticketsToday: 1 });
+      });
+    });
+  });
+}
+
+describeApi("in-memory", inMemoryBackend);
+
+const dynamoDbEndpoint = process.env.DYNAMODB_ENDPOINT;
+if (dynamoDbEndpoint) {
+  describeApi("DynamoDB Local", dynamoDbLocalBackend(dynamoDbEndpoint));
+} else {
+  describe.skip("ticket API (DynamoDB Local, set DYNAMODB_ENDPOINT to run)", () => {
+    it("runs the same suite against DynamoDB Local", () => {});
+  });
+}
@@ -1,269 +1,173 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import z from 'zod';
+import { randomUUID } from "crypto";
+import { authenticate } from "../auth/authenticator";
 import { ErrorCodes } from "../common/error-codes";
+import { config } from "../common/config";
 import { BadRequestError } from "../errors/bad-request.error";
 import { HttpError } from "../errors/http-error";
-import { NotFoundError } from "../errors/not-found-error";
-import { CreateTicketDto, CreateTicketRequest, PatchTicketDto, PatchTicketRequest, TicketIdParam, TicketIdParamDto, UpdateTicketDto, UpdateTicketRequest } from "../schemas/schemas";
-import { TicketService } from "../services/ticket-service";
-
-// CORS headers configuration
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*', // In production, specify your domain
-  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Api-Key',
-  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE'
-};
-
-// Helper function to create CORS response
-function createCorsResponse(statusCode: number, body: string): APIGatewayProxyResult {
-  return {
-    statusCode,
-    headers: corsHeaders,
-    body
-  };
-}
-
-// Refactor: Functions for route handling
-async function handleCreateTicket(event: APIGatewayProxyEvent) {
-  try {
-    if (!event.body) {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body not found"]);
-    }
-
-    if (typeof event.body !== 'string') {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body is not string"]);
-    }
-
-    const body = JSON.parse(event.body);
-    const createTicketDto: CreateTicketDto = CreateTicketRequest.parse(body);
-
-    console.log("Create ticket", { body });
-    const response = await TicketService.createTicket(createTicketDto);
-
-    return createCorsResponse(201, JSON.stringify(response));
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("Error issues", { issues: error.issues, message: error.message });
-      const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", errorMessages);
-    }
-
-    throw error;
+import { MethodNotAllowedError } from "../errors/method-not-allowed.error";
+import { TooManyRequestsError } from "../errors/too-many-requests.error";
+import { UnauthorizedError } from "../errors/unauthorized.error";
+import { logger } from "../observability/logger";
+import { emitMetrics } from "../observability/metrics";
+import { getRequestContext, RequestContext, runWithRequestContext } from "../observability/request-context";
+import { IdempotencyKeyHeader } from "../schemas/schemas";
+import { IdempotencyService } from "../services/idempotency-service";
+import { TenantService } from "../services/tenant-service";
+import { createCorsResponse, getHeader } from "./http";
+import { router } from "./routes";
+
+// Methods that honour the Idempotency-Key header
+const IDEMPOTENT_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Accepted X-Request-Id values; anything else is replaced rather than echoed into logs and responses
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Idempotency-Key of a write request; reads are naturally idempotent and ignore it
+function getIdempotencyKey(event: APIGatewayProxyEvent): string | undefined {
+  const header = getHeader(event, "Idempotency-Key");
+  if (header === undefined || !IDEMPOTENT_METHODS.includes(event.httpMethod)) {
+    return undefined;
   }
-}
-
-async function handleGetAllTickets() {
-  console.log("Get all tickets");
-  const tickets = await TicketService.getAllTickets();
-  return createCorsResponse(200, JSON.stringify(tickets));
-}
-
-async function handleGetTicketById(id: string) {
-  try {
-    const validatedParams: TicketIdParamDto = TicketIdParam.parse({ id });
 
-    console.log(`Get ticket by id=${validatedParams.id}`);
-    const ticket = await TicketService.getTicketById(validatedParams.id);
-
-    if (!ticket) {
-      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `ticket with id="${validatedParams.id}" not found`);
-    }
-
-    return createCorsResponse(200, JSON.stringify(ticket));
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("ID validation error", { issues: error.issues, message: error.message });
-      const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid ticket ID", errorMessages);
-    }
-
-    throw error;
+  const parsed = IdempotencyKeyHeader.safeParse(header);
+  if (!parsed.success) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid Idempotency-Key header", parsed.error.issues.map(issue => issue.message));
   }
+  return parsed.data;
 }
 
-async function handleUpdateTicket(event: APIGatewayProxyEvent, id: string) {
-
-  try {
-    if (!event.body) {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body not found"]);
-    }
-
-    if (typeof event.body !== 'string') {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body is not string"]);
-    }
-
-    const body = JSON.parse(event.body);
-    const updateTicketDto: UpdateTicketDto = UpdateTicketRequest.parse(body);
-
-    const validatedParams: TicketIdParamDto = TicketIdParam.parse({ id });
-
-    console.log(`Update ticket by id=${validatedParams.id}`);
-    const updated = await TicketService.updateTicket(id, updateTicketDto);
-
-    return createCorsResponse(200, JSON.stringify(updated));
-
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("Error issues", { issues: error.issues, message: error.message });
-      const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", errorMessages);
-    }
-
-    throw error;
+// Headers some errors come with: the scheme to authenticate with, the methods of the path, when to retry
+function errorHeaders(error: HttpError): Record<string, string> {
+  if (error instanceof UnauthorizedError) {
+    return { 'WWW-Authenticate': 'Bearer' };
+  }
+  if (error instanceof MethodNotAllowedError) {
+    return { Allow: error.allowedMethods.join(", ") };
   }
+  if (error instanceof TooManyRequestsError) {
+    return { 'Retry-After': String(error.retryAfterSeconds) };
+  }
+  return {};
 }
 
-async function handlePatchTicket(event: APIGatewayProxyEvent, id: string) {
-  try {
-    if (!event.body) {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body not found"]);
-    }
-
-    if (typeof event.body !== 'string') {
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body is not string"]);
-    }
-
-    const body = JSON.parse(event.body);
-    const patchTicketDto: PatchTicketDto = PatchTicketRequest.parse(body);
-
-    const validatedParams: TicketIdParamDto = TicketIdParam.parse({ id });
-
-    console.log(`Patch ticket by id=${validatedParams.id}`);
-    const updated = await TicketService.patchTicket(id, patchTicketDto);
+// Error bodies carry the correlation id, so that clients can quote it in support requests
+function toErrorResponse(error: unknown): APIGatewayProxyResult {
+  const context = getRequestContext();
+  const requestId = context?.correlationId;
 
-    return createCorsResponse(200, JSON.stringify(updated));
-
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("Error issues", { issues: error.issues, message: error.message });
-      const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", errorMessages);
+  // HttpError, BadRequestError, NotFoundError
+  if (error instanceof HttpError) {
+    logger.warn("Request failed", { statusCode: error.statusCode, code: error.code, message: error.message, details: error.details });
+    if (context) {
+      context.errorCode = error.code;
     }
-
-    throw error;
+    return createCorsResponse(
+      error.statusCode,
+      JSON.stringify({ code: error.code, message: error.message, details: error.details ?? undefined, requestId }),
+      errorHeaders(error)
+    );
   }
-}
-
-async function handleDeleteTicket(id: string) {
-  try {
-    const validatedParams: TicketIdParamDto = TicketIdParam.parse({ id });
-    
-    console.log(`Delete by id=${validatedParams.id}`);
-    await TicketService.deleteTicket(validatedParams.id);
-
 
-    return createCorsResponse(204, "");
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("ID validation error", { issues: error.issues, message: error.message });
-      const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
-      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid ticket ID", errorMessages);
+  // JSON.parse of a malformed request body
+  if (error instanceof SyntaxError) {
+    logger.warn("Request failed", { statusCode: 400, code: ErrorCodes.BAD_REQUEST, message: error.message });
+    if (context) {
+      context.errorCode = ErrorCodes.BAD_REQUEST;
     }
+    return createCorsResponse(
+      400,
+      JSON.stringify({ code: ErrorCodes.BAD_REQUEST, message: "Invalid JSON body", details: [error.message], requestId })
+    );
+  }
 
-    throw error;
+  logger.error("Unexpected error", { error });
+  if (context) {
+    context.errorCode = ErrorCodes.INTERNAL_SERVER_ERROR;
   }
+  return createCorsResponse(
+    500,
+    JSON.stringify({ code: ErrorCodes.INTERNAL_SERVER_ERROR, message: "Unexpected server error", requestId })
+  );
 }
 
-// Refactor: Utility functions for routes
-function isCreateTicketRoute(method: string, path: string) {
-  return method === "POST" && path === "/v1/tickets";
+// Route of a request for logs and metrics, e.g. "GET /v1/tickets/{id}/comments"; ids would explode the metric dimensions.
+// Unknown paths and methods share one route, whatever the client sent.
+function routeName(method: string, path: string): string {
+  const match = router.find(method, path);
+  return match ? `${match.route.method} ${match.route.path}` : "UNMATCHED";
 }
 
-function isGetAllTicketsRoute(method: string, path: string) {
-  return method === "GET" && path === "/v1/tickets";
+// The caller's X-Request-Id when it is a plain token, otherwise the API Gateway request id
+function getCorrelationId(event: APIGatewayProxyEvent): string {
+  const header = getHeader(event, "X-Request-Id");
+  if (header && REQUEST_ID_PATTERN.test(header)) {
+    return header;
+  }
+  return event.requestContext?.requestId ?? randomUUID();
 }
 
-function isGetTicketByIdRoute(method: string, path: string) {
-  return method === "GET" && path.startsWith("/v1/tickets/") && path !== "/tickets";
+// Latency and DynamoDB capacity per route, errors per error code
+function emitRequestMetrics(context: RequestContext, latencyMs: number): void {
+  emitMetrics({ Route: context.route! }, [
+    { name: "Latency", unit: "Milliseconds", value: latencyMs },
+    { name: "ConsumedCapacity", unit: "Count", value: context.consumedCapacityUnits },
+  ]);
+  if (context.errorCode) {
+    emitMetrics({ ErrorCode: context.errorCode }, [{ name: "Errors", unit: "Count", value: 1 }]);
+  }
 }
 
-function isUpdateTicketRoute(method: string, path: string) {
-  return method === "PUT" && path.startsWith("/v1/tickets/") && path !== "/tickets";
-}
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const startedAt = Date.now();
 
-function isDeleteTicketRoute(method: string, path: string) {
-  return method === "DELETE" && path.startsWith("/v1/tickets/") && path !== "/tickets";
-}
+  return runWithRequestContext(getCorrelationId(event), async () => {
+    const context = getRequestContext()!;
+    context.route = routeName(event.httpMethod, event.path);
+    logger.info("Request received", { method: event.httpMethod, path: event.path, query: event.queryStringParameters, headers: event.headers });
 
-function isPatchTicketRoute(method: string, path: string) {
-  return method === "PATCH" && path.startsWith("/v1/tickets/") && path !== "/tickets";
-}
+    const response = await handleRequest(event);
 
-function isOptionsRequest(method: string) {
-  return method === "OPTIONS";
-}
+    const latencyMs = Date.now() - startedAt;
+    logger.info("Request completed", { statusCode: response.statusCode, latencyMs, consumedCapacity: context.consumedCapacityUnits });
+    emitRequestMetrics(context, latencyMs);
+    return { ...response, headers: { ...response.headers, 'X-Request-Id': context.correlationId } };
+  });
+};
 
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   try {
-    console.log("event: ", { event });
     const { httpMethod: method, path } = event;
-    const id = event.pathParameters?.id;
 
     // Handle CORS preflight requests
-    if (isOptionsRequest(method)) {
+    if (method === "OPTIONS") {
       return createCorsResponse(200, "");
     }
 
-    if (isCreateTicketRoute(method, path)) {
-      return await handleCreateTicket(event);
+    // Every route requires an authenticated caller
+    const auth = await authenticate(event);
 
-    } else if (isGetAllTicketsRoute(method, path)) {
-      return await handleGetAllTickets();
+    // Storage is scoped to the caller's organization from here on
+    const tenantId = TenantService.resolveTenant(auth, getHeader(event, "X-Tenant-Id"));
+    getRequestContext()!.tenantId = tenantId;
+    await TenantService.consumeRequest();
 
-    } else if (isGetTicketByIdRoute(method, path)) {
-      if (!id) {
-        throw new BadRequestError(
-          ErrorCodes.BAD_REQUEST,
-          "Ticket ID is required", ["Missing ticket ID parameter"]
-        );
-      }
-      return await handleGetTicketById(id);
-
-    } else if (isUpdateTicketRoute(method, path)) {
-      if (!id) {
-        throw new BadRequestError(
-          ErrorCodes.BAD_REQUEST,
-          "Ticket ID is required", ["Missing ticket ID parameter"]
-        );
-      }
-      return await handleUpdateTicket(event, id);
-
-    } else if (isPatchTicketRoute(method, path)) {
-      if (!id) {
-        throw new BadRequestError(
-          ErrorCodes.BAD_REQUEST,
-          "Ticket ID is required", ["Missing ticket ID parameter"]
-        );
-      }
-      return await handlePatchTicket(event, id);
-
-    } else if (isDeleteTicketRoute(method, path)) {
-      if (!id) {
-        throw new BadRequestError(
-          ErrorCodes.BAD_REQUEST,
-          "Ticket ID is required", ["Missing ticket ID parameter"]
-        );
-      }
-      return await handleDeleteTicket(id);
+    const idempotencyKey = getIdempotencyKey(event);
+    if (!idempotencyKey) {
+      return await router.dispatch(event, auth);
     }
 
-    // Path not found
-    throw new NotFoundError(ErrorCodes.PATH_NOT_FOUND, "Path not found");
+    // Keys are scoped to the caller and their organization; error responses are stored too, so a retry gets the same outcome
+    const request = { method, path, query: event.queryStringParameters ?? null, body: event.body, ifMatch: getHeader(event, "If-Match") ?? null };
+    const scope = tenantId === config.tenancy.defaultTenantId ? auth.userId : `${tenantId}#${auth.userId}`;
+    const { response, replayed } = await IdempotencyService.execute(scope, idempotencyKey, request, async () => {
+      const result = await router.dispatch(event, auth).catch(toErrorResponse);
+      return { statusCode: result.statusCode, headers: result.headers as Record<string, string>, body: result.body };
+    });
 
-  } catch (error) {
-    console.error("Error", { error });
+    return replayed ? { ...response, headers: { ...response.headers, 'Idempotent-Replayed': 'true' } } : response;
 
-    // HttpError, BadRequestError, NotFoundError
-    if (error instanceof HttpError) {
-      return createCorsResponse(
-        error.statusCode,
-        JSON.stringify({ code: error.code, message: error.message, details: error.details ?? undefined })
-      );
-    }
-
-    return createCorsResponse(
-      500,
-      JSON.stringify({ code: ErrorCodes.INTERNAL_SERVER_ERROR, message: "Unexpected server error" })
-    );
+  } catch (error) {
+    return toErrorResponse(error);
   }
 }
@@ -0,0 +1,954 @@
+import z from "zod";
+import { ErrorCodes } from "../common/error-codes";
+import { NotFoundError } from "../errors/not-found-error";
+import { logger } from "../observability/logger";
+import { defineRoute, Router, toValidationError } from "../routing/router";
+import { AttachmentUploadResponse, BatchTicketsResponse, CommentResponse, FieldDefinitionResponse, ListAttachmentResponse, ListCommentResponse, ListFieldDefinitionResponse, ListHistoryResponse, ListQueueResponse, ListTicketLinkResponse, ListTicketResponse, ListWebhookDeliveryResponse, ListWebhookResponse, ImportTicketsResponse, QueueResponse, SearchTicketsResponse, TenantResponse, TicketLinkResponse, TicketMergeResponse, TicketReportResponse, TicketResponse, WebhookDeliveryResponse, WebhookResponse } from "../schemas/responses";
+import { AttachmentIdParam, BatchTicketsContract, BatchTicketsRequest, CommentIdParam, CreateAttachmentRequest, CreateCommentRequest, CreateFieldDefinitionRequest, CreateQueueRequest, CreateTicketLinkRequest, CreateTicketRequest, CreateWebhookRequest, DeleteTicketQuery, ExportTicketsQuery, FieldDefinitionIdParam, ImportTicketsQuery, ListCommentsQuery, ListFieldDefinitionsQuery, ListHistoryQuery, ListQueueTicketsQuery, ListTicketsQuery, ListTrashQuery, ListWebhookDeliveriesQuery, MergeTicketsRequest, PatchFieldDefinitionRequest, PatchQueueRequest, PatchTicketRequest, PatchWebhookRequest, QueueIdParam, SearchTicketsQuery, TicketIdParam, TicketLinkParam, TicketReportQuery, UpdateCommentRequest, UpdateTicketRequest, WebhookIdParam } from "../schemas/schemas";
+import { AttachmentService } from "../services/attachment-service";
+import { BatchService } from "../services/batch-service";
+import { CommentService } from "../services/comment-service";
+import { ExportService } from "../services/export-service";
+import { HistoryService } from "../services/history-service";
+import { ImportService } from "../services/import-service";
+import { LinkService } from "../services/link-service";
+import { MergeService } from "../services/merge-service";
+import { FieldDefinitionService } from "../services/field-definition-service";
+import { QueueService } from "../services/queue-service";
+import { ReportService } from "../services/report-service";
+import { SearchService } from "../services/search-service";
+import { TenantService } from "../services/tenant-service";
+import { TicketService } from "../services/ticket-service";
+import { WebhookService } from "../services/webhook-service";
+import { createCorsResponse, createTicketResponse, getExpectedVersion, getHeader, getWriteOptions } from "./http";
+
+// The API: every route with its schemas, documentation and handler. openapi/api.yaml is generated from this table.
+export const routes = [
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets",
+    operationId: "createTicket",
+    tag: "Ticket",
+    summary: "Create new ticket",
+    body: CreateTicketRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Ticket created", schema: TicketResponse, headers: ["ETag"] } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 422: "StatusRequirementsError" },
+    async handle({ event, auth, body }) {
+      logger.debug("Create ticket", { body });
+      const response = await TicketService.createTicket(body, getWriteOptions(event, auth));
+
+      return createTicketResponse(201, response);
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets",
+    operationId: "listTickets",
+    tag: "Ticket",
+    summary: "List tickets (filtered, sorted and paginated)",
+    query: ListTicketsQuery,
+    responses: { 200: { description: "Page of tickets", schema: ListTicketResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, query }) {
+      logger.debug("List tickets", { query });
+      const page = await TicketService.listTickets(query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets:batch",
+    operationId: "batchTickets",
+    tag: "Ticket",
+    summary: "Create, patch and delete tickets in bulk",
+    description: [
+      "Runs up to 50 operations with the same permission, workflow and version checks as the single-ticket endpoints.",
+      "Each result carries the status the operation would have had as a single request, and the ticket or the error.",
+      "",
+      "By default operations are independent: creates are written together (BatchWriteItem) and the others one by one.",
+      "With `atomic: true` all operations are written in a single transaction or none is; the failing operations report",
+      "their own error and the rest `424 batch_aborted`. A ticket can only appear once in an atomic batch.",
+    ].join("\n"),
+    body: BatchTicketsRequest,
+    documentedBody: BatchTicketsContract,
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Outcome of every operation, in request order", schema: BatchTicketsResponse } },
+    errors: { 400: "BadRequestError" },
+    async handle({ event, auth, body }) {
+      const result = await BatchService.executeBatch(body, getWriteOptions(event, auth));
+
+      // Per-operation outcomes are in the body, each with the status it would have had as a single request
+      return createCorsResponse(200, JSON.stringify(result));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets:import",
+    operationId: "importTickets",
+    tag: "Ticket",
+    summary: "Import tickets from CSV or NDJSON (admin only)",
+    description: [
+      "Creates a ticket per row, up to 500 rows per request, with the same checks as `POST /v1/tickets`; rows are",
+      "`ImportTicketRow`s, which may keep the `id`, `createdAt` and `updatedAt` of the system they come from.",
+      "A CSV body starts with a header naming the columns; an NDJSON body has one JSON object per line.",
+      "Columns are renamed with `mapping`, and `customFields.<key>` columns set custom fields; unknown columns are ignored.",
+      "",
+      "Each row is `CREATED`, `SKIPPED` when its `externalRef` was imported before, or `FAILED` with the error it",
+      "would have had as a single request; failed rows do not stop the others. With `dryRun=true` every row is",
+      "checked and nothing is written.",
+    ].join("\n"),
+    query: ImportTicketsQuery,
+    bodyContent: { "text/csv": z.string(), "application/x-ndjson": z.string() },
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Outcome of every row, in body order", schema: ImportTicketsResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ event, auth, query }) {
+      const body = event.isBase64Encoded && event.body ? Buffer.from(event.body, "base64").toString("utf8") : event.body;
+      const result = await ImportService.importTickets(body, query, getHeader(event, "Content-Type"), getWriteOptions(event, auth));
+
+      return createCorsResponse(200, JSON.stringify(result));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets:export",
+    operationId: "exportTickets",
+    tag: "Ticket",
+    summary: "Export tickets as CSV or NDJSON",
+    description: [
+      "Every ticket matching the filters of `GET /v1/tickets`, as a download; requesters export the tickets they reported.",
+      "The response is not streamed: Lambda returns whole bodies of at most 6 MB, so large exports come in parts of about",
+      "2 MB. `X-Next-Cursor` is set while tickets remain, and passed as `cursor` for the next part; a complete export is",
+      "the parts in order. CSV parts each start with the header, with a `customFields.<key>` column per custom field of",
+      "the type filter, or of every type; the columns import back with `POST /v1/tickets:import`. CSV fields that a",
+      "spreadsheet would run as a formula (starting with `=`, `+`, `-`, `@`, a tab or a carriage return) get a leading",
+      "`'`, which the import removes.",
+    ].join("\n"),
+    query: ExportTicketsQuery,
+    responses: {
+      200: {
+        description: "Matching tickets, as an attachment",
+        content: { "application/x-ndjson": z.string(), "text/csv": z.string() },
+        headers: ["Content-Disposition", "X-Next-Cursor"],
+      },
+    },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, query }) {
+      logger.debug("Export tickets", { query });
+      const exported = await ExportService.exportTickets(query, auth);
+
+      return createCorsResponse(200, exported.body, {
+        'Content-Type': query.format === "csv" ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="tickets.${query.format}"`,
+        ...(exported.nextCursor ? { 'X-Next-Cursor': exported.nextCursor } : {}),
+      });
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/search",
+    operationId: "searchTickets",
+    tag: "Ticket",
+    summary: "Full-text search over tickets",
+    description: [
+      "Finds tickets by the words of their title, description and comments, ignoring case and accents.",
+      "Every word of `q` must match; a word also matches the longer words it starts (`print` finds `printer`).",
+      "Hits are ranked by score: title matches weigh 3, description and comment matches 1, prefix matches half.",
+      "Requesters only find the tickets they reported.",
+    ].join("\n"),
+    query: SearchTicketsQuery,
+    responses: { 200: { description: "Page of hits, best first", schema: SearchTicketsResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, query }) {
+      logger.debug("Search tickets", { query });
+      const page = await SearchService.searchTickets(query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/trash",
+    operationId: "listDeletedTickets",
+    tag: "Ticket",
+    summary: "List deleted tickets (admin only)",
+    description: [
+      "Tickets moved to the trash by DELETE, most recently deleted first. They can be restored until `purgeAt`,",
+      "when the table TTL purges them.",
+    ].join("\n"),
+    query: ListTrashQuery,
+    responses: { 200: { description: "Page of deleted tickets", schema: ListTicketResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, query }) {
+      logger.debug("List deleted tickets", { query });
+      const page = await TicketService.listDeletedTickets(query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets/{id}:restore",
+    operationId: "restoreTicket",
+    tag: "Ticket",
+    summary: "Restore a deleted ticket (admin only)",
+    description: "Takes the ticket out of the trash as it was when deleted. The version is incremented.",
+    params: TicketIdParam,
+    headers: ["If-Match", "Idempotency-Key"],
+    responses: { 200: { description: "Ticket restored", schema: TicketResponse, headers: ["ETag"] } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 409: "TicketNotDeletedError" },
+    async handle({ event, auth, params }) {
+      logger.debug("Restore ticket", { ticketId: params.id });
+      const restored = await TicketService.restoreTicket(params.id, {
+        ...getWriteOptions(event, auth),
+        expectedVersion: getExpectedVersion(event)
+      });
+
+      return createTicketResponse(200, restored);
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets/{id}:merge",
+    operationId: "mergeTickets",
+    tag: "Ticket",
+    summary: "Merge duplicates into a ticket (staff only)",
+    description: [
+      "Each duplicate is linked `DUPLICATE_OF` this ticket (replacing any other link between them) and `CLOSED`",
+      "with `mergedIntoId`, whatever its status. Its comments move to this ticket and its history is copied here,",
+      "each with `mergedFromTicketId`. Duplicates with open children cannot be merged. A merge that failed halfway",
+      "can be sent again: the steps already done are skipped. If-Match applies to this ticket.",
+    ].join("\n"),
+    params: TicketIdParam,
+    body: MergeTicketsRequest,
+    headers: ["If-Match", "Idempotency-Key"],
+    responses: { 200: { description: "Duplicates merged", schema: TicketMergeResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 409: "TicketMergeConflictError" },
+    async handle({ event, auth, params, body }) {
+      logger.debug("Merge tickets", { ticketId: params.id, duplicateIds: body.duplicateIds });
+      const result = await MergeService.mergeTickets(params.id, body, {
+        ...getWriteOptions(event, auth),
+        expectedVersion: getExpectedVersion(event)
+      });
+
+      return createCorsResponse(200, JSON.stringify(result));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/{id}",
+    operationId: "getTicket",
+    tag: "Ticket",
+    summary: "Get ticket by ID",
+    params: TicketIdParam,
+    responses: { 200: { description: "Ticket found", schema: TicketResponse, headers: ["ETag"] } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Get ticket", { ticketId: params.id });
+      const ticket = await TicketService.getTicketById(params.id, auth);
+
+      if (!ticket) {
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `ticket with id="${params.id}" not found`);
+      }
+
+      return createTicketResponse(200, ticket);
+    },
+  }),
+
+  defineRoute({
+    method: "PUT",
+    path: "/v1/tickets/{id}",
+    operationId: "updateTicket",
+    tag: "Ticket",
+    summary: "Update ticket by ID (Total replacement of the entire resource)",
+    params: TicketIdParam,
+    body: UpdateTicketRequest,
+    headers: ["If-Match", "Idempotency-Key"],
+    responses: { 200: { description: "Ticket updated", schema: TicketResponse, headers: ["ETag"] } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 409: "InvalidStatusTransitionError", 422: "StatusRequirementsError" },
+    async handle({ event, auth, params, body }) {
+      logger.debug("Update ticket", { ticketId: params.id });
+      const updated = await TicketService.updateTicket(params.id, body, {
+        ...getWriteOptions(event, auth),
+        expectedVersion: getExpectedVersion(event)
+      });
+
+      return createTicketResponse(200, updated);
+    },
+  }),
+
+  defineRoute({
+    method: "PATCH",
+    path: "/v1/tickets/{id}",
+    operationId: "patchTicket",
+    tag: "Ticket",
+    summary: "Update ticket by ID (Partial update of the resource)",
+    params: TicketIdParam,
+    body: PatchTicketRequest,
+    headers: ["If-Match", "Idempotency-Key"],
+    responses: { 200: { description: "Ticket updated", schema: TicketResponse, headers: ["ETag"] } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 409: "InvalidStatusTransitionError", 422: "StatusRequirementsError" },
+    async handle({ event, auth, params, body }) {
+      logger.debug("Patch ticket", { ticketId: params.id });
+      const updated = await TicketService.patchTicket(params.id, body, {
+        ...getWriteOptions(event, auth),
+        expectedVersion: getExpectedVersion(event)
+      });
+
+      return createTicketResponse(200, updated);
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/tickets/{id}",
+    operationId: "deleteTicket",
+    tag: "Ticket",
+    summary: "Delete ticket by ID",
+    description: [
+      "Moves the ticket to the trash: it is hidden from every read and can be restored until it is purged,",
+      "`TRASH_RETENTION_DAYS` (default 30) after the deletion. With `hard=true` the ticket is purged right away,",
+      "whether or not it is in the trash, together with its attachments. The history is kept in both cases.",
+    ].join("\n"),
+    params: TicketIdParam,
+    query: DeleteTicketQuery,
+    headers: ["If-Match", "Idempotency-Key"],
+    responses: { 204: { description: "Ticket moved to the trash, or purged with hard=true" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ event, auth, params, query }) {
+      const options = {
+        ...getWriteOptions(event, auth),
+        expectedVersion: getExpectedVersion(event)
+      };
+
+      logger.debug("Delete ticket", { ticketId: params.id, hard: query.hard });
+      if (query.hard) {
+        await TicketService.purgeTicket(params.id, options);
+      } else {
+        await TicketService.deleteTicket(params.id, options);
+      }
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets/{id}/comments",
+    operationId: "createComment",
+    tag: "Comment",
+    summary: "Add a comment to a ticket",
+    params: TicketIdParam,
+    body: CreateCommentRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Comment created", schema: CommentResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, body }) {
+      logger.debug("Create comment", { ticketId: params.id });
+      const comment = await CommentService.createComment(params.id, body, auth);
+
+      return createCorsResponse(201, JSON.stringify(comment));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/{id}/comments",
+    operationId: "listComments",
+    tag: "Comment",
+    summary: "List the comments of a ticket in chronological order",
+    params: TicketIdParam,
+    query: ListCommentsQuery,
+    responses: { 200: { description: "Page of comments", schema: ListCommentResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, query }) {
+      logger.debug("List comments", { ticketId: params.id });
+      const page = await CommentService.listComments(params.id, query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "PATCH",
+    path: "/v1/tickets/{id}/comments/{commentId}",
+    operationId: "updateComment",
+    tag: "Comment",
+    summary: "Edit a comment (author only)",
+    params: CommentIdParam,
+    body: UpdateCommentRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Comment updated", schema: CommentResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, body }) {
+      logger.debug("Update comment", { ticketId: params.id, commentId: params.commentId });
+      const comment = await CommentService.updateComment(params.id, params.commentId, body, auth);
+
+      return createCorsResponse(200, JSON.stringify(comment));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/tickets/{id}/comments/{commentId}",
+    operationId: "deleteComment",
+    tag: "Comment",
+    summary: "Delete a comment",
+    params: CommentIdParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Comment deleted" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Delete comment", { ticketId: params.id, commentId: params.commentId });
+      await CommentService.deleteComment(params.id, params.commentId, auth);
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/{id}/history",
+    operationId: "listTicketHistory",
+    tag: "History",
+    summary: "List the change history of a ticket (also available after deletion)",
+    params: TicketIdParam,
+    query: ListHistoryQuery,
+    responses: { 200: { description: "Page of history entries", schema: ListHistoryResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, query }) {
+      logger.debug("List ticket history", { ticketId: params.id });
+      const page = await HistoryService.listHistory(params.id, query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets/{id}/attachments",
+    operationId: "createAttachment",
+    tag: "Attachment",
+    summary: "Register an attachment and get a presigned upload URL",
+    description: [
+      "Records the attachment on the ticket and returns a URL to `PUT` its content to, valid for 15 minutes.",
+      "The upload must carry `uploadHeaders`; type, size and SHA-256 checksum have to match the declared ones.",
+      "Files are limited to 10 MB, tickets to 20 attachments and 50 MB in total.",
+    ].join("\n"),
+    params: TicketIdParam,
+    body: CreateAttachmentRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Attachment registered", schema: AttachmentUploadResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 412: "PreconditionFailedError" },
+    async handle({ event, auth, params, body }) {
+      try {
+        logger.debug("Create attachment", { ticketId: params.id });
+        const upload = await AttachmentService.createAttachment(params.id, body, getWriteOptions(event, auth));
+
+        return createCorsResponse(201, JSON.stringify(upload));
+      } catch (error) {
+        // The per-ticket quotas are checked by the service against the ticket's attachments
+        if (error instanceof z.ZodError) {
+          throw toValidationError("Validation failed", error);
+        }
+        throw error;
+      }
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/{id}/attachments",
+    operationId: "listAttachments",
+    tag: "Attachment",
+    summary: "List the attachments of a ticket with presigned download URLs",
+    params: TicketIdParam,
+    responses: { 200: { description: "Attachments of the ticket, oldest first; download URLs are valid for 5 minutes", schema: ListAttachmentResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("List attachments", { ticketId: params.id });
+      const list = await AttachmentService.listAttachments(params.id, auth);
+
+      return createCorsResponse(200, JSON.stringify(list));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/tickets/{id}/attachments/{attachmentId}",
+    operationId: "deleteAttachment",
+    tag: "Attachment",
+    summary: "Delete an attachment (uploader or admin) and its content",
+    params: AttachmentIdParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Attachment deleted" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 412: "PreconditionFailedError" },
+    async handle({ event, auth, params }) {
+      logger.debug("Delete attachment", { ticketId: params.id, attachmentId: params.attachmentId });
+      await AttachmentService.deleteAttachment(params.id, params.attachmentId, getWriteOptions(event, auth));
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tickets/{id}/links",
+    operationId: "listTicketLinks",
+    tag: "Link",
+    summary: "List the links of a ticket",
+    params: TicketIdParam,
+    responses: { 200: { description: "Links of the ticket", schema: ListTicketLinkResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("List ticket links", { ticketId: params.id });
+      const items = await LinkService.listLinks(params.id, auth);
+
+      return createCorsResponse(200, JSON.stringify({ items }));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/tickets/{id}/links",
+    operationId: "createTicketLink",
+    tag: "Link",
+    summary: "Link a ticket to another one",
+    description: [
+      "The linked ticket gets the inverse link (`PARENT_OF`/`CHILD_OF`, `BLOCKS`/`BLOCKED_BY`,",
+      "`DUPLICATE_OF`/`DUPLICATED_BY`, `RELATES_TO`); two tickets have at most one link. A ticket has at most one",
+      "parent and is the duplicate of at most one ticket, and parents, blockers and duplicates cannot form cycles.",
+      "Requires being able to modify this ticket and see the linked one.",
+    ].join("\n"),
+    params: TicketIdParam,
+    body: CreateTicketLinkRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Link created", schema: TicketLinkResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError", 409: "TicketLinkConflictError" },
+    async handle({ event, auth, params, body }) {
+      logger.debug("Create ticket link", { ticketId: params.id, linkedTicketId: body.ticketId, type: body.type });
+      const link = await LinkService.createLink(params.id, body, getWriteOptions(event, auth));
+
+      return createCorsResponse(201, JSON.stringify(link));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/tickets/{id}/links/{linkedTicketId}",
+    operationId: "deleteTicketLink",
+    tag: "Link",
+    summary: "Remove the link between two tickets, from both of them",
+    params: TicketLinkParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Link removed" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ event, auth, params }) {
+      logger.debug("Delete ticket link", { ticketId: params.id, linkedTicketId: params.linkedTicketId });
+      await LinkService.deleteLink(params.id, params.linkedTicketId, getWriteOptions(event, auth));
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/field-definitions",
+    operationId: "createFieldDefinition",
+    tag: "FieldDefinition",
+    summary: "Define a custom field for a ticket type (admin only)",
+    description: [
+      "Tickets of the type carry the field in `customFields` under its key, checked on every create, PUT and PATCH.",
+      "`required` fields must be set when a ticket is created and cannot be removed; tickets created from email are",
+      "exempt until their next change of custom fields. The key, ticket type and kind cannot be changed afterwards.",
+    ].join("\n"),
+    body: CreateFieldDefinitionRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Field definition created", schema: FieldDefinitionResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 409: "FieldDefinitionConflictError" },
+    async handle({ auth, body }) {
+      logger.debug("Create field definition", { body });
+      const definition = await FieldDefinitionService.createFieldDefinition(body, auth);
+
+      return createCorsResponse(201, JSON.stringify(definition));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/field-definitions",
+    operationId: "listFieldDefinitions",
+    tag: "FieldDefinition",
+    summary: "List the custom fields of ticket types",
+    query: ListFieldDefinitionsQuery,
+    responses: { 200: { description: "Matching field definitions", schema: ListFieldDefinitionResponse } },
+    errors: { 400: "BadRequestError" },
+    async handle({ query }) {
+      const items = await FieldDefinitionService.listFieldDefinitions(query);
+
+      return createCorsResponse(200, JSON.stringify({ items }));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/field-definitions/{id}",
+    operationId: "getFieldDefinition",
+    tag: "FieldDefinition",
+    summary: "Get a custom field definition",
+    params: FieldDefinitionIdParam,
+    responses: { 200: { description: "Field definition found", schema: FieldDefinitionResponse } },
+    errors: { 400: "BadRequestError", 404: "NotFoundError" },
+    async handle({ params }) {
+      const definition = await FieldDefinitionService.getFieldDefinitionById(params.id);
+
+      return createCorsResponse(200, JSON.stringify(definition));
+    },
+  }),
+
+  defineRoute({
+    method: "PATCH",
+    path: "/v1/field-definitions/{id}",
+    operationId: "patchFieldDefinition",
+    tag: "FieldDefinition",
+    summary: "Update a custom field definition (admin only)",
+    description: "Applies to ticket writes from now on; values already stored are checked again when a write changes them.",
+    params: FieldDefinitionIdParam,
+    body: PatchFieldDefinitionRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Field definition updated", schema: FieldDefinitionResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, body }) {
+      logger.debug("Patch field definition", { fieldDefinitionId: params.id, body });
+      const definition = await FieldDefinitionService.patchFieldDefinition(params.id, body, auth);
+
+      return createCorsResponse(200, JSON.stringify(definition));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/field-definitions/{id}",
+    operationId: "deleteFieldDefinition",
+    tag: "FieldDefinition",
+    summary: "Delete a custom field definition (admin only)",
+    description: "Tickets keep their values until a write sets them to null or changes the ticket type.",
+    params: FieldDefinitionIdParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Field definition deleted" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Delete field definition", { fieldDefinitionId: params.id });
+      await FieldDefinitionService.deleteFieldDefinition(params.id, auth);
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/queues",
+    operationId: "createQueue",
+    tag: "Queue",
+    summary: "Create an agent queue (admin only)",
+    description: [
+      "New tickets are routed to the first queue, by `position`, with a rule they match, and assigned to one of its",
+      "agents unless the request assigns them: in turn with `ROUND_ROBIN`, or to the agent with the fewest open",
+      "tickets with `LEAST_LOADED`. Re-opened tickets go back to their queue and keep their assignee while they",
+      "are still an agent of it.",
+    ].join("\n"),
+    body: CreateQueueRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Queue created", schema: QueueResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, body }) {
+      logger.debug("Create queue", { body });
+      const queue = await QueueService.createQueue(body, auth);
+
+      return createCorsResponse(201, JSON.stringify(queue));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/queues",
+    operationId: "listQueues",
+    tag: "Queue",
+    summary: "List agent queues (agents and admins)",
+    responses: { 200: { description: "Every queue, in routing order", schema: ListQueueResponse } },
+    errors: { 403: "ForbiddenError" },
+    async handle({ auth }) {
+      const items = await QueueService.listQueues(auth);
+
+      return createCorsResponse(200, JSON.stringify({ items }));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/queues/{id}",
+    operationId: "getQueue",
+    tag: "Queue",
+    summary: "Get an agent queue (agents and admins)",
+    params: QueueIdParam,
+    responses: { 200: { description: "Queue found", schema: QueueResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      const queue = await QueueService.getQueueById(params.id, auth);
+
+      return createCorsResponse(200, JSON.stringify(queue));
+    },
+  }),
+
+  defineRoute({
+    method: "PATCH",
+    path: "/v1/queues/{id}",
+    operationId: "patchQueue",
+    tag: "Queue",
+    summary: "Update an agent queue (admin only)",
+    description: "Applies to tickets routed from now on; tickets already in the queue keep their assignee.",
+    params: QueueIdParam,
+    body: PatchQueueRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Queue updated", schema: QueueResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, body }) {
+      logger.debug("Patch queue", { queueId: params.id, body });
+      const queue = await QueueService.patchQueue(params.id, body, auth);
+
+      return createCorsResponse(200, JSON.stringify(queue));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/queues/{id}",
+    operationId: "deleteQueue",
+    tag: "Queue",
+    summary: "Delete an agent queue (admin only)",
+    description: "Its tickets keep their assignee; if they are re-opened, they are routed again by the rules of the other queues.",
+    params: QueueIdParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Queue deleted" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Delete queue", { queueId: params.id });
+      await QueueService.deleteQueue(params.id, auth);
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/queues/{id}/tickets",
+    operationId: "listQueueTickets",
+    tag: "Queue",
+    summary: "List the tickets routed to a queue (agents and admins)",
+    params: QueueIdParam,
+    query: ListQueueTicketsQuery,
+    responses: { 200: { description: "Page of tickets", schema: ListTicketResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, query }) {
+      logger.debug("List queue tickets", { queueId: params.id, query });
+      const page = await QueueService.listQueueTickets(params.id, query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/webhooks",
+    operationId: "createWebhook",
+    tag: "Webhook",
+    summary: "Subscribe an endpoint to ticket changes (admin only)",
+    description: [
+      "Ticket creations, updates, deletions, restores and purges matching the filter are POSTed to the URL as JSON",
+      "by the webhook dispatcher, usually within a minute of the change,",
+      "signed in `X-Webhook-Signature` as `sha256=<hex HMAC-SHA256 of \"<X-Webhook-Timestamp>.<body>\">` with the secret.",
+      "Any answer but a 2xx within the timeout is retried with exponential backoff, then dead-lettered; the",
+      "`X-Webhook-Delivery` header is the same on every attempt. The URL must be https.",
+    ].join("\n"),
+    body: CreateWebhookRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 201: { description: "Webhook created", schema: WebhookResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, body }) {
+      logger.debug("Create webhook", { url: body.url, filter: body.filter });
+      const webhook = await WebhookService.createWebhook(body, auth);
+
+      return createCorsResponse(201, JSON.stringify(webhook));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/webhooks",
+    operationId: "listWebhooks",
+    tag: "Webhook",
+    summary: "List webhooks (admin only)",
+    responses: { 200: { description: "Every webhook, oldest first", schema: ListWebhookResponse } },
+    errors: { 403: "ForbiddenError" },
+    async handle({ auth }) {
+      const items = await WebhookService.listWebhooks(auth);
+
+      return createCorsResponse(200, JSON.stringify({ items }));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/webhooks/{id}",
+    operationId: "getWebhook",
+    tag: "Webhook",
+    summary: "Get a webhook (admin only)",
+    params: WebhookIdParam,
+    responses: { 200: { description: "Webhook found", schema: WebhookResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      const webhook = await WebhookService.getWebhookById(params.id, auth);
+
+      return createCorsResponse(200, JSON.stringify(webhook));
+    },
+  }),
+
+  defineRoute({
+    method: "PATCH",
+    path: "/v1/webhooks/{id}",
+    operationId: "patchWebhook",
+    tag: "Webhook",
+    summary: "Update a webhook (admin only)",
+    description: "Pending deliveries are retried with the new URL and secret.",
+    params: WebhookIdParam,
+    body: PatchWebhookRequest,
+    headers: ["Idempotency-Key"],
+    responses: { 200: { description: "Webhook updated", schema: WebhookResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, body }) {
+      logger.debug("Patch webhook", { webhookId: params.id, url: body.url, filter: body.filter });
+      const webhook = await WebhookService.patchWebhook(params.id, body, auth);
+
+      return createCorsResponse(200, JSON.stringify(webhook));
+    },
+  }),
+
+  defineRoute({
+    method: "DELETE",
+    path: "/v1/webhooks/{id}",
+    operationId: "deleteWebhook",
+    tag: "Webhook",
+    summary: "Delete a webhook (admin only)",
+    description: "Its pending deliveries are dead-lettered; the delivery log expires after 30 days.",
+    params: WebhookIdParam,
+    headers: ["Idempotency-Key"],
+    responses: { 204: { description: "Webhook deleted" } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Delete webhook", { webhookId: params.id });
+      await WebhookService.deleteWebhook(params.id, auth);
+
+      return createCorsResponse(204, "");
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/webhooks/{id}/deliveries",
+    operationId: "listWebhookDeliveries",
+    tag: "Webhook",
+    summary: "List the deliveries of a webhook (admin only)",
+    description: "Deliveries of the last 30 days with their attempts, newest first; `status=DEAD_LETTER` lists the ones that gave up.",
+    params: WebhookIdParam,
+    query: ListWebhookDeliveriesQuery,
+    responses: { 200: { description: "Page of deliveries", schema: ListWebhookDeliveryResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params, query }) {
+      logger.debug("List webhook deliveries", { webhookId: params.id, query });
+      const page = await WebhookService.listDeliveries(params.id, query, auth);
+
+      return createCorsResponse(200, JSON.stringify(page));
+    },
+  }),
+
+  defineRoute({
+    method: "POST",
+    path: "/v1/webhooks/{id}/test",
+    operationId: "testWebhook",
+    tag: "Webhook",
+    summary: "Send a test delivery to a webhook (admin only)",
+    description: "Sends a signed `WebhookTest` delivery right away and returns its outcome; test deliveries are not retried.",
+    params: WebhookIdParam,
+    responses: { 200: { description: "Delivery attempted", schema: WebhookDeliveryResponse } },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError", 404: "NotFoundError" },
+    async handle({ auth, params }) {
+      logger.debug("Test webhook", { webhookId: params.id });
+      const delivery = await WebhookService.testWebhook(params.id, auth);
+
+      return createCorsResponse(200, JSON.stringify(delivery));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/reports/tickets",
+    operationId: "getTicketReport",
+    tag: "Report",
+    summary: "Get ticket metrics (agents and admins)",
+    description: [
+      "Current counts of tickets by status, and of open tickets by priority, type and assignee; created and",
+      "resolved tickets per UTC day, and the mean time to resolution, over the range; the age of the open",
+      "backlog. Only tickets written since the counters were deployed are counted.",
+    ].join("\n"),
+    query: TicketReportQuery,
+    responses: {
+      200: {
+        description: "Ticket report; with format=csv, as an attachment",
+        schema: TicketReportResponse,
+        content: { "text/csv": z.string() },
+        headers: ["Content-Disposition"],
+      },
+    },
+    errors: { 400: "BadRequestError", 403: "ForbiddenError" },
+    async handle({ auth, query }) {
+      logger.debug("Get ticket report", { query });
+      const report = await ReportService.getTicketReport(query, auth);
+
+      if (query.format === "csv") {
+        return createCorsResponse(200, ReportService.toCsv(report), {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="ticket-report-${report.from}-${report.to}.csv"`,
+        });
+      }
+      return createCorsResponse(200, JSON.stringify(report));
+    },
+  }),
+
+  defineRoute({
+    method: "GET",
+    path: "/v1/tenant",
+    operationId: "getTenant",
+    tag: "Tenant",
+    summary: "Get the caller's organization",
+    description: "Its settings, as configured in `TENANTS`, and its usage of the current quota windows.",
+    responses: { 200: { description: "Organization of the caller", schema: TenantResponse } },
+    async handle() {
+      const tenant = await TenantService.getTenant();
+
+      return createCorsResponse(200, JSON.stringify(tenant));
+    },
+  }),
+];
+
+export const router = new Router(routes);
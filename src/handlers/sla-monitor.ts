@@ -0,0 +1,24 @@
+import { Context, ScheduledEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { logger } from "../observability/logger";
+import { runAsTenant, runWithRequestContext } from "../observability/request-context";
+import { SlaMonitorResult, SlaService } from "../services/sla-service";
+import { TenantService } from "../services/tenant-service";
+
+// Invoked by an EventBridge schedule (e.g. rate(5 minutes)) to flag tickets at risk of or in breach of their SLA, organization by organization
+export const handler = async (event: ScheduledEvent, context?: Context): Promise<SlaMonitorResult> => {
+  return runWithRequestContext(context?.awsRequestId ?? randomUUID(), async () => {
+    logger.info("SLA monitor invoked", { eventId: event.id, time: event.time });
+    const now = new Date(event.time ?? Date.now());
+
+    const total: SlaMonitorResult = { checked: 0, atRisk: 0, breached: 0, updated: 0 };
+    for (const tenantId of TenantService.listTenantIds()) {
+      const result = await runAsTenant(tenantId, () => SlaService.flagTickets(now));
+      total.checked += result.checked;
+      total.atRisk += result.atRisk;
+      total.breached += result.breached;
+      total.updated += result.updated;
+    }
+    return total;
+  });
+};
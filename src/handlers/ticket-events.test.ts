@@ -0,0 +1,203 @@
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { AttributeValue as StreamAttributeValue, DynamoDBRecord } from "aws-lambda";
+import { SlaState, TicketEventType, TicketHistoryAction, TicketStatus } from "../common/enums";
+import { setAttachmentStorage, setSearchIndex } from "../repositories";
+import { EntityType } from "../repositories/dynamodb";
+import { InMemoryAttachmentStorage } from "../repositories/in-memory-attachment-storage";
+import { InMemorySearchIndex } from "../repositories/in-memory-search-index";
+import { EventPublisher, InMemoryEventPublisher } from "../services/event-publisher";
+import { eventsFromStreamRecord, handler, setEventPublisher } from "./ticket-events";
+
+const ticketId = "6f1c1f5e-2a4b-4c1e-9a55-000000000001";
+
+function image(item: Record<string, unknown>): Record<string, StreamAttributeValue> {
+  return marshall(item, { removeUndefinedValues: true }) as Record<string, StreamAttributeValue>;
+}
+
+function streamRecord(eventName: DynamoDBRecord["eventName"], newItem?: Record<string, unknown>, oldItem?: Record<string, unknown>): DynamoDBRecord {
+  const sequence = Math.floor(Math.random() * 1e9).toString();
+  return {
+    eventID: `event-${sequence}`,
+    eventName,
+    dynamodb: {
+      SequenceNumber: sequence,
+      ApproximateCreationDateTime: 1741000000,
+      NewImage: newItem && image(newItem),
+      OldImage: oldItem && image(oldItem),
+    },
+  };
+}
+
+function historyItem(entryId: string, action: TicketHistoryAction, changes: unknown[]) {
+  return {
+    id: `${ticketId}#HISTORY#${entryId}`,
+    entityType: EntityType.HISTORY,
+    ticketId,
+    sortKey: `HISTORY#2025-03-03T09:00:00.000Z#${entryId}`,
+    entryId,
+    action,
+    changes,
+    actorId: "agent-1",
+    requestId: "request-1",
+    occurredAt: "2025-03-03T09:00:00.000Z",
+  };
+}
+
+function ticketItem(overrides: Record<string, unknown> = {}) {
+  return { id: ticketId, entityType: EntityType.TICKET, status: TicketStatus.OPEN, version: 2, ...overrides };
+}
+
+// Removal of a deleted ticket by the table TTL
+function expiredRecord() {
+  const item = ticketItem({
+    title: "VPN down",
+    deletedAt: "2025-03-03T09:00:00.000Z",
+    deletedEntityType: EntityType.TICKET,
+    expiresAt: 1743584400,
+    attachments: [{ id: "a1", fileName: "log.txt" }],
+  });
+  return { ...streamRecord("REMOVE", undefined, item), userIdentity: { type: "Service", principalId: "dynamodb.amazonaws.com" } };
+}
+
+describe("eventsFromStreamRecord", () => {
+  it("maps a created history entry to TicketCreated with the new values", () => {
+    const record = streamRecord("INSERT", historyItem("h1", TicketHistoryAction.CREATED, [
+      { field: "title", oldValue: null, newValue: "VPN down" },
+      { field: "status", oldValue: null, newValue: TicketStatus.NEW },
+    ]));
+
+    expect(eventsFromStreamRecord(record)).toEqual([expect.objectContaining({
+      id: `h1:${TicketEventType.TICKET_CREATED}`,
+      type: TicketEventType.TICKET_CREATED,
+      schemaVersion: 1,
+      ticketId,
+      actorId: "agent-1",
+      requestId: "request-1",
+      data: { ticket: { title: "VPN down", status: TicketStatus.NEW } },
+    })]);
+  });
+
+  it("adds assignment and status events next to TicketUpdated", () => {
+    const record = streamRecord("INSERT", historyItem("h2", TicketHistoryAction.UPDATED, [
+      { field: "assignedToId", oldValue: null, newValue: "agent-2" },
+      { field: "status", oldValue: TicketStatus.NEW, newValue: TicketStatus.OPEN },
+    ]));
+
+    const events = eventsFromStreamRecord(record);
+
+    expect(events.map(event => event.type)).toEqual([
+      TicketEventType.TICKET_UPDATED,
+      TicketEventType.TICKET_ASSIGNED,
+      TicketEventType.TICKET_STATUS_CHANGED,
+    ]);
+    expect(events[1].data).toEqual({ previousAssigneeId: null, assigneeId: "agent-2" });
+    expect(events[2].data).toEqual({ from: TicketStatus.NEW, to: TicketStatus.OPEN });
+  });
+
+  it("maps new comments to TicketCommentAdded", () => {
+    const record = streamRecord("INSERT", {
+      id: `${ticketId}#COMMENT#c1`,
+      entityType: EntityType.COMMENT,
+      ticketId,
+      sortKey: "COMMENT#2025-03-03T09:00:00.000Z#c1",
+      commentId: "c1",
+      authorId: "user-1",
+      body: "Any news?",
+      createdAt: "2025-03-03T09:00:00.000Z",
+    });
+
+    expect(eventsFromStreamRecord(record)).toEqual([expect.objectContaining({
+      id: `c1:${TicketEventType.TICKET_COMMENT_ADDED}`,
+      data: { commentId: "c1", authorId: "user-1" },
+    })]);
+  });
+
+  it("publishes SLA state changes read from the ticket images", () => {
+    const record = streamRecord("MODIFY", ticketItem({ slaState: SlaState.BREACHED }), ticketItem({ slaState: SlaState.AT_RISK }));
+
+    expect(eventsFromStreamRecord(record)).toEqual([expect.objectContaining({
+      id: `${record.eventID}:${TicketEventType.TICKET_SLA_STATE_CHANGED}`,
+      occurredAt: new Date(1741000000 * 1000).toISOString(),
+      data: { from: SlaState.AT_RISK, to: SlaState.BREACHED },
+    })]);
+  });
+
+  it("maps tickets expired by the table TTL to TicketPurged", () => {
+    const record = expiredRecord();
+
+    expect(eventsFromStreamRecord(record)).toEqual([expect.objectContaining({
+      id: `${record.eventID}:${TicketEventType.TICKET_PURGED}`,
+      ticketId,
+      actorId: undefined,
+      data: { ticket: { title: "VPN down", status: TicketStatus.OPEN }, expired: true },
+    })]);
+  });
+
+  it("names the organization of items written for one", () => {
+    const scoped = (item: Record<string, unknown>) => ({ ...item, ticketId: `acme#${ticketId}`, entityType: `acme#${item.entityType}`, tenantId: "acme" });
+    const record = streamRecord("INSERT", scoped(historyItem("h1", TicketHistoryAction.CREATED, [{ field: "title", oldValue: null, newValue: "VPN down" }])));
+
+    expect(eventsFromStreamRecord(record)).toEqual([expect.objectContaining({
+      type: TicketEventType.TICKET_CREATED,
+      ticketId,
+      tenantId: "acme",
+    })]);
+  });
+
+  it("ignores ticket writes that leave the SLA state alone", () => {
+    expect(eventsFromStreamRecord(streamRecord("MODIFY", ticketItem({ title: "New" }), ticketItem()))).toEqual([]);
+    expect(eventsFromStreamRecord(streamRecord("INSERT", ticketItem()))).toEqual([]);
+    expect(eventsFromStreamRecord(streamRecord("REMOVE", undefined, ticketItem()))).toEqual([]);
+  });
+});
+
+describe("ticket events handler", () => {
+  afterAll(() => setEventPublisher(undefined));
+
+  it("publishes the events of every record in order", async () => {
+    const publisher = new InMemoryEventPublisher();
+    setEventPublisher(publisher);
+
+    const result = await handler({
+      Records: [
+        streamRecord("INSERT", historyItem("h1", TicketHistoryAction.CREATED, [{ field: "title", oldValue: null, newValue: "VPN down" }])),
+        streamRecord("INSERT", historyItem("h2", TicketHistoryAction.DELETED, [{ field: "title", oldValue: "VPN down", newValue: null }])),
+      ],
+    });
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(publisher.events.map(event => event.type)).toEqual([TicketEventType.TICKET_CREATED, TicketEventType.TICKET_DELETED]);
+  });
+
+  it("cleans up the search index and attachments of expired tickets", async () => {
+    const searchIndex = new InMemorySearchIndex();
+    const attachmentStorage = new InMemoryAttachmentStorage();
+    setSearchIndex(searchIndex);
+    setAttachmentStorage(attachmentStorage);
+    setEventPublisher(new InMemoryEventPublisher());
+    await searchIndex.indexField(ticketId, "title", { vpn: 3, down: 3 });
+    await attachmentStorage.createUploadUrl(`tickets/${ticketId}/a1`, { contentType: "text/plain", size: 1, checksum: "" }, 60);
+
+    await handler({ Records: [expiredRecord()] });
+
+    expect(await searchIndex.findByPrefix("vpn", 10)).toEqual([]);
+    expect(attachmentStorage.objects.size).toBe(0);
+    setSearchIndex(undefined);
+    setAttachmentStorage(undefined);
+  });
+
+  it("reports the first record that fails so the batch resumes from it", async () => {
+    const failing: EventPublisher = { publish: jest.fn().mockRejectedValue(new Error("throttled")) };
+    setEventPublisher(failing);
+    const records = [
+      streamRecord("MODIFY", ticketItem({ title: "New" }), ticketItem()),
+      streamRecord("INSERT", historyItem("h3", TicketHistoryAction.CREATED, [])),
+      streamRecord("INSERT", historyItem("h4", TicketHistoryAction.CREATED, [])),
+    ];
+
+    const result = await handler({ Records: records });
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: records[1].dynamodb!.SequenceNumber }] });
+    expect(failing.publish).toHaveBeenCalledTimes(1);
+  });
+});
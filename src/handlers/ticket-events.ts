@@ -0,0 +1,131 @@
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { Context, AttributeValue as StreamAttributeValue, DynamoDBBatchResponse, DynamoDBRecord, DynamoDBStreamEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { config } from "../common/config";
+import { logger } from "../observability/logger";
+import { runAsTenant, runWithRequestContext } from "../observability/request-context";
+import { EntityType, fromTenantItem, tenantOfItem } from "../repositories/dynamodb";
+import { toComment, toHistoryEntry, toTicket } from "../repositories/dynamodb-ticket-repository";
+import { AttachmentService } from "../services/attachment-service";
+import { EventBridgeEventPublisher, EventPublisher } from "../services/event-publisher";
+import { eventFromComment, eventFromExpiredTicket, eventFromSlaStateChange, eventsFromHistoryEntry } from "../services/ticket-event-service";
+import { TicketService } from "../services/ticket-service";
+import { TicketEvent } from "../types/events";
+import { Ticket } from "../types/ticket";
+
+// Cached across invocations of the same Lambda container
+let publisher: EventPublisher | undefined;
+
+export function setEventPublisher(eventPublisher: EventPublisher | undefined): void {
+  publisher = eventPublisher;
+}
+
+function getEventPublisher(): EventPublisher {
+  publisher ??= new EventBridgeEventPublisher();
+  return publisher;
+}
+
+// Stream images use the same attribute value shape as the SDK, only typed by a different package
+function unmarshallImage(image: Record<string, StreamAttributeValue> | undefined): Record<string, any> | undefined {
+  return image ? unmarshall(image as Record<string, AttributeValue>) : undefined;
+}
+
+// Item as its organization wrote it, without the organization prefixes of the keys
+function toItem(image: Record<string, StreamAttributeValue> | undefined): Record<string, any> | undefined {
+  const item = unmarshallImage(image);
+  return item ? fromTenantItem(item) : undefined;
+}
+
+function tenantOfRecord(record: DynamoDBRecord): string {
+  const item = unmarshallImage(record.dynamodb?.NewImage ?? record.dynamodb?.OldImage);
+  return item ? tenantOfItem(item) : config.tenancy.defaultTenantId;
+}
+
+function occurredAtOf(record: DynamoDBRecord): string {
+  return new Date((record.dynamodb?.ApproximateCreationDateTime ?? Date.now() / 1000) * 1000).toISOString();
+}
+
+// Ticket purged from the trash by the table TTL: removals made by the DynamoDB service itself
+function expiredTicketOf(record: DynamoDBRecord): Ticket | undefined {
+  const oldItem = toItem(record.dynamodb?.OldImage);
+  const expired = record.eventName === "REMOVE"
+    && record.userIdentity?.type === "Service"
+    && record.userIdentity?.principalId === "dynamodb.amazonaws.com";
+  return expired && oldItem?.entityType === EntityType.TICKET ? toTicket(oldItem) : undefined;
+}
+
+// Maps one stream record of the tickets table to the domain events it represents; events of other organizations than
+// the default one name their organization
+export function eventsFromStreamRecord(record: DynamoDBRecord): TicketEvent[] {
+  const tenantId = tenantOfRecord(record);
+  const events = ticketEventsOf(record);
+  return tenantId === config.tenancy.defaultTenantId ? events : events.map(event => ({ ...event, tenantId }));
+}
+
+function ticketEventsOf(record: DynamoDBRecord): TicketEvent[] {
+  const newItem = toItem(record.dynamodb?.NewImage);
+  const oldItem = toItem(record.dynamodb?.OldImage);
+
+  // Comments and history entries moved or copied by a merge were already published for the duplicate
+  if (newItem?.mergedFromTicketId) {
+    return [];
+  }
+
+  if (record.eventName === "INSERT" && newItem?.entityType === EntityType.HISTORY) {
+    return eventsFromHistoryEntry(toHistoryEntry(newItem));
+  }
+
+  if (record.eventName === "INSERT" && newItem?.entityType === EntityType.COMMENT) {
+    return [eventFromComment(toComment(newItem))];
+  }
+
+  if (record.eventName === "MODIFY" && newItem?.entityType === EntityType.TICKET && oldItem) {
+    const event = eventFromSlaStateChange(toTicket(oldItem), toTicket(newItem), record.eventID!, occurredAtOf(record));
+    return event ? [event] : [];
+  }
+
+  const expiredTicket = expiredTicketOf(record);
+  if (expiredTicket) {
+    return [eventFromExpiredTicket(expiredTicket, record.eventID!, occurredAtOf(record))];
+  }
+
+  return [];
+}
+
+// DynamoDB Streams consumer (NEW_AND_OLD_IMAGES, ReportBatchItemFailures enabled).
+// Records are published in order; on failure the batch is retried from the failed record, so delivery is at least once.
+export const handler = async (event: DynamoDBStreamEvent, context?: Context): Promise<DynamoDBBatchResponse> => {
+  return runWithRequestContext(context?.awsRequestId ?? randomUUID(), () => publishRecords(event.Records));
+};
+
+async function publishRecords(records: DynamoDBRecord[]): Promise<DynamoDBBatchResponse> {
+  const eventPublisher = getEventPublisher();
+
+  for (const record of records) {
+    try {
+      await runAsTenant(tenantOfRecord(record), () => publishRecord(eventPublisher, record));
+    } catch (error) {
+      logger.error("Failed to publish ticket events", { eventID: record.eventID, error });
+      return { batchItemFailures: [{ itemIdentifier: record.dynamodb?.SequenceNumber ?? "" }] };
+    }
+  }
+
+  return { batchItemFailures: [] };
+}
+
+// Cleanups run as the organization of the record, so that they reach its storage
+async function publishRecord(eventPublisher: EventPublisher, record: DynamoDBRecord): Promise<void> {
+  const events = eventsFromStreamRecord(record);
+  if (events.length > 0) {
+    await eventPublisher.publish(events);
+    logger.info("Published ticket events", { eventID: record.eventID, types: events.map(e => e.type) });
+  }
+
+  // Hard deletes clean up in the API; expired tickets are cleaned up here (best effort, failures are logged)
+  const expiredTicket = expiredTicketOf(record);
+  if (expiredTicket) {
+    await TicketService.afterWrite(expiredTicket, undefined, ["search", "links"]);
+    await AttachmentService.deleteObjects(expiredTicket.id, expiredTicket.attachments);
+  }
+}
@@ -0,0 +1,24 @@
+import { Context, ScheduledEvent } from "aws-lambda";
+import { randomUUID } from "crypto";
+import { logger } from "../observability/logger";
+import { runAsTenant, runWithRequestContext } from "../observability/request-context";
+import { TenantService } from "../services/tenant-service";
+import { WebhookDispatchResult, WebhookService } from "../services/webhook-service";
+
+// Invoked by an EventBridge schedule (e.g. rate(1 minute)) to send the webhook deliveries that are due, organization by organization
+export const handler = async (event: ScheduledEvent, context?: Context): Promise<WebhookDispatchResult> => {
+  return runWithRequestContext(context?.awsRequestId ?? randomUUID(), async () => {
+    logger.info("Webhook dispatcher invoked", { eventId: event.id, time: event.time });
+    const now = new Date(event.time ?? Date.now());
+
+    const total: WebhookDispatchResult = { due: 0, delivered: 0, retrying: 0, deadLettered: 0 };
+    for (const tenantId of TenantService.listTenantIds()) {
+      const result = await runAsTenant(tenantId, () => WebhookService.sendDueDeliveries(now));
+      total.due += result.due;
+      total.delivered += result.delivered;
+      total.retrying += result.retrying;
+      total.deadLettered += result.deadLettered;
+    }
+    return total;
+  });
+};
@@ -0,0 +1,95 @@
+import { config } from '../common/config';
+import { getRequestContext } from './request-context';
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = "[REDACTED]";
+// Headers and fields holding credentials, or granting access like presigned URLs; compared in lowercase
+const SENSITIVE_KEYS = new Set([
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "password",
+  "secret",
+  "token",
+  "accesstoken",
+  "idtoken",
+  "refreshtoken",
+  "uploadurl",
+  "uploadheaders",
+  "downloadurl",
+]);
+const BEARER_TOKEN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const MAX_DEPTH = 8;
+
+function minimumLevel(): number {
+  return LEVELS[config.logging.level.toLowerCase() as LogLevel] ?? LEVELS.info;
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  const code = (error as { code?: unknown }).code;
+  return { name: error.name, message: error.message, ...(typeof code === "string" ? { code } : {}), stack: error.stack };
+}
+
+// Copy of a value safe to log: sensitive keys and bearer tokens masked, errors reduced to name, message, code and stack
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === "string") {
+    return value.replace(BEARER_TOKEN, `Bearer ${REDACTED}`);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return redact(serializeError(value), depth + 1, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field, depth + 1, seen);
+  }
+  return copy;
+}
+
+// One JSON object per line, carrying the correlation id, route and organization of the current request
+function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LEVELS[level] < minimumLevel()) {
+    return;
+  }
+
+  const context = getRequestContext();
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    correlationId: context?.correlationId,
+    route: context?.route,
+    tenantId: context?.tenantId,
+    ...(redact(fields) as Record<string, unknown>),
+  });
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write("debug", message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write("info", message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write("warn", message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write("error", message, fields),
+};
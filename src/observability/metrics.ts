@@ -0,0 +1,34 @@
+import { config } from '../common/config';
+
+export type MetricUnit = "Milliseconds" | "Count";
+
+export interface Metric {
+  name: string;
+  unit: MetricUnit;
+  value: number;
+}
+
+// Writes the metrics as one CloudWatch Embedded Metric Format log line: CloudWatch Logs extracts them
+// asynchronously, without PutMetricData calls in the request path
+export function emitMetrics(dimensions: Record<string, string>, metrics: Metric[]): void {
+  if (metrics.length === 0) {
+    return;
+  }
+
+  const line: Record<string, unknown> = {
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [{
+        Namespace: config.metrics.namespace,
+        Dimensions: [Object.keys(dimensions)],
+        Metrics: metrics.map(metric => ({ Name: metric.name, Unit: metric.unit })),
+      }],
+    },
+    ...dimensions,
+  };
+  for (const metric of metrics) {
+    line[metric.name] = metric.value;
+  }
+
+  console.log(JSON.stringify(line));
+}
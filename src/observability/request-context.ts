@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { config } from '../common/config';
+
+export interface RequestContext {
+  // Ties together the logs, the response and the events of one request or invocation
+  correlationId: string;
+  // Organization the request acts for, once the caller is authenticated
+  tenantId?: string;
+  // Route template, e.g. "GET /v1/tickets/{id}", once the request is routed
+  route?: string;
+  // Code of the error response, for the error metrics
+  errorCode?: string;
+  // DynamoDB capacity units consumed while handling the request
+  consumedCapacityUnits: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Runs a request with its own context; everything it awaits sees the same one
+export function runWithRequestContext<T>(correlationId: string, run: () => Promise<T>): Promise<T> {
+  return storage.run({ correlationId, consumedCapacityUnits: 0 }, run);
+}
+
+// Undefined outside of a request, e.g. during module initialization
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function recordConsumedCapacity(units: number): void {
+  const context = storage.getStore();
+  if (context) {
+    context.consumedCapacityUnits += units;
+  }
+}
+
+// Organization whose data the current request or job reads and writes
+export function getTenantId(): string {
+  return storage.getStore()?.tenantId ?? config.tenancy.defaultTenantId;
+}
+
+// Runs part of a job, e.g. one organization of a scheduled sweep, as the given organization
+export async function runAsTenant<T>(tenantId: string, run: () => Promise<T>): Promise<T> {
+  const context = storage.getStore();
+  if (!context) {
+    return storage.run({ correlationId: randomUUID(), tenantId, consumedCapacityUnits: 0 }, run);
+  }
+
+  const previous = context.tenantId;
+  context.tenantId = tenantId;
+  try {
+    return await run();
+  } finally {
+    context.tenantId = previous;
+  }
+}
@@ -0,0 +1,30 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { routes } from "../handlers/routes";
+import { buildOpenApiDocument, renderOpenApiDocument } from "./document";
+
+describe("OpenAPI document", () => {
+  it("matches openapi/api.yaml (run `npm run openapi` after changing routes or schemas)", () => {
+    const committed = readFileSync(join(__dirname, "../../openapi/api.yaml"), "utf8");
+
+    expect(committed).toBe(renderOpenApiDocument(routes));
+  });
+
+  it("documents every route once, with its parameters and shared error responses", () => {
+    const document = buildOpenApiDocument(routes);
+    const operations = Object.values(document.paths).flatMap(path => Object.values(path as object));
+
+    expect(operations).toHaveLength(routes.length);
+    expect(new Set(operations.map(operation => operation.operationId)).size).toBe(routes.length);
+
+    const patchTicket = document.paths["/v1/tickets/{id}"].patch;
+    expect(patchTicket.parameters).toEqual([
+      expect.objectContaining({ in: "path", name: "id", required: true, schema: { type: "string", format: "uuid" } }),
+      { $ref: "#/components/parameters/IfMatch" },
+      { $ref: "#/components/parameters/IdempotencyKey" },
+    ]);
+    expect(patchTicket.requestBody.content["application/json"].schema).toEqual({ $ref: "#/components/schemas/PatchTicketRequest" });
+    expect(Object.keys(patchTicket.responses)).toEqual(["200", "400", "401", "403", "404", "409", "412", "422", "428", "429", "500"]);
+    expect(document.components.schemas.BatchTicketsRequest.properties.operations.items).toEqual({ $ref: "#/components/schemas/BatchOperation" });
+  });
+});
@@ -0,0 +1,255 @@
+import z from "zod";
+import { AnyRoute, ResponseHeader, RouteHeader } from "../routing/router";
+import { ErrorResponse } from "../schemas/responses";
+import { IdempotencyKeyHeader } from "../schemas/schemas";
+import { toYaml } from "../utils/yaml";
+import { ERROR_RESPONSES, ErrorResponseDoc, ErrorResponseName } from "./error-responses";
+
+type JsonSchema = Record<string, any>;
+
+const SCHEMA_REF = "#/components/schemas/";
+
+const INFO = {
+  title: "Serverless Ticket System - API",
+  description: [
+    "REST API for a serverless ticket system built with AWS Lambda and API Gateway.",
+    "",
+    "Every request may send an `X-Request-Id` header (letters, digits, `.`, `_`, `:` and `-`, up to 128 characters).",
+    "It is used as the correlation id of the request in logs and events, and echoed back in the `X-Request-Id`",
+    "response header and the `requestId` field of error bodies; requests without one get the API Gateway request id.",
+    "",
+    "Unknown paths get `404 path_not_found`; a method a path does not support gets `405 method_not_allowed`,",
+    "with the supported ones in the `Allow` header.",
+    "",
+    "Every request acts for one organization, the one named by the token's organization claim (`custom:tenantId` by default),",
+    "or the default organization when it names none. Deployments may accept an `X-Tenant-Id` header from tokens that name no",
+    "organization; a header naming another organization than the token gets `403 forbidden`, an organization that is not",
+    "configured `403 unknown_tenant`. Organizations only see their own data, and their quotas answer `429` with `Retry-After`.",
+  ].join("\n"),
+  contact: { email: "lguisadom@gmail.com" },
+  version: "1.0.0",
+};
+
+const TAGS = [
+  { name: "Ticket", description: "Digital record used to track and manage support requests, problems, or incidents." },
+  { name: "Comment", description: "Conversation thread between agents and requesters on a ticket." },
+  { name: "History", description: "Immutable audit log of the changes made to a ticket." },
+  { name: "Attachment", description: "Files attached to a ticket, transferred directly to and from object storage." },
+  { name: "Link", description: "Typed relationships between tickets: parent/child, blockers, duplicates and related tickets." },
+  { name: "FieldDefinition", description: "Custom fields of the tickets of each type: their kind, whether they are required and their options." },
+  { name: "Queue", description: "Groups of agents that new tickets are routed to by rules and assigned within automatically." },
+  { name: "Webhook", description: "Subscriptions of external endpoints to ticket changes, with signed and retried deliveries." },
+  { name: "Report", description: "Ticket metrics for staff, built from counters kept up to date on every write." },
+  { name: "Tenant", description: "Settings and quota usage of the caller's organization." },
+];
+
+// Request headers, under components/parameters, and the errors they can cause
+const HEADER_PARAMETERS: Record<RouteHeader, { component: string; errors: Partial<Record<number, ErrorResponseName>>; parameter: JsonSchema }> = {
+  "If-Match": {
+    component: "IfMatch",
+    errors: { 412: "PreconditionFailedError", 428: "PreconditionRequiredError" },
+    parameter: {
+      in: "header",
+      name: "If-Match",
+      required: false,
+      schema: { type: "string" },
+      description: "ETag of the ticket version the change is based on (or `*`). Required when the API runs with `REQUIRE_IF_MATCH=true`.",
+    },
+  },
+  "Idempotency-Key": {
+    component: "IdempotencyKey",
+    errors: { 409: "IdempotencyKeyInProgressError", 422: "IdempotencyKeyReusedError" },
+    parameter: {
+      in: "header",
+      name: "Idempotency-Key",
+      required: false,
+      schema: toJsonSchema(IdempotencyKeyHeader),
+      description: [
+        "Client-generated key (e.g. a UUID) that makes retries safe. Keys are scoped to the caller and remembered for 24 hours.",
+        "A retry of the same request (method, path, body and If-Match) gets the stored response with `Idempotent-Replayed: true`,",
+        "errors included except server errors; a different request with the same key gets `422 idempotency_key_reused`,",
+        "and a retry while the first request is still running `409 idempotency_key_in_progress`.",
+      ].join("\n"),
+    },
+  },
+};
+
+// Response headers, under components/headers
+const RESPONSE_HEADERS: Record<ResponseHeader | "X-Request-Id" | "Idempotent-Replayed" | "Retry-After", { component: string; header: JsonSchema }> = {
+  "X-Request-Id": {
+    component: "RequestId",
+    header: { description: "Correlation id of the request, the caller's `X-Request-Id` or a generated one", schema: { type: "string" } },
+  },
+  "Idempotent-Replayed": {
+    component: "IdempotentReplayed",
+    header: { description: "Set to \"true\" when the response is the stored one of an earlier request with the same Idempotency-Key", schema: { type: "string", enum: ["true"] } },
+  },
+  "ETag": {
+    component: "ETag",
+    header: { description: "Current version of the ticket, to be sent back in If-Match", schema: { type: "string", examples: ["\"3\""] } },
+  },
+  "Content-Disposition": {
+    component: "ContentDisposition",
+    header: { description: "Suggested file name of a download", schema: { type: "string" } },
+  },
+  "X-Next-Cursor": {
+    component: "NextCursor",
+    header: { description: "Set when more items follow; pass it as `cursor` to get them", schema: { type: "string" } },
+  },
+  "Retry-After": {
+    component: "RetryAfter",
+    header: { description: "Seconds until the quota that was used up starts over", schema: { type: "integer", examples: [42] } },
+  },
+};
+
+// Errors every route can return
+const COMMON_ERRORS: Partial<Record<number, ErrorResponseName>> = { 401: "UnauthorizedError", 429: "TooManyRequestsError", 500: "InternalServerError" };
+
+// Zod emits what the JSON Schema of a check needs; the document keeps what a reader needs
+function tidy(schema: JsonSchema): JsonSchema {
+  for (const value of Object.values(schema)) {
+    if (typeof value === "object" && value !== null) {
+      tidy(value);
+    }
+  }
+  // The formats say it, and the generated patterns are unreadable
+  if (schema.format && schema.pattern) {
+    delete schema.pattern;
+  }
+  // Bounds of integers that are only there because of Number.isSafeInteger
+  if (schema.maximum === Number.MAX_SAFE_INTEGER) {
+    delete schema.maximum;
+  }
+  if (schema.minimum === Number.MIN_SAFE_INTEGER) {
+    delete schema.minimum;
+  }
+  // Record keys, always strings in JSON
+  if (schema.propertyNames?.type === "string" && Object.keys(schema.propertyNames).length === 1) {
+    delete schema.propertyNames;
+  }
+  return schema;
+}
+
+// Requests are documented as clients send them: before defaults, coercion and transforms
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JsonSchema;
+  return tidy(jsonSchema);
+}
+
+// Every schema with an id, request and response bodies, referencing each other
+function componentSchemas(): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(z.globalRegistry, {
+    io: "input",
+    unrepresentable: "any",
+    uri: id => `${SCHEMA_REF}${id}`,
+  });
+  return Object.fromEntries(Object.entries(schemas).map(([id, schema]) => {
+    const { $schema, $id, id: _, ...jsonSchema } = schema as JsonSchema;
+    return [id, tidy(jsonSchema)];
+  }));
+}
+
+function schemaRef(schema: z.ZodType): JsonSchema {
+  const id = z.globalRegistry.get(schema)?.id;
+  return id ? { $ref: `${SCHEMA_REF}${id}` } : toJsonSchema(schema);
+}
+
+// One parameter per property of a path or query schema
+function parameters(location: "path" | "query", schema: z.ZodType | undefined): JsonSchema[] {
+  if (!schema) {
+    return [];
+  }
+  const { properties = {}, required = [] } = toJsonSchema(schema);
+  return Object.entries<JsonSchema>(properties).map(([name, { description, title, ...propertySchema }]) => ({
+    in: location,
+    name,
+    required: location === "path" || required.includes(name) || undefined,
+    schema: propertySchema,
+    description,
+  }));
+}
+
+function headerRefs(names: string[]): Record<string, JsonSchema> {
+  return Object.fromEntries(names.map(name => [name, { $ref: `#/components/headers/${RESPONSE_HEADERS[name as keyof typeof RESPONSE_HEADERS].component}` }]));
+}
+
+function operation(route: AnyRoute): JsonSchema {
+  const headers = route.headers ?? [];
+
+  const responses: Record<string, JsonSchema> = {};
+  for (const [status, response] of Object.entries(route.responses)) {
+    const content: Record<string, JsonSchema> = {};
+    if (response.schema) {
+      content["application/json"] = { schema: schemaRef(response.schema) };
+    }
+    for (const [mediaType, schema] of Object.entries(response.content ?? {})) {
+      content[mediaType] = { schema: schemaRef(schema) };
+    }
+    responses[status] = {
+      description: response.description,
+      headers: headerRefs([
+        "X-Request-Id",
+        ...(headers.includes("Idempotency-Key") ? ["Idempotent-Replayed"] : []),
+        ...(response.headers ?? []),
+      ]),
+      content: Object.keys(content).length > 0 ? content : undefined,
+    };
+  }
+
+  const errors = Object.assign({}, COMMON_ERRORS, ...headers.map(header => HEADER_PARAMETERS[header].errors), route.errors);
+  for (const status of Object.keys(errors).sort()) {
+    responses[status] = { $ref: `#/components/responses/${errors[status]}` };
+  }
+
+  const body = route.documentedBody ?? route.body;
+  const requestContent: Record<string, JsonSchema> = body ? { "application/json": { schema: schemaRef(body) } } : {};
+  for (const [mediaType, schema] of Object.entries(route.bodyContent ?? {})) {
+    requestContent[mediaType] = { schema: schemaRef(schema) };
+  }
+  return {
+    tags: [route.tag],
+    security: [{ bearerAuth: [] }],
+    summary: route.summary,
+    description: route.description,
+    operationId: route.operationId,
+    parameters: [
+      ...parameters("path", route.params),
+      ...parameters("query", route.query),
+      ...headers.map(header => ({ $ref: `#/components/parameters/${HEADER_PARAMETERS[header].component}` })),
+    ],
+    requestBody: Object.keys(requestContent).length > 0 ? { required: true, content: requestContent } : undefined,
+    responses,
+  };
+}
+
+// The OpenAPI document of the routes, with their zod schemas as the single source of truth
+export function buildOpenApiDocument(routes: AnyRoute[]): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of routes) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: INFO,
+    externalDocs: { description: "My Blog", url: "https://blog.luisguisado.cloud" },
+    tags: TAGS,
+    paths,
+    components: {
+      parameters: Object.fromEntries(Object.values(HEADER_PARAMETERS).map(({ component, parameter }) => [component, parameter])),
+      headers: Object.fromEntries(Object.values(RESPONSE_HEADERS).map(({ component, header }) => [component, header])),
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      schemas: componentSchemas(),
+      responses: Object.fromEntries(Object.entries<ErrorResponseDoc>(ERROR_RESPONSES).map(([name, { description, example, headers = [] }]) => [name, {
+        description,
+        headers: headerRefs(["X-Request-Id", ...headers]),
+        content: { "application/json": { schema: schemaRef(ErrorResponse), example } },
+      }])),
+    },
+  };
+}
+
+// openapi/api.yaml
+export function renderOpenApiDocument(routes: AnyRoute[]): string {
+  return `# Generated from the routes in src/handlers/routes.ts by \`npm run openapi\`; do not edit by hand.\n${toYaml(buildOpenApiDocument(routes))}`;
+}
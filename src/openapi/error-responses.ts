@@ -0,0 +1,79 @@
+import { ErrorCodes } from "../common/error-codes";
+
+export interface ErrorResponseDoc {
+  description: string;
+  example: { code: string; message: string; details?: string[] };
+  // Response headers beyond X-Request-Id
+  headers?: "Retry-After"[];
+}
+
+// Error responses shared by the operations of the document, under components/responses
+export const ERROR_RESPONSES = {
+  BadRequestError: {
+    description: "Invalid input",
+    example: { code: ErrorCodes.BAD_REQUEST, message: "Validation failed", details: ["title - Title is required"] },
+  },
+  UnauthorizedError: {
+    description: "Missing or invalid token",
+    example: { code: ErrorCodes.UNAUTHORIZED, message: "Missing bearer token" },
+  },
+  ForbiddenError: {
+    description: "The caller is not allowed to perform the operation",
+    example: { code: ErrorCodes.FORBIDDEN, message: "You are not allowed to modify this ticket" },
+  },
+  TooManyRequestsError: {
+    description: "The organization used up its requests per minute (`rate_limit_exceeded`) or its new tickets per day (`ticket_quota_exceeded`)",
+    example: { code: ErrorCodes.RATE_LIMIT_EXCEEDED, message: "Organization acme is limited to 600 requests per minute" },
+    headers: ["Retry-After"],
+  },
+  NotFoundError: {
+    description: "Resource not found",
+    example: { code: ErrorCodes.TICKET_NOT_FOUND, message: "Ticket not found" },
+  },
+  InvalidStatusTransitionError: {
+    description: "The status transition is not allowed from the current status, or the ticket is a parent with open children (`open_child_tickets`)",
+    example: { code: ErrorCodes.INVALID_STATUS_TRANSITION, message: "Cannot move ticket from NEW to RESOLVED", details: ["OPEN", "IN_PROGRESS", "CLOSED"] },
+  },
+  TicketNotDeletedError: {
+    description: "The ticket is not deleted, or a request with the same Idempotency-Key is still in progress",
+    example: { code: ErrorCodes.TICKET_NOT_DELETED, message: "Ticket is not deleted" },
+  },
+  TicketLinkConflictError: {
+    description: "The tickets are already linked, the link would give a ticket a second parent or duplicate target, create a cycle or exceed 100 links, or a request with the same Idempotency-Key is still in progress",
+    example: { code: ErrorCodes.INVALID_TICKET_LINK, message: "Linking ticket 6f1c1f5e-2a4b-4c1e-9a55-000000000001 PARENT_OF ticket 6f1c1f5e-2a4b-4c1e-9a55-000000000002 would create a cycle" },
+  },
+  TicketMergeConflictError: {
+    description: "A ticket was already merged into another one, a duplicate has open children (`open_child_tickets`), the link to the survivor is refused, or a request with the same Idempotency-Key is still in progress",
+    example: { code: ErrorCodes.INVALID_TICKET_MERGE, message: "Ticket 6f1c1f5e-2a4b-4c1e-9a55-000000000002 was merged into ticket 6f1c1f5e-2a4b-4c1e-9a55-000000000003" },
+  },
+  FieldDefinitionConflictError: {
+    description: "The ticket type already has a custom field with this key, or a request with the same Idempotency-Key is still in progress",
+    example: { code: ErrorCodes.FIELD_DEFINITION_EXISTS, message: "INCIDENT tickets already have a custom field affectedService" },
+  },
+  IdempotencyKeyInProgressError: {
+    description: "A request with the same Idempotency-Key is still in progress",
+    example: { code: ErrorCodes.IDEMPOTENCY_KEY_IN_PROGRESS, message: "A request with this Idempotency-Key is still in progress" },
+  },
+  PreconditionFailedError: {
+    description: "The ticket was modified since the version sent in If-Match",
+    example: { code: ErrorCodes.PRECONDITION_FAILED, message: "Ticket version is 4, but If-Match expected 3" },
+  },
+  StatusRequirementsError: {
+    description: "The target status requires fields that are missing",
+    example: { code: ErrorCodes.INVALID_STATUS_TRANSITION, message: "Ticket cannot be in status IN_PROGRESS without assignedToId", details: ["assignedToId - Required for status IN_PROGRESS"] },
+  },
+  IdempotencyKeyReusedError: {
+    description: "The Idempotency-Key was already used for a different request",
+    example: { code: ErrorCodes.IDEMPOTENCY_KEY_REUSED, message: "Idempotency-Key was already used for a different request" },
+  },
+  PreconditionRequiredError: {
+    description: "If-Match is required by configuration and was not sent",
+    example: { code: ErrorCodes.PRECONDITION_REQUIRED, message: "If-Match header is required to modify a ticket" },
+  },
+  InternalServerError: {
+    description: "Unexpected internal error",
+    example: { code: ErrorCodes.INTERNAL_SERVER_ERROR, message: "Unexpected server error" },
+  },
+} satisfies Record<string, ErrorResponseDoc>;
+
+export type ErrorResponseName = keyof typeof ERROR_RESPONSES;
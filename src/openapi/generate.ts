@@ -0,0 +1,9 @@
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import { routes } from "../handlers/routes";
+import { renderOpenApiDocument } from "./document";
+
+// npm run openapi: rewrites openapi/api.yaml from the route table
+const target = resolve("openapi/api.yaml");
+writeFileSync(target, renderOpenApiDocument(routes));
+console.log(`Wrote ${target}`);
@@ -0,0 +1,7 @@
+// Open tickets assigned to each agent, maintained on every ticket write for least-loaded assignment
+export interface AgentLoadStore {
+  // agentId -> delta; each agent's counter is incremented atomically
+  add(deltas: Record<string, number>): Promise<void>;
+  // Counters of the agents, 0 for agents that have none
+  getLoads(agentIds: string[]): Promise<Record<string, number>>;
+}
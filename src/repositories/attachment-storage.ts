@@ -0,0 +1,24 @@
+// What a presigned upload accepts: the body must have exactly this type, size and SHA-256 checksum
+export interface AttachmentObject {
+  contentType: string;
+  size: number;
+  // Base64 SHA-256 of the body
+  checksum: string;
+}
+
+export interface PresignedUpload {
+  url: string;
+  // Signed headers the client must send with the PUT
+  headers: Record<string, string>;
+}
+
+// Object storage for attachment contents; clients upload and download directly through presigned URLs
+export interface AttachmentStorage {
+  createUploadUrl(key: string, object: AttachmentObject, expiresInSeconds: number): Promise<PresignedUpload>;
+  // The download is served as a file named fileName
+  createDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string>;
+  // Server-side upload, for contents that do not come from a client (e.g. email attachments)
+  putObject(key: string, object: AttachmentObject, body: Uint8Array): Promise<void>;
+  // Missing keys are ignored
+  deleteObjects(keys: string[]): Promise<void>;
+}
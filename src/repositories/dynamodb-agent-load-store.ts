@@ -0,0 +1,58 @@
+import { BatchGetCommand, DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { AgentLoadStore } from './agent-load-store';
+import { createDocumentClient, delay, EntityType } from './dynamodb';
+
+// BatchGetItem takes up to 100 keys per call (the agents of a queue); unprocessed keys are retried with exponential backoff
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_GET_ATTEMPTS = 5;
+const BATCH_GET_BACKOFF_MS = 50;
+
+function loadKey(agentId: string): string {
+  return `${EntityType.AGENT_LOAD}#${agentId}`;
+}
+
+// One counter item per agent in the tickets table, incremented with ADD
+export class DynamoDbAgentLoadStore implements AgentLoadStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName
+  ) {}
+
+  async add(deltas: Record<string, number>): Promise<void> {
+    for (const [agentId, delta] of Object.entries(deltas)) {
+      await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: loadKey(agentId) },
+        UpdateExpression: "set entityType = :entityType, agentId = :agentId add openTickets :delta",
+        ExpressionAttributeValues: { ":entityType": EntityType.AGENT_LOAD, ":agentId": agentId, ":delta": delta },
+      }));
+    }
+  }
+
+  async getLoads(agentIds: string[]): Promise<Record<string, number>> {
+    const loads: Record<string, number> = Object.fromEntries(agentIds.map(agentId => [agentId, 0]));
+
+    for (let start = 0; start < agentIds.length; start += MAX_BATCH_GET_KEYS) {
+      let keys: Record<string, any>[] = agentIds.slice(start, start + MAX_BATCH_GET_KEYS).map(agentId => ({ id: loadKey(agentId) }));
+
+      for (let attempt = 1; keys.length > 0; attempt++) {
+        if (attempt > MAX_BATCH_GET_ATTEMPTS) {
+          throw new Error(`Could not read ${keys.length} agent loads after ${MAX_BATCH_GET_ATTEMPTS} attempts`);
+        }
+        if (attempt > 1) {
+          await delay(BATCH_GET_BACKOFF_MS * 2 ** (attempt - 2));
+        }
+        const response = await this.docClient.send(new BatchGetCommand({
+          RequestItems: { [this.tableName]: { Keys: keys } }
+        }));
+        for (const item of response.Responses?.[this.tableName] ?? []) {
+          loads[item.agentId] = item.openTickets ?? 0;
+        }
+        keys = response.UnprocessedKeys?.[this.tableName]?.Keys ?? [];
+      }
+    }
+
+    return loads;
+  }
+}
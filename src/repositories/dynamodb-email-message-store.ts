@@ -0,0 +1,52 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { createDocumentClient, EntityType, tenantKey, toTenantItem } from './dynamodb';
+import { EmailMessageStore } from './email-message-store';
+
+function messageKey(messageId: string): string {
+  return `${EntityType.EMAIL_MESSAGE}#${messageId}`;
+}
+
+// One item per message in the tickets table. The ticket goes in threadTicketId: ticketId is an index key of ticket sub-resources.
+export class DynamoDbEmailMessageStore implements EmailMessageStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbEmailMessageStore {
+    return tenantId === this.tenantId ? this : new DynamoDbEmailMessageStore(this.docClient, this.tableName, tenantId);
+  }
+
+  async getTicketId(messageId: string): Promise<string | undefined> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: tenantKey(this.tenantId, messageKey(messageId)) },
+    }));
+    return response.Item?.threadTicketId;
+  }
+
+  async record(messageId: string, ticketId: string): Promise<boolean> {
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: toTenantItem(this.tenantId, {
+          id: messageKey(messageId),
+          entityType: EntityType.EMAIL_MESSAGE,
+          messageId,
+          threadTicketId: ticketId,
+          createdAt: new Date().toISOString(),
+        }),
+        ConditionExpression: "attribute_not_exists(id)",
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
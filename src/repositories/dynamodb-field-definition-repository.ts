@@ -0,0 +1,104 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { FieldDefinition } from '../types/field-definition';
+import { createDocumentClient, EntityType, fromTenantItem, tenantKey, TicketIndexes, toTenantItem } from './dynamodb';
+import { FieldDefinitionRepository } from './field-definition-repository';
+
+function definitionKey(id: string): string {
+  return `${EntityType.FIELD_DEFINITION}#${id}`;
+}
+
+function toFieldDefinition(item: Record<string, any>): FieldDefinition {
+  const { id, entityType, ...definition } = fromTenantItem(item);
+  return { id: id.slice(definitionKey("").length), ...definition } as FieldDefinition;
+}
+
+// Field definitions stored in the tickets table, listed through the entityType index; each instance holds one organization's
+export class DynamoDbFieldDefinitionRepository implements FieldDefinitionRepository {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbFieldDefinitionRepository {
+    return tenantId === this.tenantId ? this : new DynamoDbFieldDefinitionRepository(this.docClient, this.tableName, tenantId);
+  }
+
+  async createFieldDefinition(definition: FieldDefinition): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: this.toItem(definition),
+      ConditionExpression: "attribute_not_exists(id)",
+    }));
+  }
+
+  async getFieldDefinition(id: string): Promise<FieldDefinition | undefined> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: this.key(id) },
+    }));
+    return response.Item ? toFieldDefinition(response.Item) : undefined;
+  }
+
+  async listFieldDefinitions(): Promise<FieldDefinition[]> {
+    const definitions: FieldDefinition[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: TicketIndexes.ENTITY_TYPE,
+        KeyConditionExpression: "entityType = :entityType",
+        ExpressionAttributeValues: { ":entityType": tenantKey(this.tenantId, EntityType.FIELD_DEFINITION) },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      definitions.push(...(response.Items ?? []).map(toFieldDefinition));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return definitions;
+  }
+
+  async updateFieldDefinition(current: FieldDefinition, next: FieldDefinition): Promise<boolean> {
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: this.toItem(next),
+        ConditionExpression: "attribute_exists(id) AND version = :version",
+        ExpressionAttributeValues: { ":version": current.version },
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async deleteFieldDefinition(id: string): Promise<boolean> {
+    try {
+      await this.docClient.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(id) },
+        ConditionExpression: "attribute_exists(id)",
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private toItem(definition: FieldDefinition): Record<string, any> {
+    return toTenantItem(this.tenantId, { ...definition, id: definitionKey(definition.id), entityType: EntityType.FIELD_DEFINITION });
+  }
+
+  private key(id: string): string {
+    return tenantKey(this.tenantId, definitionKey(id));
+  }
+}
@@ -0,0 +1,67 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { IdempotencyRecord, IdempotentResponse } from '../types/idempotency';
+import { createDocumentClient, EntityType } from './dynamodb';
+import { IdempotencyStore } from './idempotency-store';
+
+function recordKey(key: string): string {
+  return `${EntityType.IDEMPOTENCY}#${key}`;
+}
+
+// Idempotency records stored in the tickets table, removed by its TTL on expiresAt
+export class DynamoDbIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName
+  ) {}
+
+  // TTL deletes expired items lazily, so expired records are overwritten like missing ones.
+  // In-progress records expire quickly, so a request lost mid-way does not hold its key for long.
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: { id: recordKey(record.key), entityType: EntityType.IDEMPOTENCY, ...record },
+        ConditionExpression: "attribute_not_exists(id) OR expiresAt <= :now",
+        ExpressionAttributeValues: { ":now": Math.floor(Date.now() / 1000) },
+      }));
+      return undefined;
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: recordKey(record.key) },
+      ConsistentRead: true,
+    }));
+    // Released in between: the key is free again
+    if (!response.Item) {
+      return this.claim(record);
+    }
+
+    const { key, fingerprint, response: storedResponse, expiresAt } = response.Item;
+    return { key, fingerprint, response: storedResponse, expiresAt };
+  }
+
+  async complete(key: string, response: IdempotentResponse, expiresAt: number): Promise<void> {
+    await this.docClient.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { id: recordKey(key) },
+      UpdateExpression: "set #response = :response, expiresAt = :expiresAt",
+      ConditionExpression: "attribute_exists(id)",
+      ExpressionAttributeNames: { "#response": "response" },
+      ExpressionAttributeValues: { ":response": response, ":expiresAt": expiresAt },
+    }));
+  }
+
+  async release(key: string): Promise<void> {
+    await this.docClient.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { id: recordKey(key) },
+    }));
+  }
+}
@@ -0,0 +1,52 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { createDocumentClient, EntityType, tenantKey, toTenantItem } from './dynamodb';
+import { ImportReferenceStore } from './import-reference-store';
+
+function referenceKey(externalRef: string): string {
+  return `${EntityType.IMPORT_REFERENCE}#${externalRef}`;
+}
+
+// One item per reference in the tickets table. The ticket goes in importedTicketId: ticketId is an index key of ticket sub-resources.
+export class DynamoDbImportReferenceStore implements ImportReferenceStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbImportReferenceStore {
+    return tenantId === this.tenantId ? this : new DynamoDbImportReferenceStore(this.docClient, this.tableName, tenantId);
+  }
+
+  async getTicketId(externalRef: string): Promise<string | undefined> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: tenantKey(this.tenantId, referenceKey(externalRef)) },
+    }));
+    return response.Item?.importedTicketId;
+  }
+
+  async record(externalRef: string, ticketId: string): Promise<boolean> {
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: toTenantItem(this.tenantId, {
+          id: referenceKey(externalRef),
+          entityType: EntityType.IMPORT_REFERENCE,
+          externalRef,
+          importedTicketId: ticketId,
+          createdAt: new Date().toISOString(),
+        }),
+        ConditionExpression: "attribute_not_exists(id)",
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
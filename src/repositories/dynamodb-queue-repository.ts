@@ -0,0 +1,167 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { Queue } from '../types/queue';
+import { createDocumentClient, EntityType, fromTenantItem, tenantKey, TicketIndexes, toTenantItem } from './dynamodb';
+import { QueueRepository } from './queue-repository';
+
+// The round-robin cursor lives on the queue item, outside of the queue fields
+const CURSOR_ATTRIBUTE = "roundRobinCursor";
+
+function queueKey(id: string): string {
+  return `${EntityType.QUEUE}#${id}`;
+}
+
+function toQueue(item: Record<string, any>): Queue {
+  const { id, entityType, [CURSOR_ATTRIBUTE]: cursor, ...queue } = fromTenantItem(item);
+  return { id: id.slice(queueKey("").length), ...queue } as Queue;
+}
+
+// Queues stored in the tickets table, listed through the entityType index; each instance holds one organization's queues
+export class DynamoDbQueueRepository implements QueueRepository {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbQueueRepository {
+    return tenantId === this.tenantId ? this : new DynamoDbQueueRepository(this.docClient, this.tableName, tenantId);
+  }
+
+  async createQueue(queue: Queue): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: toTenantItem(this.tenantId, { ...queue, id: queueKey(queue.id), entityType: EntityType.QUEUE }),
+      ConditionExpression: "attribute_not_exists(id)",
+    }));
+  }
+
+  async getQueue(id: string): Promise<Queue | undefined> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: this.key(id) },
+    }));
+    return response.Item ? toQueue(response.Item) : undefined;
+  }
+
+  async listQueues(): Promise<Queue[]> {
+    const queues: Queue[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: TicketIndexes.ENTITY_TYPE,
+        KeyConditionExpression: "entityType = :entityType",
+        ExpressionAttributeValues: { ":entityType": tenantKey(this.tenantId, EntityType.QUEUE) },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      queues.push(...(response.Items ?? []).map(toQueue));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return queues;
+  }
+
+  // Only the queue fields are written, so that the round-robin cursor is kept
+  async updateQueue(current: Queue, next: Queue): Promise<boolean> {
+    const setExpressions: string[] = [];
+    const removeExpressions: string[] = [];
+    const expressionAttributeNames: Record<string, string> = { "#version": "version" };
+    const expressionAttributeValues: Record<string, any> = { ":currentVersion": current.version };
+
+    const fields = new Set([...Object.keys(current), ...Object.keys(next)]);
+    fields.delete("id");
+    for (const field of fields) {
+      const value = next[field as keyof Queue];
+      expressionAttributeNames[`#${field}`] = field;
+      if (value === undefined) {
+        removeExpressions.push(`#${field}`);
+      } else {
+        setExpressions.push(`#${field} = :${field}`);
+        expressionAttributeValues[`:${field}`] = value;
+      }
+    }
+
+    const clauses = [`set ${setExpressions.join(", ")}`];
+    if (removeExpressions.length > 0) {
+      clauses.push(`remove ${removeExpressions.join(", ")}`);
+    }
+
+    try {
+      await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(current.id) },
+        UpdateExpression: clauses.join(" "),
+        ConditionExpression: "attribute_exists(id) AND #version = :currentVersion",
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async deleteQueue(id: string): Promise<boolean> {
+    try {
+      await this.docClient.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(id) },
+        ConditionExpression: "attribute_exists(id)",
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // ADD on the queue item, so concurrent assignments each get their own turn
+  async advanceCursor(id: string): Promise<number | undefined> {
+    try {
+      const response = await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(id) },
+        UpdateExpression: "add #cursor :one",
+        ConditionExpression: "attribute_exists(id)",
+        ExpressionAttributeNames: { "#cursor": CURSOR_ATTRIBUTE },
+        ExpressionAttributeValues: { ":one": 1 },
+        ReturnValues: "UPDATED_OLD",
+      }));
+      return response.Attributes?.[CURSOR_ATTRIBUTE] ?? 0;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async rewindCursor(id: string): Promise<void> {
+    try {
+      await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(id) },
+        UpdateExpression: "add #cursor :minusOne",
+        ConditionExpression: "#cursor > :zero",
+        ExpressionAttributeNames: { "#cursor": CURSOR_ATTRIBUTE },
+        ExpressionAttributeValues: { ":minusOne": -1, ":zero": 0 },
+      }));
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  private key(id: string): string {
+    return tenantKey(this.tenantId, queueKey(id));
+  }
+}
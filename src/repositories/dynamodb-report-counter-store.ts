@@ -0,0 +1,94 @@
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { createDocumentClient, EntityType, tenantKey, TicketIndexes } from './dynamodb';
+import { DailyCounters, ReportCounterDelta, ReportCounterStore } from './report-counter-store';
+
+const TOTALS_KEY = EntityType.REPORT_TOTALS;
+
+function dayKey(date: string): string {
+  return `${EntityType.REPORT_DAY}#${date}`;
+}
+
+// Every other attribute of a counter item is a counter
+function toCounters(item: Record<string, any> | undefined): Record<string, number> {
+  const { id, entityType, createdAt, ...counters } = item ?? {};
+  return counters;
+}
+
+// Report counters stored in the tickets table: one item for the totals and one per day.
+// Day items use the date as createdAt, so they are listed in order through the entityType index.
+// Each instance counts the tickets of one organization.
+export class DynamoDbReportCounterStore implements ReportCounterStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbReportCounterStore {
+    return tenantId === this.tenantId ? this : new DynamoDbReportCounterStore(this.docClient, this.tableName, tenantId);
+  }
+
+  async add(delta: ReportCounterDelta): Promise<void> {
+    if (Object.keys(delta.totals).length > 0) {
+      await this.increment(TOTALS_KEY, EntityType.REPORT_TOTALS, delta.totals);
+    }
+    for (const [date, counters] of Object.entries(delta.days)) {
+      await this.increment(dayKey(date), EntityType.REPORT_DAY, counters, date);
+    }
+  }
+
+  async getTotals(): Promise<Record<string, number>> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: tenantKey(this.tenantId, TOTALS_KEY) },
+    }));
+    return toCounters(response.Item);
+  }
+
+  async getDays(): Promise<DailyCounters[]> {
+    const days: DailyCounters[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: TicketIndexes.ENTITY_TYPE,
+        KeyConditionExpression: "entityType = :entityType",
+        ExpressionAttributeValues: { ":entityType": tenantKey(this.tenantId, EntityType.REPORT_DAY) },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      days.push(...(response.Items ?? []).map(item => ({ date: item.createdAt, counters: toCounters(item) })));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return days;
+  }
+
+  // ADD creates the item and its counters on first use
+  private async increment(id: string, entityType: EntityType, counters: Record<string, number>, date?: string): Promise<void> {
+    const setExpressions = ["entityType = :entityType"];
+    const addExpressions: string[] = [];
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = { ":entityType": tenantKey(this.tenantId, entityType) };
+
+    if (date) {
+      setExpressions.push("createdAt = :date");
+      expressionAttributeValues[":date"] = date;
+    }
+    // Counter names contain ":" and ids, so they always go through placeholders
+    Object.entries(counters).forEach(([counter, value], index) => {
+      addExpressions.push(`#c${index} :c${index}`);
+      expressionAttributeNames[`#c${index}`] = counter;
+      expressionAttributeValues[`:c${index}`] = value;
+    });
+
+    await this.docClient.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { id: tenantKey(this.tenantId, id) },
+      UpdateExpression: `set ${setExpressions.join(", ")} add ${addExpressions.join(", ")}`,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ExpressionAttributeValues: expressionAttributeValues,
+    }));
+  }
+}
@@ -0,0 +1,146 @@
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { batchWriteItems, createDocumentClient, EntityType, fromTenantItem, SEARCH_TERMS_INDEX, tenantKey, TICKET_CHILDREN_INDEX, toTenantItem, WriteRequest } from './dynamodb';
+import { SearchField, SearchPosting, TicketSearchIndex } from './search-index';
+
+// Tokens shorter than this are not indexed, so the prefix always fills the partition key
+const SEARCH_PREFIX_LENGTH = 2;
+
+function fieldKey(ticketId: string, field: SearchField): string {
+  return `${ticketId}#${EntityType.SEARCH_FIELD}#${field}`;
+}
+
+function postingKey(token: string, ticketId: string, field: SearchField): string {
+  return `${EntityType.SEARCH_TERM}#${token}#${ticketId}#${field}`;
+}
+
+// Inverted index stored in the tickets table.
+// Each indexed field has an item under the ticket's children listing its tokens, so that its postings can be replaced;
+// each posting is an item found by token prefix through the search terms index. Each instance indexes one organization.
+export class DynamoDbSearchIndex implements TicketSearchIndex {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbSearchIndex {
+    return tenantId === this.tenantId ? this : new DynamoDbSearchIndex(this.docClient, this.tableName, tenantId);
+  }
+
+  async indexField(ticketId: string, field: SearchField, tokens: Record<string, number>): Promise<void> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: this.key(fieldKey(ticketId, field)) },
+    }));
+    const previous: Record<string, number> = response.Item?.tokens ?? {};
+
+    // Only postings that changed are written
+    const requests: WriteRequest[] = [];
+    for (const token of Object.keys(previous)) {
+      if (!Object.prototype.hasOwnProperty.call(tokens, token)) {
+        requests.push(this.deletePosting(token, ticketId, field));
+      }
+    }
+    for (const [token, weight] of Object.entries(tokens)) {
+      if (previous[token] !== weight) {
+        requests.push({
+          PutRequest: {
+            Item: toTenantItem(this.tenantId, {
+              id: postingKey(token, ticketId, field),
+              entityType: EntityType.SEARCH_TERM,
+              searchPrefix: token.slice(0, SEARCH_PREFIX_LENGTH),
+              searchTerm: `${token}#${ticketId}#${field}`,
+              token,
+              ticketId,
+              field,
+              weight,
+            })
+          }
+        });
+      }
+    }
+    await this.writePostings(ticketId, requests);
+
+    if (Object.keys(tokens).length === 0) {
+      await this.docClient.send(new DeleteCommand({ TableName: this.tableName, Key: { id: this.key(fieldKey(ticketId, field)) } }));
+      return;
+    }
+
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: toTenantItem(this.tenantId, {
+        id: fieldKey(ticketId, field),
+        entityType: EntityType.SEARCH_FIELD,
+        ticketId,
+        sortKey: `${EntityType.SEARCH_FIELD}#${field}`,
+        field,
+        tokens,
+      }),
+    }));
+  }
+
+  async removeTicket(ticketId: string): Promise<void> {
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: TICKET_CHILDREN_INDEX,
+        KeyConditionExpression: "ticketId = :ticketId AND begins_with(sortKey, :prefix)",
+        ExpressionAttributeValues: { ":ticketId": this.key(ticketId), ":prefix": `${EntityType.SEARCH_FIELD}#` },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      const requests: WriteRequest[] = [];
+      for (const item of response.Items ?? []) {
+        requests.push(...Object.keys(item.tokens ?? {}).map(token => this.deletePosting(token, ticketId, item.field)));
+        requests.push({ DeleteRequest: { Key: { id: item.id } } });
+      }
+      await this.writePostings(ticketId, requests);
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+  }
+
+  async findByPrefix(prefix: string, limit: number): Promise<SearchPosting[]> {
+    const postings: SearchPosting[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: SEARCH_TERMS_INDEX,
+        KeyConditionExpression: "searchPrefix = :searchPrefix AND begins_with(searchTerm, :prefix)",
+        ExpressionAttributeValues: { ":searchPrefix": this.key(prefix.slice(0, SEARCH_PREFIX_LENGTH)), ":prefix": prefix },
+        Limit: limit - postings.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      postings.push(...(response.Items ?? []).map(fromTenantItem).map(item => ({
+        ticketId: item.ticketId,
+        field: item.field,
+        token: item.token,
+        weight: item.weight,
+      })));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey && postings.length < limit);
+
+    return postings;
+  }
+
+  private key(id: string): string {
+    return tenantKey(this.tenantId, id);
+  }
+
+  private deletePosting(token: string, ticketId: string, field: SearchField): WriteRequest {
+    return { DeleteRequest: { Key: { id: this.key(postingKey(token, ticketId, field)) } } };
+  }
+
+  private async writePostings(ticketId: string, requests: WriteRequest[]): Promise<void> {
+    const unprocessed = await batchWriteItems(this.docClient, this.tableName, requests);
+    if (unprocessed.length > 0) {
+      throw new Error(`Could not write ${unprocessed.length} search index items of ticket ${ticketId}`);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { CreateTableCommandInput } from '@aws-sdk/client-dynamodb';
+import { DELIVERY_RETRIES_INDEX, SEARCH_TERMS_INDEX, TICKET_CHILDREN_INDEX, TicketIndexes, TRASH_INDEX, WEBHOOK_DELIVERIES_INDEX } from './dynamodb';
+
+// Definition of the tickets table and its indexes, as documented in the README; used to provision DynamoDB Local
+export function ticketTableDefinition(tableName: string): CreateTableCommandInput {
+  const createdAtIndex = (indexName: string, partitionKey: string) => ({
+    IndexName: indexName,
+    KeySchema: [
+      { AttributeName: partitionKey, KeyType: "HASH" as const },
+      { AttributeName: "createdAt", KeyType: "RANGE" as const },
+    ],
+    Projection: { ProjectionType: "ALL" as const },
+  });
+
+  return {
+    TableName: tableName,
+    BillingMode: "PAY_PER_REQUEST",
+    AttributeDefinitions: ["id", "entityType", "createdAt", "status", "assignedToId", "reporterId", "slaState", "queueId", "ticketId", "sortKey", "searchPrefix", "searchTerm", "deletedEntityType", "deletedAt", "webhookId", "deliveryStatus", "nextAttemptAt"]
+      .map(name => ({ AttributeName: name, AttributeType: "S" as const })),
+    KeySchema: [{ AttributeName: "id", KeyType: "HASH" }],
+    GlobalSecondaryIndexes: [
+      createdAtIndex(TicketIndexes.ENTITY_TYPE, "entityType"),
+      createdAtIndex(TicketIndexes.STATUS, "status"),
+      createdAtIndex(TicketIndexes.ASSIGNED_TO, "assignedToId"),
+      createdAtIndex(TicketIndexes.REPORTER, "reporterId"),
+      createdAtIndex(TicketIndexes.SLA_STATE, "slaState"),
+      createdAtIndex(TicketIndexes.QUEUE, "queueId"),
+      {
+        IndexName: TICKET_CHILDREN_INDEX,
+        KeySchema: [
+          { AttributeName: "ticketId", KeyType: "HASH" },
+          { AttributeName: "sortKey", KeyType: "RANGE" },
+        ],
+        Projection: { ProjectionType: "ALL" },
+      },
+      {
+        IndexName: TRASH_INDEX,
+        KeySchema: [
+          { AttributeName: "deletedEntityType", KeyType: "HASH" },
+          { AttributeName: "deletedAt", KeyType: "RANGE" },
+        ],
+        Projection: { ProjectionType: "ALL" },
+      },
+      {
+        IndexName: SEARCH_TERMS_INDEX,
+        KeySchema: [
+          { AttributeName: "searchPrefix", KeyType: "HASH" },
+          { AttributeName: "searchTerm", KeyType: "RANGE" },
+        ],
+        Projection: { ProjectionType: "ALL" },
+      },
+      createdAtIndex(WEBHOOK_DELIVERIES_INDEX, "webhookId"),
+      {
+        IndexName: DELIVERY_RETRIES_INDEX,
+        KeySchema: [
+          { AttributeName: "deliveryStatus", KeyType: "HASH" },
+          { AttributeName: "nextAttemptAt", KeyType: "RANGE" },
+        ],
+        Projection: { ProjectionType: "ALL" },
+      },
+    ],
+  };
+}
@@ -0,0 +1,71 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { createDocumentClient, EntityType } from './dynamodb';
+import { TenantUsageStore } from './tenant-usage-store';
+
+function usageKey(tenantId: string, counter: string): string {
+  return `${EntityType.TENANT_USAGE}#${tenantId}#${counter}`;
+}
+
+// One counter item per organization and window in the tickets table, incremented with a conditional ADD
+export class DynamoDbTenantUsageStore implements TenantUsageStore {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName
+  ) {}
+
+  async consume(tenantId: string, counter: string, amount: number, limit: number, expiresAt: Date): Promise<boolean> {
+    if (amount > limit) {
+      return false;
+    }
+
+    try {
+      await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: usageKey(tenantId, counter) },
+        UpdateExpression: "set entityType = :entityType, expiresAt = :expiresAt add #usage :amount",
+        ConditionExpression: "attribute_not_exists(#usage) OR #usage <= :remaining",
+        ExpressionAttributeNames: { "#usage": "usage" },
+        ExpressionAttributeValues: {
+          ":entityType": EntityType.TENANT_USAGE,
+          ":expiresAt": Math.floor(expiresAt.getTime() / 1000),
+          ":amount": amount,
+          ":remaining": limit - amount,
+        },
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(tenantId: string, counter: string, amount: number): Promise<void> {
+    try {
+      await this.docClient.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: usageKey(tenantId, counter) },
+        UpdateExpression: "add #usage :amount",
+        ConditionExpression: "#usage >= :release",
+        ExpressionAttributeNames: { "#usage": "usage" },
+        ExpressionAttributeValues: { ":amount": -amount, ":release": amount },
+      }));
+    } catch (error) {
+      // The window is over, or the counter was not charged that much
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  async get(tenantId: string, counter: string): Promise<number> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: usageKey(tenantId, counter) },
+    }));
+    return response.Item?.usage ?? 0;
+  }
+}
@@ -0,0 +1,158 @@
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { BatchWriteCommand, DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import { TicketHistoryAction, TicketLinkType, TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { ErrorCodes } from "../common/error-codes";
+import { buildHistoryEntry } from "../services/history-service";
+import { Ticket } from "../types/ticket";
+import { DynamoDbTicketRepository } from "./dynamodb-ticket-repository";
+
+const tableName = "tickets";
+
+function buildWrite(index: number) {
+  const now = "2025-03-03T09:00:00.000Z";
+  const ticket: Ticket = {
+    id: `ticket-${index}`,
+    title: "Bulk",
+    description: "Bulk",
+    status: TicketStatus.NEW,
+    reporterId: "reporter",
+    priority: TicketPriority.LOW,
+    type: TicketType.INCIDENT,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { ticket, history: buildHistoryEntry(ticket.id, TicketHistoryAction.CREATED, [], {}, now) };
+}
+
+function createRepository(send: jest.Mock) {
+  return new DynamoDbTicketRepository({ send } as unknown as DynamoDBDocumentClient, tableName);
+}
+
+describe("DynamoDbTicketRepository.createTickets", () => {
+  it("writes in chunks of 25 items and retries unprocessed ones", async () => {
+    const writes = Array.from({ length: 15 }, (_, index) => buildWrite(index));
+    let calls = 0;
+    const send = jest.fn(async (command: BatchWriteCommand) => {
+      const requests = command.input.RequestItems![tableName];
+      // The first call of the first chunk leaves its last item unprocessed
+      return ++calls === 1 ? { UnprocessedItems: { [tableName]: requests.slice(-1) } } : {};
+    });
+
+    const unwritten = await createRepository(send).createTickets(writes);
+
+    expect(unwritten).toEqual([]);
+    expect(send.mock.calls.map(([command]) => command.input.RequestItems![tableName].length)).toEqual([25, 1, 5]);
+  });
+
+  it("reports the tickets whose items stay unprocessed", async () => {
+    const writes = [buildWrite(1), buildWrite(2)];
+    const send = jest.fn(async (command: BatchWriteCommand) => {
+      const requests = command.input.RequestItems![tableName];
+      // History entries of ticket-2 are never processed
+      return { UnprocessedItems: { [tableName]: requests.filter(request => request.PutRequest!.Item!.ticketId === "ticket-2") } };
+    });
+
+    const unwritten = await createRepository(send).createTickets(writes);
+
+    expect(unwritten).toEqual(["ticket-2"]);
+    expect(send).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe("DynamoDbTicketRepository.writeTickets", () => {
+  it("maps a failed condition back to the write it belongs to", async () => {
+    const created = buildWrite(1);
+    const current = buildWrite(2).ticket;
+    const send = jest.fn(async (command: TransactWriteCommand) => {
+      const items = command.input.TransactItems!;
+      throw new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: items.map((_, index) => ({ Code: index === 2 ? "ConditionalCheckFailed" : "None" })),
+      });
+    });
+
+    const failedIndex = await createRepository(send).writeTickets([
+      { kind: "create", ...created },
+      { kind: "update", current, next: { ...current, version: 2, priority: TicketPriority.HIGH } },
+    ]);
+
+    expect(failedIndex).toBe(1);
+  });
+});
+
+describe("DynamoDbTicketRepository.queryTickets", () => {
+  it("filters custom field values through attribute name placeholders", async () => {
+    const send = jest.fn(async () => ({ Items: [] }));
+    await createRepository(send).queryTickets({
+      filters: { status: TicketStatus.NEW },
+      customFields: { environment: "production", cost: 5 },
+      sort: "desc",
+      limit: 20,
+    });
+
+    const { input } = (send.mock.calls[0] as unknown as [QueryCommand])[0];
+    expect(input.FilterExpression).toBe("attribute_not_exists(#deletedAt) AND #customFields.#cf0 = :cf0 AND #customFields.#cf1 = :cf1");
+    expect(input.ExpressionAttributeNames).toMatchObject({ "#customFields": "customFields", "#cf0": "environment", "#cf1": "cost" });
+    expect(input.ExpressionAttributeValues).toMatchObject({ ":cf0": "production", ":cf1": 5 });
+  });
+});
+
+describe("DynamoDbTicketRepository.createLink", () => {
+  const link = { ticketId: "ticket-1", linkedTicketId: "ticket-2", type: TicketLinkType.PARENT_OF, createdAt: "2025-03-03T09:00:00.000Z" };
+  const inverse = { ...link, ticketId: "ticket-2", linkedTicketId: "ticket-1", type: TicketLinkType.CHILD_OF };
+
+  function failingAt(failedIndex: number) {
+    return jest.fn(async (command: TransactWriteCommand) => {
+      throw new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: command.input.TransactItems!.map((_, index) => ({ Code: index === failedIndex ? "ConditionalCheckFailed" : "None" })),
+      });
+    });
+  }
+
+  it("puts both sides under their own ticket, conditioned on both tickets", async () => {
+    const send = jest.fn(async () => ({}));
+    expect(await createRepository(send).createLink(link, inverse)).toBe(true);
+
+    const items = (send.mock.calls[0] as unknown as [TransactWriteCommand])[0].input.TransactItems!;
+    expect(items.map(item => item.Put?.Item?.id ?? item.ConditionCheck?.Key?.id)).toEqual([
+      "ticket-1#LINK#ticket-2",
+      "ticket-2#LINK#ticket-1",
+      "ticket-1",
+      "ticket-2",
+    ]);
+  });
+
+  it("reports existing links and missing tickets", async () => {
+    expect(await createRepository(failingAt(1)).createLink(link, inverse)).toBe(false);
+    await expect(createRepository(failingAt(3)).createLink(link, inverse)).rejects.toMatchObject({
+      code: ErrorCodes.TICKET_NOT_FOUND,
+      message: "Ticket with id ticket-2 not found",
+    });
+  });
+});
+
+describe("DynamoDbTicketRepository.forTenant", () => {
+  it("prefixes the keys and index partitions of the organization's items", async () => {
+    const send = jest.fn(async () => ({}));
+    const { ticket, history } = buildWrite(1);
+    await createRepository(send).forTenant("acme").createTicket(ticket, history);
+
+    const [ticketPut, historyPut] = (send.mock.calls[0] as unknown as [TransactWriteCommand])[0].input.TransactItems!;
+    expect(ticketPut.Put!.Item).toMatchObject({ id: "acme#ticket-1", entityType: "acme#TICKET", status: "acme#NEW", reporterId: "acme#reporter", tenantId: "acme" });
+    expect(historyPut.Put!.Item).toMatchObject({ ticketId: "acme#ticket-1", entityType: "acme#HISTORY", tenantId: "acme" });
+  });
+
+  it("reads items back as the organization wrote them, and leaves the default organization's keys alone", async () => {
+    const { ticket } = buildWrite(1);
+    const send = jest.fn(async () => ({ Item: { ...ticket, id: "acme#ticket-1", entityType: "acme#TICKET", status: "acme#NEW", reporterId: "acme#reporter", tenantId: "acme" } }));
+    const repository = createRepository(send);
+
+    expect(await repository.forTenant("acme").getTicket("ticket-1")).toEqual(ticket);
+    expect((send.mock.calls[0] as unknown as [GetCommand])[0].input.Key).toEqual({ id: "acme#ticket-1" });
+    expect(repository.forTenant("default")).toBe(repository);
+  });
+});
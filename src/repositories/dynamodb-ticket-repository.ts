@@ -0,0 +1,780 @@
+import { ConditionalCheckFailedException, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand, TransactWriteCommandInput, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { SlaState } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { NotFoundError } from '../errors/not-found-error';
+import { logger } from '../observability/logger';
+import { Comment, CommentPage } from '../types/comment';
+import { TicketHistoryEntry, TicketHistoryPage } from '../types/history';
+import { TicketLink } from '../types/link';
+import { Ticket, TicketPage } from '../types/ticket';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { batchWriteItems, createDocumentClient, delay, EntityType, fromTenantItem, getFailedConditionIndex, tenantKey, TICKET_CHILDREN_INDEX, TicketIndexes, toTenantItem, toTenantValue, TRASH_INDEX } from './dynamodb';
+import { ChildQuery, TicketFilters, TicketQuery, TicketRepository, TicketWrite, TrashQuery } from './ticket-repository';
+
+type TransactWriteItem = NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+
+// Maximum number of Query round trips per page when a FilterExpression discards items
+const MAX_QUERY_PAGES = 10;
+
+// BatchGetItem takes up to 100 keys per call; unprocessed keys are retried with exponential backoff
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_GET_ATTEMPTS = 5;
+const BATCH_GET_BACKOFF_MS = 50;
+
+// Page size when reading every link of a ticket
+const MAX_LINKS_PER_QUERY = 100;
+
+interface TicketIndexSelection {
+  indexName: string;
+  partitionAttribute: keyof TicketFilters | "entityType";
+  partitionValue: string;
+}
+
+// Pick the most selective index for the requested filters: SLA state > queue > status > assignee > reporter > all tickets
+function selectTicketIndex(filters: TicketFilters): TicketIndexSelection {
+  if (filters.slaState) {
+    return { indexName: TicketIndexes.SLA_STATE, partitionAttribute: "slaState", partitionValue: filters.slaState };
+  }
+
+  if (filters.queueId) {
+    return { indexName: TicketIndexes.QUEUE, partitionAttribute: "queueId", partitionValue: filters.queueId };
+  }
+
+  if (filters.status) {
+    return { indexName: TicketIndexes.STATUS, partitionAttribute: "status", partitionValue: filters.status };
+  }
+
+  if (filters.assignedToId) {
+    return { indexName: TicketIndexes.ASSIGNED_TO, partitionAttribute: "assignedToId", partitionValue: filters.assignedToId };
+  }
+
+  if (filters.reporterId) {
+    return { indexName: TicketIndexes.REPORTER, partitionAttribute: "reporterId", partitionValue: filters.reporterId };
+  }
+
+  return { indexName: TicketIndexes.ENTITY_TYPE, partitionAttribute: "entityType", partitionValue: EntityType.TICKET };
+}
+
+function buildUpdateExpression(setExpressions: string[], removeExpressions: string[]): string {
+  const clauses = [`set ${setExpressions.join(", ")}`];
+  if (removeExpressions.length > 0) {
+    clauses.push(`remove ${removeExpressions.join(", ")}`);
+  }
+  return clauses.join(" ");
+}
+
+// Comments live in the tickets table under a composite id, so a comment can only be addressed through its ticket
+function commentKey(ticketId: string, commentId: string): string {
+  return `${ticketId}#${EntityType.COMMENT}#${commentId}`;
+}
+
+// A link is stored once per side, under the ticket it is read from
+function linkKey(ticketId: string, linkedTicketId: string): string {
+  return `${ticketId}#${EntityType.LINK}#${linkedTicketId}`;
+}
+
+// Sort key within the ticket's children: chronological order, id as tie breaker
+function childSortKey(entityType: EntityType, timestamp: string, id: string): string {
+  return `${entityType}#${timestamp}#${id}`;
+}
+
+// Deleted tickets also carry the key of the trash index and the TTL attribute (epoch seconds) that purges them
+function toTicketItem(ticket: Ticket, tenantId: string): Record<string, any> {
+  const item: Record<string, any> = { ...ticket, entityType: EntityType.TICKET };
+  if (ticket.deletedAt) {
+    item.deletedEntityType = EntityType.TICKET;
+  }
+  if (ticket.purgeAt) {
+    item.expiresAt = Math.floor(new Date(ticket.purgeAt).getTime() / 1000);
+  }
+  return toTenantItem(tenantId, item);
+}
+
+function toHistoryItem(entry: TicketHistoryEntry, tenantId: string): Record<string, any> {
+  return toTenantItem(tenantId, {
+    ...entry,
+    id: `${entry.ticketId}#${EntityType.HISTORY}#${entry.id}`,
+    entryId: entry.id,
+    entityType: EntityType.HISTORY,
+    sortKey: childSortKey(EntityType.HISTORY, entry.occurredAt, entry.id),
+  });
+}
+
+// Strip storage-only attributes before returning an item to callers
+export function toTicket(item: Record<string, any>): Ticket {
+  const { entityType, deletedEntityType, expiresAt, ...ticket } = fromTenantItem(item);
+  // Tickets written before versioning was introduced count as version 0
+  return { ...ticket, version: ticket.version ?? 0 } as Ticket;
+}
+
+export function toComment(item: Record<string, any>): Comment {
+  const { id, entityType, sortKey, commentId, ...comment } = fromTenantItem(item);
+  return { id: commentId, ...comment } as Comment;
+}
+
+export function toHistoryEntry(item: Record<string, any>): TicketHistoryEntry {
+  const { id, entityType, sortKey, entryId, ...entry } = fromTenantItem(item);
+  return { id: entryId, ...entry } as TicketHistoryEntry;
+}
+
+function toCommentItem(comment: Comment, tenantId: string): Record<string, any> {
+  return toTenantItem(tenantId, {
+    ...comment,
+    id: commentKey(comment.ticketId, comment.id),
+    commentId: comment.id,
+    entityType: EntityType.COMMENT,
+    sortKey: childSortKey(EntityType.COMMENT, comment.createdAt, comment.id),
+  });
+}
+
+function toLinkItem(link: TicketLink, tenantId: string): Record<string, any> {
+  return toTenantItem(tenantId, {
+    ...link,
+    id: linkKey(link.ticketId, link.linkedTicketId),
+    entityType: EntityType.LINK,
+    sortKey: childSortKey(EntityType.LINK, link.createdAt, link.linkedTicketId),
+  });
+}
+
+function toLink(item: Record<string, any>): TicketLink {
+  const { id, entityType, sortKey, ...link } = fromTenantItem(item);
+  return link as TicketLink;
+}
+
+// Attribute values are compared structurally so that unchanged fields are not rewritten
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Single-table DynamoDB storage; see README "Required Configuration" for the table and its indexes.
+// Each instance reads and writes the items of one organization.
+export class DynamoDbTicketRepository implements TicketRepository {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbTicketRepository {
+    return tenantId === this.tenantId ? this : new DynamoDbTicketRepository(this.docClient, this.tableName, tenantId);
+  }
+
+  async getTicket(id: string, options: { includeDeleted?: boolean } = {}): Promise<Ticket | undefined> {
+    const command = new GetCommand({
+      TableName: this.tableName,
+      Key: {
+        id: this.key(id),
+      },
+    });
+
+    const response = await this.docClient.send(command);
+    if (!response.Item || (response.Item.deletedAt && !options.includeDeleted)) {
+      return undefined;
+    }
+    return toTicket(response.Item);
+  }
+
+  // Missing and deleted tickets are left out; the order of the result is not the order of ids
+  async getTickets(ids: string[]): Promise<Ticket[]> {
+    const tickets: Ticket[] = [];
+
+    for (let start = 0; start < ids.length; start += MAX_BATCH_GET_KEYS) {
+      let keys: Record<string, any>[] = ids.slice(start, start + MAX_BATCH_GET_KEYS).map(id => ({ id: this.key(id) }));
+
+      for (let attempt = 1; keys.length > 0; attempt++) {
+        if (attempt > MAX_BATCH_GET_ATTEMPTS) {
+          throw new Error(`Could not read ${keys.length} tickets after ${MAX_BATCH_GET_ATTEMPTS} attempts`);
+        }
+        if (attempt > 1) {
+          await delay(BATCH_GET_BACKOFF_MS * 2 ** (attempt - 2));
+        }
+        const response = await this.docClient.send(new BatchGetCommand({
+          RequestItems: { [this.tableName]: { Keys: keys } }
+        }));
+        tickets.push(...(response.Responses?.[this.tableName] ?? []).filter(item => !item.deletedAt).map(toTicket));
+        keys = response.UnprocessedKeys?.[this.tableName]?.Keys ?? [];
+      }
+    }
+
+    return tickets;
+  }
+
+  async queryTickets(query: TicketQuery): Promise<TicketPage> {
+    const { indexName, partitionAttribute, partitionValue } = selectTicketIndex(query.filters);
+
+    const keyConditions: string[] = ["#pk = :pk"];
+    const filterExpressions: string[] = [];
+    const expressionAttributeNames: Record<string, string> = { "#pk": partitionAttribute };
+    const expressionAttributeValues: Record<string, any> = { ":pk": toTenantValue(this.tenantId, partitionAttribute, partitionValue) };
+
+    // createdAt is the sort key of every index, so ranges go into the key condition
+    const { createdFrom, createdTo } = query;
+    if (createdFrom || createdTo) {
+      expressionAttributeNames["#createdAt"] = "createdAt";
+    }
+    if (createdFrom && createdTo) {
+      keyConditions.push("#createdAt BETWEEN :createdFrom AND :createdTo");
+      expressionAttributeValues[":createdFrom"] = createdFrom;
+      expressionAttributeValues[":createdTo"] = createdTo;
+    } else if (createdFrom) {
+      keyConditions.push("#createdAt >= :createdFrom");
+      expressionAttributeValues[":createdFrom"] = createdFrom;
+    } else if (createdTo) {
+      keyConditions.push("#createdAt <= :createdTo");
+      expressionAttributeValues[":createdTo"] = createdTo;
+    }
+
+    // Deleted tickets stay in the indexes until they are purged
+    filterExpressions.push("attribute_not_exists(#deletedAt)");
+    expressionAttributeNames["#deletedAt"] = "deletedAt";
+
+    // Remaining equality filters that are not covered by the selected index
+    for (const [attribute, value] of Object.entries(query.filters)) {
+      if (value === undefined || attribute === partitionAttribute) {
+        continue;
+      }
+      filterExpressions.push(`#${attribute} = :${attribute}`);
+      expressionAttributeNames[`#${attribute}`] = attribute;
+      expressionAttributeValues[`:${attribute}`] = toTenantValue(this.tenantId, attribute, value);
+    }
+
+    // Keys are validated against the field definitions, but go through placeholders like any attribute name
+    Object.entries(query.customFields ?? {}).forEach(([key, value], index) => {
+      filterExpressions.push(`#customFields.#cf${index} = :cf${index}`);
+      expressionAttributeNames["#customFields"] = "customFields";
+      expressionAttributeNames[`#cf${index}`] = key;
+      expressionAttributeValues[`:cf${index}`] = value;
+    });
+
+    const items: Ticket[] = [];
+    let exclusiveStartKey = decodeCursor(indexName, query.cursor);
+    let queryPages = 0;
+
+    // Limit caps evaluated items (before filtering), so keep querying until the page is full.
+    // Asking only for the remaining count keeps LastEvaluatedKey aligned with the last returned item.
+    do {
+      const command = new QueryCommand({
+        TableName: this.tableName,
+        IndexName: indexName,
+        KeyConditionExpression: keyConditions.join(" AND "),
+        FilterExpression: filterExpressions.length > 0 ? filterExpressions.join(" AND ") : undefined,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ScanIndexForward: query.sort === "asc",
+        Limit: query.limit - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      });
+
+      const response = await this.docClient.send(command);
+      items.push(...(response.Items ?? []).map(toTicket));
+      exclusiveStartKey = response.LastEvaluatedKey;
+      queryPages++;
+    } while (exclusiveStartKey && items.length < query.limit && queryPages < MAX_QUERY_PAGES);
+
+    logger.debug("Query tickets", { indexName, count: items.length, hasMore: !!exclusiveStartKey });
+    return { items, nextCursor: encodeCursor(indexName, exclusiveStartKey) };
+  }
+
+  async queryDeletedTickets(query: TrashQuery): Promise<TicketPage> {
+    const command = new QueryCommand({
+      TableName: this.tableName,
+      IndexName: TRASH_INDEX,
+      KeyConditionExpression: "deletedEntityType = :entityType",
+      ExpressionAttributeValues: { ":entityType": this.key(EntityType.TICKET) },
+      ScanIndexForward: false,
+      Limit: query.limit,
+      ExclusiveStartKey: decodeCursor(TRASH_INDEX, query.cursor),
+    });
+
+    const response = await this.docClient.send(command);
+    return { items: (response.Items ?? []).map(toTicket), nextCursor: encodeCursor(TRASH_INDEX, response.LastEvaluatedKey) };
+  }
+
+  async createTicket(ticket: Ticket, history: TicketHistoryEntry): Promise<void> {
+    const command = new TransactWriteCommand({
+      TransactItems: [this.buildTicketPut(ticket), this.buildHistoryPut(history)]
+    });
+
+    await this.docClient.send(command);
+  }
+
+  // Ticket ids are freshly generated, so the items are put without conditions, which BatchWriteItem does not support
+  async createTickets(writes: { ticket: Ticket; history: TicketHistoryEntry }[]): Promise<string[]> {
+    const items = writes.flatMap(({ ticket, history }) => [toTicketItem(ticket, this.tenantId), toHistoryItem(history, this.tenantId)]);
+    const unprocessed = await batchWriteItems(this.docClient, this.tableName, items.map(item => ({ PutRequest: { Item: item } })));
+
+    // A ticket counts as unwritten if either its own item or its history entry is still unprocessed
+    const unwritten = new Set(unprocessed.map(({ PutRequest }) => {
+      const item = fromTenantItem(PutRequest!.Item!);
+      return item.entityType === EntityType.TICKET ? item.id : item.ticketId;
+    }));
+
+    logger.info("Batch create tickets", { count: writes.length, unwritten: unwritten.size });
+    return [...unwritten];
+  }
+
+  async writeTickets(writes: TicketWrite[]): Promise<number> {
+    const transactItems: TransactWriteItem[] = [];
+    // Position of each transaction item's write, to map cancellation reasons back
+    const writeIndexes: number[] = [];
+
+    writes.forEach((write, index) => {
+      const items = this.buildTransactItems(write);
+      transactItems.push(...items);
+      writeIndexes.push(...items.map(() => index));
+    });
+
+    try {
+      await this.docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+      return -1;
+    } catch (error) {
+      const failedItem = error instanceof TransactionCanceledException ? getFailedConditionIndex(error) : -1;
+      if (failedItem >= 0) {
+        return writeIndexes[failedItem];
+      }
+
+      throw error;
+    }
+  }
+
+  async updateTicket(current: Ticket, next: Ticket, history?: TicketHistoryEntry): Promise<boolean> {
+    try {
+      const command = new TransactWriteCommand({
+        TransactItems: [
+          this.buildTicketUpdate(current, next),
+          ...(history ? [this.buildHistoryPut(history)] : [])
+        ]
+      });
+
+      await this.docClient.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 0) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  async deleteTicket(current: Ticket, history: TicketHistoryEntry): Promise<boolean> {
+    try {
+      const command = new TransactWriteCommand({
+        TransactItems: [this.buildTicketDelete(current), this.buildHistoryPut(history)]
+      });
+
+      await this.docClient.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 0) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  async setSlaState(ticket: Ticket, slaState: SlaState): Promise<boolean> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.tableName,
+        Key: { id: this.key(ticket.id) },
+        UpdateExpression: "set slaState = :slaState",
+        ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt) AND #status = :status",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":slaState": toTenantValue(this.tenantId, "slaState", slaState),
+          ":status": toTenantValue(this.tenantId, "status", ticket.status),
+        },
+      });
+
+      await this.docClient.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  async getComment(ticketId: string, commentId: string): Promise<Comment | undefined> {
+    const command = new GetCommand({
+      TableName: this.tableName,
+      Key: { id: this.key(commentKey(ticketId, commentId)) },
+    });
+
+    const response = await this.docClient.send(command);
+    return response.Item ? toComment(response.Item) : undefined;
+  }
+
+  async queryComments(ticketId: string, query: ChildQuery): Promise<CommentPage> {
+    const { items, lastEvaluatedKey } = await this.queryChildren(ticketId, EntityType.COMMENT, query);
+    return { items: items.map(toComment), nextCursor: encodeCursor(TICKET_CHILDREN_INDEX, lastEvaluatedKey) };
+  }
+
+  // The comment and the parent ticket counters are written together; the ticket must exist
+  async createComment(comment: Comment, options: { firstResponse: boolean }): Promise<void> {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: this.tableName,
+            Item: toCommentItem(comment, this.tenantId),
+            ConditionExpression: "attribute_not_exists(id)"
+          }
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(comment.ticketId) },
+            UpdateExpression: options.firstResponse
+              ? "add commentCount :one set lastActivityAt = :now, firstRespondedAt = if_not_exists(firstRespondedAt, :now)"
+              : "add commentCount :one set lastActivityAt = :now",
+            ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt)",
+            ExpressionAttributeValues: { ":one": 1, ":now": comment.createdAt }
+          }
+        }
+      ]
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 1) {
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${comment.ticketId} not found`);
+      }
+
+      throw error;
+    }
+  }
+
+  async updateComment(comment: Comment): Promise<void> {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(commentKey(comment.ticketId, comment.id)) },
+            UpdateExpression: "set body = :body, updatedAt = :now",
+            ConditionExpression: "authorId = :authorId",
+            ExpressionAttributeValues: { ":body": comment.body, ":now": comment.updatedAt, ":authorId": comment.authorId }
+          }
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(comment.ticketId) },
+            UpdateExpression: "set lastActivityAt = :now",
+            ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt)",
+            ExpressionAttributeValues: { ":now": comment.updatedAt }
+          }
+        }
+      ]
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 0) {
+        throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${comment.id} not found`);
+      }
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 1) {
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${comment.ticketId} not found`);
+      }
+
+      throw error;
+    }
+  }
+
+  async deleteComment(ticketId: string, commentId: string, deletedAt: string): Promise<void> {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: this.tableName,
+            Key: { id: this.key(commentKey(ticketId, commentId)) },
+            ConditionExpression: "attribute_exists(id)"
+          }
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(ticketId) },
+            UpdateExpression: "add commentCount :minusOne set lastActivityAt = :now",
+            ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt)",
+            ExpressionAttributeValues: { ":minusOne": -1, ":now": deletedAt }
+          }
+        }
+      ]
+    });
+
+    try {
+      await this.docClient.send(command);
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 0) {
+        throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${commentId} not found`);
+      }
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) === 1) {
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  // The comment keeps its id and creation time, so it sorts among the comments of the ticket it moves to
+  async moveComment(comment: Comment, toTicketId: string): Promise<Comment> {
+    const moved: Comment = { ...comment, ticketId: toTicketId, mergedFromTicketId: comment.ticketId };
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: this.tableName,
+            Key: { id: this.key(commentKey(comment.ticketId, comment.id)) },
+            ConditionExpression: "attribute_exists(id)"
+          }
+        },
+        {
+          Put: {
+            TableName: this.tableName,
+            Item: toCommentItem(moved, this.tenantId),
+            ConditionExpression: "attribute_not_exists(id)"
+          }
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(comment.ticketId) },
+            UpdateExpression: "add commentCount :minusOne",
+            ConditionExpression: "attribute_exists(id)",
+            ExpressionAttributeValues: { ":minusOne": -1 }
+          }
+        },
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { id: this.key(toTicketId) },
+            UpdateExpression: "add commentCount :one",
+            ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt)",
+            ExpressionAttributeValues: { ":one": 1 }
+          }
+        }
+      ]
+    });
+
+    try {
+      await this.docClient.send(command);
+      return moved;
+    } catch (error) {
+      const failedItem = error instanceof TransactionCanceledException ? getFailedConditionIndex(error) : -1;
+      if (failedItem === 0 || failedItem === 1) {
+        throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${comment.id} not found`);
+      }
+      if (failedItem === 2 || failedItem === 3) {
+        const ticketId = failedItem === 2 ? comment.ticketId : toTicketId;
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async queryHistory(ticketId: string, query: ChildQuery): Promise<TicketHistoryPage> {
+    const { items, lastEvaluatedKey } = await this.queryChildren(ticketId, EntityType.HISTORY, query);
+    return { items: items.map(toHistoryEntry), nextCursor: encodeCursor(TICKET_CHILDREN_INDEX, lastEvaluatedKey) };
+  }
+
+  // Unconditional puts, so that a merge that is run again copies the same entries over themselves
+  async importHistory(entries: TicketHistoryEntry[]): Promise<void> {
+    const unprocessed = await batchWriteItems(this.docClient, this.tableName, entries.map(entry => ({ PutRequest: { Item: toHistoryItem(entry, this.tenantId) } })));
+    if (unprocessed.length > 0) {
+      throw new Error(`Could not copy ${unprocessed.length} history entries`);
+    }
+  }
+
+  async queryLinks(ticketId: string): Promise<TicketLink[]> {
+    const links: TicketLink[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const { items, lastEvaluatedKey } = await this.queryChildren(ticketId, EntityType.LINK, { limit: MAX_LINKS_PER_QUERY, cursor });
+      links.push(...items.map(toLink));
+      cursor = encodeCursor(TICKET_CHILDREN_INDEX, lastEvaluatedKey) ?? undefined;
+    } while (cursor);
+
+    return links;
+  }
+
+  // Both sides are put together, and only while both tickets exist outside the trash
+  async createLink(link: TicketLink, inverse: TicketLink): Promise<boolean> {
+    const command = new TransactWriteCommand({
+      TransactItems: [
+        { Put: { TableName: this.tableName, Item: toLinkItem(link, this.tenantId), ConditionExpression: "attribute_not_exists(id)" } },
+        { Put: { TableName: this.tableName, Item: toLinkItem(inverse, this.tenantId), ConditionExpression: "attribute_not_exists(id)" } },
+        ...[link.ticketId, link.linkedTicketId].map(id => ({
+          ConditionCheck: {
+            TableName: this.tableName,
+            Key: { id: this.key(id) },
+            ConditionExpression: "attribute_exists(id) AND attribute_not_exists(deletedAt)"
+          }
+        })),
+      ]
+    });
+
+    try {
+      await this.docClient.send(command);
+      return true;
+    } catch (error) {
+      const failedItem = error instanceof TransactionCanceledException ? getFailedConditionIndex(error) : -1;
+      if (failedItem === 0 || failedItem === 1) {
+        return false;
+      }
+      if (failedItem === 2 || failedItem === 3) {
+        const ticketId = failedItem === 2 ? link.ticketId : link.linkedTicketId;
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteLink(ticketId: string, linkedTicketId: string): Promise<boolean> {
+    const command = new TransactWriteCommand({
+      TransactItems: [linkKey(ticketId, linkedTicketId), linkKey(linkedTicketId, ticketId)].map(id => ({
+        Delete: { TableName: this.tableName, Key: { id: this.key(id) }, ConditionExpression: "attribute_exists(id)" }
+      }))
+    });
+
+    try {
+      await this.docClient.send(command);
+      return true;
+    } catch (error) {
+      if (error instanceof TransactionCanceledException && getFailedConditionIndex(error) >= 0) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Table key of one of the organization's items
+  private key(id: string): string {
+    return tenantKey(this.tenantId, id);
+  }
+
+  private async queryChildren(ticketId: string, entityType: EntityType, query: ChildQuery) {
+    const command = new QueryCommand({
+      TableName: this.tableName,
+      IndexName: TICKET_CHILDREN_INDEX,
+      KeyConditionExpression: "ticketId = :ticketId AND begins_with(sortKey, :prefix)",
+      ExpressionAttributeValues: {
+        ":ticketId": this.key(ticketId),
+        ":prefix": `${entityType}#`
+      },
+      ScanIndexForward: query.sort !== "desc",
+      Limit: query.limit,
+      ExclusiveStartKey: decodeCursor(TICKET_CHILDREN_INDEX, query.cursor),
+    });
+
+    const response = await this.docClient.send(command);
+    return { items: response.Items ?? [], lastEvaluatedKey: response.LastEvaluatedKey };
+  }
+
+  // Transaction items of one write, in the same shape as the single-ticket methods send them
+  private buildTransactItems(write: TicketWrite): TransactWriteItem[] {
+    switch (write.kind) {
+      case "create":
+        return [this.buildTicketPut(write.ticket), this.buildHistoryPut(write.history)];
+      case "update":
+        return [this.buildTicketUpdate(write.current, write.next), ...(write.history ? [this.buildHistoryPut(write.history)] : [])];
+      case "delete":
+        return [this.buildTicketDelete(write.current), this.buildHistoryPut(write.history)];
+    }
+  }
+
+  private buildTicketPut(ticket: Ticket): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.tableName,
+        Item: toTicketItem(ticket, this.tenantId),
+        ConditionExpression: "attribute_not_exists(id)"
+      }
+    };
+  }
+
+  private buildTicketUpdate(current: Ticket, next: Ticket): TransactWriteItem {
+    const setExpressions: string[] = [];
+    const removeExpressions: string[] = [];
+    const conditionExpressions: string[] = ["attribute_exists(id)"];
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = {};
+    // Item attributes are compared, so that attributes derived from the ticket (trash index key, TTL) follow it
+    const before = toTicketItem(current, this.tenantId);
+    const after = toTicketItem(next, this.tenantId);
+
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const value = after[field];
+      if (field === "id" || isSameValue(value ?? null, before[field] ?? null)) {
+        continue;
+      }
+
+      expressionAttributeNames[`#${field}`] = field;
+      // Attributes such as assignedToId are index keys, so they cannot be stored as NULL: clearing removes them
+      if (value === undefined || value === null) {
+        removeExpressions.push(`#${field}`);
+      } else {
+        setExpressions.push(`#${field} = :${field}`);
+        expressionAttributeValues[`:${field}`] = value;
+      }
+    }
+
+    // The change was validated against the state we read, so the write only succeeds if it is still current
+    expressionAttributeNames["#version"] = "version";
+    if (current.version > 0) {
+      conditionExpressions.push("#version = :currentVersion");
+      expressionAttributeValues[":currentVersion"] = current.version;
+    } else {
+      conditionExpressions.push("attribute_not_exists(#version)");
+    }
+    if (next.status !== current.status) {
+      expressionAttributeNames["#status"] = "status";
+      conditionExpressions.push("#status = :currentStatus");
+      expressionAttributeValues[":currentStatus"] = toTenantValue(this.tenantId, "status", current.status);
+    }
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id: this.key(current.id) },
+        UpdateExpression: buildUpdateExpression(setExpressions, removeExpressions),
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ConditionExpression: conditionExpressions.join(" AND ") // Si la condición falla, se cancela la transacción
+      }
+    };
+  }
+
+  private buildTicketDelete(current: Ticket): TransactWriteItem {
+    return {
+      Delete: {
+        TableName: this.tableName,
+        Key: {
+          id: this.key(current.id)
+        },
+        ConditionExpression: current.version > 0 ? "version = :currentVersion" : "attribute_exists(id) AND attribute_not_exists(version)",
+        ExpressionAttributeValues: current.version > 0 ? { ":currentVersion": current.version } : undefined
+      }
+    };
+  }
+
+  // Put for a history entry, to be written in the same transaction as the ticket change it describes
+  private buildHistoryPut(entry: TicketHistoryEntry): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.tableName,
+        Item: toHistoryItem(entry, this.tenantId),
+        ConditionExpression: "attribute_not_exists(id)"
+      }
+    };
+  }
+}
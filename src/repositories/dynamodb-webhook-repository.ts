@@ -0,0 +1,172 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { WebhookDeliveryStatus } from '../common/enums';
+import { Webhook, WebhookDelivery, WebhookDeliveryPage } from '../types/webhook';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { createDocumentClient, DELIVERY_RETRIES_INDEX, EntityType, fromTenantItem, tenantKey, TicketIndexes, toTenantItem, toTenantValue, WEBHOOK_DELIVERIES_INDEX } from './dynamodb';
+import { DeliveryQuery, WebhookRepository } from './webhook-repository';
+
+// Deliveries are kept for a month, dead letters included, then removed by the table TTL
+const DELIVERY_RETENTION_DAYS = 30;
+
+function webhookKey(id: string): string {
+  return `${EntityType.WEBHOOK}#${id}`;
+}
+
+function deliveryKey(id: string): string {
+  return `${EntityType.WEBHOOK_DELIVERY}#${id}`;
+}
+
+function toWebhook(item: Record<string, any>): Webhook {
+  const { id, entityType, ...webhook } = fromTenantItem(item);
+  return { id: id.slice(webhookKey("").length), ...webhook } as Webhook;
+}
+
+// status and ticketId are attribute names of ticket indexes, so deliveries store them under other names
+function toDeliveryItem(delivery: WebhookDelivery): Record<string, any> {
+  const { id, status, ticketId, ...fields } = delivery;
+  return {
+    ...fields,
+    id: deliveryKey(id),
+    entityType: EntityType.WEBHOOK_DELIVERY,
+    // Only pending deliveries have a nextAttemptAt, which keeps the retries index sparse
+    deliveryStatus: status,
+    eventTicketId: ticketId,
+    expiresAt: Math.floor(new Date(delivery.createdAt).getTime() / 1000) + DELIVERY_RETENTION_DAYS * 24 * 60 * 60,
+  };
+}
+
+function toDelivery(item: Record<string, any>): WebhookDelivery {
+  const { id, entityType, deliveryStatus, eventTicketId, expiresAt, ...fields } = fromTenantItem(item);
+  return { ...fields, id: id.slice(deliveryKey("").length), status: deliveryStatus, ticketId: eventTicketId } as WebhookDelivery;
+}
+
+// Webhooks and deliveries stored in the tickets table; each instance holds one organization's
+export class DynamoDbWebhookRepository implements WebhookRepository {
+  constructor(
+    private readonly docClient: DynamoDBDocumentClient = createDocumentClient(),
+    private readonly tableName: string = config.dynamodb.tableName,
+    private readonly tenantId: string = config.tenancy.defaultTenantId
+  ) {}
+
+  forTenant(tenantId: string): DynamoDbWebhookRepository {
+    return tenantId === this.tenantId ? this : new DynamoDbWebhookRepository(this.docClient, this.tableName, tenantId);
+  }
+
+  async createWebhook(webhook: Webhook): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: toTenantItem(this.tenantId, { ...webhook, id: webhookKey(webhook.id), entityType: EntityType.WEBHOOK }),
+      ConditionExpression: "attribute_not_exists(id)",
+    }));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { id: tenantKey(this.tenantId, webhookKey(id)) },
+    }));
+    return response.Item ? toWebhook(response.Item) : undefined;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    const webhooks: Webhook[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.docClient.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: TicketIndexes.ENTITY_TYPE,
+        KeyConditionExpression: "entityType = :entityType",
+        ExpressionAttributeValues: { ":entityType": tenantKey(this.tenantId, EntityType.WEBHOOK) },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      webhooks.push(...(response.Items ?? []).map(toWebhook));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return webhooks;
+  }
+
+  async updateWebhook(current: Webhook, next: Webhook): Promise<boolean> {
+    return this.conditionalPut(
+      toTenantItem(this.tenantId, { ...next, id: webhookKey(next.id), entityType: EntityType.WEBHOOK }),
+      "attribute_exists(id) AND version = :version",
+      { ":version": current.version }
+    );
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    try {
+      await this.docClient.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { id: tenantKey(this.tenantId, webhookKey(id)) },
+        ConditionExpression: "attribute_exists(id)",
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async createDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: toTenantItem(this.tenantId, toDeliveryItem(delivery)),
+      ConditionExpression: "attribute_not_exists(id)",
+    }));
+  }
+
+  async updateDelivery(current: WebhookDelivery, next: WebhookDelivery): Promise<boolean> {
+    return this.conditionalPut(toTenantItem(this.tenantId, toDeliveryItem(next)), "attempts = :attempts", { ":attempts": current.attempts });
+  }
+
+  async queryDeliveries(webhookId: string, query: DeliveryQuery): Promise<WebhookDeliveryPage> {
+    const response = await this.docClient.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: WEBHOOK_DELIVERIES_INDEX,
+      KeyConditionExpression: "webhookId = :webhookId",
+      FilterExpression: query.status ? "deliveryStatus = :status" : undefined,
+      ExpressionAttributeValues: {
+        ":webhookId": tenantKey(this.tenantId, webhookId),
+        ...(query.status ? { ":status": toTenantValue(this.tenantId, "deliveryStatus", query.status) } : {}),
+      },
+      ScanIndexForward: query.sort === "asc",
+      Limit: query.limit,
+      ExclusiveStartKey: decodeCursor(WEBHOOK_DELIVERIES_INDEX, query.cursor),
+    }));
+    return { items: (response.Items ?? []).map(toDelivery), nextCursor: encodeCursor(WEBHOOK_DELIVERIES_INDEX, response.LastEvaluatedKey) };
+  }
+
+  async listDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    const response = await this.docClient.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: DELIVERY_RETRIES_INDEX,
+      KeyConditionExpression: "deliveryStatus = :status AND nextAttemptAt <= :now",
+      ExpressionAttributeValues: { ":status": tenantKey(this.tenantId, WebhookDeliveryStatus.PENDING), ":now": now },
+      Limit: limit,
+    }));
+    return (response.Items ?? []).map(toDelivery);
+  }
+
+  private async conditionalPut(item: Record<string, any>, condition: string, values: Record<string, any>): Promise<boolean> {
+    try {
+      await this.docClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: condition,
+        ExpressionAttributeValues: values,
+      }));
+      return true;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { ConsumedCapacity, DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { BatchWriteCommand, BatchWriteCommandInput, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { config } from '../common/config';
+import { recordConsumedCapacity } from '../observability/request-context';
+
+type ConsumedCapacityOutput = { ConsumedCapacity?: ConsumedCapacity | ConsumedCapacity[] };
+
+// Asks every call for its consumed capacity and adds it to the current request, for the capacity metrics
+export function trackConsumedCapacity(docClient: DynamoDBDocumentClient): void {
+  docClient.middlewareStack.add(next => async args => {
+    (args.input as Record<string, unknown>).ReturnConsumedCapacity ??= "TOTAL";
+    const result = await next(args);
+
+    const consumed = (result.output as ConsumedCapacityOutput).ConsumedCapacity;
+    for (const capacity of Array.isArray(consumed) ? consumed : consumed ? [consumed] : []) {
+      recordConsumedCapacity(capacity.CapacityUnits ?? 0);
+    }
+    return result;
+  }, { step: "initialize", name: "trackConsumedCapacity" });
+}
+
+export function createDocumentClient(endpoint: string | undefined = config.dynamodb.endpoint): DynamoDBDocumentClient {
+  const client = new DynamoDBClient(endpoint ? { endpoint } : {});
+  const docClient = DynamoDBDocumentClient.from(client, {
+    marshallOptions: { removeUndefinedValues: true }
+  });
+  trackConsumedCapacity(docClient);
+  return docClient;
+}
+
+// Discriminator stored on every item as entityType
+export enum EntityType {
+  TICKET = "TICKET",
+  COMMENT = "COMMENT",
+  HISTORY = "HISTORY",
+  // Inverted index for search: the tokens of one indexed field of a ticket, and one posting per token
+  SEARCH_FIELD = "SEARCH_FIELD",
+  SEARCH_TERM = "SEARCH_TERM",
+  // Request and response of an Idempotency-Key, expired through the table TTL
+  IDEMPOTENCY = "IDEMPOTENCY",
+  // Report counters: the totals over current tickets, and one item per day
+  REPORT_TOTALS = "REPORT_TOTALS",
+  REPORT_DAY = "REPORT_DAY",
+  // Agent queues, and the open tickets of each agent for least-loaded assignment
+  QUEUE = "QUEUE",
+  AGENT_LOAD = "AGENT_LOAD",
+  // Message-ID of an ingested email and the ticket it went to
+  EMAIL_MESSAGE = "EMAIL_MESSAGE",
+  // External reference of an imported ticket and the ticket it became
+  IMPORT_REFERENCE = "IMPORT_REFERENCE",
+  // Webhook subscriptions and their deliveries, expired through the table TTL
+  WEBHOOK = "WEBHOOK",
+  WEBHOOK_DELIVERY = "WEBHOOK_DELIVERY",
+  // One side of a link between two tickets, a child of the ticket it is read from
+  LINK = "LINK",
+  // Custom field of the tickets of one type
+  FIELD_DEFINITION = "FIELD_DEFINITION",
+  // Usage of an organization within one quota window, expired through the table TTL
+  TENANT_USAGE = "TENANT_USAGE",
+}
+
+// Attributes that key the table or partition one of its indexes. An organization's items carry them prefixed with
+// the organization id, so that organizations never share a key or an index partition.
+const TENANT_SCOPED_ATTRIBUTES = [
+  "id", "entityType", "deletedEntityType", "ticketId", "status", "assignedToId", "reporterId", "slaState", "queueId",
+  "searchPrefix", "webhookId", "deliveryStatus",
+];
+
+// The default organization keeps unprefixed keys, so tables written before organizations existed are its data
+export function tenantKey(tenantId: string, value: string): string {
+  return tenantId === config.tenancy.defaultTenantId ? value : `${tenantId}#${value}`;
+}
+
+// Value of an attribute as stored for the organization, e.g. for key conditions and filters
+export function toTenantValue(tenantId: string, attribute: string, value: unknown): unknown {
+  return TENANT_SCOPED_ATTRIBUTES.includes(attribute) && typeof value === "string" ? tenantKey(tenantId, value) : value;
+}
+
+export function toTenantItem(tenantId: string, item: Record<string, any>): Record<string, any> {
+  if (tenantId === config.tenancy.defaultTenantId) {
+    return item;
+  }
+  const scoped: Record<string, any> = { ...item, tenantId };
+  for (const attribute of TENANT_SCOPED_ATTRIBUTES) {
+    if (scoped[attribute] !== undefined) {
+      scoped[attribute] = toTenantValue(tenantId, attribute, scoped[attribute]);
+    }
+  }
+  return scoped;
+}
+
+// Item as the organization wrote it; stripping an item twice is harmless
+export function fromTenantItem(item: Record<string, any>): Record<string, any> {
+  const { tenantId, ...unscoped } = item;
+  if (!tenantId) {
+    return item;
+  }
+  for (const attribute of TENANT_SCOPED_ATTRIBUTES) {
+    const value = unscoped[attribute];
+    if (typeof value === "string" && value.startsWith(`${tenantId}#`)) {
+      unscoped[attribute] = value.slice(tenantId.length + 1);
+    }
+  }
+  return unscoped;
+}
+
+export function tenantOfItem(item: Record<string, any>): string {
+  return item.tenantId ?? config.tenancy.defaultTenantId;
+}
+
+// Secondary indexes used for listing tickets. All of them use createdAt as sort key and project ALL attributes.
+export const TicketIndexes = {
+  STATUS: "status-createdAt-index",
+  ASSIGNED_TO: "assignedToId-createdAt-index",
+  REPORTER: "reporterId-createdAt-index",
+  ENTITY_TYPE: "entityType-createdAt-index",
+  SLA_STATE: "slaState-createdAt-index",
+  QUEUE: "queueId-createdAt-index",
+} as const;
+
+// Sparse index over ticket sub-resources: partition ticketId, sort key "<ENTITY>#<createdAt>#<id>"
+export const TICKET_CHILDREN_INDEX = "ticketId-sortKey-index";
+
+// Sparse index over the trash: only deleted tickets carry deletedEntityType, sort key deletedAt
+export const TRASH_INDEX = "deletedEntityType-deletedAt-index";
+
+// Search postings by token prefix: partition is the first two characters of the token, sort key "<token>#<ticketId>#<field>"
+export const SEARCH_TERMS_INDEX = "searchPrefix-searchTerm-index";
+
+// Deliveries of a webhook: partition webhookId, sort key createdAt
+export const WEBHOOK_DELIVERIES_INDEX = "webhookId-createdAt-index";
+
+// Sparse index over the deliveries waiting for a retry: only PENDING ones have a nextAttemptAt
+export const DELIVERY_RETRIES_INDEX = "deliveryStatus-nextAttemptAt-index";
+
+export type WriteRequest = NonNullable<BatchWriteCommandInput["RequestItems"]>[string][number];
+
+// BatchWriteItem takes up to 25 items per call; unprocessed items are retried with exponential backoff
+const MAX_BATCH_WRITE_ITEMS = 25;
+const MAX_BATCH_WRITE_ATTEMPTS = 5;
+const BATCH_WRITE_BACKOFF_MS = 50;
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Writes the requests in chunks and returns the ones still unprocessed after the retries
+export async function batchWriteItems(docClient: DynamoDBDocumentClient, tableName: string, requests: WriteRequest[]): Promise<WriteRequest[]> {
+  const unprocessed: WriteRequest[] = [];
+
+  for (let start = 0; start < requests.length; start += MAX_BATCH_WRITE_ITEMS) {
+    let pending = requests.slice(start, start + MAX_BATCH_WRITE_ITEMS);
+
+    for (let attempt = 1; pending.length > 0 && attempt <= MAX_BATCH_WRITE_ATTEMPTS; attempt++) {
+      if (attempt > 1) {
+        await delay(BATCH_WRITE_BACKOFF_MS * 2 ** (attempt - 2));
+      }
+      const response = await docClient.send(new BatchWriteCommand({ RequestItems: { [tableName]: pending } }));
+      pending = response.UnprocessedItems?.[tableName] ?? [];
+    }
+
+    unprocessed.push(...pending);
+  }
+
+  return unprocessed;
+}
+
+// Index of the transaction item that failed its condition, or -1
+export function getFailedConditionIndex(error: TransactionCanceledException): number {
+  return (error.CancellationReasons ?? []).findIndex(reason => reason.Code === "ConditionalCheckFailed");
+}
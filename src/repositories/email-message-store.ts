@@ -0,0 +1,8 @@
+// Message-IDs of the ingested emails and the ticket each one went to, to thread replies and skip redeliveries
+export interface EmailMessageStore {
+  // The same store as seen by another organization
+  forTenant(tenantId: string): EmailMessageStore;
+  getTicketId(messageId: string): Promise<string | undefined>;
+  // Records the message unless it is already known; false in that case
+  record(messageId: string, ticketId: string): Promise<boolean>;
+}
@@ -0,0 +1,15 @@
+import { FieldDefinition } from "../types/field-definition";
+
+// Custom field definitions of the ticket types
+export interface FieldDefinitionRepository {
+  // The definitions of another organization
+  forTenant(tenantId: string): FieldDefinitionRepository;
+  createFieldDefinition(definition: FieldDefinition): Promise<void>;
+  getFieldDefinition(id: string): Promise<FieldDefinition | undefined>;
+  // Every definition, in no particular order (there are a few per type, so they are read at once)
+  listFieldDefinitions(): Promise<FieldDefinition[]>;
+  // Conditioned on the version that was read; false if the definition was modified or deleted since
+  updateFieldDefinition(current: FieldDefinition, next: FieldDefinition): Promise<boolean>;
+  // False if the definition does not exist
+  deleteFieldDefinition(id: string): Promise<boolean>;
+}
@@ -0,0 +1,11 @@
+import { IdempotencyRecord, IdempotentResponse } from "../types/idempotency";
+
+// Records of the requests made with an Idempotency-Key, until they expire
+export interface IdempotencyStore {
+  // Stores the record unless an unexpired one exists for the key; returns the existing record in that case
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+  // Stores the response of a claimed key, to be replayed until expiresAt (epoch seconds)
+  complete(key: string, response: IdempotentResponse, expiresAt: number): Promise<void>;
+  // Frees a claimed key whose request failed, so that it can be retried
+  release(key: string): Promise<void>;
+}
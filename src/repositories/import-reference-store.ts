@@ -0,0 +1,8 @@
+// External references of imported tickets and the ticket each one became, to skip rows imported before
+export interface ImportReferenceStore {
+  // The same store as seen by another organization
+  forTenant(tenantId: string): ImportReferenceStore;
+  getTicketId(externalRef: string): Promise<string | undefined>;
+  // Records the reference unless it is already known; false in that case
+  record(externalRef: string, ticketId: string): Promise<boolean>;
+}
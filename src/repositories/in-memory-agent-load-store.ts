@@ -0,0 +1,20 @@
+import { AgentLoadStore } from "./agent-load-store";
+
+// Process-local agent load counters, for tests and local runs
+export class InMemoryAgentLoadStore implements AgentLoadStore {
+  private readonly loads = new Map<string, number>();
+
+  clear(): void {
+    this.loads.clear();
+  }
+
+  async add(deltas: Record<string, number>): Promise<void> {
+    for (const [agentId, delta] of Object.entries(deltas)) {
+      this.loads.set(agentId, (this.loads.get(agentId) ?? 0) + delta);
+    }
+  }
+
+  async getLoads(agentIds: string[]): Promise<Record<string, number>> {
+    return Object.fromEntries(agentIds.map(agentId => [agentId, this.loads.get(agentId) ?? 0]));
+  }
+}
@@ -0,0 +1,38 @@
+import { AttachmentObject, AttachmentStorage, PresignedUpload } from "./attachment-storage";
+
+// Process-local stand-in for object storage, for tests and local runs.
+// Issuing an upload URL counts as uploading the object, so that tests can check the cleanup.
+export class InMemoryAttachmentStorage implements AttachmentStorage {
+  readonly objects = new Map<string, AttachmentObject>();
+  // Bodies of the objects uploaded server-side
+  readonly contents = new Map<string, Uint8Array>();
+
+  clear(): void {
+    this.objects.clear();
+    this.contents.clear();
+  }
+
+  async createUploadUrl(key: string, object: AttachmentObject, expiresInSeconds: number): Promise<PresignedUpload> {
+    this.objects.set(key, object);
+    return {
+      url: `memory://attachments/${key}?method=PUT&expiresIn=${expiresInSeconds}`,
+      headers: { "Content-Type": object.contentType, "x-amz-checksum-sha256": object.checksum },
+    };
+  }
+
+  async createDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string> {
+    return `memory://attachments/${key}?method=GET&fileName=${encodeURIComponent(fileName)}&expiresIn=${expiresInSeconds}`;
+  }
+
+  async putObject(key: string, object: AttachmentObject, body: Uint8Array): Promise<void> {
+    this.objects.set(key, object);
+    this.contents.set(key, body);
+  }
+
+  async deleteObjects(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.objects.delete(key);
+      this.contents.delete(key);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { EmailMessageStore } from "./email-message-store";
+import { InMemoryTenants } from "./in-memory-tenants";
+
+// Process-local email message records, for tests and local runs
+export class InMemoryEmailMessageStore implements EmailMessageStore {
+  private readonly ticketIds = new Map<string, string>();
+  private readonly tenants: InMemoryTenants<InMemoryEmailMessageStore>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryEmailMessageStore>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryEmailMessageStore(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryEmailMessageStore {
+    return this.tenants.get(tenantId);
+  }
+
+  // Removes the records of every organization
+  clear(): void {
+    for (const store of this.tenants.all()) {
+      store.ticketIds.clear();
+    }
+  }
+
+  async getTicketId(messageId: string): Promise<string | undefined> {
+    return this.ticketIds.get(messageId);
+  }
+
+  async record(messageId: string, ticketId: string): Promise<boolean> {
+    if (this.ticketIds.has(messageId)) {
+      return false;
+    }
+    this.ticketIds.set(messageId, ticketId);
+    return true;
+  }
+}
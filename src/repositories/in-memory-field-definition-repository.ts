@@ -0,0 +1,56 @@
+import { FieldDefinition } from "../types/field-definition";
+import { FieldDefinitionRepository } from "./field-definition-repository";
+import { InMemoryTenants } from "./in-memory-tenants";
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Process-local field definitions, for tests and local runs
+export class InMemoryFieldDefinitionRepository implements FieldDefinitionRepository {
+  private readonly definitions = new Map<string, FieldDefinition>();
+  private readonly tenants: InMemoryTenants<InMemoryFieldDefinitionRepository>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryFieldDefinitionRepository>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryFieldDefinitionRepository(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryFieldDefinitionRepository {
+    return this.tenants.get(tenantId);
+  }
+
+  // Removes the definitions of every organization
+  clear(): void {
+    for (const repository of this.tenants.all()) {
+      repository.definitions.clear();
+    }
+  }
+
+  async createFieldDefinition(definition: FieldDefinition): Promise<void> {
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Field definition ${definition.id} already exists`);
+    }
+    this.definitions.set(definition.id, clone(definition));
+  }
+
+  async getFieldDefinition(id: string): Promise<FieldDefinition | undefined> {
+    const definition = this.definitions.get(id);
+    return definition ? clone(definition) : undefined;
+  }
+
+  async listFieldDefinitions(): Promise<FieldDefinition[]> {
+    return [...this.definitions.values()].map(clone);
+  }
+
+  async updateFieldDefinition(current: FieldDefinition, next: FieldDefinition): Promise<boolean> {
+    if (this.definitions.get(current.id)?.version !== current.version) {
+      return false;
+    }
+    this.definitions.set(current.id, clone(next));
+    return true;
+  }
+
+  async deleteFieldDefinition(id: string): Promise<boolean> {
+    return this.definitions.delete(id);
+  }
+}
@@ -0,0 +1,33 @@
+import { IdempotencyRecord, IdempotentResponse } from "../types/idempotency";
+import { IdempotencyStore } from "./idempotency-store";
+
+// Process-local idempotency records, for tests and local runs
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+    const existing = this.records.get(record.key);
+    if (existing && existing.expiresAt > Date.now() / 1000) {
+      return structuredClone(existing);
+    }
+
+    this.records.set(record.key, structuredClone(record));
+    return undefined;
+  }
+
+  async complete(key: string, response: IdempotentResponse, expiresAt: number): Promise<void> {
+    const existing = this.records.get(key);
+    if (existing) {
+      existing.response = structuredClone(response);
+      existing.expiresAt = expiresAt;
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
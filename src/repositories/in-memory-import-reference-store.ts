@@ -0,0 +1,35 @@
+import { ImportReferenceStore } from "./import-reference-store";
+import { InMemoryTenants } from "./in-memory-tenants";
+
+// Process-local import references, for tests and local runs
+export class InMemoryImportReferenceStore implements ImportReferenceStore {
+  private readonly ticketIds = new Map<string, string>();
+  private readonly tenants: InMemoryTenants<InMemoryImportReferenceStore>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryImportReferenceStore>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryImportReferenceStore(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryImportReferenceStore {
+    return this.tenants.get(tenantId);
+  }
+
+  // Removes the references of every organization
+  clear(): void {
+    for (const store of this.tenants.all()) {
+      store.ticketIds.clear();
+    }
+  }
+
+  async getTicketId(externalRef: string): Promise<string | undefined> {
+    return this.ticketIds.get(externalRef);
+  }
+
+  async record(externalRef: string, ticketId: string): Promise<boolean> {
+    if (this.ticketIds.has(externalRef)) {
+      return false;
+    }
+    this.ticketIds.set(externalRef, ticketId);
+    return true;
+  }
+}
@@ -0,0 +1,22 @@
+import { InboundMailStorage } from "./inbound-mail-storage";
+
+// Process-local raw messages, for tests and local runs
+export class InMemoryInboundMailStorage implements InboundMailStorage {
+  readonly messages = new Map<string, Buffer>();
+
+  clear(): void {
+    this.messages.clear();
+  }
+
+  put(bucket: string, key: string, message: Buffer | string): void {
+    this.messages.set(`${bucket}/${key}`, Buffer.from(message));
+  }
+
+  async getMessage(bucket: string, key: string): Promise<Buffer> {
+    const message = this.messages.get(`${bucket}/${key}`);
+    if (!message) {
+      throw new Error(`Inbound message ${bucket}/${key} not found`);
+    }
+    return message;
+  }
+}
@@ -0,0 +1,75 @@
+import { Queue } from "../types/queue";
+import { InMemoryTenants } from "./in-memory-tenants";
+import { QueueRepository } from "./queue-repository";
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Process-local queues, for tests and local runs
+export class InMemoryQueueRepository implements QueueRepository {
+  private readonly queues = new Map<string, Queue>();
+  private readonly cursors = new Map<string, number>();
+  private readonly tenants: InMemoryTenants<InMemoryQueueRepository>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryQueueRepository>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryQueueRepository(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryQueueRepository {
+    return this.tenants.get(tenantId);
+  }
+
+  // Removes the queues of every organization
+  clear(): void {
+    for (const repository of this.tenants.all()) {
+      repository.queues.clear();
+      repository.cursors.clear();
+    }
+  }
+
+  async createQueue(queue: Queue): Promise<void> {
+    if (this.queues.has(queue.id)) {
+      throw new Error(`Queue ${queue.id} already exists`);
+    }
+    this.queues.set(queue.id, clone(queue));
+  }
+
+  async getQueue(id: string): Promise<Queue | undefined> {
+    const queue = this.queues.get(id);
+    return queue ? clone(queue) : undefined;
+  }
+
+  async listQueues(): Promise<Queue[]> {
+    return [...this.queues.values()].map(clone);
+  }
+
+  async updateQueue(current: Queue, next: Queue): Promise<boolean> {
+    if (this.queues.get(current.id)?.version !== current.version) {
+      return false;
+    }
+    this.queues.set(current.id, clone(next));
+    return true;
+  }
+
+  async deleteQueue(id: string): Promise<boolean> {
+    this.cursors.delete(id);
+    return this.queues.delete(id);
+  }
+
+  async advanceCursor(id: string): Promise<number | undefined> {
+    if (!this.queues.has(id)) {
+      return undefined;
+    }
+    const cursor = this.cursors.get(id) ?? 0;
+    this.cursors.set(id, cursor + 1);
+    return cursor;
+  }
+
+  async rewindCursor(id: string): Promise<void> {
+    const cursor = this.cursors.get(id) ?? 0;
+    if (this.queues.has(id) && cursor > 0) {
+      this.cursors.set(id, cursor - 1);
+    }
+  }
+}
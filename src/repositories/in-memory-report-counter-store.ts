@@ -0,0 +1,50 @@
+import { InMemoryTenants } from "./in-memory-tenants";
+import { DailyCounters, ReportCounterDelta, ReportCounterStore } from "./report-counter-store";
+
+function addCounters(target: Record<string, number>, counters: Record<string, number>): void {
+  for (const [counter, value] of Object.entries(counters)) {
+    target[counter] = (target[counter] ?? 0) + value;
+  }
+}
+
+// Process-local report counters, for tests and local runs
+export class InMemoryReportCounterStore implements ReportCounterStore {
+  private totals: Record<string, number> = {};
+  private readonly days = new Map<string, Record<string, number>>();
+  private readonly tenants: InMemoryTenants<InMemoryReportCounterStore>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryReportCounterStore>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryReportCounterStore(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryReportCounterStore {
+    return this.tenants.get(tenantId);
+  }
+
+  // Empties the counters of every organization
+  clear(): void {
+    for (const store of this.tenants.all()) {
+      store.totals = {};
+      store.days.clear();
+    }
+  }
+
+  async add(delta: ReportCounterDelta): Promise<void> {
+    addCounters(this.totals, delta.totals);
+    for (const [date, counters] of Object.entries(delta.days)) {
+      const day = this.days.get(date) ?? {};
+      addCounters(day, counters);
+      this.days.set(date, day);
+    }
+  }
+
+  async getTotals(): Promise<Record<string, number>> {
+    return { ...this.totals };
+  }
+
+  async getDays(): Promise<DailyCounters[]> {
+    return [...this.days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, counters]) => ({ date, counters: { ...counters } }));
+  }
+}
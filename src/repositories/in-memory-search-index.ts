@@ -0,0 +1,73 @@
+import { InMemoryTenants } from "./in-memory-tenants";
+import { SearchField, SearchPosting, TicketSearchIndex } from "./search-index";
+
+// Process-local search index, for tests and local runs
+export class InMemorySearchIndex implements TicketSearchIndex {
+  // token -> "<ticketId>#<field>" -> posting
+  private readonly postings = new Map<string, Map<string, SearchPosting>>();
+  // ticketId -> field -> indexed tokens
+  private readonly fields = new Map<string, Map<SearchField, string[]>>();
+  private readonly tenants: InMemoryTenants<InMemorySearchIndex>;
+
+  constructor(tenants?: InMemoryTenants<InMemorySearchIndex>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemorySearchIndex(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemorySearchIndex {
+    return this.tenants.get(tenantId);
+  }
+
+  // Empties the index of every organization
+  clear(): void {
+    for (const index of this.tenants.all()) {
+      index.postings.clear();
+      index.fields.clear();
+    }
+  }
+
+  async indexField(ticketId: string, field: SearchField, tokens: Record<string, number>): Promise<void> {
+    this.removeField(ticketId, field);
+
+    const tokenList = Object.keys(tokens);
+    if (tokenList.length === 0) {
+      return;
+    }
+
+    for (const token of tokenList) {
+      const postings = this.postings.get(token) ?? new Map<string, SearchPosting>();
+      postings.set(`${ticketId}#${field}`, { ticketId, field, token, weight: tokens[token] });
+      this.postings.set(token, postings);
+    }
+    const ticketFields = this.fields.get(ticketId) ?? new Map<SearchField, string[]>();
+    ticketFields.set(field, tokenList);
+    this.fields.set(ticketId, ticketFields);
+  }
+
+  async removeTicket(ticketId: string): Promise<void> {
+    for (const field of [...(this.fields.get(ticketId)?.keys() ?? [])]) {
+      this.removeField(ticketId, field);
+    }
+    this.fields.delete(ticketId);
+  }
+
+  // Same order as the DynamoDB index: by token, then ticket and field
+  async findByPrefix(prefix: string, limit: number): Promise<SearchPosting[]> {
+    return [...this.postings.keys()]
+      .filter(token => token.startsWith(prefix))
+      .sort()
+      .flatMap(token => [...this.postings.get(token)!.values()].sort((a, b) => `${a.ticketId}#${a.field}`.localeCompare(`${b.ticketId}#${b.field}`)))
+      .slice(0, limit)
+      .map(posting => ({ ...posting }));
+  }
+
+  private removeField(ticketId: string, field: SearchField): void {
+    for (const token of this.fields.get(ticketId)?.get(field) ?? []) {
+      const postings = this.postings.get(token);
+      postings?.delete(`${ticketId}#${field}`);
+      if (postings?.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+    this.fields.get(ticketId)?.delete(field);
+  }
+}
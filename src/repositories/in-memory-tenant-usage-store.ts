@@ -0,0 +1,32 @@
+import { TenantUsageStore } from "./tenant-usage-store";
+
+// Process-local usage counters, for tests and local runs; windows that are over are not dropped
+export class InMemoryTenantUsageStore implements TenantUsageStore {
+  private readonly counters = new Map<string, number>();
+
+  clear(): void {
+    this.counters.clear();
+  }
+
+  async consume(tenantId: string, counter: string, amount: number, limit: number): Promise<boolean> {
+    const key = `${tenantId}#${counter}`;
+    const usage = this.counters.get(key) ?? 0;
+    if (usage + amount > limit) {
+      return false;
+    }
+    this.counters.set(key, usage + amount);
+    return true;
+  }
+
+  async release(tenantId: string, counter: string, amount: number): Promise<void> {
+    const key = `${tenantId}#${counter}`;
+    const usage = this.counters.get(key) ?? 0;
+    if (usage >= amount) {
+      this.counters.set(key, usage - amount);
+    }
+  }
+
+  async get(tenantId: string, counter: string): Promise<number> {
+    return this.counters.get(`${tenantId}#${counter}`) ?? 0;
+  }
+}
@@ -0,0 +1,22 @@
+import { config } from "../common/config";
+
+// Instances of an in-memory backend, one per organization, sharing nothing but this registry.
+// The instance a test creates is the default organization's; the others are created on first use.
+export class InMemoryTenants<T> {
+  private readonly instances = new Map<string, T>();
+
+  constructor(defaultInstance: T, private readonly create: () => T) {
+    this.instances.set(config.tenancy.defaultTenantId, defaultInstance);
+  }
+
+  get(tenantId: string): T {
+    if (!this.instances.has(tenantId)) {
+      this.instances.set(tenantId, this.create());
+    }
+    return this.instances.get(tenantId)!;
+  }
+
+  all(): T[] {
+    return [...this.instances.values()];
+  }
+}
@@ -0,0 +1,294 @@
+import { SlaState } from "../common/enums";
+import { ErrorCodes } from "../common/error-codes";
+import { NotFoundError } from "../errors/not-found-error";
+import { Comment, CommentPage } from "../types/comment";
+import { TicketHistoryEntry, TicketHistoryPage } from "../types/history";
+import { TicketLink } from "../types/link";
+import { Ticket, TicketPage } from "../types/ticket";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { InMemoryTenants } from "./in-memory-tenants";
+import { ChildQuery, TicketQuery, TicketRepository, TicketWrite, TrashQuery } from "./ticket-repository";
+
+// Name under which in-memory cursors are issued, so they are rejected by other queries just like index cursors
+const MEMORY_CURSOR_INDEX = "memory";
+
+interface Sortable {
+  id: string;
+}
+
+// Stored copies are detached from callers and drop undefined attributes, like the DynamoDB marshaller does
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Chronological page over items sorted by timestamp then id, resuming after the position named by the cursor
+function paginate<T extends Sortable>(items: T[], timestampOf: (item: T) => string, query: ChildQuery): { items: T[]; nextCursor: string | null } {
+  const direction = query.sort === "desc" ? -1 : 1;
+  const compare = (at: string, id: string, other: T) =>
+    direction * (at.localeCompare(timestampOf(other)) || id.localeCompare(other.id));
+  const sorted = [...items].sort((a, b) => compare(timestampOf(a), a.id, b));
+
+  // Like an ExclusiveStartKey, the cursor keeps working if the item it names is deleted in between
+  const after = decodeCursor(MEMORY_CURSOR_INDEX, query.cursor);
+  const remaining = after ? sorted.filter(item => compare(after.at, after.id, item) < 0) : sorted;
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(clone),
+    nextCursor: remaining.length > query.limit ? encodeCursor(MEMORY_CURSOR_INDEX, { at: timestampOf(last), id: last.id }) : null,
+  };
+}
+
+// Process-local storage with the same semantics as the DynamoDB repository, for tests and local runs
+export class InMemoryTicketRepository implements TicketRepository {
+  private readonly tickets = new Map<string, Ticket>();
+  private readonly comments = new Map<string, Comment>();
+  private readonly history: TicketHistoryEntry[] = [];
+  private readonly links = new Map<string, TicketLink>();
+  private readonly tenants: InMemoryTenants<InMemoryTicketRepository>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryTicketRepository>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryTicketRepository(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryTicketRepository {
+    return this.tenants.get(tenantId);
+  }
+
+  // Empties the storage of every organization
+  clear(): void {
+    for (const repository of this.tenants.all()) {
+      repository.tickets.clear();
+      repository.comments.clear();
+      repository.history.length = 0;
+      repository.links.clear();
+    }
+  }
+
+  async getTicket(id: string, options: { includeDeleted?: boolean } = {}): Promise<Ticket | undefined> {
+    const ticket = this.tickets.get(id);
+    return ticket && (!ticket.deletedAt || options.includeDeleted) ? clone(ticket) : undefined;
+  }
+
+  async getTickets(ids: string[]): Promise<Ticket[]> {
+    return ids.flatMap(id => this.tickets.has(id) && !this.tickets.get(id)!.deletedAt ? [clone(this.tickets.get(id)!)] : []);
+  }
+
+  async queryTickets(query: TicketQuery): Promise<TicketPage> {
+    const matches = [...this.tickets.values()].filter(ticket =>
+      !ticket.deletedAt
+      && Object.entries(query.filters).every(([field, value]) => value === undefined || ticket[field as keyof Ticket] === value)
+      && Object.entries(query.customFields ?? {}).every(([key, value]) => ticket.customFields?.[key] === value)
+      && (!query.createdFrom || ticket.createdAt >= query.createdFrom)
+      && (!query.createdTo || ticket.createdAt <= query.createdTo)
+    );
+
+    return paginate(matches, ticket => ticket.createdAt, query);
+  }
+
+  async queryDeletedTickets(query: TrashQuery): Promise<TicketPage> {
+    const deleted = [...this.tickets.values()].filter(ticket => ticket.deletedAt);
+    return paginate(deleted, ticket => ticket.deletedAt!, { ...query, sort: "desc" });
+  }
+
+  async createTicket(ticket: Ticket, history: TicketHistoryEntry): Promise<void> {
+    if (this.tickets.has(ticket.id)) {
+      throw new Error(`Ticket ${ticket.id} already exists`);
+    }
+    this.tickets.set(ticket.id, clone(ticket));
+    this.history.push(clone(history));
+  }
+
+  async updateTicket(current: Ticket, next: Ticket, history?: TicketHistoryEntry): Promise<boolean> {
+    if (!this.isCurrent(current)) {
+      return false;
+    }
+    this.tickets.set(current.id, clone(next));
+    if (history) {
+      this.history.push(clone(history));
+    }
+    return true;
+  }
+
+  async deleteTicket(current: Ticket, history: TicketHistoryEntry): Promise<boolean> {
+    if (!this.isCurrent(current)) {
+      return false;
+    }
+    this.tickets.delete(current.id);
+    this.history.push(clone(history));
+    return true;
+  }
+
+  async createTickets(writes: { ticket: Ticket; history: TicketHistoryEntry }[]): Promise<string[]> {
+    for (const { ticket, history } of writes) {
+      this.tickets.set(ticket.id, clone(ticket));
+      this.history.push(clone(history));
+    }
+    return [];
+  }
+
+  async writeTickets(writes: TicketWrite[]): Promise<number> {
+    const failed = writes.findIndex(write =>
+      write.kind === "create" ? this.tickets.has(write.ticket.id) : !this.isCurrent(write.current)
+    );
+    if (failed >= 0) {
+      return failed;
+    }
+
+    for (const write of writes) {
+      if (write.kind === "create") {
+        this.tickets.set(write.ticket.id, clone(write.ticket));
+      } else if (write.kind === "update") {
+        this.tickets.set(write.current.id, clone(write.next));
+      } else {
+        this.tickets.delete(write.current.id);
+      }
+      if (write.history) {
+        this.history.push(clone(write.history));
+      }
+    }
+    return -1;
+  }
+
+  async setSlaState(ticket: Ticket, slaState: SlaState): Promise<boolean> {
+    const stored = this.tickets.get(ticket.id);
+    if (!stored || stored.deletedAt || stored.status !== ticket.status) {
+      return false;
+    }
+    stored.slaState = slaState;
+    return true;
+  }
+
+  async getComment(ticketId: string, commentId: string): Promise<Comment | undefined> {
+    const comment = this.comments.get(this.commentKey(ticketId, commentId));
+    return comment ? clone(comment) : undefined;
+  }
+
+  async queryComments(ticketId: string, query: ChildQuery): Promise<CommentPage> {
+    const comments = [...this.comments.values()].filter(comment => comment.ticketId === ticketId);
+    return paginate(comments, comment => comment.createdAt, query);
+  }
+
+  async createComment(comment: Comment, options: { firstResponse: boolean }): Promise<void> {
+    const ticket = this.getStoredTicket(comment.ticketId);
+    this.comments.set(this.commentKey(comment.ticketId, comment.id), clone(comment));
+
+    ticket.commentCount = (ticket.commentCount ?? 0) + 1;
+    ticket.lastActivityAt = comment.createdAt;
+    if (options.firstResponse) {
+      ticket.firstRespondedAt ??= comment.createdAt;
+    }
+  }
+
+  async updateComment(comment: Comment): Promise<void> {
+    const key = this.commentKey(comment.ticketId, comment.id);
+    const stored = this.comments.get(key);
+    if (!stored || stored.authorId !== comment.authorId) {
+      throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${comment.id} not found`);
+    }
+    const ticket = this.getStoredTicket(comment.ticketId);
+
+    this.comments.set(key, { ...stored, body: comment.body, updatedAt: comment.updatedAt });
+    ticket.lastActivityAt = comment.updatedAt;
+  }
+
+  async deleteComment(ticketId: string, commentId: string, deletedAt: string): Promise<void> {
+    const key = this.commentKey(ticketId, commentId);
+    if (!this.comments.has(key)) {
+      throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${commentId} not found`);
+    }
+    const ticket = this.getStoredTicket(ticketId);
+
+    this.comments.delete(key);
+    ticket.commentCount = (ticket.commentCount ?? 0) - 1;
+    ticket.lastActivityAt = deletedAt;
+  }
+
+  async moveComment(comment: Comment, toTicketId: string): Promise<Comment> {
+    const key = this.commentKey(comment.ticketId, comment.id);
+    if (!this.comments.has(key)) {
+      throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${comment.id} not found`);
+    }
+    const from = this.tickets.get(comment.ticketId);
+    if (!from) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${comment.ticketId} not found`);
+    }
+    const to = this.getStoredTicket(toTicketId);
+
+    const moved: Comment = { ...this.comments.get(key)!, ticketId: toTicketId, mergedFromTicketId: comment.ticketId };
+    this.comments.delete(key);
+    this.comments.set(this.commentKey(toTicketId, comment.id), clone(moved));
+    from.commentCount = (from.commentCount ?? 0) - 1;
+    to.commentCount = (to.commentCount ?? 0) + 1;
+    return clone(moved);
+  }
+
+  async queryHistory(ticketId: string, query: ChildQuery): Promise<TicketHistoryPage> {
+    const entries = this.history.filter(entry => entry.ticketId === ticketId);
+    return paginate(entries, entry => entry.occurredAt, query);
+  }
+
+  async importHistory(entries: TicketHistoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const index = this.history.findIndex(stored => stored.ticketId === entry.ticketId && stored.id === entry.id);
+      if (index >= 0) {
+        this.history[index] = clone(entry);
+      } else {
+        this.history.push(clone(entry));
+      }
+    }
+  }
+
+  async queryLinks(ticketId: string): Promise<TicketLink[]> {
+    const links = [...this.links.values()].filter(link => link.ticketId === ticketId);
+    return links.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.linkedTicketId.localeCompare(b.linkedTicketId)).map(clone);
+  }
+
+  async createLink(link: TicketLink, inverse: TicketLink): Promise<boolean> {
+    this.getStoredTicket(link.ticketId);
+    this.getStoredTicket(link.linkedTicketId);
+    const key = this.linkKey(link.ticketId, link.linkedTicketId);
+    const inverseKey = this.linkKey(inverse.ticketId, inverse.linkedTicketId);
+    if (this.links.has(key) || this.links.has(inverseKey)) {
+      return false;
+    }
+    this.links.set(key, clone(link));
+    this.links.set(inverseKey, clone(inverse));
+    return true;
+  }
+
+  async deleteLink(ticketId: string, linkedTicketId: string): Promise<boolean> {
+    const key = this.linkKey(ticketId, linkedTicketId);
+    const inverseKey = this.linkKey(linkedTicketId, ticketId);
+    if (!this.links.has(key) || !this.links.has(inverseKey)) {
+      return false;
+    }
+    this.links.delete(key);
+    this.links.delete(inverseKey);
+    return true;
+  }
+
+  private commentKey(ticketId: string, commentId: string): string {
+    return `${ticketId}#${commentId}`;
+  }
+
+  private linkKey(ticketId: string, linkedTicketId: string): string {
+    return `${ticketId}#${linkedTicketId}`;
+  }
+
+  // Optimistic concurrency check shared by updates and deletes
+  private isCurrent(current: Ticket): boolean {
+    const stored = this.tickets.get(current.id);
+    return !!stored && (stored.version ?? 0) === current.version && stored.status === current.status;
+  }
+
+  // Sub-resources of a deleted ticket cannot be changed
+  private getStoredTicket(ticketId: string): Ticket {
+    const ticket = this.tickets.get(ticketId);
+    if (!ticket || ticket.deletedAt) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+    }
+    return ticket;
+  }
+}
@@ -0,0 +1,105 @@
+import { WebhookDeliveryStatus } from "../common/enums";
+import { Webhook, WebhookDelivery, WebhookDeliveryPage } from "../types/webhook";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { InMemoryTenants } from "./in-memory-tenants";
+import { DeliveryQuery, WebhookRepository } from "./webhook-repository";
+
+// Name under which in-memory cursors are issued, so they are rejected by other queries just like index cursors
+const MEMORY_CURSOR_INDEX = "memory";
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Process-local webhooks and deliveries, for tests and local runs
+export class InMemoryWebhookRepository implements WebhookRepository {
+  private readonly webhooks = new Map<string, Webhook>();
+  private readonly deliveries = new Map<string, WebhookDelivery>();
+  private readonly tenants: InMemoryTenants<InMemoryWebhookRepository>;
+
+  constructor(tenants?: InMemoryTenants<InMemoryWebhookRepository>) {
+    this.tenants = tenants ?? new InMemoryTenants(this, () => new InMemoryWebhookRepository(this.tenants));
+  }
+
+  forTenant(tenantId: string): InMemoryWebhookRepository {
+    return this.tenants.get(tenantId);
+  }
+
+  // Removes the webhooks and deliveries of every organization
+  clear(): void {
+    for (const repository of this.tenants.all()) {
+      repository.webhooks.clear();
+      repository.deliveries.clear();
+    }
+  }
+
+  async createWebhook(webhook: Webhook): Promise<void> {
+    if (this.webhooks.has(webhook.id)) {
+      throw new Error(`Webhook ${webhook.id} already exists`);
+    }
+    this.webhooks.set(webhook.id, clone(webhook));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    return webhook ? clone(webhook) : undefined;
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    return [...this.webhooks.values()].map(clone);
+  }
+
+  async updateWebhook(current: Webhook, next: Webhook): Promise<boolean> {
+    if (this.webhooks.get(current.id)?.version !== current.version) {
+      return false;
+    }
+    this.webhooks.set(current.id, clone(next));
+    return true;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    return this.webhooks.delete(id);
+  }
+
+  async createDelivery(delivery: WebhookDelivery): Promise<void> {
+    if (this.deliveries.has(delivery.id)) {
+      throw new Error(`Delivery ${delivery.id} already exists`);
+    }
+    this.deliveries.set(delivery.id, clone(delivery));
+  }
+
+  async updateDelivery(current: WebhookDelivery, next: WebhookDelivery): Promise<boolean> {
+    if (this.deliveries.get(current.id)?.attempts !== current.attempts) {
+      return false;
+    }
+    this.deliveries.set(current.id, clone(next));
+    return true;
+  }
+
+  async queryDeliveries(webhookId: string, query: DeliveryQuery): Promise<WebhookDeliveryPage> {
+    const direction = query.sort === "asc" ? 1 : -1;
+    const compare = (at: string, id: string, other: WebhookDelivery) =>
+      direction * (at.localeCompare(other.createdAt) || id.localeCompare(other.id));
+    const sorted = [...this.deliveries.values()]
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => compare(a.createdAt, a.id, b));
+
+    const after = decodeCursor(MEMORY_CURSOR_INDEX, query.cursor);
+    const remaining = after ? sorted.filter(delivery => compare(after.at, after.id, delivery) < 0) : sorted;
+    const page = remaining.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.filter(delivery => !query.status || delivery.status === query.status).map(clone),
+      nextCursor: remaining.length > query.limit ? encodeCursor(MEMORY_CURSOR_INDEX, { at: last.createdAt, id: last.id }) : null,
+    };
+  }
+
+  async listDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(delivery => delivery.status === WebhookDeliveryStatus.PENDING && delivery.nextAttemptAt! <= now)
+      .sort((a, b) => a.nextAttemptAt!.localeCompare(b.nextAttemptAt!))
+      .slice(0, limit)
+      .map(clone);
+  }
+}
@@ -0,0 +1,4 @@
+// Raw inbound messages, as stored by the mail receiver (e.g. an SES receipt rule writing to S3)
+export interface InboundMailStorage {
+  getMessage(bucket: string, key: string): Promise<Buffer>;
+}
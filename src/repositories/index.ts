@@ -0,0 +1,175 @@
+import { getTenantId } from "../observability/request-context";
+import { AgentLoadStore } from "./agent-load-store";
+import { AttachmentStorage } from "./attachment-storage";
+import { DynamoDbAgentLoadStore } from "./dynamodb-agent-load-store";
+import { DynamoDbEmailMessageStore } from "./dynamodb-email-message-store";
+import { DynamoDbFieldDefinitionRepository } from "./dynamodb-field-definition-repository";
+import { DynamoDbIdempotencyStore } from "./dynamodb-idempotency-store";
+import { DynamoDbImportReferenceStore } from "./dynamodb-import-reference-store";
+import { DynamoDbQueueRepository } from "./dynamodb-queue-repository";
+import { DynamoDbReportCounterStore } from "./dynamodb-report-counter-store";
+import { DynamoDbSearchIndex } from "./dynamodb-search-index";
+import { DynamoDbTenantUsageStore } from "./dynamodb-tenant-usage-store";
+import { DynamoDbTicketRepository } from "./dynamodb-ticket-repository";
+import { DynamoDbWebhookRepository } from "./dynamodb-webhook-repository";
+import { EmailMessageStore } from "./email-message-store";
+import { FieldDefinitionRepository } from "./field-definition-repository";
+import { IdempotencyStore } from "./idempotency-store";
+import { ImportReferenceStore } from "./import-reference-store";
+import { InboundMailStorage } from "./inbound-mail-storage";
+import { QueueRepository } from "./queue-repository";
+import { ReportCounterStore } from "./report-counter-store";
+import { S3AttachmentStorage } from "./s3-attachment-storage";
+import { S3InboundMailStorage } from "./s3-inbound-mail-storage";
+import { TicketSearchIndex } from "./search-index";
+import { TenantUsageStore } from "./tenant-usage-store";
+import { TicketRepository } from "./ticket-repository";
+import { WebhookRepository } from "./webhook-repository";
+
+// Cached across invocations of the same Lambda container
+let repository: TicketRepository | undefined;
+let searchIndex: TicketSearchIndex | undefined;
+let attachmentStorage: AttachmentStorage | undefined;
+let idempotencyStore: IdempotencyStore | undefined;
+let reportCounterStore: ReportCounterStore | undefined;
+let queueRepository: QueueRepository | undefined;
+let agentLoadStore: AgentLoadStore | undefined;
+let emailMessageStore: EmailMessageStore | undefined;
+let inboundMailStorage: InboundMailStorage | undefined;
+let webhookRepository: WebhookRepository | undefined;
+let tenantUsageStore: TenantUsageStore | undefined;
+let fieldDefinitionRepository: FieldDefinitionRepository | undefined;
+let importReferenceStore: ImportReferenceStore | undefined;
+
+// Backends holding an organization's data are returned as seen by the organization of the current request;
+// the instances passed to the setters are the default organization's.
+
+// Replaces the storage used by the services, e.g. with an InMemoryTicketRepository in tests
+export function setTicketRepository(ticketRepository: TicketRepository | undefined): void {
+  repository = ticketRepository;
+}
+
+export function getTicketRepository(): TicketRepository {
+  repository ??= new DynamoDbTicketRepository();
+  return repository.forTenant(getTenantId());
+}
+
+// Replaces the search backend, e.g. with an InMemorySearchIndex in tests
+export function setSearchIndex(ticketSearchIndex: TicketSearchIndex | undefined): void {
+  searchIndex = ticketSearchIndex;
+}
+
+export function getSearchIndex(): TicketSearchIndex {
+  searchIndex ??= new DynamoDbSearchIndex();
+  return searchIndex.forTenant(getTenantId());
+}
+
+// Replaces the attachment object storage, e.g. with an InMemoryAttachmentStorage in tests
+export function setAttachmentStorage(storage: AttachmentStorage | undefined): void {
+  attachmentStorage = storage;
+}
+
+export function getAttachmentStorage(): AttachmentStorage {
+  attachmentStorage ??= new S3AttachmentStorage();
+  return attachmentStorage;
+}
+
+// Replaces the idempotency records backend, e.g. with an InMemoryIdempotencyStore in tests
+export function setIdempotencyStore(store: IdempotencyStore | undefined): void {
+  idempotencyStore = store;
+}
+
+export function getIdempotencyStore(): IdempotencyStore {
+  idempotencyStore ??= new DynamoDbIdempotencyStore();
+  return idempotencyStore;
+}
+
+// Replaces the report counters backend, e.g. with an InMemoryReportCounterStore in tests
+export function setReportCounterStore(store: ReportCounterStore | undefined): void {
+  reportCounterStore = store;
+}
+
+export function getReportCounterStore(): ReportCounterStore {
+  reportCounterStore ??= new DynamoDbReportCounterStore();
+  return reportCounterStore.forTenant(getTenantId());
+}
+
+// Replaces the agent queues backend, e.g. with an InMemoryQueueRepository in tests
+export function setQueueRepository(repository: QueueRepository | undefined): void {
+  queueRepository = repository;
+}
+
+export function getQueueRepository(): QueueRepository {
+  queueRepository ??= new DynamoDbQueueRepository();
+  return queueRepository.forTenant(getTenantId());
+}
+
+// Replaces the agent load counters backend, e.g. with an InMemoryAgentLoadStore in tests
+export function setAgentLoadStore(store: AgentLoadStore | undefined): void {
+  agentLoadStore = store;
+}
+
+export function getAgentLoadStore(): AgentLoadStore {
+  agentLoadStore ??= new DynamoDbAgentLoadStore();
+  return agentLoadStore;
+}
+
+// Replaces the records of ingested emails, e.g. with an InMemoryEmailMessageStore in tests
+export function setEmailMessageStore(store: EmailMessageStore | undefined): void {
+  emailMessageStore = store;
+}
+
+export function getEmailMessageStore(): EmailMessageStore {
+  emailMessageStore ??= new DynamoDbEmailMessageStore();
+  return emailMessageStore.forTenant(getTenantId());
+}
+
+// Replaces the storage of raw inbound emails, e.g. with an InMemoryInboundMailStorage in tests
+export function setInboundMailStorage(storage: InboundMailStorage | undefined): void {
+  inboundMailStorage = storage;
+}
+
+export function getInboundMailStorage(): InboundMailStorage {
+  inboundMailStorage ??= new S3InboundMailStorage();
+  return inboundMailStorage;
+}
+
+// Replaces the webhooks backend, e.g. with an InMemoryWebhookRepository in tests
+export function setWebhookRepository(repository: WebhookRepository | undefined): void {
+  webhookRepository = repository;
+}
+
+export function getWebhookRepository(): WebhookRepository {
+  webhookRepository ??= new DynamoDbWebhookRepository();
+  return webhookRepository.forTenant(getTenantId());
+}
+
+// Replaces the organization usage counters, e.g. with an InMemoryTenantUsageStore in tests
+export function setTenantUsageStore(store: TenantUsageStore | undefined): void {
+  tenantUsageStore = store;
+}
+
+export function getTenantUsageStore(): TenantUsageStore {
+  tenantUsageStore ??= new DynamoDbTenantUsageStore();
+  return tenantUsageStore;
+}
+
+// Replaces the custom field definitions backend, e.g. with an InMemoryFieldDefinitionRepository in tests
+export function setFieldDefinitionRepository(repository: FieldDefinitionRepository | undefined): void {
+  fieldDefinitionRepository = repository;
+}
+
+export function getFieldDefinitionRepository(): FieldDefinitionRepository {
+  fieldDefinitionRepository ??= new DynamoDbFieldDefinitionRepository();
+  return fieldDefinitionRepository.forTenant(getTenantId());
+}
+
+// Replaces the external references of imported tickets, e.g. with an InMemoryImportReferenceStore in tests
+export function setImportReferenceStore(store: ImportReferenceStore | undefined): void {
+  importReferenceStore = store;
+}
+
+export function getImportReferenceStore(): ImportReferenceStore {
+  importReferenceStore ??= new DynamoDbImportReferenceStore();
+  return importReferenceStore.forTenant(getTenantId());
+}
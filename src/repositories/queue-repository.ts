@@ -0,0 +1,20 @@
+import { Queue } from "../types/queue";
+
+// Agent queues and their round-robin cursors
+export interface QueueRepository {
+  // The queues of another organization
+  forTenant(tenantId: string): QueueRepository;
+  createQueue(queue: Queue): Promise<void>;
+  getQueue(id: string): Promise<Queue | undefined>;
+  // Every queue, in no particular order (there are a handful, so they are read at once)
+  listQueues(): Promise<Queue[]>;
+  // Conditioned on the version that was read; false if the queue was modified or deleted since
+  updateQueue(current: Queue, next: Queue): Promise<boolean>;
+  // False if the queue does not exist
+  deleteQueue(id: string): Promise<boolean>;
+  // Atomically advances the round-robin cursor of the queue and returns its previous value (0 the first time);
+  // undefined if the queue does not exist
+  advanceCursor(id: string): Promise<number | undefined>;
+  // Moves the cursor back by one, giving back a turn taken for a ticket that was not written; no-op if the queue does not exist
+  rewindCursor(id: string): Promise<void>;
+}
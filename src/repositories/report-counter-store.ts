@@ -0,0 +1,22 @@
+// Counter deltas of one ticket write: totals over the current tickets, and counters of the UTC days they belong to
+export interface ReportCounterDelta {
+  totals: Record<string, number>;
+  // "YYYY-MM-DD" -> counter -> delta
+  days: Record<string, Record<string, number>>;
+}
+
+export interface DailyCounters {
+  date: string;
+  counters: Record<string, number>;
+}
+
+// Counters behind the ticket report, maintained on every ticket write so that reports never scan the tickets
+export interface ReportCounterStore {
+  // The counters of another organization
+  forTenant(tenantId: string): ReportCounterStore;
+  // Each counter item is incremented atomically, but the items of one delta are not written together
+  add(delta: ReportCounterDelta): Promise<void>;
+  getTotals(): Promise<Record<string, number>>;
+  // Every day that has counters, oldest first (one item per day, so a few hundred per year)
+  getDays(): Promise<DailyCounters[]>;
+}
@@ -0,0 +1,47 @@
+import { DeleteObjectsCommand, S3Client } from "@aws-sdk/client-s3";
+import { S3AttachmentStorage } from "./s3-attachment-storage";
+
+const bucketName = "attachments";
+const checksum = "n4bQgYhMfWWaL+qgxVrQFaO/TxsrC4Is0V1sFbDwCgg=";
+
+function createClient(): S3Client {
+  return new S3Client({
+    region: "eu-west-1",
+    credentials: { accessKeyId: "AKIDEXAMPLE", secretAccessKey: "secret" },
+    requestChecksumCalculation: "WHEN_REQUIRED",
+  });
+}
+
+describe("S3AttachmentStorage", () => {
+  it("signs the type and size of uploads and leaves the checksum as a header for S3 to verify", async () => {
+    const storage = new S3AttachmentStorage(createClient(), bucketName);
+
+    const upload = await storage.createUploadUrl("tickets/t1/a1", { contentType: "image/png", size: 2048, checksum }, 900);
+    const url = new URL(upload.url);
+
+    expect(url.pathname).toBe("/tickets/t1/a1");
+    expect(url.searchParams.get("X-Amz-Expires")).toBe("900");
+    expect(url.searchParams.get("X-Amz-SignedHeaders")).toBe("content-length;content-type;host;x-amz-checksum-sha256");
+    expect(url.searchParams.has("x-amz-checksum-sha256")).toBe(false);
+    expect(upload.headers).toEqual({ "Content-Type": "image/png", "x-amz-checksum-sha256": checksum });
+  });
+
+  it("serves downloads under the original file name", async () => {
+    const storage = new S3AttachmentStorage(createClient(), bucketName);
+
+    const url = new URL(await storage.createDownloadUrl("tickets/t1/a1", "informe año.pdf", 300));
+
+    expect(url.searchParams.get("response-content-disposition")).toBe(`attachment; filename="informe a_o.pdf"; filename*=UTF-8''informe%20a%C3%B1o.pdf`);
+  });
+
+  it("fails when S3 reports objects it could not delete", async () => {
+    const client = createClient();
+    jest.spyOn(client, "send").mockImplementation(async (command: unknown) => {
+      const keys = (command as DeleteObjectsCommand).input.Delete!.Objects!.map(object => object.Key);
+      return { Errors: [{ Key: keys[0], Code: "AccessDenied" }] };
+    });
+    const storage = new S3AttachmentStorage(client, bucketName);
+
+    await expect(storage.deleteObjects(["tickets/t1/a1"])).rejects.toThrow("S3 could not delete 1 objects: tickets/t1/a1: AccessDenied");
+  });
+});
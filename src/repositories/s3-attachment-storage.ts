@@ -0,0 +1,74 @@
+import { DeleteObjectsCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { config } from '../common/config';
+import { AttachmentObject, AttachmentStorage, PresignedUpload } from './attachment-storage';
+
+// DeleteObjects takes up to 1000 keys per call
+const MAX_DELETE_KEYS = 1000;
+
+// Content-Disposition that keeps non-ASCII file names (RFC 6266), with an ASCII fallback
+function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export class S3AttachmentStorage implements AttachmentStorage {
+  constructor(
+    // Checksums are only added when S3 requires them: the upload checksum is the one declared by the client
+    private readonly client: S3Client = new S3Client({ requestChecksumCalculation: "WHEN_REQUIRED" }),
+    private readonly bucketName: string = config.attachments.bucketName
+  ) {}
+
+  // Type and size are signed as headers and the checksum is verified by S3, so the URL only accepts the declared file
+  async createUploadUrl(key: string, object: AttachmentObject, expiresInSeconds: number): Promise<PresignedUpload> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: object.contentType,
+      ContentLength: object.size,
+      ChecksumSHA256: object.checksum,
+    });
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: expiresInSeconds,
+      signableHeaders: new Set(["content-type", "content-length"]),
+      unhoistableHeaders: new Set(["x-amz-checksum-sha256"]),
+    });
+
+    return { url, headers: { "Content-Type": object.contentType, "x-amz-checksum-sha256": object.checksum } };
+  }
+
+  async createDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ResponseContentDisposition: contentDisposition(fileName),
+    });
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+  }
+
+  // The checksum is sent along, so S3 rejects a body that does not match the recorded metadata
+  async putObject(key: string, object: AttachmentObject, body: Uint8Array): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: object.contentType,
+      ContentLength: object.size,
+      ChecksumSHA256: object.checksum,
+    }));
+  }
+
+  async deleteObjects(keys: string[]): Promise<void> {
+    for (let start = 0; start < keys.length; start += MAX_DELETE_KEYS) {
+      const response = await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucketName,
+        Delete: { Objects: keys.slice(start, start + MAX_DELETE_KEYS).map(key => ({ Key: key })), Quiet: true },
+      }));
+
+      if (response.Errors?.length) {
+        const failures = response.Errors.map(error => `${error.Key}: ${error.Code}`);
+        throw new Error(`S3 could not delete ${response.Errors.length} objects: ${failures.join("; ")}`);
+      }
+    }
+  }
+}
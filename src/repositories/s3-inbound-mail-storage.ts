@@ -0,0 +1,14 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { InboundMailStorage } from './inbound-mail-storage';
+
+export class S3InboundMailStorage implements InboundMailStorage {
+  constructor(private readonly client: S3Client = new S3Client({})) {}
+
+  async getMessage(bucket: string, key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Inbound message ${bucket}/${key} has no content`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+}
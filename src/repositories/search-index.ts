@@ -0,0 +1,21 @@
+// Indexed text of a ticket: its title, its description or one of its comments ("comment:<commentId>")
+export type SearchField = "title" | "description" | `comment:${string}`;
+
+export interface SearchPosting {
+  ticketId: string;
+  field: SearchField;
+  token: string;
+  // Occurrences of the token in the field, times the weight of the field
+  weight: number;
+}
+
+// Inverted index over the text of tickets, kept up to date by the services on every write
+export interface TicketSearchIndex {
+  // The same index as seen by another organization
+  forTenant(tenantId: string): TicketSearchIndex;
+  // Replaces the tokens indexed for one field of a ticket (token -> weight); no tokens removes the field
+  indexField(ticketId: string, field: SearchField, tokens: Record<string, number>): Promise<void>;
+  removeTicket(ticketId: string): Promise<void>;
+  // Postings of the tokens that start with prefix, at most limit of them
+  findByPrefix(prefix: string, limit: number): Promise<SearchPosting[]>;
+}
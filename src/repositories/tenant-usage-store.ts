@@ -0,0 +1,10 @@
+// Usage counters behind the organization quotas: one per organization, quota and window (e.g. "tickets#2025-03-01")
+export interface TenantUsageStore {
+  // Adds amount to the counter unless that takes it over limit; false, and the counter unchanged, otherwise.
+  // The counter is dropped once its window is over, at expiresAt.
+  consume(tenantId: string, counter: string, amount: number, limit: number, expiresAt: Date): Promise<boolean>;
+  // Takes back amount consumed from the counter, e.g. for tickets that were not written after all; never below zero
+  release(tenantId: string, counter: string, amount: number): Promise<void>;
+  // Current value of the counter, 0 if it has none
+  get(tenantId: string, counter: string): Promise<number>;
+}
@@ -0,0 +1,95 @@
+import { SlaState, TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { Comment, CommentPage } from "../types/comment";
+import { CustomFieldValue } from "../types/field-definition";
+import { TicketHistoryEntry, TicketHistoryPage } from "../types/history";
+import { TicketLink } from "../types/link";
+import { Ticket, TicketPage } from "../types/ticket";
+
+// Equality filters supported when listing tickets
+export interface TicketFilters {
+  status?: TicketStatus;
+  priority?: TicketPriority;
+  type?: TicketType;
+  reporterId?: string;
+  assignedToId?: string;
+  slaState?: SlaState;
+  queueId?: string;
+}
+
+export interface TicketQuery {
+  filters: TicketFilters;
+  // Custom field values the tickets must have, as stored
+  customFields?: Record<string, CustomFieldValue>;
+  // Inclusive createdAt range, as UTC ISO strings
+  createdFrom?: string;
+  createdTo?: string;
+  sort: "asc" | "desc";
+  limit: number;
+  cursor?: string;
+}
+
+export interface ChildQuery {
+  limit: number;
+  cursor?: string;
+  sort?: "asc" | "desc";
+}
+
+// Deleted tickets, most recently deleted first
+export interface TrashQuery {
+  limit: number;
+  cursor?: string;
+}
+
+// A ticket write together with the history entry that records it
+export type TicketWrite =
+  | { kind: "create"; ticket: Ticket; history: TicketHistoryEntry }
+  | { kind: "update"; current: Ticket; next: Ticket; history?: TicketHistoryEntry }
+  | { kind: "delete"; current: Ticket; history: TicketHistoryEntry };
+
+// Persistence of tickets and their sub-resources (comments, history, links).
+// Writes that describe a ticket change take the history entry to store atomically with it.
+// Soft-deleted tickets (deletedAt set) are left out of reads unless stated otherwise.
+// A repository holds the data of one organization; ids of other organizations read as missing.
+export interface TicketRepository {
+  // The same storage as seen by another organization
+  forTenant(tenantId: string): TicketRepository;
+
+  getTicket(id: string, options?: { includeDeleted?: boolean }): Promise<Ticket | undefined>;
+  // Existing tickets among ids, in no particular order
+  getTickets(ids: string[]): Promise<Ticket[]>;
+  queryTickets(query: TicketQuery): Promise<TicketPage>;
+  queryDeletedTickets(query: TrashQuery): Promise<TicketPage>;
+  createTicket(ticket: Ticket, history: TicketHistoryEntry): Promise<void>;
+  // Replaces current with next only if the stored ticket is still at current.version; false otherwise (changed or deleted)
+  updateTicket(current: Ticket, next: Ticket, history?: TicketHistoryEntry): Promise<boolean>;
+  // Removes the item for good (soft deletes are updates); same precondition as updateTicket, the history entry outlives the ticket
+  deleteTicket(current: Ticket, history: TicketHistoryEntry): Promise<boolean>;
+  // Bulk insert of new tickets, without the existence check of createTicket; returns the ids that could not be written
+  createTickets(writes: { ticket: Ticket; history: TicketHistoryEntry }[]): Promise<string[]>;
+  // All or nothing, each write with the precondition of its single-ticket method.
+  // Returns the index of the first write whose precondition failed, or -1 when everything was written.
+  writeTickets(writes: TicketWrite[]): Promise<number>;
+  // Derived SLA state: no version bump, skipped (false) if the ticket left the status it was evaluated in
+  setSlaState(ticket: Ticket, slaState: SlaState): Promise<boolean>;
+
+  getComment(ticketId: string, commentId: string): Promise<Comment | undefined>;
+  queryComments(ticketId: string, query: ChildQuery): Promise<CommentPage>;
+  // Also bumps the ticket's commentCount and lastActivityAt; staff replies record the first response. Throws 404 if the ticket is missing or deleted.
+  createComment(comment: Comment, options: { firstResponse: boolean }): Promise<void>;
+  // Only succeeds if the stored comment has the same author; throws 404 if the comment or the ticket is missing (or deleted)
+  updateComment(comment: Comment): Promise<void>;
+  deleteComment(ticketId: string, commentId: string, deletedAt: string): Promise<void>;
+  // Moves the comment to another ticket (merges), commentCount included; throws 404 if the comment or either ticket is missing
+  moveComment(comment: Comment, toTicketId: string): Promise<Comment>;
+
+  queryHistory(ticketId: string, query: ChildQuery): Promise<TicketHistoryPage>;
+  // Entries copied from another ticket (merges), stored as is; copying an entry again overwrites it
+  importHistory(entries: TicketHistoryEntry[]): Promise<void>;
+
+  // Every link of the ticket, oldest first
+  queryLinks(ticketId: string): Promise<TicketLink[]>;
+  // Stores both sides together; false if the tickets are already linked. Throws 404 if either ticket is missing or deleted.
+  createLink(link: TicketLink, inverse: TicketLink): Promise<boolean>;
+  // Removes both sides together; false if the tickets are not linked
+  deleteLink(ticketId: string, linkedTicketId: string): Promise<boolean>;
+}
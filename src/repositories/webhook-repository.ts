@@ -0,0 +1,29 @@
+import { WebhookDeliveryStatus } from "../common/enums";
+import { Webhook, WebhookDelivery, WebhookDeliveryPage } from "../types/webhook";
+import { ChildQuery } from "./ticket-repository";
+
+export interface DeliveryQuery extends ChildQuery {
+  status?: WebhookDeliveryStatus;
+}
+
+// Webhook subscriptions and the log of their deliveries
+export interface WebhookRepository {
+  // The webhooks and deliveries of another organization
+  forTenant(tenantId: string): WebhookRepository;
+  createWebhook(webhook: Webhook): Promise<void>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  // Every webhook, in no particular order (there are a handful, so they are read at once)
+  listWebhooks(): Promise<Webhook[]>;
+  // Conditioned on the version that was read; false if the webhook was modified or deleted since
+  updateWebhook(current: Webhook, next: Webhook): Promise<boolean>;
+  // False if the webhook does not exist; its deliveries are left to expire
+  deleteWebhook(id: string): Promise<boolean>;
+
+  createDelivery(delivery: WebhookDelivery): Promise<void>;
+  // Conditioned on the attempts that were read, so that a delivery is attempted once per claim; false otherwise
+  updateDelivery(current: WebhookDelivery, next: WebhookDelivery): Promise<boolean>;
+  // Deliveries of the webhook by creation date; with a status, pages can hold fewer items than the limit
+  queryDeliveries(webhookId: string, query: DeliveryQuery): Promise<WebhookDeliveryPage>;
+  // PENDING deliveries whose next attempt is due at the given time, earliest first
+  listDueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+}
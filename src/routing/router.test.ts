@@ -0,0 +1,48 @@
+import { ErrorCodes } from "../common/error-codes";
+import { MethodNotAllowedError } from "../errors/method-not-allowed.error";
+import { defineRoute, Router } from "./router";
+
+function route(method: "GET" | "POST" | "DELETE", path: string) {
+  return defineRoute({
+    method,
+    path,
+    operationId: `${method} ${path}`,
+    tag: "Test",
+    summary: path,
+    responses: { 200: { description: "OK" } },
+    handle: async () => ({ statusCode: 200, body: "" }),
+  });
+}
+
+describe("Router", () => {
+  const router = new Router([
+    route("GET", "/v1/tickets/{id}"),
+    route("DELETE", "/v1/tickets/{id}"),
+    route("GET", "/v1/tickets/search"),
+    route("POST", "/v1/tickets/{id}:restore"),
+    route("GET", "/v1/tickets/{id}/comments/{commentId}"),
+  ]);
+
+  it("matches templates, literal segments first, and decodes the parameters", () => {
+    expect(router.match("GET", "/v1/tickets/search").route.path).toBe("/v1/tickets/search");
+    expect(router.match("GET", "/v1/tickets/a%20b").params).toEqual({ id: "a b" });
+    expect(router.match("POST", "/v1/tickets/t-1:restore").params).toEqual({ id: "t-1" });
+    expect(router.match("GET", "/v1/tickets/t-1/comments/c-1").params).toEqual({ id: "t-1", commentId: "c-1" });
+  });
+
+  it("throws 404 for unknown paths and 405 with the allowed methods for known ones", () => {
+    expect(() => router.match("GET", "/v1/tickets/t-1/history")).toThrow(expect.objectContaining({ statusCode: 404, code: ErrorCodes.PATH_NOT_FOUND }));
+    expect(() => router.match("GET", "/v1/tickets/t-1:archive")).toThrow(expect.objectContaining({ code: ErrorCodes.PATH_NOT_FOUND }));
+
+    const error = (() => {
+      try {
+        router.match("PUT", "/v1/tickets/t-1");
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(MethodNotAllowedError);
+    expect((error as MethodNotAllowedError).allowedMethods).toEqual(["GET", "DELETE"]);
+    expect(router.find("POST", "/v1/tickets/search")).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import z from "zod";
+import { ErrorCodes } from "../common/error-codes";
+import { BadRequestError } from "../errors/bad-request.error";
+import { MethodNotAllowedError } from "../errors/method-not-allowed.error";
+import { NotFoundError } from "../errors/not-found-error";
+import { logger } from "../observability/logger";
+import { ErrorResponseName } from "../openapi/error-responses";
+import { AuthContext } from "../types/auth";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// Request headers with a shared meaning, documented once and implying their error responses
+export type RouteHeader = "If-Match" | "Idempotency-Key";
+
+// Response headers, from components/headers of the document
+export type ResponseHeader = "ETag" | "Content-Disposition" | "X-Next-Cursor";
+
+export interface RouteResponse {
+  description: string;
+  // JSON body; other media types go in content
+  schema?: z.ZodType;
+  content?: Record<string, z.ZodType>;
+  headers?: ResponseHeader[];
+}
+
+export interface RouteRequest<P, Q, B> {
+  event: APIGatewayProxyEvent;
+  auth: AuthContext;
+  params: P;
+  query: Q;
+  body: B;
+}
+
+export interface Route<P extends z.ZodType = z.ZodType, Q extends z.ZodType = z.ZodType, B extends z.ZodType = z.ZodType> {
+  method: HttpMethod;
+  // e.g. "/v1/tickets/{id}/comments"; a parameter spans one segment, up to a custom method like ":restore"
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  params?: P;
+  query?: Q;
+  body?: B;
+  // Body schema of the document when it differs from the validated one
+  documentedBody?: z.ZodType;
+  // Bodies of other media types, by media type; only documented, the handler reads them from the event
+  bodyContent?: Record<string, z.ZodType>;
+  headers?: RouteHeader[];
+  responses: Record<number, RouteResponse>;
+  // Errors besides the ones every route or its headers can return
+  errors?: Partial<Record<number, ErrorResponseName>>;
+  handle(request: RouteRequest<z.output<P>, z.output<Q>, z.output<B>>): Promise<APIGatewayProxyResult>;
+}
+
+export type AnyRoute = Route<any, any, any>;
+
+// Keeps the schemas and the handler of a route in step
+export function defineRoute<P extends z.ZodType = z.ZodType, Q extends z.ZodType = z.ZodType, B extends z.ZodType = z.ZodType>(route: Route<P, Q, B>): AnyRoute {
+  return route;
+}
+
+interface PathTemplate {
+  path: string;
+  pattern: RegExp;
+  parameters: string[];
+  routes: AnyRoute[];
+}
+
+export interface RouteMatch {
+  route: AnyRoute;
+  params: Record<string, string>;
+}
+
+function compile(path: string): Pick<PathTemplate, "pattern" | "parameters"> {
+  const parameters: string[] = [];
+  const source = path.split(/(\{[A-Za-z]+\})/).map(part => {
+    const parameter = /^\{([A-Za-z]+)\}$/.exec(part);
+    if (!parameter) {
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+    parameters.push(parameter[1]);
+    return "([^/:]+)";
+  }).join("");
+  return { pattern: new RegExp(`^${source}$`), parameters };
+}
+
+// Malformed escapes are left as they are, for the parameter schema to reject
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// 400 listing the issues as "path - message"
+export function toValidationError(message: string, error: z.ZodError): BadRequestError {
+  return new BadRequestError(ErrorCodes.BAD_REQUEST, message, error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`));
+}
+
+// Routes requests by method and path template, and validates their parameters, query and body against the route schemas
+export class Router {
+  private readonly templates: PathTemplate[] = [];
+
+  constructor(public readonly routes: AnyRoute[]) {
+    for (const route of routes) {
+      let template = this.templates.find(candidate => candidate.path === route.path);
+      if (!template) {
+        template = { path: route.path, ...compile(route.path), routes: [] };
+        this.templates.push(template);
+      }
+      template.routes.push(route);
+    }
+    // Literal segments win over parameters: /v1/tickets/search is not the ticket "search"
+    this.templates.sort((a, b) => a.parameters.length - b.parameters.length);
+  }
+
+  // Route of a request, undefined when no template matches or the template has no route for the method
+  find(method: string, path: string): RouteMatch | undefined {
+    try {
+      return this.match(method, path);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Throws 404 for unknown paths and 405, with the methods of the path, for unsupported methods
+  match(method: string, path: string): RouteMatch {
+    for (const template of this.templates) {
+      const values = template.pattern.exec(path);
+      if (!values) {
+        continue;
+      }
+
+      const route = template.routes.find(candidate => candidate.method === method);
+      if (!route) {
+        throw new MethodNotAllowedError(ErrorCodes.METHOD_NOT_ALLOWED, template.routes.map(candidate => candidate.method));
+      }
+
+      const params = Object.fromEntries(template.parameters.map((name, index) => [name, decode(values[index + 1])]));
+      return { route, params };
+    }
+
+    throw new NotFoundError(ErrorCodes.PATH_NOT_FOUND, "Path not found");
+  }
+
+  async dispatch(event: APIGatewayProxyEvent, auth: AuthContext): Promise<APIGatewayProxyResult> {
+    const { route, params } = this.match(event.httpMethod, event.path);
+
+    return route.handle({
+      event,
+      auth,
+      params: route.params ? parseParams(route.params, params) : params,
+      query: route.query ? parseQuery(route.query, event.queryStringParameters ?? {}) : undefined,
+      body: route.body ? parseBody(route.body, event.body) : undefined,
+    });
+  }
+}
+
+function parseParams(schema: z.ZodType, params: Record<string, string>): unknown {
+  const parsed = schema.safeParse(params);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  logger.debug("Path parameter validation failed", { issues: parsed.error.issues });
+  // Named after the first invalid parameter, e.g. "Invalid ticket ID"
+  const field = parsed.error.issues[0].path[0];
+  const title = schema instanceof z.ZodObject ? z.globalRegistry.get(schema.shape[String(field)])?.title : undefined;
+  const name = title ? title.charAt(0).toLowerCase() + title.slice(1) : "path parameters";
+  throw toValidationError(`Invalid ${name}`, parsed.error);
+}
+
+function parseQuery(schema: z.ZodType, query: Record<string, string | undefined>): unknown {
+  const parsed = schema.safeParse(query);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  logger.debug("Query validation failed", { issues: parsed.error.issues });
+  throw toValidationError("Invalid query parameters", parsed.error);
+}
+
+// A malformed body throws the SyntaxError of JSON.parse, answered as "Invalid JSON body"
+function parseBody(schema: z.ZodType, body: string | null): unknown {
+  if (!body) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body not found"]);
+  }
+
+  const parsed = schema.safeParse(JSON.parse(body));
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  logger.debug("Body validation failed", { issues: parsed.error.issues });
+  throw toValidationError("Validation failed", parsed.error);
+}
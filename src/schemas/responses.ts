@@ -0,0 +1,297 @@
+import z from "zod";
+import { AssignmentStrategy, CustomFieldKind, ImportRowOutcome, SlaState, TicketHistoryAction, TicketLinkType, TicketPriority, TicketStatus, TicketType, WebhookDeliveryStatus, WebhookEventType } from "../common/enums";
+
+// Response bodies, the contract the API documents (openapi/api.yaml is generated from them and the request schemas).
+// The ids name the component schemas of the document.
+
+const Timestamp = z.iso.datetime();
+
+function page<T extends z.ZodType>(item: T) {
+  return {
+    items: z.array(item),
+    nextCursor: z.string().nullable().describe("Token to request the next page, null when there are no more results"),
+  };
+}
+
+export const ErrorResponse = z.object({
+  code: z.string().describe("Error code identifier"),
+  message: z.string().describe("Human-readable error message"),
+  details: z.array(z.string()).nullable().optional().describe("Additional error details"),
+  requestId: z.string().optional().describe("Correlation id of the request, as in the X-Request-Id response header"),
+}).meta({ id: "ErrorResponse" });
+
+export const Attachment = z.object({
+  id: z.uuid(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number().int().describe("Size in bytes"),
+  checksum: z.string().describe("Base64 SHA-256 of the content"),
+  uploadedBy: z.string(),
+  createdAt: Timestamp,
+}).meta({ id: "Attachment" });
+
+export const TicketResponse = z.object({
+  id: z.uuid().describe("Unique identifier of the ticket"),
+  title: z.string().describe("Brief title describing the ticket issue"),
+  description: z.string().describe("Detailed description of the ticket issue"),
+  status: z.enum(TicketStatus).describe("Current status of the ticket"),
+  reporterId: z.string().describe("Unique identifier of the user who reported the ticket"),
+  assignedToId: z.string().optional().describe("Unique identifier of the user (agent) assigned to resolve the ticket"),
+  queueId: z.uuid().optional().describe("Agent queue the ticket was routed to by the queue rules"),
+  priority: z.enum(TicketPriority).describe("The urgency level of the ticket"),
+  type: z.enum(TicketType).describe("The category or type of the request"),
+  resolutionNote: z.string().optional().describe("How the ticket was resolved. Required to move a ticket to RESOLVED."),
+  customFields: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe("Values of the custom fields defined for the ticket type, by key"),
+  version: z.number().int().min(0).describe("Incremented on every change, exposed as ETag"),
+  commentCount: z.number().int().min(0).optional().describe("Number of comments on the ticket"),
+  lastActivityAt: Timestamp.optional().describe("Timestamp of the last change to the ticket or its comments"),
+  statusChangedAt: Timestamp.optional().describe("Timestamp of the last status transition"),
+  statusChangedBy: z.string().optional().describe("Identifier of the user who performed the last status transition"),
+  responseDueAt: Timestamp.optional().describe("First response target from the SLA policy"),
+  resolutionDueAt: Timestamp.optional().describe("Resolution target from the SLA policy"),
+  firstRespondedAt: Timestamp.optional().describe("When the ticket left NEW or staff first commented"),
+  resolvedAt: Timestamp.optional().describe("When the ticket was resolved or closed"),
+  slaState: z.enum(SlaState).optional().describe("SLA state, refreshed on every write and by the scheduled monitor"),
+  slaPausedAt: Timestamp.optional().describe("Set while the SLA clock is paused (WAITING_ON_CUSTOMER)"),
+  slaPausedMs: z.number().int().min(0).optional().describe("Total time the SLA clock has been paused, in milliseconds"),
+  attachments: z.array(Attachment).optional(),
+  externalRef: z.string().optional().describe("Reference of the ticket in the system it was imported from"),
+  mergedIntoId: z.uuid().optional().describe("Ticket this duplicate was merged into; merged tickets are CLOSED"),
+  deletedAt: Timestamp.optional().describe("When the ticket was moved to the trash; only on deleted tickets"),
+  deletedBy: z.string().optional().describe("Identifier of the user who deleted the ticket"),
+  purgeAt: Timestamp.optional().describe("When a deleted ticket is purged for good, unless restored"),
+  createdAt: Timestamp.describe("Timestamp when the ticket was created"),
+  updatedAt: Timestamp.describe("Timestamp when the ticket was last updated"),
+}).meta({ id: "TicketResponse" });
+
+export const ListTicketResponse = z.object(page(TicketResponse)).meta({ id: "ListTicketResponse" });
+
+export const SearchHit = z.object({
+  ticket: TicketResponse,
+  score: z.number().describe("Relevance of the ticket; hits are sorted by it"),
+  highlights: z.array(z.object({
+    field: z.enum(["title", "description", "comment"]),
+    commentId: z.uuid().optional().describe("Comment the snippet comes from, for comment highlights"),
+    snippet: z.string().describe("HTML excerpt of the field with the matched words wrapped in `<em>`; the ticket text is escaped"),
+  })),
+}).meta({ id: "SearchHit" });
+
+export const SearchTicketsResponse = z.object(page(SearchHit)).meta({ id: "SearchTicketsResponse" });
+
+export const AttachmentUploadResponse = z.object({
+  attachment: Attachment,
+  uploadUrl: z.url(),
+  uploadHeaders: z.record(z.string(), z.string()).describe("Headers to send with the PUT, as they are part of the signature"),
+  expiresAt: Timestamp,
+}).meta({ id: "AttachmentUploadResponse" });
+
+export const ListAttachmentResponse = z.object({
+  items: z.array(Attachment.extend({
+    downloadUrl: z.url(),
+    expiresAt: Timestamp,
+  })),
+}).meta({ id: "ListAttachmentResponse" });
+
+export const CommentResponse = z.object({
+  id: z.uuid(),
+  ticketId: z.uuid(),
+  authorId: z.string(),
+  body: z.string(),
+  mergedFromTicketId: z.uuid().optional().describe("Duplicate the comment was moved from by a merge"),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}).meta({ id: "CommentResponse" });
+
+export const ListCommentResponse = z.object(page(CommentResponse)).meta({ id: "ListCommentResponse" });
+
+export const HistoryEntryResponse = z.object({
+  id: z.uuid(),
+  ticketId: z.uuid(),
+  action: z.enum(TicketHistoryAction),
+  changes: z.array(z.object({
+    field: z.string(),
+    oldValue: z.unknown(),
+    newValue: z.unknown(),
+  })),
+  actorId: z.string().optional().describe("Identifier of the user who made the change, when known"),
+  requestId: z.string().optional().describe("Correlation id of the request that made the change"),
+  occurredAt: Timestamp,
+  mergedFromTicketId: z.uuid().optional().describe("Duplicate the entry was copied from by a merge; ticketId is then the survivor"),
+}).meta({ id: "HistoryEntryResponse" });
+
+export const ListHistoryResponse = z.object(page(HistoryEntryResponse)).meta({ id: "ListHistoryResponse" });
+
+export const TicketLinkResponse = z.object({
+  ticketId: z.uuid(),
+  linkedTicketId: z.uuid(),
+  type: z.enum(TicketLinkType).describe("Relationship of ticketId to linkedTicketId; the linked ticket has the inverse link"),
+  createdBy: z.string().optional(),
+  createdAt: Timestamp,
+}).meta({ id: "TicketLinkResponse" });
+
+export const ListTicketLinkResponse = z.object({
+  items: z.array(TicketLinkResponse).describe("Every link of the ticket, oldest first"),
+}).meta({ id: "ListTicketLinkResponse" });
+
+export const TicketMergeResponse = z.object({
+  ticket: TicketResponse.describe("The survivor, after the merge"),
+  merged: z.array(z.object({
+    ticketId: z.uuid(),
+    movedComments: z.number().int().min(0),
+    copiedHistoryEntries: z.number().int().min(0),
+  })),
+}).meta({ id: "TicketMergeResponse" });
+
+export const BatchTicketsResponse = z.object({
+  atomic: z.boolean(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  results: z.array(z.object({
+    index: z.number().int(),
+    status: z.number().int().describe("201 created, 200 patched, 204 deleted, or the error status (424 when an atomic batch was aborted)"),
+    ticket: TicketResponse.optional(),
+    error: ErrorResponse.optional(),
+  })),
+}).meta({ id: "BatchTicketsResponse" });
+
+export const ImportTicketsResponse = z.object({
+  dryRun: z.boolean().describe("Rows were only validated; no ticket was created"),
+  created: z.number().int().describe("Tickets created, or that would be created by a dry run"),
+  skipped: z.number().int().describe("Rows whose external reference was imported before"),
+  failed: z.number().int(),
+  rows: z.array(z.object({
+    row: z.number().int().describe("Position among the data rows, from 1"),
+    line: z.number().int().describe("Line of the body the row starts on"),
+    outcome: z.enum(ImportRowOutcome),
+    ticketId: z.uuid().optional().describe("Ticket created, or the one the external reference was imported as"),
+    error: ErrorResponse.optional(),
+  })),
+}).meta({ id: "ImportTicketsResponse" });
+
+const Counts = z.record(z.string(), z.number().int());
+
+export const TicketReportResponse = z.object({
+  generatedAt: Timestamp,
+  from: z.iso.date(),
+  to: z.iso.date(),
+  counts: z.object({
+    total: z.number().int().describe("Tickets not in the trash"),
+    open: z.number().int().describe("Tickets not yet resolved or closed"),
+    byStatus: Counts,
+    byPriority: Counts.describe("Open tickets per priority"),
+    byType: Counts.describe("Open tickets per type"),
+    byAssignee: Counts.describe("Open tickets per assignee id, `unassigned` for the others"),
+  }),
+  daily: z.array(z.object({
+    date: z.iso.date(),
+    created: z.number().int(),
+    resolved: z.number().int(),
+  })).describe("One entry per day of the range"),
+  meanTimeToResolutionHours: z.number().nullable().describe("Mean time from creation to resolution of the tickets resolved in the range, null if none were"),
+  backlogAgeDays: z.object({
+    p50: z.number().int(),
+    p90: z.number().int(),
+    p99: z.number().int(),
+    max: z.number().int(),
+  }).nullable().describe("Age in days of the open tickets (nearest-rank percentiles), null when there are none"),
+}).meta({ id: "TicketReportResponse" });
+
+export const QueueResponse = z.object({
+  id: z.uuid(),
+  name: z.string(),
+  description: z.string().optional(),
+  agentIds: z.array(z.string()),
+  strategy: z.enum(AssignmentStrategy),
+  rules: z.array(z.object({
+    types: z.array(z.enum(TicketType)).optional(),
+    priorities: z.array(z.enum(TicketPriority)).optional(),
+    keywords: z.array(z.string()).optional(),
+  })).describe("A new ticket matching any rule is routed to the queue"),
+  position: z.number().int(),
+  version: z.number().int().min(1),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}).meta({ id: "QueueResponse" });
+
+export const ListQueueResponse = z.object({
+  items: z.array(QueueResponse).describe("Every queue, in routing order"),
+}).meta({ id: "ListQueueResponse" });
+
+// The secret is write-only
+export const WebhookResponse = z.object({
+  id: z.uuid(),
+  url: z.string(),
+  description: z.string().optional(),
+  filter: z.object({
+    events: z.array(z.enum(WebhookEventType)).optional(),
+    statuses: z.array(z.enum(TicketStatus)).optional(),
+    priorities: z.array(z.enum(TicketPriority)).optional(),
+    types: z.array(z.enum(TicketType)).optional(),
+  }).describe("Changes the webhook is notified of"),
+  version: z.number().int().min(1),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}).meta({ id: "WebhookResponse" });
+
+export const ListWebhookResponse = z.object({
+  items: z.array(WebhookResponse).describe("Every webhook, oldest first"),
+}).meta({ id: "ListWebhookResponse" });
+
+export const WebhookDeliveryResponse = z.object({
+  id: z.uuid().describe("Also sent as the X-Webhook-Delivery header and the payload id"),
+  webhookId: z.uuid(),
+  eventType: z.enum(WebhookEventType),
+  ticketId: z.uuid().optional(),
+  payload: z.object({
+    id: z.uuid(),
+    type: z.enum(WebhookEventType),
+    webhookId: z.uuid(),
+    occurredAt: Timestamp,
+    data: z.object({
+      ticket: TicketResponse.optional(),
+      changedFields: z.array(z.string()).optional(),
+    }),
+  }).describe("JSON body POSTed to the webhook URL"),
+  status: z.enum(WebhookDeliveryStatus).describe("`DEAD_LETTER` once every attempt has failed"),
+  attempts: z.number().int().min(0),
+  nextAttemptAt: Timestamp.optional().describe("When a pending delivery is retried"),
+  lastAttemptAt: Timestamp.optional(),
+  responseStatus: z.number().int().optional().describe("HTTP status of the last attempt"),
+  error: z.string().optional().describe("Why the last attempt failed"),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}).meta({ id: "WebhookDeliveryResponse" });
+
+export const ListWebhookDeliveryResponse = z.object(page(WebhookDeliveryResponse)).meta({ id: "ListWebhookDeliveryResponse" });
+
+export const TenantResponse = z.object({
+  id: z.string().describe("Organization id, as in the token's organization claim"),
+  allowedTypes: z.array(z.enum(TicketType)).describe("Types new tickets may have"),
+  defaultPriority: z.enum(TicketPriority).describe("Priority of new tickets that do not set one"),
+  quotas: z.object({
+    requestsPerMinute: z.number().int().optional(),
+    ticketsPerDay: z.number().int().optional(),
+  }).describe("Limits per UTC minute and day; absent ones are unlimited"),
+  usage: z.object({
+    requestsThisMinute: z.number().int(),
+    ticketsToday: z.number().int(),
+  }).describe("Usage of the current UTC minute and day"),
+}).meta({ id: "TenantResponse" });
+
+export const FieldDefinitionResponse = z.object({
+  id: z.uuid(),
+  ticketType: z.enum(TicketType),
+  key: z.string().describe("Name of the field in the customFields of tickets"),
+  label: z.string(),
+  description: z.string().optional(),
+  kind: z.enum(CustomFieldKind),
+  required: z.boolean().describe("Must be set on create, and whenever the custom fields or the type of a ticket change"),
+  options: z.array(z.string()).optional().describe("Accepted values of an ENUM field"),
+  version: z.number().int().min(1),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}).meta({ id: "FieldDefinitionResponse" });
+
+export const ListFieldDefinitionResponse = z.object({
+  items: z.array(FieldDefinitionResponse).describe("Every matching field definition, by ticket type then in creation order"),
+}).meta({ id: "ListFieldDefinitionResponse" });
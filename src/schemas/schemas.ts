@@ -1,18 +1,33 @@
 import z from "zod";
-import { TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { AssignmentStrategy, CustomFieldKind, SlaState, TicketLinkType, TicketPriority, TicketStatus, TicketType, WebhookDeliveryStatus, WebhookEventType } from "../common/enums";
+
+// Custom fields are checked against the definitions of the ticket type once the type is known, so only their shape is checked here
+export const MAX_CUSTOM_FIELDS = 50;
+
+export const CustomFieldKey = z.string().regex(/^[A-Za-z][A-Za-z0-9_]{0,39}$/, "Custom field keys are 1 to 40 letters, digits and underscores, starting with a letter");
+
+const CustomFieldValue = z.union([z.string().max(500, "Custom field values must be less than 500 characters"), z.number()]);
+
+function customFieldValues<T extends z.ZodType>(value: T) {
+  return z.record(CustomFieldKey, value)
+    .refine(values => Object.keys(values).length <= MAX_CUSTOM_FIELDS, `At most ${MAX_CUSTOM_FIELDS} custom fields are allowed`);
+}
 
 export const CreateTicketRequest = z.object({
   title: z.string().min(1, "Title is required").max(50, "Title must be less than 50 characters"),
   description: z.string().min(1, "Description is required").max(250, "Description must be less than 250 characters"),
   status: z.enum(TicketStatus).optional().default(TicketStatus.NEW),
-  reporterId: z.uuid(),
+  reporterId: z.uuid().optional(),
   assignedToId: z.uuid().optional(),
-  priority: z.enum(TicketPriority).optional().default(TicketPriority.MEDIUM),
-  type: z.enum(TicketType).optional().default(TicketType.INCIDENT)
-});
+  priority: z.enum(TicketPriority).optional().describe("Defaults to the default priority of the organization, MEDIUM unless configured"),
+  type: z.enum(TicketType).optional().default(TicketType.INCIDENT),
+  customFields: customFieldValues(CustomFieldValue).optional()
+    .describe("Values of the custom fields defined for the ticket type, by key; required ones must be set")
+}).meta({ id: "CreateTicketRequest" });
 
+// Path parameters; the title names the parameter in "Invalid ..." errors
 export const TicketIdParam = z.object({
-  id: z.uuid()
+  id: z.uuid().meta({ title: "Ticket ID", description: "Unique identifier of the ticket" })
 });
 
 export const UpdateTicketRequest = z.object({
@@ -22,8 +37,11 @@ export const UpdateTicketRequest = z.object({
   reporterId: z.uuid(),
   assignedToId: z.uuid().nullable().optional(),
   priority: z.enum(TicketPriority),
-  type: z.enum(TicketType)
-});
+  type: z.enum(TicketType),
+  resolutionNote: z.string().min(1, "Resolution note cannot be empty").max(500, "Resolution note must be less than 500 characters").nullable().optional(),
+  customFields: customFieldValues(CustomFieldValue.nullable()).optional()
+    .describe("Values of the custom fields defined for the ticket type, by key, merged into the ticket's; null removes a value")
+}).meta({ id: "UpdateTicketRequest" });
 
 export const PatchTicketRequest = z.object({
   title: z.string().min(1, "Title is required").max(50, "Title must be less than 50 characters").optional(),
@@ -32,7 +50,10 @@ export const PatchTicketRequest = z.object({
   reporterId: z.uuid().optional(),
   assignedToId: z.uuid().nullable().optional(),
   priority: z.enum(TicketPriority).optional(),
-  type: z.enum(TicketType).optional()
+  type: z.enum(TicketType).optional(),
+  resolutionNote: z.string().min(1, "Resolution note cannot be empty").max(500, "Resolution note must be less than 500 characters").nullable().optional(),
+  customFields: customFieldValues(CustomFieldValue.nullable()).optional()
+    .describe("Values of the custom fields defined for the ticket type, by key, merged into the ticket's; null removes a value")
 }).refine(
   (data) => {
     return Object.values(data).some(value => value !== undefined);
@@ -41,9 +62,503 @@ export const PatchTicketRequest = z.object({
     message: "At least one field must be provided for PATCH operation",
     path: []
   }
+).meta({ id: "PatchTicketRequest" });
+
+// Custom field filters of the list endpoints, e.g. "affectedService:payments,environment:production"
+export const MAX_CUSTOM_FIELD_FILTERS = 5;
+
+const CustomFieldFilters = z.string().transform((value, ctx) => {
+  const filters: Record<string, string> = {};
+  for (const pair of value.split(",")) {
+    const separator = pair.indexOf(":");
+    const key = pair.slice(0, separator).trim();
+    const filterValue = pair.slice(separator + 1).trim();
+    if (separator < 0 || !CustomFieldKey.safeParse(key).success || !filterValue) {
+      ctx.addIssue({ code: "custom", message: `Invalid custom field filter "${pair}", expected key:value` });
+      return z.NEVER;
+    }
+    filters[key] = filterValue;
+  }
+  if (Object.keys(filters).length > MAX_CUSTOM_FIELD_FILTERS) {
+    ctx.addIssue({ code: "custom", message: `At most ${MAX_CUSTOM_FIELD_FILTERS} custom field filters are allowed` });
+    return z.NEVER;
+  }
+  return filters;
+});
+
+// Page size and position of the list endpoints
+const Cursor = z.string().min(1).optional().describe("Opaque token returned as `nextCursor` by the previous page");
+const Limit = z.coerce.number().int().min(1, "Limit must be at least 1").max(100, "Limit must be at most 100").optional().default(20)
+  .describe("Maximum number of items per page");
+
+// Filters shared by the ticket list and the export
+const TicketFilters = {
+  status: z.enum(TicketStatus).optional().describe("Filter by status (served by the status index)"),
+  priority: z.enum(TicketPriority).optional().describe("Filter by priority"),
+  type: z.enum(TicketType).optional().describe("Filter by ticket type"),
+  reporterId: z.uuid().optional().describe("Filter by reporter (served by the reporter index)"),
+  assignedToId: z.uuid().optional().describe("Filter by assignee (served by the assignee index)"),
+  // Accepted in any case, e.g. ?slaState=breached
+  slaState: z.preprocess(value => typeof value === "string" ? value.toUpperCase() : value, z.enum(SlaState)).optional()
+    .describe("Filter by SLA state, in any case (served by the SLA state index)"),
+  createdFrom: z.iso.datetime({ offset: true }).optional().describe("Only tickets created at or after this instant"),
+  createdTo: z.iso.datetime({ offset: true }).optional().describe("Only tickets created at or before this instant"),
+  customFields: CustomFieldFilters.optional()
+    .describe("Filter by custom field values, as key:value pairs separated by commas, e.g. `affectedService:payments,environment:production`"),
+};
+
+function isCreatedRange(data: { createdFrom?: string; createdTo?: string }): boolean {
+  return !data.createdFrom || !data.createdTo || new Date(data.createdFrom) <= new Date(data.createdTo);
+}
+
+const CREATED_RANGE_ERROR = { message: "createdFrom must be before or equal to createdTo", path: ["createdFrom"] };
+
+export const ListTicketsQuery = z.object({
+  ...TicketFilters,
+  limit: Limit,
+  cursor: Cursor,
+  sort: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort order by creation date")
+}).refine(isCreatedRange, CREATED_RANGE_ERROR);
+
+export const SearchTicketsQuery = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(200, "Search text must be less than 200 characters")
+    .describe("Words to search for (at most 8)"),
+  status: z.enum(TicketStatus).optional().describe("Filter by status"),
+  priority: z.enum(TicketPriority).optional().describe("Filter by priority"),
+  type: z.enum(TicketType).optional().describe("Filter by ticket type"),
+  reporterId: z.uuid().optional().describe("Filter by reporter"),
+  assignedToId: z.uuid().optional().describe("Filter by assignee"),
+  limit: z.coerce.number().int().min(1, "Limit must be at least 1").max(50, "Limit must be at most 50").optional().default(20)
+    .describe("Maximum number of hits per page"),
+  cursor: Cursor
+});
+
+export const CreateCommentRequest = z.object({
+  body: z.string().min(1, "Body is required").max(2000, "Body must be less than 2000 characters"),
+  authorId: z.uuid().optional()
+}).meta({ id: "CreateCommentRequest" });
+
+export const UpdateCommentRequest = z.object({
+  body: z.string().min(1, "Body is required").max(2000, "Body must be less than 2000 characters"),
+  authorId: z.uuid().optional()
+}).meta({ id: "UpdateCommentRequest" });
+
+export const CommentIdParam = TicketIdParam.extend({
+  commentId: z.uuid().meta({ title: "Comment ID", description: "Unique identifier of the comment" })
+});
+
+export const ListCommentsQuery = z.object({
+  limit: Limit,
+  cursor: Cursor
+});
+
+export const ListHistoryQuery = z.object({
+  limit: Limit,
+  cursor: Cursor,
+  sort: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort order by occurrence")
+});
+
+export const ListTrashQuery = z.object({
+  limit: Limit,
+  cursor: Cursor
+});
+
+// ?hard=true purges the ticket instead of moving it to the trash
+export const DeleteTicketQuery = z.object({
+  hard: z.enum(["true", "false"], "hard must be true or false").optional().transform(value => value === "true")
+    .describe("Purge the ticket instead of moving it to the trash")
+});
+
+// Reports cover whole UTC days, at most a year; without a range, the last 30 days
+export const MAX_REPORT_DAYS = 366;
+export const DEFAULT_REPORT_DAYS = 30;
+
+export const TicketReportQuery = z.object({
+  from: z.iso.date().optional().describe("First day of the range (UTC). Defaults to 29 days before `to`."),
+  to: z.iso.date().optional().describe("Last day of the range (UTC), at most 366 days after `from`. Defaults to 29 days after `from`, or today."),
+  format: z.enum(["json", "csv"]).optional().default("json").describe("`csv` returns the report as `metric,key,value` rows")
+}).refine(
+  (data) => !data.from || !data.to || data.from <= data.to,
+  { message: "from must be before or equal to to", path: ["from"] }
 );
 
+// Visible ASCII, like the keys generated by client libraries (UUIDs, ULIDs, random tokens)
+export const IdempotencyKeyHeader = z.string()
+  .min(1, "Idempotency-Key cannot be empty")
+  .max(255, "Idempotency-Key must be less than 255 characters")
+  .regex(/^[\x21-\x7e]+$/, "Idempotency-Key can only contain visible ASCII characters");
+
+// Attachment limits: per file, then per ticket (every attachment counts, uploaded or not)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TICKET = 20;
+export const MAX_ATTACHMENT_BYTES_PER_TICKET = 50 * 1024 * 1024;
+export const ATTACHMENT_CONTENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/json",
+  "application/zip",
+  "application/gzip"
+] as const;
+
+export const CreateAttachmentRequest = z.object({
+  fileName: z.string().trim().min(1, "File name is required").max(255, "File name must be less than 255 characters")
+    .regex(/^[^/\\\x00-\x1f]+$/, "File name cannot contain slashes or control characters"),
+  contentType: z.enum(ATTACHMENT_CONTENT_TYPES),
+  size: z.number().int().min(1, "File cannot be empty").max(MAX_ATTACHMENT_SIZE, "File must be at most 10 MB"),
+  checksum: z.string().regex(/^[A-Za-z0-9+/]{43}=$/, "Checksum must be the base64 SHA-256 of the file")
+}).meta({ id: "CreateAttachmentRequest" });
+
+// The attachments of a ticket once a new one is added
+export const TicketAttachmentsQuota = z.array(z.object({ size: z.number() }))
+  .refine(
+    (attachments) => attachments.length <= MAX_ATTACHMENTS_PER_TICKET,
+    { message: `A ticket can have at most ${MAX_ATTACHMENTS_PER_TICKET} attachments`, path: ["attachments"] }
+  )
+  .refine(
+    (attachments) => attachments.reduce((total, attachment) => total + attachment.size, 0) <= MAX_ATTACHMENT_BYTES_PER_TICKET,
+    { message: "Attachments of a ticket must be at most 50 MB in total", path: ["attachments"] }
+  );
+
+export const AttachmentIdParam = TicketIdParam.extend({
+  attachmentId: z.uuid().meta({ title: "Attachment ID", description: "Unique identifier of the attachment" })
+});
+
+// Links of a ticket are read at once, to check new links and the open children of a parent
+export const MAX_TICKET_LINKS = 100;
+export const MAX_MERGE_TICKETS = 10;
+
+export const CreateTicketLinkRequest = z.object({
+  type: z.enum(TicketLinkType).describe("Relationship of this ticket to the linked one, e.g. PARENT_OF: this ticket is the parent"),
+  ticketId: z.uuid().describe("Ticket to link to"),
+}).meta({ id: "CreateTicketLinkRequest" });
+
+export const TicketLinkParam = TicketIdParam.extend({
+  linkedTicketId: z.uuid().meta({ title: "Linked ticket ID", description: "Unique identifier of the linked ticket" })
+});
+
+export const MergeTicketsRequest = z.object({
+  duplicateIds: z.array(z.uuid()).min(1, "At least one duplicate is required").max(MAX_MERGE_TICKETS, `At most ${MAX_MERGE_TICKETS} duplicates can be merged at once`)
+    .refine(ids => new Set(ids).size === ids.length, "Duplicates must be unique")
+    .describe("Tickets to merge into this one"),
+}).meta({ id: "MergeTicketsRequest" });
+
+// Queues are few and read at once when a ticket is routed
+export const MAX_QUEUES = 50;
+export const MAX_QUEUE_AGENTS = 100;
+
+export const QueueRule = z.object({
+  types: z.array(z.enum(TicketType)).min(1).optional().describe("Matches tickets of one of these types"),
+  priorities: z.array(z.enum(TicketPriority)).min(1).optional().describe("Matches tickets with one of these priorities"),
+  keywords: z.array(
+    z.string().trim().min(2, "Keywords must have at least 2 characters").max(40, "Keywords must be less than 40 characters")
+      .regex(/^[\p{L}\p{N}]+$/u, "Keywords must be single words")
+  ).min(1).max(20, "A rule can have at most 20 keywords").optional()
+    .describe("Matches tickets whose title contains one of these words, ignoring case and accents"),
+}).refine(
+  (rule) => rule.types !== undefined || rule.priorities !== undefined || rule.keywords !== undefined,
+  { message: "A rule needs at least one of types, priorities or keywords", path: [] }
+).meta({ id: "QueueRule" });
+
+const QueueFields = {
+  name: z.string().trim().min(1, "Name is required").max(50, "Name must be less than 50 characters"),
+  description: z.string().max(250, "Description must be less than 250 characters"),
+  agentIds: z.array(z.uuid()).max(MAX_QUEUE_AGENTS, `A queue can have at most ${MAX_QUEUE_AGENTS} agents`)
+    .refine(agentIds => new Set(agentIds).size === agentIds.length, "Agents must be unique")
+    .describe("Agents that tickets of the queue are assigned to"),
+  strategy: z.enum(AssignmentStrategy)
+    .describe("`ROUND_ROBIN` takes the agents in turn, `LEAST_LOADED` the agent with the fewest open tickets"),
+  rules: z.array(QueueRule).max(20, "A queue can have at most 20 rules")
+    .describe("A new ticket matching any rule is routed to the queue"),
+  position: z.number().int().min(0)
+    .describe("Order in which queues are tried, lowest first; a ticket goes to the first queue with a matching rule"),
+};
+
+export const CreateQueueRequest = z.object({
+  name: QueueFields.name,
+  description: QueueFields.description.optional(),
+  agentIds: QueueFields.agentIds.optional().default([]),
+  strategy: QueueFields.strategy.optional().default(AssignmentStrategy.ROUND_ROBIN),
+  rules: QueueFields.rules.optional().default([]),
+  position: QueueFields.position.optional().default(0),
+}).meta({ id: "CreateQueueRequest" });
+
+export const PatchQueueRequest = z.object({
+  name: QueueFields.name.optional(),
+  description: QueueFields.description.nullable().optional(),
+  agentIds: QueueFields.agentIds.optional(),
+  strategy: QueueFields.strategy.optional(),
+  rules: QueueFields.rules.optional(),
+  position: QueueFields.position.optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  { message: "At least one field must be provided for PATCH operation", path: [] }
+).meta({ id: "PatchQueueRequest" });
+
+export const QueueIdParam = z.object({
+  id: z.uuid().meta({ title: "Queue ID", description: "Unique identifier of the queue" })
+});
+
+export const ListQueueTicketsQuery = z.object({
+  status: z.enum(TicketStatus).optional().describe("Filter by status"),
+  priority: z.enum(TicketPriority).optional().describe("Filter by priority"),
+  type: z.enum(TicketType).optional().describe("Filter by ticket type"),
+  assignedToId: z.uuid().optional().describe("Filter by assignee"),
+  limit: Limit,
+  cursor: Cursor,
+  sort: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort order by creation date")
+});
+
+// Webhooks are read at once on every ticket write
+export const MAX_WEBHOOKS = 20;
+
+export const WebhookFilter = z.object({
+  events: z.array(z.enum(WebhookEventType).exclude(["WEBHOOK_TEST"])).min(1).optional()
+    .describe("Notifies only these changes"),
+  statuses: z.array(z.enum(TicketStatus)).min(1).optional().describe("Notifies changes of tickets with one of these statuses"),
+  priorities: z.array(z.enum(TicketPriority)).min(1).optional().describe("Notifies changes of tickets with one of these priorities"),
+  types: z.array(z.enum(TicketType)).min(1).optional().describe("Notifies changes of tickets of one of these types"),
+}).meta({ id: "WebhookFilter" });
+
+const WebhookFields = {
+  // https is enforced by the service, unless insecure URLs are allowed for local testing
+  url: z.url({ protocol: /^https?$/, error: "URL must be an http(s) URL" }).max(2048, "URL must be less than 2048 characters")
+    .describe("Endpoint that deliveries are POSTed to"),
+  description: z.string().max(250, "Description must be less than 250 characters"),
+  secret: z.string().min(16, "Secret must have at least 16 characters").max(256, "Secret must be less than 256 characters")
+    .describe("Key of the HMAC-SHA256 signature of the deliveries; never returned"),
+  filter: WebhookFilter.describe("Every condition that is set must match the ticket after the change (before it, for deletions)"),
+};
+
+export const CreateWebhookRequest = z.object({
+  url: WebhookFields.url,
+  description: WebhookFields.description.optional(),
+  secret: WebhookFields.secret,
+  filter: WebhookFields.filter.optional().default({}),
+}).meta({ id: "CreateWebhookRequest" });
+
+export const PatchWebhookRequest = z.object({
+  url: WebhookFields.url.optional(),
+  description: WebhookFields.description.nullable().optional(),
+  secret: WebhookFields.secret.optional(),
+  filter: WebhookFields.filter.optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  { message: "At least one field must be provided for PATCH operation", path: [] }
+).meta({ id: "PatchWebhookRequest" });
+
+export const WebhookIdParam = z.object({
+  id: z.uuid().meta({ title: "Webhook ID", description: "Unique identifier of the webhook" })
+});
+
+export const ListWebhookDeliveriesQuery = z.object({
+  status: z.enum(WebhookDeliveryStatus).optional().describe("Filter by delivery status; pages can then hold fewer items than the limit"),
+  limit: Limit,
+  cursor: Cursor,
+  sort: z.enum(["asc", "desc"]).optional().default("desc").describe("Sort order by creation date")
+});
+
+// Definitions are read at once on every ticket write that sets custom fields
+export const MAX_FIELD_DEFINITIONS = 50;
+
+const FieldDefinitionFields = {
+  label: z.string().trim().min(1, "Label is required").max(100, "Label must be less than 100 characters"),
+  description: z.string().max(250, "Description must be less than 250 characters"),
+  required: z.boolean(),
+  options: z.array(z.string().trim().min(1, "Options cannot be empty").max(100, "Options must be less than 100 characters"))
+    .min(1, "At least one option is required").max(100, "A field can have at most 100 options")
+    .refine(options => new Set(options).size === options.length, "Options must be unique")
+    .describe("Accepted values of an ENUM field"),
+};
+
+export const CreateFieldDefinitionRequest = z.object({
+  ticketType: z.enum(TicketType).describe("Type of the tickets that have the field"),
+  key: CustomFieldKey.describe("Name of the field in the customFields of tickets, unique per ticket type"),
+  label: FieldDefinitionFields.label,
+  description: FieldDefinitionFields.description.optional(),
+  kind: z.enum(CustomFieldKind).describe("STRING, NUMBER, ENUM (one of the options), DATE (YYYY-MM-DD) or USER (a user id)"),
+  required: FieldDefinitionFields.required.optional().default(false),
+  options: FieldDefinitionFields.options.optional(),
+}).refine(
+  (data) => (data.kind === CustomFieldKind.ENUM) === (data.options !== undefined),
+  { message: "Options are required for ENUM fields and only allowed for them", path: ["options"] }
+).meta({ id: "CreateFieldDefinitionRequest" });
+
+// The ticket type, key and kind are fixed, since tickets store values under them
+export const PatchFieldDefinitionRequest = z.object({
+  label: FieldDefinitionFields.label.optional(),
+  description: FieldDefinitionFields.description.nullable().optional(),
+  required: FieldDefinitionFields.required.optional(),
+  options: FieldDefinitionFields.options.optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  { message: "At least one field must be provided for PATCH operation", path: [] }
+).meta({ id: "PatchFieldDefinitionRequest" });
+
+export const FieldDefinitionIdParam = z.object({
+  id: z.uuid().meta({ title: "Field definition ID", description: "Unique identifier of the field definition" })
+});
+
+export const ListFieldDefinitionsQuery = z.object({
+  ticketType: z.enum(TicketType).optional().describe("Only the fields of this ticket type"),
+});
+
+// An atomic batch is one TransactWriteItems call, which takes up to 100 items: a ticket and its history entry per operation
+export const MAX_BATCH_OPERATIONS = 50;
+
+// Operations are validated one by one, so that an invalid operation only fails itself
+export const BatchTicketsRequest = z.object({
+  atomic: z.boolean().optional().default(false),
+  operations: z.array(z.unknown())
+    .min(1, "At least one operation is required")
+    .max(MAX_BATCH_OPERATIONS, `At most ${MAX_BATCH_OPERATIONS} operations are allowed`)
+});
+
+export const BatchOperationRequest = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("create"),
+    body: CreateTicketRequest
+  }),
+  z.object({
+    method: z.literal("patch"),
+    id: z.uuid(),
+    // Same meaning as the If-Match header of a single PATCH
+    version: z.number().int().min(1).optional(),
+    body: PatchTicketRequest
+  }),
+  z.object({
+    method: z.literal("delete"),
+    id: z.uuid(),
+    version: z.number().int().min(1).optional()
+  })
+]).meta({ id: "BatchOperation" });
+
+// The batch as documented: operations are only checked against BatchOperation one by one
+export const BatchTicketsContract = BatchTicketsRequest.extend({
+  atomic: BatchTicketsRequest.shape.atomic.describe("Write every operation or none"),
+  operations: z.array(BatchOperationRequest).min(1).max(MAX_BATCH_OPERATIONS)
+}).meta({ id: "BatchTicketsRequest" });
+
+// Rows per import request; larger files are sent in parts, e.g. by the tickets CLI
+export const MAX_IMPORT_ROWS = 500;
+
+const ImportFormat = z.enum(["csv", "ndjson"]);
+
+// A row of an import: a new ticket, plus what it had in the system it comes from
+const ImportTicketFields = CreateTicketRequest.extend({
+  id: z.uuid().optional().describe("Id to keep; a new one is generated without it"),
+  externalRef: z.string().trim().min(1, "External reference cannot be empty").max(200, "External reference must be less than 200 characters").optional()
+    .describe("Reference of the ticket in the other system; rows with a reference imported before are skipped"),
+  status: z.enum(TicketStatus).optional().default(TicketStatus.NEW).describe("Any status: imported tickets keep the one they had"),
+  resolutionNote: z.string().min(1, "Resolution note cannot be empty").max(500, "Resolution note must be less than 500 characters").optional()
+    .describe("How the ticket was resolved; required for status RESOLVED"),
+  createdAt: z.iso.datetime({ offset: true }).optional().describe("Creation time to keep; defaults to the time of the import"),
+  updatedAt: z.iso.datetime({ offset: true }).optional().describe("Last update time to keep; defaults to createdAt"),
+  resolvedAt: z.iso.datetime({ offset: true }).optional().describe("Resolution time to keep, for RESOLVED and CLOSED tickets; defaults to updatedAt"),
+});
+
+export const ImportTicketRow = ImportTicketFields.refine(
+  (data) => !data.updatedAt || (!!data.createdAt && new Date(data.updatedAt) >= new Date(data.createdAt)),
+  { message: "updatedAt requires createdAt and must not be before it", path: ["updatedAt"] }
+).refine(
+  (data) => !data.resolvedAt || (!!data.createdAt && new Date(data.resolvedAt) >= new Date(data.createdAt)),
+  { message: "resolvedAt requires createdAt and must not be before it", path: ["resolvedAt"] }
+).refine(
+  (data) => !data.resolvedAt || data.status === TicketStatus.RESOLVED || data.status === TicketStatus.CLOSED,
+  { message: "resolvedAt requires status RESOLVED or CLOSED", path: ["resolvedAt"] }
+).refine(
+  (data) => [data.createdAt, data.updatedAt, data.resolvedAt].every(timestamp => !timestamp || new Date(timestamp) <= new Date()),
+  { message: "Timestamps cannot be in the future", path: ["createdAt"] }
+).meta({ id: "ImportTicketRow" });
+
+// Fields a column can be mapped to: a row field or a custom field, e.g. customFields.affectedService
+function isImportColumnTarget(target: string): boolean {
+  const [field, key, ...rest] = target.split(".");
+  return key === undefined
+    ? field !== "customFields" && field in ImportTicketFields.shape
+    : field === "customFields" && rest.length === 0 && CustomFieldKey.safeParse(key).success;
+}
+
+// Column renames, e.g. "Summary:title,Opened:createdAt"; columns without a mapping keep their name
+const ImportColumnMapping = z.string().transform((value, ctx) => {
+  const mapping: Record<string, string> = {};
+  for (const pair of value.split(",")) {
+    const separator = pair.lastIndexOf(":");
+    const column = pair.slice(0, separator).trim();
+    const target = pair.slice(separator + 1).trim();
+    if (separator < 0 || !column || !isImportColumnTarget(target)) {
+      ctx.addIssue({ code: "custom", message: `Invalid column mapping "${pair}", expected column:field with a ticket field or customFields.<key>` });
+      return z.NEVER;
+    }
+    mapping[column] = target;
+  }
+  return mapping;
+});
+
+export const ImportTicketsQuery = z.object({
+  format: ImportFormat.optional().describe("Format of the body; defaults to the one of the Content-Type header"),
+  dryRun: z.enum(["true", "false"], "dryRun must be true or false").optional().transform(value => value === "true")
+    .describe("Validate every row without creating any ticket"),
+  mapping: ImportColumnMapping.optional()
+    .describe("Column renames as column:field pairs separated by commas, e.g. `Summary:title,Opened:createdAt,Service:customFields.affectedService`"),
+});
+
+export const ExportTicketsQuery = z.object({
+  ...TicketFilters,
+  format: ImportFormat.optional().default("ndjson").describe("Format of the export"),
+  cursor: z.string().min(1).optional().describe("Opaque token returned in the `X-Next-Cursor` header of the previous part"),
+  sort: z.enum(["asc", "desc"]).optional().default("asc").describe("Sort order by creation date")
+}).refine(isCreatedRange, CREATED_RANGE_ERROR);
+
+// Organization ids prefix the keys of the organization's items, so they are kept to lowercase letters, digits and dashes
+export const TenantId = z.string().regex(/^[a-z0-9][a-z0-9-]{0,62}$/, "Organization ids are 1 to 63 lowercase letters, digits and dashes");
+
+// Settings of one organization in the TENANTS configuration
+export const TenantSettings = z.object({
+  allowedTypes: z.array(z.enum(TicketType)).min(1).optional(),
+  defaultPriority: z.enum(TicketPriority).optional(),
+  quotas: z.object({
+    requestsPerMinute: z.number().int().min(1).optional(),
+    ticketsPerDay: z.number().int().min(1).optional(),
+  }).optional(),
+});
+
+export const TenantsConfig = z.record(TenantId, TenantSettings);
+
 export type CreateTicketDto = z.infer<typeof CreateTicketRequest>;
 export type TicketIdParamDto = z.infer<typeof TicketIdParam>;
 export type UpdateTicketDto = z.infer<typeof UpdateTicketRequest>;
 export type PatchTicketDto = z.infer<typeof PatchTicketRequest>;
+export type ListTicketsQueryDto = z.infer<typeof ListTicketsQuery>;
+export type SearchTicketsQueryDto = z.infer<typeof SearchTicketsQuery>;
+export type CreateCommentDto = z.infer<typeof CreateCommentRequest>;
+export type UpdateCommentDto = z.infer<typeof UpdateCommentRequest>;
+export type CommentIdParamDto = z.infer<typeof CommentIdParam>;
+export type ListCommentsQueryDto = z.infer<typeof ListCommentsQuery>;
+export type ListHistoryQueryDto = z.infer<typeof ListHistoryQuery>;
+export type ListTrashQueryDto = z.infer<typeof ListTrashQuery>;
+export type DeleteTicketQueryDto = z.infer<typeof DeleteTicketQuery>;
+export type TicketReportQueryDto = z.infer<typeof TicketReportQuery>;
+export type CreateAttachmentDto = z.infer<typeof CreateAttachmentRequest>;
+export type AttachmentIdParamDto = z.infer<typeof AttachmentIdParam>;
+export type CreateTicketLinkDto = z.infer<typeof CreateTicketLinkRequest>;
+export type MergeTicketsDto = z.infer<typeof MergeTicketsRequest>;
+export type CreateQueueDto = z.infer<typeof CreateQueueRequest>;
+export type PatchQueueDto = z.infer<typeof PatchQueueRequest>;
+export type ListQueueTicketsQueryDto = z.infer<typeof ListQueueTicketsQuery>;
+export type CreateWebhookDto = z.infer<typeof CreateWebhookRequest>;
+export type PatchWebhookDto = z.infer<typeof PatchWebhookRequest>;
+export type ListWebhookDeliveriesQueryDto = z.infer<typeof ListWebhookDeliveriesQuery>;
+export type BatchTicketsDto = z.infer<typeof BatchTicketsRequest>;
+export type BatchOperationDto = z.infer<typeof BatchOperationRequest>;
+export type TenantSettingsDto = z.infer<typeof TenantSettings>;
+export type CreateFieldDefinitionDto = z.infer<typeof CreateFieldDefinitionRequest>;
+export type PatchFieldDefinitionDto = z.infer<typeof PatchFieldDefinitionRequest>;
+export type ListFieldDefinitionsQueryDto = z.infer<typeof ListFieldDefinitionsQuery>;
+export type ImportTicketRowDto = z.infer<typeof ImportTicketRow>;
+export type ImportTicketsQueryDto = z.infer<typeof ImportTicketsQuery>;
+export type ExportTicketsQueryDto = z.infer<typeof ExportTicketsQuery>;
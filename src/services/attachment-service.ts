@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { assertCanViewTicket, isAdmin } from '../auth/authorization';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getAttachmentStorage, getTicketRepository } from '../repositories';
+import { CreateAttachmentDto, CreateAttachmentRequest, TicketAttachmentsQuota } from '../schemas/schemas';
+import { Attachment, AttachmentContent, AttachmentList, AttachmentUpload } from '../types/attachment';
+import { AuthContext } from '../types/auth';
+import { Ticket, TicketWriteOptions } from '../types/ticket';
+
+// Attempts for an attachment change when the ticket changes between the read and the conditional write
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Presigned URLs are short lived: long enough to transfer a file, not to be shared around
+const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+function attachmentKey(ticketId: string, attachmentId: string): string {
+  return `tickets/${ticketId}/${attachmentId}`;
+}
+
+function expiresAt(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+// Attachments follow the ticket's visibility, like comments
+async function getVisibleTicket(ticketId: string, auth?: AuthContext): Promise<Ticket> {
+  const ticket = await getTicketRepository().getTicket(ticketId);
+  if (!ticket) {
+    throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+  }
+  if (auth) {
+    assertCanViewTicket(auth, ticket);
+  }
+  return ticket;
+}
+
+// Writes the new attachment list of the ticket as read; false if the ticket changed in between
+async function writeAttachments(current: Ticket, attachments: Attachment[]): Promise<boolean> {
+  const now = new Date().toISOString();
+  const next: Ticket = { ...current, attachments, version: current.version + 1, updatedAt: now, lastActivityAt: now };
+  if (attachments.length === 0) {
+    delete next.attachments;
+  }
+  return getTicketRepository().updateTicket(current, next);
+}
+
+export class AttachmentService {
+  // Records the attachment on the ticket and returns a presigned URL to upload its content
+  static async createAttachment(ticketId: string, createAttachmentDto: CreateAttachmentDto, options: TicketWriteOptions = {}): Promise<AttachmentUpload> {
+    const attachment = await AttachmentService.recordAttachment(ticketId, createAttachmentDto, options);
+
+    const upload = await getAttachmentStorage().createUploadUrl(attachmentKey(ticketId, attachment.id), attachment, UPLOAD_URL_TTL_SECONDS);
+    logger.info("Create attachment", { ticketId, attachmentId: attachment.id, size: attachment.size });
+    return { attachment, uploadUrl: upload.url, uploadHeaders: upload.headers, expiresAt: expiresAt(UPLOAD_URL_TTL_SECONDS) };
+  }
+
+  // Attaches a file received by the server (e.g. by email), with the same validation and quotas as an upload
+  static async addAttachmentContent(ticketId: string, file: AttachmentContent, options: TicketWriteOptions = {}): Promise<Attachment> {
+    const createAttachmentDto = CreateAttachmentRequest.parse({
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.content.length,
+      checksum: createHash("sha256").update(file.content).digest("base64"),
+    });
+    const attachment = await AttachmentService.recordAttachment(ticketId, createAttachmentDto, options);
+
+    await getAttachmentStorage().putObject(attachmentKey(ticketId, attachment.id), attachment, file.content);
+    logger.info("Add attachment content", { ticketId, attachmentId: attachment.id, size: attachment.size });
+    return attachment;
+  }
+
+  static async listAttachments(ticketId: string, auth?: AuthContext): Promise<AttachmentList> {
+    const ticket = await getVisibleTicket(ticketId, auth);
+
+    const items = [];
+    for (const attachment of ticket.attachments ?? []) {
+      const downloadUrl = await getAttachmentStorage().createDownloadUrl(attachmentKey(ticketId, attachment.id), attachment.fileName, DOWNLOAD_URL_TTL_SECONDS);
+      items.push({ ...attachment, downloadUrl, expiresAt: expiresAt(DOWNLOAD_URL_TTL_SECONDS) });
+    }
+
+    return { items };
+  }
+
+  // Only the uploader or an admin can remove an attachment
+  static async deleteAttachment(ticketId: string, attachmentId: string, options: TicketWriteOptions = {}, attempt: number = 1): Promise<void> {
+    const current = await getVisibleTicket(ticketId, options.auth);
+    const attachment = current.attachments?.find(candidate => candidate.id === attachmentId);
+    if (!attachment) {
+      throw new NotFoundError(ErrorCodes.ATTACHMENT_NOT_FOUND, `Attachment with id ${attachmentId} not found`);
+    }
+    if (options.auth && !isAdmin(options.auth) && attachment.uploadedBy !== options.auth.userId) {
+      throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only the uploader can delete an attachment");
+    }
+
+    if (!(await writeAttachments(current, current.attachments!.filter(candidate => candidate.id !== attachmentId)))) {
+      if (attempt < MAX_WRITE_ATTEMPTS) {
+        return AttachmentService.deleteAttachment(ticketId, attachmentId, options, attempt + 1);
+      }
+      throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${ticketId} was modified concurrently`);
+    }
+
+    await AttachmentService.deleteObjects(ticketId, [attachment]);
+  }
+
+  // Adds the attachment metadata to the ticket, within the per-ticket quotas; the content is stored afterwards
+  private static async recordAttachment(ticketId: string, createAttachmentDto: CreateAttachmentDto, options: TicketWriteOptions, attempt: number = 1): Promise<Attachment> {
+    const current = await getVisibleTicket(ticketId, options.auth);
+    if (!options.actorId) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["uploadedBy - Required"]);
+    }
+
+    const attachment: Attachment = {
+      id: uuidv4(),
+      fileName: createAttachmentDto.fileName,
+      contentType: createAttachmentDto.contentType,
+      size: createAttachmentDto.size,
+      checksum: createAttachmentDto.checksum,
+      uploadedBy: options.actorId,
+      createdAt: new Date().toISOString(),
+    };
+    const attachments = [...(current.attachments ?? []), attachment];
+    TicketAttachmentsQuota.parse(attachments);
+
+    if (!(await writeAttachments(current, attachments))) {
+      if (attempt < MAX_WRITE_ATTEMPTS) {
+        return AttachmentService.recordAttachment(ticketId, createAttachmentDto, options, attempt + 1);
+      }
+      throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${ticketId} was modified concurrently`);
+    }
+
+    return attachment;
+  }
+
+  // Removes the contents once their metadata is gone (attachment or ticket deleted).
+  // The write has already succeeded, so failures are logged rather than thrown; the objects are left orphaned.
+  static async deleteObjects(ticketId: string, attachments: Attachment[] | undefined): Promise<void> {
+    if (!attachments?.length) {
+      return;
+    }
+
+    try {
+      await getAttachmentStorage().deleteObjects(attachments.map(attachment => attachmentKey(ticketId, attachment.id)));
+    } catch (error) {
+      logger.error("Attachment cleanup failed", { ticketId, attachmentIds: attachments.map(attachment => attachment.id), error });
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import z from 'zod';
+import { assertCanDeleteTicket } from '../auth/authorization';
+import { config } from '../common/config';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { BatchAbortedError } from '../errors/batch-aborted.error';
+import { HttpError } from '../errors/http-error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { PreconditionRequiredError } from '../errors/precondition-required.error';
+import { ServiceUnavailableError } from '../errors/service-unavailable.error';
+import { logger } from '../observability/logger';
+import { getTicketRepository } from '../repositories';
+import { TicketWrite } from '../repositories/ticket-repository';
+import { BatchOperationDto, BatchOperationRequest, BatchTicketsDto, CreateTicketDto } from '../schemas/schemas';
+import { BatchOperationResult, BatchResult } from '../types/batch';
+import { TicketHistoryEntry } from '../types/history';
+import { Ticket, TicketWriteOptions } from '../types/ticket';
+import { TicketService } from './ticket-service';
+
+// Attempts for an atomic batch when one of its tickets changes between the reads and the transaction
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Write of one operation, with the result it gets once the write succeeds
+interface PreparedOperation {
+  write: TicketWrite;
+  status: number;
+  ticket?: Ticket;
+}
+
+function parseOperation(operation: unknown): BatchOperationDto {
+  const parsed = BatchOperationRequest.parse(operation);
+
+  if (parsed.method !== "create" && parsed.version === undefined && config.requireIfMatch) {
+    throw new PreconditionRequiredError(ErrorCodes.PRECONDITION_REQUIRED, "version is required to modify a ticket");
+  }
+
+  return parsed;
+}
+
+// Errors are reported per operation with the status and body they would have as a single request; imports report rows the same way
+export function toOperationError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  if (error instanceof z.ZodError) {
+    const errorMessages = error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`);
+    return new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", errorMessages);
+  }
+
+  logger.warn("Operation failed", { error });
+  return new HttpError(500, ErrorCodes.INTERNAL_SERVER_ERROR, "Unexpected server error");
+}
+
+function toFailure(index: number, error: HttpError): BatchOperationResult {
+  return {
+    index,
+    status: error.statusCode,
+    error: { code: error.code, message: error.message, details: error.details ?? undefined },
+  };
+}
+
+function ticketIdOf(write: TicketWrite): string {
+  return write.kind === "create" ? write.ticket.id : write.current.id;
+}
+
+// Same follow-up as the single-ticket service methods once a write has succeeded; batches only create and update
+async function afterWrite(write: TicketWrite): Promise<void> {
+  switch (write.kind) {
+    case "create":
+      return TicketService.afterWrite(undefined, write.ticket);
+    case "update":
+      return TicketService.afterWrite(write.current, write.next);
+  }
+}
+
+export class BatchService {
+  static async executeBatch(request: BatchTicketsDto, options: TicketWriteOptions = {}): Promise<BatchResult> {
+    logger.info("Execute batch", { atomic: request.atomic, operations: request.operations.length });
+    const results = request.atomic
+      ? await BatchService.executeAtomic(request.operations, options)
+      : await BatchService.executeEach(request.operations, options);
+
+    const succeeded = results.filter(result => !result.error).length;
+    return { atomic: request.atomic, succeeded, failed: results.length - succeeded, results };
+  }
+
+  // Independent operations: creates are written together with BatchWriteItem, patches and deletes go
+  // through the single-ticket write path with its optimistic concurrency retries
+  private static async executeEach(operations: unknown[], options: TicketWriteOptions): Promise<BatchOperationResult[]> {
+    const results: BatchOperationResult[] = new Array(operations.length);
+    const creates: { index: number; body: CreateTicketDto; ticket: Ticket; history: TicketHistoryEntry }[] = [];
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        const parsed = parseOperation(operation);
+
+        if (parsed.method === "create") {
+          creates.push({ index, body: parsed.body, ...await TicketService.prepareCreate(parsed.body, options) });
+        } else if (parsed.method === "patch") {
+          const ticket = await TicketService.patchTicket(parsed.id, parsed.body, { ...options, expectedVersion: parsed.version });
+          results[index] = { index, status: 200, ticket };
+        } else {
+          await TicketService.deleteTicket(parsed.id, { ...options, expectedVersion: parsed.version });
+          results[index] = { index, status: 204 };
+        }
+      } catch (error) {
+        results[index] = toFailure(index, toOperationError(error));
+      }
+    }
+
+    if (creates.length > 0) {
+      let unwritten: Set<string>;
+      try {
+        unwritten = new Set(await getTicketRepository().createTickets(creates));
+      } catch (error) {
+        const failure = toOperationError(error);
+        for (const { index, body, ticket } of creates) {
+          results[index] = toFailure(index, failure);
+          await TicketService.releaseCreate(body, ticket);
+        }
+        return results;
+      }
+
+      for (const { index, body, ticket } of creates) {
+        if (unwritten.has(ticket.id)) {
+          results[index] = toFailure(index, new ServiceUnavailableError(ErrorCodes.SERVICE_UNAVAILABLE, "Ticket could not be written, retry the operation"));
+          await TicketService.releaseCreate(body, ticket);
+        } else {
+          results[index] = { index, status: 201, ticket };
+          await TicketService.afterWrite(undefined, ticket);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // All or nothing: every operation is checked against the current state, then everything is written in one transaction.
+  // Creates are prepared once, taking their quota and queue turns; those are given back if the batch is not written.
+  private static async executeAtomic(operations: unknown[], options: TicketWriteOptions): Promise<BatchOperationResult[]> {
+    const parsed: BatchOperationDto[] = [];
+    const prepared: PreparedOperation[] = [];
+    const errors = new Map<number, HttpError>();
+    const ticketIds = new Set<string>();
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        const operationDto = parseOperation(operation);
+        parsed[index] = operationDto;
+
+        // A transaction cannot touch the same item twice
+        if (operationDto.method !== "create") {
+          if (ticketIds.has(operationDto.id)) {
+            throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`id - Ticket ${operationDto.id} appears more than once in an atomic batch`]);
+          }
+          ticketIds.add(operationDto.id);
+        }
+
+        prepared[index] = await BatchService.prepareOperation(operationDto, options);
+      } catch (error) {
+        errors.set(index, toOperationError(error));
+      }
+    }
+
+    try {
+      for (let attempt = 1; errors.size === 0; attempt++) {
+        const writes = prepared.map(operation => operation.write);
+        const failedIndex = await getTicketRepository().writeTickets(writes);
+        if (failedIndex < 0) {
+          for (const { write } of prepared) {
+            await afterWrite(write);
+          }
+          return prepared.map(({ status, ticket }, index) => ({ index, status, ticket }));
+        }
+
+        if (attempt === MAX_WRITE_ATTEMPTS) {
+          errors.set(failedIndex, new PreconditionFailedError(
+            ErrorCodes.PRECONDITION_FAILED,
+            `Ticket with id ${ticketIdOf(writes[failedIndex])} was modified concurrently`
+          ));
+          break;
+        }
+
+        // A ticket was deleted or modified since we read it: check the other operations again against the latest state
+        for (const [index, operation] of parsed.entries()) {
+          if (operation.method !== "create") {
+            try {
+              prepared[index] = await BatchService.prepareOperation(operation, options);
+            } catch (error) {
+              errors.set(index, toOperationError(error));
+            }
+          }
+        }
+      }
+    } catch (error) {
+      await BatchService.releaseCreates(parsed, prepared);
+      throw error;
+    }
+
+    await BatchService.releaseCreates(parsed, prepared);
+    return operations.map((_, index) => toFailure(index, errors.get(index)
+      ?? new BatchAbortedError(ErrorCodes.BATCH_ABORTED, "Not applied because another operation of the atomic batch failed")));
+  }
+
+  // Creates of an atomic batch that was not written
+  private static async releaseCreates(parsed: BatchOperationDto[], prepared: PreparedOperation[]): Promise<void> {
+    for (const [index, operation] of parsed.entries()) {
+      if (operation?.method === "create" && prepared[index]) {
+        await TicketService.releaseCreate(operation.body, prepared[index].ticket!);
+      }
+    }
+  }
+
+  // Same checks as the single-ticket endpoints, without writing
+  private static async prepareOperation(operation: BatchOperationDto, options: TicketWriteOptions): Promise<PreparedOperation> {
+    if (operation.method === "create") {
+      const { ticket, history } = await TicketService.prepareCreate(operation.body, options);
+      return { write: { kind: "create", ticket, history }, status: 201, ticket };
+    }
+
+    if (operation.method === "delete" && options.auth) {
+      assertCanDeleteTicket(options.auth);
+    }
+
+    const current = await TicketService.getTicketById(operation.id);
+    if (!current) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${operation.id} not found`);
+    }
+
+    const writeOptions = { ...options, expectedVersion: operation.version };
+    if (operation.method === "patch") {
+      const { next, history } = await TicketService.prepareUpdate(current, operation.body, writeOptions);
+      return { write: { kind: "update", current, next, history }, status: 200, ticket: next };
+    }
+
+    // Deletes move the ticket to the trash, like DELETE without hard
+    const { next, history } = TicketService.prepareDelete(current, writeOptions);
+    return { write: { kind: "update", current, next, history }, status: 204 };
+  }
+}
@@ -0,0 +1,104 @@
+import { v4 as uuidv4 } from 'uuid';
+import { isAdmin, isAgent } from '../auth/authorization';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { logger } from '../observability/logger';
+import { CreateCommentDto, ListCommentsQueryDto, UpdateCommentDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Comment, CommentPage } from '../types/comment';
+import { getTicketRepository } from '../repositories';
+import { TicketService } from './ticket-service';
+
+// Authenticated callers always act as themselves; internal callers must name the author
+function resolveAuthorId(authorId: string | undefined, auth?: AuthContext): string {
+  const resolved = auth?.userId ?? authorId;
+  if (!resolved) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["authorId - Required"]);
+  }
+  return resolved;
+}
+
+// Commenting requires being able to see the ticket
+async function assertTicketVisible(ticketId: string, auth?: AuthContext): Promise<void> {
+  const ticket = await TicketService.getTicketById(ticketId, auth);
+  if (!ticket) {
+    throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+  }
+}
+
+export class CommentService {
+  static async createComment(ticketId: string, createCommentDto: CreateCommentDto, auth?: AuthContext): Promise<Comment> {
+    if (auth) {
+      await assertTicketVisible(ticketId, auth);
+    }
+
+    const now = new Date().toISOString();
+    const commentId = uuidv4();
+    const comment: Comment = {
+      id: commentId,
+      ticketId,
+      authorId: resolveAuthorId(createCommentDto.authorId, auth),
+      body: createCommentDto.body,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // A first comment from staff counts as the first response for the SLA
+    const isStaffReply = !!auth && (isAdmin(auth) || isAgent(auth));
+
+    // The comment and the parent ticket counters are written together; the ticket must exist
+    await getTicketRepository().createComment(comment, { firstResponse: isStaffReply });
+    await TicketService.afterCommentWrite(ticketId, commentId, comment);
+    return comment;
+  }
+
+  static async listComments(ticketId: string, query: ListCommentsQueryDto, auth?: AuthContext): Promise<CommentPage> {
+    await assertTicketVisible(ticketId, auth);
+
+    const page = await getTicketRepository().queryComments(ticketId, query);
+    logger.debug("List comments", { ticketId, count: page.items.length });
+
+    return page;
+  }
+
+  static async getComment(ticketId: string, commentId: string): Promise<Comment | undefined> {
+    return getTicketRepository().getComment(ticketId, commentId);
+  }
+
+  // Only the original author can edit a comment
+  static async updateComment(ticketId: string, commentId: string, updateCommentDto: UpdateCommentDto, auth?: AuthContext): Promise<Comment> {
+    const authorId = resolveAuthorId(updateCommentDto.authorId, auth);
+    const existing = await CommentService.getComment(ticketId, commentId);
+    if (!existing) {
+      throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${commentId} not found`);
+    }
+
+    if (existing.authorId !== authorId) {
+      throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only the author can edit a comment");
+    }
+
+    // Conditioned on the author, so a comment deleted or replaced in between is reported as missing
+    const updated: Comment = { ...existing, body: updateCommentDto.body, updatedAt: new Date().toISOString() };
+    await getTicketRepository().updateComment(updated);
+    await TicketService.afterCommentWrite(ticketId, commentId, updated);
+    return updated;
+  }
+
+  // Authenticated callers can only delete their own comments, except admins
+  static async deleteComment(ticketId: string, commentId: string, auth?: AuthContext): Promise<void> {
+    if (auth && !isAdmin(auth)) {
+      const existing = await CommentService.getComment(ticketId, commentId);
+      if (!existing) {
+        throw new NotFoundError(ErrorCodes.COMMENT_NOT_FOUND, `Comment with id ${commentId} not found`);
+      }
+      if (existing.authorId !== auth.userId) {
+        throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only the author can delete a comment");
+      }
+    }
+
+    await getTicketRepository().deleteComment(ticketId, commentId, new Date().toISOString());
+    await TicketService.afterCommentWrite(ticketId, commentId, undefined);
+  }
+}
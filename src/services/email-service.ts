@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { Attachment as MailAttachment, ParsedMail, simpleParser } from 'mailparser';
+import { ZodError } from 'zod';
+import { getUserDirectory } from '../auth/user-directory';
+import { EmailIngestOutcome } from '../common/enums';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { UnauthorizedError } from '../errors/unauthorized.error';
+import { logger } from '../observability/logger';
+import { getRequestContext, runAsTenant } from '../observability/request-context';
+import { getEmailMessageStore } from '../repositories';
+import { CreateCommentRequest, CreateTicketRequest } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { EmailIngestResult } from '../types/email';
+import { TicketWriteOptions } from '../types/ticket';
+import { AttachmentService } from './attachment-service';
+import { CommentService } from './comment-service';
+import { TenantService } from './tenant-service';
+import { TicketService } from './ticket-service';
+
+// Limits of CreateTicketRequest and CreateCommentRequest; longer text is cut rather than rejected
+const MAX_TITLE_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 250;
+const MAX_COMMENT_LENGTH = 2000;
+
+const NO_SUBJECT = "(no subject)";
+const NO_CONTENT = "(no content)";
+
+// Ticket reference in a subject, e.g. "Re: VPN down [#6f1c1f5e-2a4b-4c1e-9a55-000000000001]"
+const TICKET_REFERENCE_PATTERN = /\[#([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\]/i;
+const REPLY_PREFIX_PATTERN = /^\s*((re|fwd?|aw|wg|sv|rv)\s*:\s*)+/i;
+
+// First line of the quoted original in a reply: "On <date>, <someone> wrote:" or an Outlook separator
+const QUOTE_HEADER_PATTERN = /^(On\s.+wrote:|-{2,}\s*Original Message\s*-{2,})\s*$/im;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.slice(0, maxLength - 1).trimEnd() + "…" : text;
+}
+
+// Message-ID without angle brackets; messages without one are identified by their content
+function messageIdOf(mail: ParsedMail, raw: Buffer): string {
+  const messageId = mail.messageId?.trim().replace(/^<|>$/g, "");
+  return messageId || `sha256:${createHash("sha256").update(raw).digest("hex")}`;
+}
+
+// Messages the reply refers to, most recent first
+function referencedMessageIds(mail: ParsedMail): string[] {
+  const references = typeof mail.references === "string" ? [mail.references] : mail.references ?? [];
+  return [mail.inReplyTo, ...references.reverse()]
+    .filter((id): id is string => !!id)
+    .map(id => id.trim().replace(/^<|>$/g, ""));
+}
+
+// Subject as ticket title: without reply prefixes and ticket reference
+export function titleFromSubject(subject: string | undefined): string {
+  const title = (subject ?? "").replace(TICKET_REFERENCE_PATTERN, "").replace(REPLY_PREFIX_PATTERN, "").replace(/\s+/g, " ").trim();
+  return truncate(title || NO_SUBJECT, MAX_TITLE_LENGTH);
+}
+
+// Text a reply adds: everything before the quoted original, without ">" lines
+export function stripQuotedText(text: string): string {
+  const quoteStart = text.search(QUOTE_HEADER_PATTERN);
+  const reply = quoteStart === -1 ? text : text.slice(0, quoteStart);
+  return reply.split(/\r?\n/).filter(line => !line.startsWith(">")).join("\n").trim();
+}
+
+// Spam and virus verdicts added by SES receipt rules; messages without them are not checked
+function failedVerdict(mail: ParsedMail): string | undefined {
+  for (const header of ["x-ses-spam-verdict", "x-ses-virus-verdict"]) {
+    const verdict = mail.headers.get(header);
+    if (verdict !== undefined && String(verdict).trim().toUpperCase() !== "PASS") {
+      return `${header} is ${verdict}`;
+    }
+  }
+  return undefined;
+}
+
+export class EmailService {
+  // Turns a raw MIME message into a ticket, or into a comment on the ticket it replies to, in the sender's organization.
+  // Redeliveries of a message that was already ingested are recognised by its Message-ID and skipped.
+  static async ingestEmail(raw: Buffer): Promise<EmailIngestResult> {
+    const mail = await simpleParser(raw);
+    const messageId = messageIdOf(mail, raw);
+    const result: EmailIngestResult = { messageId, outcome: EmailIngestOutcome.REJECTED, attachmentIds: [], skippedAttachments: [] };
+
+    const verdict = failedVerdict(mail);
+    if (verdict) {
+      return EmailService.reject(result, verdict);
+    }
+
+    const senderAddress = mail.from?.value[0]?.address;
+    let sender: AuthContext | undefined;
+    let tenantId: string;
+    try {
+      sender = senderAddress ? await getUserDirectory().findByEmail(senderAddress) : undefined;
+      if (!sender) {
+        return EmailService.reject(result, "Sender is not a known user");
+      }
+      tenantId = TenantService.resolveTenant(sender, undefined);
+    } catch (error) {
+      // A user with an invalid or unknown organization cannot be served by any retry
+      if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
+        return EmailService.reject(result, "Sender belongs to an unknown organization");
+      }
+      throw error;
+    }
+
+    // Message records, tickets and comments are all the sender's organization's
+    return runAsTenant(tenantId, () => EmailService.ingestFromSender(mail, sender!, result));
+  }
+
+  private static async ingestFromSender(mail: ParsedMail, sender: AuthContext, result: EmailIngestResult): Promise<EmailIngestResult> {
+    const { messageId } = result;
+    const previousTicketId = await getEmailMessageStore().getTicketId(messageId);
+    if (previousTicketId) {
+      logger.info("Skip duplicate email", { messageId, ticketId: previousTicketId });
+      return { ...result, outcome: EmailIngestOutcome.DUPLICATE, ticketId: previousTicketId };
+    }
+
+    const options: TicketWriteOptions = { auth: sender, actorId: sender.userId, requestId: getRequestContext()?.correlationId };
+    const threadTicketId = await EmailService.findThreadTicketId(mail);
+
+    if (threadTicketId) {
+      try {
+        const comment = await CommentService.createComment(threadTicketId, CreateCommentRequest.parse({
+          body: truncate(stripQuotedText(mail.text ?? "") || NO_CONTENT, MAX_COMMENT_LENGTH),
+        }), sender);
+        Object.assign(result, { outcome: EmailIngestOutcome.COMMENTED, ticketId: threadTicketId, commentId: comment.id });
+      } catch (error) {
+        if (error instanceof ForbiddenError) {
+          return EmailService.reject(result, `Sender cannot comment on ticket ${threadTicketId}`);
+        }
+        // A reply to a ticket that no longer exists starts a new one
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    if (!result.ticketId) {
+      const body = (mail.text ?? "").trim();
+      const ticket = await TicketService.createTicket(CreateTicketRequest.parse({
+        title: titleFromSubject(mail.subject),
+        description: truncate(body || NO_CONTENT, MAX_DESCRIPTION_LENGTH),
+      }), options, { requireCustomFields: false });
+      Object.assign(result, { outcome: EmailIngestOutcome.CREATED, ticketId: ticket.id });
+
+      // The description only holds the start of a long body; the whole of it goes in a first comment
+      if (body.length > MAX_DESCRIPTION_LENGTH) {
+        const comment = await CommentService.createComment(ticket.id, CreateCommentRequest.parse({ body: truncate(body, MAX_COMMENT_LENGTH) }), sender);
+        result.commentId = comment.id;
+      }
+    }
+
+    // Recorded before the attachments, so that a failure from here on does not create the ticket twice on retry
+    await getEmailMessageStore().record(messageId, result.ticketId!);
+    await EmailService.addAttachments(result, mail.attachments, options);
+
+    logger.info("Ingest email", {
+      messageId,
+      outcome: result.outcome,
+      ticketId: result.ticketId,
+      attachments: result.attachmentIds.length,
+      skippedAttachments: result.skippedAttachments.length,
+    });
+    return result;
+  }
+
+  // The ticket referenced in the subject, else the ticket of a message the email replies to
+  private static async findThreadTicketId(mail: ParsedMail): Promise<string | undefined> {
+    const reference = mail.subject?.match(TICKET_REFERENCE_PATTERN);
+    if (reference) {
+      return reference[1].toLowerCase();
+    }
+
+    for (const messageId of referencedMessageIds(mail)) {
+      const ticketId = await getEmailMessageStore().getTicketId(messageId);
+      if (ticketId) {
+        return ticketId;
+      }
+    }
+    return undefined;
+  }
+
+  // Attachments are best effort once the ticket or comment exists: rejected files are listed, failures are logged
+  private static async addAttachments(result: EmailIngestResult, attachments: MailAttachment[], options: TicketWriteOptions): Promise<void> {
+    // Inline parts (e.g. signature images) belong to the HTML body rather than to the ticket
+    for (const file of attachments.filter(attachment => !attachment.related)) {
+      const fileName = file.filename ?? "attachment";
+      try {
+        const attachment = await AttachmentService.addAttachmentContent(result.ticketId!, { fileName, contentType: file.contentType, content: file.content }, options);
+        result.attachmentIds.push(attachment.id);
+      } catch (error) {
+        result.skippedAttachments.push(fileName);
+        if (error instanceof ZodError || error instanceof BadRequestError) {
+          logger.warn("Skip email attachment", { ticketId: result.ticketId, fileName, contentType: file.contentType, size: file.size });
+        } else {
+          logger.error("Email attachment failed", { ticketId: result.ticketId, fileName, error });
+        }
+      }
+    }
+  }
+
+  private static reject(result: EmailIngestResult, reason: string): EmailIngestResult {
+    logger.warn("Reject email", { messageId: result.messageId, reason });
+    return { ...result, reason };
+  }
+}
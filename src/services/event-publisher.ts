@@ -0,0 +1,49 @@
+import { EventBridgeClient, PutEventsCommand, PutEventsRequestEntry } from '@aws-sdk/client-eventbridge';
+import { config } from '../common/config';
+import { TicketEvent } from '../types/events';
+
+// PutEvents accepts at most 10 entries per call
+const MAX_ENTRIES_PER_PUT = 10;
+
+export interface EventPublisher {
+  publish(events: TicketEvent[]): Promise<void>;
+}
+
+// Keeps published events in memory, for tests and local runs
+export class InMemoryEventPublisher implements EventPublisher {
+  readonly events: TicketEvent[] = [];
+
+  async publish(events: TicketEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+export class EventBridgeEventPublisher implements EventPublisher {
+  constructor(
+    private readonly client: EventBridgeClient = new EventBridgeClient({}),
+    private readonly eventsConfig = config.events
+  ) {}
+
+  // Fails if any entry is rejected, so the caller can retry the whole batch; consumers dedupe by event id
+  async publish(events: TicketEvent[]): Promise<void> {
+    for (let start = 0; start < events.length; start += MAX_ENTRIES_PER_PUT) {
+      const entries: PutEventsRequestEntry[] = events.slice(start, start + MAX_ENTRIES_PER_PUT).map(event => ({
+        EventBusName: this.eventsConfig.busName,
+        Source: this.eventsConfig.source,
+        DetailType: event.type,
+        Detail: JSON.stringify(event),
+        Time: new Date(event.occurredAt),
+      }));
+
+      const response = await this.client.send(new PutEventsCommand({ Entries: entries }));
+      if (response.FailedEntryCount) {
+        const failures = (response.Entries ?? []).filter(entry => entry.ErrorCode).map(entry => `${entry.ErrorCode}: ${entry.ErrorMessage}`);
+        throw new Error(`EventBridge rejected ${response.FailedEntryCount} events: ${failures.join("; ")}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { ExportTicketsQueryDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { TicketExport } from '../types/import';
+import { Ticket } from '../types/ticket';
+import { CsvValue, neutralizeFormula, toCsv } from '../utils/csv';
+import { FieldDefinitionService } from './field-definition-service';
+import { TicketService } from './ticket-service';
+
+// A part stays well under the 6 MB response limit of Lambda; the tickets after it are fetched with X-Next-Cursor
+const EXPORT_PART_BYTES = 2 * 1024 * 1024;
+const EXPORT_PAGE_SIZE = 100;
+
+const CUSTOM_FIELD_PREFIX = "customFields.";
+
+// Columns of a CSV export, named like the fields of an import so that the file can be imported elsewhere;
+// custom fields follow as customFields.<key>
+const EXPORT_COLUMNS: (keyof Ticket)[] = [
+  "id", "externalRef", "title", "description", "status", "priority", "type", "reporterId", "assignedToId",
+  "resolutionNote", "queueId", "slaState", "resolvedAt", "mergedIntoId", "createdAt", "updatedAt",
+];
+
+function toCsvLine(ticket: Ticket, customFieldKeys: string[]): string {
+  const row: CsvValue[] = [
+    ...EXPORT_COLUMNS.map(column => ticket[column] as CsvValue),
+    ...customFieldKeys.map(key => ticket.customFields?.[key]),
+  ];
+  return toCsv([row.map(neutralizeFormula)]);
+}
+
+export class ExportService {
+  // One part of the matching tickets: pages are read until the part is full or there are no more tickets.
+  // CSV parts each start with the header; custom field columns are those of the type filter, or of every type.
+  static async exportTickets(query: ExportTicketsQueryDto, auth?: AuthContext): Promise<TicketExport> {
+    const { format, ...listQuery } = query;
+    const definitions = format === "csv" ? await FieldDefinitionService.listFieldDefinitions({ ticketType: query.type }) : [];
+    const customFieldKeys = [...new Set(definitions.map(definition => definition.key))];
+
+    let body = format === "csv" ? toCsv([[...EXPORT_COLUMNS, ...customFieldKeys.map(key => `${CUSTOM_FIELD_PREFIX}${key}`)]]) : "";
+    let size = Buffer.byteLength(body);
+    let count = 0;
+    let cursor = query.cursor;
+    do {
+      const page = await TicketService.listTickets({ ...listQuery, cursor, limit: EXPORT_PAGE_SIZE }, auth);
+      for (const ticket of page.items) {
+        const line = format === "csv" ? toCsvLine(ticket, customFieldKeys) : `${JSON.stringify(ticket)}\n`;
+        body += line;
+        size += Buffer.byteLength(line);
+      }
+      count += page.items.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor && size < EXPORT_PART_BYTES);
+
+    return { body, count, nextCursor: cursor };
+  }
+}
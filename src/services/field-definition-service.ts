@@ -0,0 +1,223 @@
+import z from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { assertCanManageFieldDefinitions } from '../auth/authorization';
+import { CustomFieldKind, TicketType } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ConflictError } from '../errors/conflict.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getFieldDefinitionRepository } from '../repositories';
+import { CreateFieldDefinitionDto, ListFieldDefinitionsQueryDto, MAX_FIELD_DEFINITIONS, PatchFieldDefinitionDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { CustomFieldValue, FieldDefinition } from '../types/field-definition';
+
+// Attempts for a PATCH when the definition changes between the read and the conditional write
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Custom field values of a write: null removes a value
+export type CustomFieldChanges = Record<string, CustomFieldValue | null>;
+
+// Definitions by ticket type, then in creation order
+function byTicketTypeThenCreation(a: FieldDefinition, b: FieldDefinition): number {
+  return a.ticketType.localeCompare(b.ticketType) || a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+// Schema of the value of one field, by kind
+function valueSchema(definition: FieldDefinition): z.ZodType<CustomFieldValue> {
+  switch (definition.kind) {
+    case CustomFieldKind.STRING:
+      return z.string("Must be a string").trim().min(1, "Must not be empty");
+    case CustomFieldKind.NUMBER:
+      return z.number("Must be a number");
+    case CustomFieldKind.ENUM:
+      return z.enum(definition.options ?? [], `Must be one of ${(definition.options ?? []).join(", ")}`);
+    case CustomFieldKind.DATE:
+      return z.iso.date("Must be a date (YYYY-MM-DD)");
+    case CustomFieldKind.USER:
+      return z.uuid("Must be a user id");
+  }
+}
+
+// Schema of the custom fields of a ticket type, built from its definitions; every field is optional here, required ones are
+// checked against the values the ticket ends up with
+export function customFieldsSchema(definitions: FieldDefinition[]): z.ZodType<Record<string, CustomFieldValue | undefined>> {
+  return z.object(Object.fromEntries(definitions.map(definition => [definition.key, valueSchema(definition).optional()])));
+}
+
+function pick(values: Record<string, CustomFieldValue>, keys: string[]): Record<string, CustomFieldValue> {
+  return Object.fromEntries(Object.entries(values).filter(([key]) => keys.includes(key)));
+}
+
+export class FieldDefinitionService {
+  static async createFieldDefinition(createFieldDefinitionDto: CreateFieldDefinitionDto, auth?: AuthContext): Promise<FieldDefinition> {
+    if (auth) {
+      assertCanManageFieldDefinitions(auth);
+    }
+
+    const { ticketType, key } = createFieldDefinitionDto;
+    const definitions = await FieldDefinitionService.getDefinitions(ticketType);
+    if (definitions.some(definition => definition.key === key)) {
+      throw new ConflictError(ErrorCodes.FIELD_DEFINITION_EXISTS, `${ticketType} tickets already have a custom field ${key}`);
+    }
+    if (definitions.length >= MAX_FIELD_DEFINITIONS) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`${ticketType} tickets can have at most ${MAX_FIELD_DEFINITIONS} custom fields`]);
+    }
+
+    const now = new Date().toISOString();
+    const definition: FieldDefinition = {
+      id: uuidv4(),
+      ticketType,
+      key,
+      label: createFieldDefinitionDto.label,
+      description: createFieldDefinitionDto.description,
+      kind: createFieldDefinitionDto.kind,
+      required: createFieldDefinitionDto.required,
+      options: createFieldDefinitionDto.options,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await getFieldDefinitionRepository().createFieldDefinition(definition);
+
+    logger.info("Create field definition", { fieldDefinitionId: definition.id, ticketType, key });
+    return definition;
+  }
+
+  // Readable by every caller, so that clients know which fields to fill in
+  static async listFieldDefinitions(query: ListFieldDefinitionsQueryDto): Promise<FieldDefinition[]> {
+    const definitions = await getFieldDefinitionRepository().listFieldDefinitions();
+    return definitions.filter(definition => !query.ticketType || definition.ticketType === query.ticketType).sort(byTicketTypeThenCreation);
+  }
+
+  static async getFieldDefinitionById(id: string): Promise<FieldDefinition> {
+    const definition = await getFieldDefinitionRepository().getFieldDefinition(id);
+    if (!definition) {
+      throw new NotFoundError(ErrorCodes.FIELD_DEFINITION_NOT_FOUND, `Field definition with id ${id} not found`);
+    }
+    return definition;
+  }
+
+  // Undefined fields are kept and a null description is removed. Values already stored on tickets are checked again
+  // only when a write changes them.
+  static async patchFieldDefinition(id: string, patchFieldDefinitionDto: PatchFieldDefinitionDto, auth?: AuthContext, attempt: number = 1): Promise<FieldDefinition> {
+    if (auth) {
+      assertCanManageFieldDefinitions(auth);
+    }
+
+    const current = await FieldDefinitionService.getFieldDefinitionById(id);
+    if (patchFieldDefinitionDto.options && current.kind !== CustomFieldKind.ENUM) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["options - Only ENUM fields have options"]);
+    }
+
+    const next: FieldDefinition = { ...current, version: current.version + 1, updatedAt: new Date().toISOString() };
+    for (const [field, value] of Object.entries(patchFieldDefinitionDto)) {
+      if (value === null) {
+        delete next[field as keyof FieldDefinition];
+      } else if (value !== undefined) {
+        Object.assign(next, { [field]: value });
+      }
+    }
+
+    if (await getFieldDefinitionRepository().updateFieldDefinition(current, next)) {
+      return next;
+    }
+
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return FieldDefinitionService.patchFieldDefinition(id, patchFieldDefinitionDto, auth, attempt + 1);
+    }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Field definition with id ${id} was modified concurrently`);
+  }
+
+  // Tickets keep the values of a deleted field until a write removes them or changes their type
+  static async deleteFieldDefinition(id: string, auth?: AuthContext): Promise<void> {
+    if (auth) {
+      assertCanManageFieldDefinitions(auth);
+    }
+
+    if (!await getFieldDefinitionRepository().deleteFieldDefinition(id)) {
+      throw new NotFoundError(ErrorCodes.FIELD_DEFINITION_NOT_FOUND, `Field definition with id ${id} not found`);
+    }
+    logger.info("Delete field definition", { fieldDefinitionId: id });
+  }
+
+  // Custom fields of a ticket after a write: the changes merged into the current values and checked against the definitions
+  // of the ticket type. Values the write leaves alone are checked again only when the type changes, and values of fields the
+  // new type does not define are then dropped. Undefined when the ticket ends up without custom fields.
+  static async resolveCustomFields(
+    ticketType: TicketType,
+    current: Record<string, CustomFieldValue> | undefined,
+    changes: CustomFieldChanges | undefined,
+    { typeChanged = false, requireAll = true }: { typeChanged?: boolean; requireAll?: boolean } = {}
+  ): Promise<Record<string, CustomFieldValue> | undefined> {
+    const definitions = await FieldDefinitionService.getDefinitions(ticketType);
+    const keys = definitions.map(definition => definition.key);
+    const errors: string[] = [];
+
+    // Values of unknown fields can still be removed, e.g. after their definition was deleted
+    const values = typeChanged ? pick(current ?? {}, keys) : { ...current };
+    const changed: string[] = [];
+    for (const [key, value] of Object.entries(changes ?? {})) {
+      if (value === null) {
+        delete values[key];
+      } else if (!keys.includes(key)) {
+        errors.push(`customFields.${key} - Not a custom field of ${ticketType} tickets`);
+      } else {
+        values[key] = value;
+        changed.push(key);
+      }
+    }
+
+    const parsed = customFieldsSchema(definitions).safeParse(typeChanged ? values : pick(values, changed));
+    if (parsed.success) {
+      Object.assign(values, parsed.data);
+    } else {
+      errors.push(...parsed.error.issues.map(issue => `customFields.${issue.path.join(".")} - ${issue.message}`));
+    }
+
+    if (requireAll) {
+      for (const definition of definitions) {
+        if (definition.required && values[definition.key] === undefined) {
+          errors.push(`customFields.${definition.key} - Required for ${ticketType} tickets`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", errors);
+    }
+    return Object.keys(values).length > 0 ? values : undefined;
+  }
+
+  // Values of list filters as stored: numbers for NUMBER fields, strings for the others
+  static async resolveCustomFieldFilters(filters: Record<string, string>, ticketType?: TicketType): Promise<Record<string, CustomFieldValue>> {
+    const definitions = ticketType
+      ? await FieldDefinitionService.getDefinitions(ticketType)
+      : await getFieldDefinitionRepository().listFieldDefinitions();
+
+    const resolved: Record<string, CustomFieldValue> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      const matching = definitions.filter(definition => definition.key === key);
+      if (matching.length === 0) {
+        throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid query parameters", [`customFields - Unknown custom field ${key}`]);
+      }
+      if (matching.some(definition => definition.kind === CustomFieldKind.NUMBER)) {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid query parameters", [`customFields - ${key} must be a number`]);
+        }
+        resolved[key] = number;
+      } else {
+        resolved[key] = value;
+      }
+    }
+    return resolved;
+  }
+
+  private static async getDefinitions(ticketType: TicketType): Promise<FieldDefinition[]> {
+    const definitions = await getFieldDefinitionRepository().listFieldDefinitions();
+    return definitions.filter(definition => definition.ticketType === ticketType).sort(byTicketTypeThenCreation);
+  }
+}
@@ -0,0 +1,90 @@
+import { v4 as uuidv4 } from 'uuid';
+import { assertCanViewTicket, isAdmin, isAgent } from '../auth/authorization';
+import { TicketHistoryAction } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { NotFoundError } from '../errors/not-found-error';
+import { logger } from '../observability/logger';
+import { ListHistoryQueryDto } from '../schemas/schemas';
+import { FieldChange, TicketHistoryEntry, TicketHistoryPage } from '../types/history';
+import { AuthContext } from '../types/auth';
+import { Ticket, TicketWriteOptions } from '../types/ticket';
+import { getTicketRepository } from '../repositories';
+
+// Business fields tracked in the history; bookkeeping attributes (version, timestamps, counters) are left out
+const TRACKED_FIELDS: (keyof Ticket)[] = [
+  "title",
+  "description",
+  "status",
+  "reporterId",
+  "assignedToId",
+  "priority",
+  "type",
+  "resolutionNote",
+  "mergedIntoId",
+];
+
+// Field-level diff between two states of a ticket; a missing state means created or deleted
+export function diffTickets(before: Ticket | undefined, after: Ticket | undefined): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  // Custom fields are recorded one by one, e.g. customFields.affectedService
+  const keys = new Set([...Object.keys(before?.customFields ?? {}), ...Object.keys(after?.customFields ?? {})]);
+  for (const key of [...keys].sort()) {
+    const oldValue = before?.customFields?.[key] ?? null;
+    const newValue = after?.customFields?.[key] ?? null;
+    if (oldValue !== newValue) {
+      changes.push({ field: `customFields.${key}`, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+// History entry to be stored in the same write as the ticket change it describes
+export function buildHistoryEntry(
+  ticketId: string,
+  action: TicketHistoryAction,
+  changes: FieldChange[],
+  options: TicketWriteOptions,
+  occurredAt: string
+): TicketHistoryEntry {
+  return {
+    id: uuidv4(),
+    ticketId,
+    action,
+    changes,
+    actorId: options.actorId,
+    requestId: options.requestId,
+    occurredAt,
+  };
+}
+
+export class HistoryService {
+  // History entries are kept after the ticket is deleted, so this only 404s when nothing was ever recorded
+  static async listHistory(ticketId: string, query: ListHistoryQueryDto, auth?: AuthContext): Promise<TicketHistoryPage> {
+    // Requesters can only read the history of their own, existing tickets
+    if (auth && !isAdmin(auth) && !isAgent(auth)) {
+      const ticket = await getTicketRepository().getTicket(ticketId);
+      if (!ticket) {
+        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+      }
+      assertCanViewTicket(auth, ticket);
+    }
+
+    const page = await getTicketRepository().queryHistory(ticketId, query);
+    if (page.items.length === 0 && !query.cursor && !(await getTicketRepository().getTicket(ticketId))) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+    }
+
+    logger.debug("List ticket history", { ticketId, count: page.items.length });
+    return page;
+  }
+}
@@ -0,0 +1,44 @@
+import { ErrorCodes } from "../common/error-codes";
+import { setIdempotencyStore } from "../repositories";
+import { InMemoryIdempotencyStore } from "../repositories/in-memory-idempotency-store";
+import { IdempotencyService } from "./idempotency-service";
+
+const request = { method: "POST", path: "/v1/tickets", body: "{}" };
+const created = { statusCode: 201, headers: {}, body: "{}" };
+
+describe("IdempotencyService.execute", () => {
+  beforeEach(() => setIdempotencyStore(new InMemoryIdempotencyStore()));
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => setIdempotencyStore(undefined));
+
+  it("answers 409 to a retry while the first request runs, then replays its response", async () => {
+    let finish!: () => void;
+    const first = IdempotencyService.execute("user-1", "key-1", request, () => new Promise(resolve => {
+      finish = () => resolve(created);
+    }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    await expect(IdempotencyService.execute("user-1", "key-1", request, async () => created))
+      .rejects.toMatchObject({ statusCode: 409, code: ErrorCodes.IDEMPOTENCY_KEY_IN_PROGRESS });
+
+    finish();
+    expect(await first).toEqual({ response: created, replayed: false });
+    expect(await IdempotencyService.execute("user-1", "key-1", request, async () => created)).toEqual({ response: created, replayed: true });
+  });
+
+  it("lets a retry take over a request that never completed", async () => {
+    const run = jest.fn().mockResolvedValue(created);
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    // The first request never completes, e.g. the Lambda timed out
+    void IdempotencyService.execute("user-1", "key-2", request, () => new Promise(() => {}));
+    await new Promise(resolve => setImmediate(resolve));
+
+    // Its in-progress record expires after a minute
+    jest.spyOn(Date, "now").mockReturnValue(now + 61 * 1000);
+    expect(await IdempotencyService.execute("user-1", "key-2", request, run)).toEqual({ response: created, replayed: false });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
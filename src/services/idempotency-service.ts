@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+import { ErrorCodes } from '../common/error-codes';
+import { ConflictError } from '../errors/conflict.error';
+import { UnprocessableEntityError } from '../errors/unprocessable-entity.error';
+import { logger } from '../observability/logger';
+import { getIdempotencyStore } from '../repositories';
+import { IdempotentResponse } from '../types/idempotency';
+
+// Retries are recognized for a day after the first request
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// A request still running after this long is considered lost (past the API Gateway timeout) and its key can be taken over
+const IN_PROGRESS_TTL_SECONDS = 60;
+
+function epochSeconds(offsetSeconds: number): number {
+  return Math.floor(Date.now() / 1000) + offsetSeconds;
+}
+
+export interface IdempotentResult {
+  response: IdempotentResponse;
+  // True when the response is the stored one of an earlier request
+  replayed: boolean;
+}
+
+export class IdempotencyService {
+  // Runs a request once per key and caller: retries of the same request get the stored response,
+  // a different request under the same key a 422, and a retry while the first one runs a 409.
+  static async execute(scope: string, idempotencyKey: string, request: unknown, run: () => Promise<IdempotentResponse>): Promise<IdempotentResult> {
+    const key = `${scope}#${idempotencyKey}`;
+    const fingerprint = createHash("sha256").update(JSON.stringify(request)).digest("hex");
+
+    const existing = await getIdempotencyStore().claim({ key, fingerprint, expiresAt: epochSeconds(IN_PROGRESS_TTL_SECONDS) });
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityError(ErrorCodes.IDEMPOTENCY_KEY_REUSED, "Idempotency-Key was already used for a different request");
+      }
+      if (!existing.response) {
+        throw new ConflictError(ErrorCodes.IDEMPOTENCY_KEY_IN_PROGRESS, "A request with this Idempotency-Key is still in progress");
+      }
+      logger.info("Replay idempotent response", { key, statusCode: existing.response.statusCode });
+      return { response: existing.response, replayed: true };
+    }
+
+    let response: IdempotentResponse;
+    try {
+      response = await run();
+    } catch (error) {
+      await getIdempotencyStore().release(key);
+      throw error;
+    }
+
+    // Server errors are not final: the key is freed so that the client can retry
+    if (response.statusCode >= 500) {
+      await getIdempotencyStore().release(key);
+      return { response, replayed: false };
+    }
+
+    // The request has been applied: a failure here is logged, and retries get a 409 until the in-progress record expires
+    try {
+      await getIdempotencyStore().complete(key, response, epochSeconds(IDEMPOTENCY_TTL_SECONDS));
+    } catch (error) {
+      logger.error("Idempotency record update failed", { key, error });
+    }
+    return { response, replayed: false };
+  }
+}
@@ -0,0 +1,242 @@
+import { assertCanImportTickets } from '../auth/authorization';
+import { CustomFieldKind, ImportRowOutcome, TicketType } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ConflictError } from '../errors/conflict.error';
+import { logger } from '../observability/logger';
+import { getImportReferenceStore, getTicketRepository } from '../repositories';
+import { ImportTicketRow, ImportTicketRowDto, ImportTicketsQueryDto, MAX_IMPORT_ROWS } from '../schemas/schemas';
+import { FieldDefinition } from '../types/field-definition';
+import { ImportResult, ImportRowResult } from '../types/import';
+import { TicketWriteOptions } from '../types/ticket';
+import { CsvError, restoreFormula, parseCsv } from '../utils/csv';
+import { toOperationError } from './batch-service';
+import { FieldDefinitionService } from './field-definition-service';
+import { TicketService } from './ticket-service';
+
+type ImportFormat = NonNullable<ImportTicketsQueryDto["format"]>;
+
+// Format of a body sent without the format parameter, by media type
+const MEDIA_TYPE_FORMATS: Record<string, ImportFormat> = {
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/ndjson": "ndjson",
+};
+
+const CUSTOM_FIELD_PREFIX = "customFields.";
+
+// A row as read from the body, before it is checked against ImportTicketRow
+interface RawRow {
+  line: number;
+  // Undefined when the row could not be read, e.g. a line of NDJSON that is not JSON
+  value?: Record<string, unknown>;
+  error?: string;
+}
+
+function formatOf(query: ImportTicketsQueryDto, contentType: string | undefined): ImportFormat {
+  if (query.format) {
+    return query.format;
+  }
+  const format = MEDIA_TYPE_FORMATS[contentType?.split(";")[0].trim().toLowerCase() ?? ""];
+  if (!format) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Unsupported import format", [
+      "Content-Type - Send text/csv or application/x-ndjson, or set the format parameter",
+    ]);
+  }
+  return format;
+}
+
+// Sets a mapped value on the row; customFields.<key> columns go into the custom fields
+function setField(row: Record<string, unknown>, target: string, value: unknown): void {
+  if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+    const customFields = (row.customFields ??= {}) as Record<string, unknown>;
+    customFields[target.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+  } else {
+    row[target] = value;
+  }
+}
+
+// CSV has no numbers: values of NUMBER custom fields are converted, using the definitions of the row's type
+function toCsvRow(columns: string[], fields: string[], definitions: FieldDefinition[]): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  columns.forEach((column, index) => {
+    // Empty cells are missing values, so that optional columns can be left blank
+    if (fields[index]) {
+      setField(row, column, restoreFormula(fields[index]));
+    }
+  });
+
+  const type = Object.values(TicketType).find(type => type === row.type) ?? TicketType.INCIDENT;
+  const customFields = row.customFields as Record<string, unknown> | undefined;
+  for (const definition of definitions) {
+    const value = customFields?.[definition.key];
+    if (definition.ticketType === type && definition.kind === CustomFieldKind.NUMBER && typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+      customFields![definition.key] = Number(value);
+    }
+  }
+  return row;
+}
+
+function readCsv(body: string, mapping: Record<string, string>, definitions: FieldDefinition[]): RawRow[] {
+  let records;
+  try {
+    records = [...parseCsv(body)];
+  } catch (error) {
+    if (error instanceof CsvError) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid CSV body", [`line ${error.line} - ${error.message}`]);
+    }
+    throw error;
+  }
+
+  const [header, ...rows] = records;
+  if (!header) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid CSV body", ["The first line must name the columns"]);
+  }
+  const columns = header.fields.map(column => mapping[column.trim()] ?? column.trim());
+  const repeated = columns.filter((column, index) => column && columns.indexOf(column) !== index);
+  if (repeated.length > 0) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid CSV body", repeated.map(column => `${column} - Mapped from more than one column`));
+  }
+  assertRowCount(rows.length);
+
+  return rows.map(({ line, fields }) => fields.length === columns.length
+    ? { line, value: toCsvRow(columns, fields, definitions) }
+    : { line, error: `Expected ${columns.length} fields, found ${fields.length}` });
+}
+
+function readNdjson(body: string, mapping: Record<string, string>): RawRow[] {
+  const rows = body.split(/\r?\n/).flatMap((text, index) => text.trim() ? [{ line: index + 1, text }] : []);
+  assertRowCount(rows.length);
+
+  return rows.map(({ line, text }) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      return { line, error: `Invalid JSON: ${(error as Error).message}` };
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { line, error: "Expected a JSON object" };
+    }
+
+    const row: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      setField(row, mapping[key] ?? key, value);
+    }
+    return { line, value: row };
+  });
+}
+
+// Checked before any row is written, so that a file is never imported halfway because of its size
+function assertRowCount(count: number): void {
+  if (count === 0) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body - No rows to import"]);
+  }
+  if (count > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`Body - At most ${MAX_IMPORT_ROWS} rows can be imported per request`]);
+  }
+}
+
+export class ImportService {
+  // Creates a ticket per row, in order; a row that fails does not stop the others. Rows with an external reference
+  // imported before, by this or an earlier import, are skipped, so that a file can be sent again after a failure.
+  static async importTickets(
+    body: string | null,
+    query: ImportTicketsQueryDto,
+    contentType: string | undefined,
+    options: TicketWriteOptions = {}
+  ): Promise<ImportResult> {
+    if (options.auth) {
+      assertCanImportTickets(options.auth);
+    }
+    if (!body) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["Body not found"]);
+    }
+
+    const mapping = query.mapping ?? {};
+    const rows = formatOf(query, contentType) === "csv"
+      ? readCsv(body, mapping, await FieldDefinitionService.listFieldDefinitions({}))
+      : readNdjson(body, mapping);
+
+    // References and ids of the earlier rows of the file, which a dry run does not record
+    const seenRefs = new Map<string, string | undefined>();
+    const seenIds = new Set<string>();
+    const results: ImportRowResult[] = [];
+    for (const [index, row] of rows.entries()) {
+      const result: ImportRowResult = { row: index + 1, line: row.line, outcome: ImportRowOutcome.CREATED };
+      try {
+        if (!row.value) {
+          throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [row.error!]);
+        }
+        Object.assign(result, await ImportService.importRow(ImportTicketRow.parse(row.value), query.dryRun, seenRefs, seenIds, options));
+      } catch (error) {
+        const failure = toOperationError(error);
+        result.outcome = ImportRowOutcome.FAILED;
+        result.error = { code: failure.code, message: failure.message, details: failure.details ?? undefined };
+      }
+      results.push(result);
+    }
+
+    const count = (outcome: ImportRowOutcome) => results.filter(result => result.outcome === outcome).length;
+    const result: ImportResult = {
+      dryRun: query.dryRun,
+      created: count(ImportRowOutcome.CREATED),
+      skipped: count(ImportRowOutcome.SKIPPED),
+      failed: count(ImportRowOutcome.FAILED),
+      rows: results,
+    };
+    logger.info("Import tickets", { dryRun: result.dryRun, created: result.created, skipped: result.skipped, failed: result.failed });
+    return result;
+  }
+
+  private static async importRow(
+    row: ImportTicketRowDto,
+    dryRun: boolean,
+    seenRefs: Map<string, string | undefined>,
+    seenIds: Set<string>,
+    options: TicketWriteOptions
+  ): Promise<Pick<ImportRowResult, "outcome" | "ticketId">> {
+    const { id, externalRef, resolutionNote, createdAt, updatedAt, resolvedAt, ...createTicketDto } = row;
+
+    if (externalRef && seenRefs.has(externalRef)) {
+      return { outcome: ImportRowOutcome.SKIPPED, ticketId: seenRefs.get(externalRef) };
+    }
+    const importedId = externalRef && await getImportReferenceStore().getTicketId(externalRef);
+    if (importedId) {
+      return { outcome: ImportRowOutcome.SKIPPED, ticketId: importedId };
+    }
+    if (id && (seenIds.has(id) || await getTicketRepository().getTicket(id, { includeDeleted: true }))) {
+      throw new ConflictError(ErrorCodes.TICKET_EXISTS, `Ticket with id ${id} already exists`);
+    }
+
+    const original = { id, externalRef, resolutionNote, createdAt, updatedAt, resolvedAt };
+    let ticketId: string | undefined;
+    if (dryRun) {
+      await TicketService.prepareCreate(createTicketDto, options, { dryRun, original });
+    } else {
+      ticketId = (await TicketService.createTicket(createTicketDto, options, { original })).id;
+      if (externalRef) {
+        await ImportService.recordReference(externalRef, ticketId);
+      }
+    }
+
+    if (id) {
+      seenIds.add(id);
+    }
+    if (externalRef) {
+      seenRefs.set(externalRef, ticketId);
+    }
+    return { outcome: ImportRowOutcome.CREATED, ticketId };
+  }
+
+  // The ticket is written by then, so a failure is logged rather than failing the row; the row would be imported again by a resend
+  private static async recordReference(externalRef: string, ticketId: string): Promise<void> {
+    try {
+      if (!await getImportReferenceStore().record(externalRef, ticketId)) {
+        logger.warn("Import reference already recorded by a concurrent import", { externalRef, ticketId });
+      }
+    } catch (error) {
+      logger.error("Import reference record failed", { externalRef, ticketId, error });
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { assertCanEditTicket, assertCanViewTicket } from '../auth/authorization';
+import { TicketLinkType, TicketStatus } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ConflictError } from '../errors/conflict.error';
+import { InvalidStatusTransitionError } from '../errors/invalid-status-transition.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { logger } from '../observability/logger';
+import { getTicketRepository } from '../repositories';
+import { CreateTicketLinkDto, MAX_TICKET_LINKS } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { TicketLink } from '../types/link';
+import { Ticket, TicketWriteOptions } from '../types/ticket';
+import { isFinal } from './sla-service';
+
+// Tickets visited at most when looking for a cycle before a link is rejected as unverifiable
+const MAX_CYCLE_CHECK_TICKETS = 500;
+
+const INVERSE_LINK_TYPES: Record<TicketLinkType, TicketLinkType> = {
+  [TicketLinkType.PARENT_OF]: TicketLinkType.CHILD_OF,
+  [TicketLinkType.CHILD_OF]: TicketLinkType.PARENT_OF,
+  [TicketLinkType.BLOCKS]: TicketLinkType.BLOCKED_BY,
+  [TicketLinkType.BLOCKED_BY]: TicketLinkType.BLOCKS,
+  [TicketLinkType.DUPLICATE_OF]: TicketLinkType.DUPLICATED_BY,
+  [TicketLinkType.DUPLICATED_BY]: TicketLinkType.DUPLICATE_OF,
+  [TicketLinkType.RELATES_TO]: TicketLinkType.RELATES_TO,
+};
+
+// Directions in which links must not form cycles; the inverse types are checked through them
+const ACYCLIC_LINK_TYPES = [TicketLinkType.PARENT_OF, TicketLinkType.BLOCKS, TicketLinkType.DUPLICATE_OF];
+
+// Type of the link as read from the linked ticket
+export function inverseLinkType(type: TicketLinkType): TicketLinkType {
+  return INVERSE_LINK_TYPES[type];
+}
+
+// A link as an edge of the graph that must stay acyclic, e.g. "B CHILD_OF A" is the edge A PARENT_OF B
+function toAcyclicEdge(ticketId: string, type: TicketLinkType, linkedTicketId: string): { from: string; to: string; type: TicketLinkType } | undefined {
+  if (ACYCLIC_LINK_TYPES.includes(type)) {
+    return { from: ticketId, to: linkedTicketId, type };
+  }
+  const inverse = inverseLinkType(type);
+  return ACYCLIC_LINK_TYPES.includes(inverse) ? { from: linkedTicketId, to: ticketId, type: inverse } : undefined;
+}
+
+// Whether target can be reached from start following links of the type, breadth first
+async function reaches(start: string, target: string, type: TicketLinkType): Promise<boolean> {
+  const visited = new Set([start]);
+  let frontier = [start];
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const ticketId of frontier) {
+      for (const link of await getTicketRepository().queryLinks(ticketId)) {
+        if (link.type !== type || visited.has(link.linkedTicketId)) {
+          continue;
+        }
+        if (link.linkedTicketId === target) {
+          return true;
+        }
+        visited.add(link.linkedTicketId);
+        next.push(link.linkedTicketId);
+      }
+    }
+
+    if (visited.size > MAX_CYCLE_CHECK_TICKETS) {
+      throw new ConflictError(ErrorCodes.INVALID_TICKET_LINK, `More than ${MAX_CYCLE_CHECK_TICKETS} tickets are linked by ${type}; the link cannot be checked for cycles`);
+    }
+    frontier = next;
+  }
+
+  return false;
+}
+
+// Tickets have at most one parent and are the duplicate of at most one ticket
+function assertSingleTarget(ticketId: string, links: TicketLink[], type: TicketLinkType): void {
+  const existing = links.find(link => link.type === type);
+  if (existing) {
+    throw new ConflictError(ErrorCodes.INVALID_TICKET_LINK, `Ticket ${ticketId} is already ${type} ticket ${existing.linkedTicketId}`);
+  }
+}
+
+async function getTicketOrThrow(ticketId: string): Promise<Ticket> {
+  const ticket = await getTicketRepository().getTicket(ticketId);
+  if (!ticket) {
+    throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+  }
+  return ticket;
+}
+
+export class LinkService {
+  static async listLinks(ticketId: string, auth?: AuthContext): Promise<TicketLink[]> {
+    const ticket = await getTicketOrThrow(ticketId);
+    if (auth) {
+      assertCanViewTicket(auth, ticket);
+    }
+    return getTicketRepository().queryLinks(ticketId);
+  }
+
+  // Links the ticket and its inverse on the linked ticket, once the link keeps the hierarchies consistent:
+  // one parent and one duplicate target per ticket, and no cycles of parents, blockers or duplicates
+  static async createLink(ticketId: string, createLinkDto: CreateTicketLinkDto, options: TicketWriteOptions = {}): Promise<TicketLink> {
+    const { type, ticketId: linkedTicketId } = createLinkDto;
+    if (linkedTicketId === ticketId) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["ticketId - A ticket cannot be linked to itself"]);
+    }
+
+    const [ticket, linkedTicket] = await Promise.all([getTicketOrThrow(ticketId), getTicketOrThrow(linkedTicketId)]);
+    if (options.auth) {
+      assertCanEditTicket(options.auth, ticket);
+      assertCanViewTicket(options.auth, linkedTicket);
+    }
+
+    const [links, linkedLinks] = await Promise.all([getTicketRepository().queryLinks(ticketId), getTicketRepository().queryLinks(linkedTicketId)]);
+    if (links.some(link => link.linkedTicketId === linkedTicketId)) {
+      throw new ConflictError(ErrorCodes.TICKET_LINK_EXISTS, `Ticket ${ticketId} is already linked to ticket ${linkedTicketId}`);
+    }
+    for (const [id, existing] of [[ticketId, links], [linkedTicketId, linkedLinks]] as const) {
+      if (existing.length >= MAX_TICKET_LINKS) {
+        throw new ConflictError(ErrorCodes.INVALID_TICKET_LINK, `Ticket ${id} already has ${MAX_TICKET_LINKS} links`);
+      }
+    }
+
+    const inverseType = inverseLinkType(type);
+    for (const [id, existing, linkType] of [[ticketId, links, type], [linkedTicketId, linkedLinks, inverseType]] as const) {
+      if (linkType === TicketLinkType.CHILD_OF || linkType === TicketLinkType.DUPLICATE_OF) {
+        assertSingleTarget(id, existing, linkType);
+      }
+    }
+
+    const edge = toAcyclicEdge(ticketId, type, linkedTicketId);
+    if (edge && await reaches(edge.to, edge.from, edge.type)) {
+      throw new ConflictError(ErrorCodes.INVALID_TICKET_LINK, `Linking ticket ${ticketId} ${type} ticket ${linkedTicketId} would create a cycle`);
+    }
+
+    const createdAt = new Date().toISOString();
+    const link: TicketLink = { ticketId, linkedTicketId, type, createdBy: options.actorId, createdAt };
+    const inverse: TicketLink = { ticketId: linkedTicketId, linkedTicketId: ticketId, type: inverseType, createdBy: options.actorId, createdAt };
+
+    // Another request linked the same tickets since we read the links
+    if (!await getTicketRepository().createLink(link, inverse)) {
+      throw new ConflictError(ErrorCodes.TICKET_LINK_EXISTS, `Ticket ${ticketId} is already linked to ticket ${linkedTicketId}`);
+    }
+
+    logger.info("Link tickets", { ticketId, linkedTicketId, type });
+    return link;
+  }
+
+  // Removes the link from both tickets
+  static async deleteLink(ticketId: string, linkedTicketId: string, options: TicketWriteOptions = {}): Promise<void> {
+    const ticket = await getTicketOrThrow(ticketId);
+    if (options.auth) {
+      assertCanEditTicket(options.auth, ticket);
+    }
+
+    if (!await getTicketRepository().deleteLink(ticketId, linkedTicketId)) {
+      throw new NotFoundError(ErrorCodes.TICKET_LINK_NOT_FOUND, `Ticket ${ticketId} is not linked to ticket ${linkedTicketId}`);
+    }
+    logger.info("Unlink tickets", { ticketId, linkedTicketId });
+  }
+
+  // Children of the ticket that are neither resolved nor closed; children in the trash do not count
+  static async getOpenChildIds(ticketId: string): Promise<string[]> {
+    const childIds = (await getTicketRepository().queryLinks(ticketId))
+      .filter(link => link.type === TicketLinkType.PARENT_OF)
+      .map(link => link.linkedTicketId);
+    if (childIds.length === 0) {
+      return [];
+    }
+
+    const children = await getTicketRepository().getTickets(childIds);
+    return children.filter(child => !isFinal(child.status)).map(child => child.id);
+  }
+
+  // A parent can only be resolved or closed once all of its children are
+  static async assertNoOpenChildren(ticket: Ticket, status: TicketStatus): Promise<void> {
+    const openChildIds = await LinkService.getOpenChildIds(ticket.id);
+    if (openChildIds.length > 0) {
+      throw new InvalidStatusTransitionError(
+        ErrorCodes.OPEN_CHILD_TICKETS,
+        `Ticket cannot be ${status} while child tickets are open`,
+        openChildIds
+      );
+    }
+  }
+
+  // Purged tickets are unlinked from the tickets they were linked to
+  static async syncTicket(before: Ticket | undefined, after: Ticket | undefined): Promise<void> {
+    if (!before || after) {
+      return;
+    }
+
+    for (const link of await getTicketRepository().queryLinks(before.id)) {
+      await getTicketRepository().deleteLink(link.ticketId, link.linkedTicketId);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { assertCanMergeTickets } from '../auth/authorization';
+import { TicketHistoryAction, TicketLinkType, TicketStatus } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ConflictError } from '../errors/conflict.error';
+import { InvalidStatusTransitionError } from '../errors/invalid-status-transition.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getTicketRepository } from '../repositories';
+import { MergeTicketsDto } from '../schemas/schemas';
+import { TicketMergeResult } from '../types/link';
+import { Ticket, TicketWriteOptions } from '../types/ticket';
+import { buildHistoryEntry } from './history-service';
+import { LinkService } from './link-service';
+import { assertExpectedVersion, TicketService } from './ticket-service';
+
+// Comments and history entries read per round trip while they are moved or copied
+const MERGE_PAGE_SIZE = 100;
+
+// Attempts for the survivor's write when it changes in between, as for PUT/PATCH
+const MAX_WRITE_ATTEMPTS = 3;
+
+async function getTicketOrThrow(ticketId: string): Promise<Ticket> {
+  const ticket = await getTicketRepository().getTicket(ticketId);
+  if (!ticket) {
+    throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${ticketId} not found`);
+  }
+  return ticket;
+}
+
+export class MergeService {
+  // Merges duplicates into the survivor: each duplicate is linked DUPLICATE_OF the survivor and CLOSED with mergedIntoId,
+  // its comments move to the survivor and its history is copied there. Every step skips what is already done,
+  // so a merge that failed halfway can be sent again.
+  static async mergeTickets(survivorId: string, mergeTicketsDto: MergeTicketsDto, options: TicketWriteOptions = {}): Promise<TicketMergeResult> {
+    if (options.auth) {
+      assertCanMergeTickets(options.auth);
+    }
+    const { duplicateIds } = mergeTicketsDto;
+    if (duplicateIds.includes(survivorId)) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["duplicateIds - A ticket cannot be merged into itself"]);
+    }
+
+    const survivor = await getTicketOrThrow(survivorId);
+    assertExpectedVersion(survivor, options.expectedVersion);
+    if (survivor.mergedIntoId) {
+      throw new ConflictError(ErrorCodes.INVALID_TICKET_MERGE, `Ticket ${survivorId} was merged into ticket ${survivor.mergedIntoId}`);
+    }
+
+    const duplicates = await Promise.all(duplicateIds.map(getTicketOrThrow));
+    for (const duplicate of duplicates) {
+      await MergeService.assertCanMerge(survivorId, duplicate);
+    }
+
+    // Links first: they are the step most likely to be refused (e.g. a cycle), before any ticket is closed
+    for (const duplicate of duplicates) {
+      await MergeService.linkDuplicate(survivorId, duplicate.id, options);
+    }
+
+    // Internal writes: permissions were checked for the merge as a whole
+    const writeOptions: TicketWriteOptions = { actorId: options.actorId, requestId: options.requestId };
+    const merged: TicketMergeResult["merged"] = [];
+    for (const duplicate of duplicates) {
+      if (!duplicate.mergedIntoId) {
+        await MergeService.closeDuplicate(survivorId, duplicate, writeOptions);
+      }
+      merged.push({
+        ticketId: duplicate.id,
+        movedComments: await MergeService.moveComments(duplicate.id, survivorId),
+        copiedHistoryEntries: await MergeService.copyHistory(duplicate.id, survivorId),
+      });
+    }
+
+    const ticket = await MergeService.recordMerge(survivorId, duplicateIds, writeOptions);
+    logger.info("Merge tickets", { ticketId: survivorId, duplicateIds });
+    return { ticket, merged };
+  }
+
+  // Duplicates are merged once, and closing them must not leave open children behind
+  private static async assertCanMerge(survivorId: string, duplicate: Ticket): Promise<void> {
+    if (duplicate.mergedIntoId === survivorId) {
+      return;
+    }
+    if (duplicate.mergedIntoId) {
+      throw new ConflictError(ErrorCodes.INVALID_TICKET_MERGE, `Ticket ${duplicate.id} was merged into ticket ${duplicate.mergedIntoId}`);
+    }
+
+    const openChildIds = await LinkService.getOpenChildIds(duplicate.id);
+    if (openChildIds.length > 0) {
+      throw new InvalidStatusTransitionError(ErrorCodes.OPEN_CHILD_TICKETS, `Ticket ${duplicate.id} cannot be merged while child tickets are open`, openChildIds);
+    }
+  }
+
+  // Any other link between the two tickets is replaced by DUPLICATE_OF
+  private static async linkDuplicate(survivorId: string, duplicateId: string, options: TicketWriteOptions): Promise<void> {
+    const existing = (await getTicketRepository().queryLinks(duplicateId)).find(link => link.linkedTicketId === survivorId);
+    if (existing?.type === TicketLinkType.DUPLICATE_OF) {
+      return;
+    }
+    if (existing) {
+      await getTicketRepository().deleteLink(duplicateId, survivorId);
+    }
+    await LinkService.createLink(duplicateId, { type: TicketLinkType.DUPLICATE_OF, ticketId: survivorId }, { actorId: options.actorId });
+  }
+
+  // Closed from whatever status it is in, outside the workflow
+  private static async closeDuplicate(survivorId: string, duplicate: Ticket, options: TicketWriteOptions): Promise<void> {
+    const { next, history } = await TicketService.prepareUpdate(
+      duplicate,
+      { status: TicketStatus.CLOSED, mergedIntoId: survivorId },
+      options,
+      { enforceWorkflow: false }
+    );
+
+    if (!await getTicketRepository().updateTicket(duplicate, next, history && { ...history, action: TicketHistoryAction.MERGED })) {
+      throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${duplicate.id} was modified concurrently`);
+    }
+    await TicketService.afterWrite(duplicate, next);
+  }
+
+  // Moved comments leave the duplicate, so its first page is read until it is empty
+  private static async moveComments(duplicateId: string, survivorId: string): Promise<number> {
+    let moved = 0;
+    let page = await getTicketRepository().queryComments(duplicateId, { limit: MERGE_PAGE_SIZE });
+    while (page.items.length > 0) {
+      for (const comment of page.items) {
+        const movedComment = await getTicketRepository().moveComment(comment, survivorId);
+        await TicketService.afterCommentWrite(duplicateId, comment.id, undefined);
+        await TicketService.afterCommentWrite(survivorId, comment.id, movedComment);
+        moved++;
+      }
+      page = await getTicketRepository().queryComments(duplicateId, { limit: MERGE_PAGE_SIZE });
+    }
+    return moved;
+  }
+
+  // The duplicate keeps its own history; entries it took in from earlier merges keep naming their origin
+  private static async copyHistory(duplicateId: string, survivorId: string): Promise<number> {
+    let copied = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await getTicketRepository().queryHistory(duplicateId, { limit: MERGE_PAGE_SIZE, cursor, sort: "asc" });
+      await getTicketRepository().importHistory(page.items.map(entry => ({
+        ...entry,
+        ticketId: survivorId,
+        mergedFromTicketId: entry.mergedFromTicketId ?? duplicateId,
+      })));
+      copied += page.items.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return copied;
+  }
+
+  // The survivor's history records which tickets were merged into it
+  private static async recordMerge(survivorId: string, duplicateIds: string[], options: TicketWriteOptions, attempt: number = 1): Promise<Ticket> {
+    const current = await getTicketOrThrow(survivorId);
+    const now = new Date().toISOString();
+    const next: Ticket = { ...current, version: current.version + 1, updatedAt: now, lastActivityAt: now };
+    const history = buildHistoryEntry(survivorId, TicketHistoryAction.MERGED, [{ field: "mergedTicketIds", oldValue: null, newValue: duplicateIds }], options, now);
+
+    if (await getTicketRepository().updateTicket(current, next, history)) {
+      await TicketService.afterWrite(current, next);
+      return next;
+    }
+
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return MergeService.recordMerge(survivorId, duplicateIds, options, attempt + 1);
+    }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${survivorId} was modified concurrently`);
+  }
+}
@@ -0,0 +1,54 @@
+import { TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { Ticket } from "../types/ticket";
+import { agentLoadDelta, matchesRule } from "./queue-service";
+
+const createdAt = "2025-03-03T09:00:00.000Z";
+const agentId = "6f1c1f5e-2a4b-4c1e-9a55-000000000003";
+const otherAgentId = "6f1c1f5e-2a4b-4c1e-9a55-000000000004";
+
+function buildTicket(overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id: "6f1c1f5e-2a4b-4c1e-9a55-000000000001",
+    title: "Impresora atascada",
+    description: "Third floor",
+    status: TicketStatus.NEW,
+    reporterId: "6f1c1f5e-2a4b-4c1e-9a55-000000000002",
+    priority: TicketPriority.HIGH,
+    type: TicketType.INCIDENT,
+    version: 1,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe("matchesRule", () => {
+  it("requires every condition that is set, keywords as whole words ignoring case and accents", () => {
+    const ticket = buildTicket({ title: "La IMPRESIÓN falla" });
+
+    expect(matchesRule({ keywords: ["impresion"] }, ticket)).toBe(true);
+    expect(matchesRule({ keywords: ["impres"] }, ticket)).toBe(false);
+    expect(matchesRule({ types: [TicketType.INCIDENT], priorities: [TicketPriority.HIGH, TicketPriority.CRITICAL] }, ticket)).toBe(true);
+    expect(matchesRule({ types: [TicketType.INCIDENT], keywords: ["vpn", "falla"] }, ticket)).toBe(true);
+    expect(matchesRule({ types: [TicketType.QUESTION], keywords: ["falla"] }, ticket)).toBe(false);
+    expect(matchesRule({ keywords: ["constructor", "toString"] }, ticket)).toBe(false);
+  });
+});
+
+describe("agentLoadDelta", () => {
+  it("counts open tickets for their assignee until they are resolved, reassigned or deleted", () => {
+    const assigned = buildTicket({ assignedToId: agentId });
+    expect(agentLoadDelta(undefined, buildTicket())).toEqual({});
+    expect(agentLoadDelta(undefined, assigned)).toEqual({ [agentId]: 1 });
+
+    const reassigned = { ...assigned, assignedToId: otherAgentId, version: 2 };
+    expect(agentLoadDelta(assigned, reassigned)).toEqual({ [agentId]: -1, [otherAgentId]: 1 });
+
+    const resolved = { ...reassigned, status: TicketStatus.RESOLVED, version: 3 };
+    expect(agentLoadDelta(reassigned, resolved)).toEqual({ [otherAgentId]: -1 });
+    expect(agentLoadDelta(resolved, { ...resolved, status: TicketStatus.OPEN, version: 4 })).toEqual({ [otherAgentId]: 1 });
+
+    expect(agentLoadDelta(reassigned, { ...reassigned, deletedAt: createdAt, version: 3 })).toEqual({ [otherAgentId]: -1 });
+    expect(agentLoadDelta(resolved, undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,240 @@
+import { v4 as uuidv4 } from 'uuid';
+import { assertCanManageQueues, assertCanViewQueues } from '../auth/authorization';
+import { AssignmentStrategy } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getAgentLoadStore, getQueueRepository, getTicketRepository } from '../repositories';
+import { CreateQueueDto, ListQueueTicketsQueryDto, MAX_QUEUES, PatchQueueDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Queue, QueueRule } from '../types/queue';
+import { Ticket, TicketPage } from '../types/ticket';
+import { normalizeWord, tokenize } from '../utils/text-search';
+import { isFinal } from './sla-service';
+
+// Attempts for a PATCH when the queue changes between the read and the conditional write
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Queue and assignee given to a ticket by routing; fields are only set when routing decided them
+export type TicketRouting = Pick<Ticket, "queueId" | "assignedToId">;
+
+// Queues are tried by position, then in creation order
+function byRoutingOrder(a: Queue, b: Queue): number {
+  return a.position - b.position || a.createdAt.localeCompare(b.createdAt);
+}
+
+// Every condition the rule sets must match; keywords match whole words of the title
+export function matchesRule(rule: QueueRule, ticket: Pick<Ticket, "title" | "type" | "priority">): boolean {
+  if (rule.types && !rule.types.includes(ticket.type)) {
+    return false;
+  }
+  if (rule.priorities && !rule.priorities.includes(ticket.priority)) {
+    return false;
+  }
+  if (rule.keywords) {
+    const words = new Set(Object.keys(tokenize(ticket.title)));
+    return rule.keywords.some(keyword => words.has(normalizeWord(keyword)));
+  }
+  return true;
+}
+
+// The agent an open ticket counts for; resolved, closed and deleted tickets count for nobody
+function loadedAgent(ticket: Ticket | undefined): string | undefined {
+  return ticket && !ticket.deletedAt && !isFinal(ticket.status) ? ticket.assignedToId : undefined;
+}
+
+// Load counter changes of a ticket write (before undefined: created, after undefined: purged)
+export function agentLoadDelta(before: Ticket | undefined, after: Ticket | undefined): Record<string, number> {
+  const from = loadedAgent(before);
+  const to = loadedAgent(after);
+  if (from === to) {
+    return {};
+  }
+
+  const delta: Record<string, number> = {};
+  if (from) {
+    delta[from] = -1;
+  }
+  if (to) {
+    delta[to] = 1;
+  }
+  return delta;
+}
+
+export class QueueService {
+  static async createQueue(createQueueDto: CreateQueueDto, auth?: AuthContext): Promise<Queue> {
+    if (auth) {
+      assertCanManageQueues(auth);
+    }
+
+    const queues = await getQueueRepository().listQueues();
+    if (queues.length >= MAX_QUEUES) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`There can be at most ${MAX_QUEUES} queues`]);
+    }
+
+    const now = new Date().toISOString();
+    const queue: Queue = {
+      id: uuidv4(),
+      name: createQueueDto.name,
+      description: createQueueDto.description,
+      agentIds: createQueueDto.agentIds,
+      strategy: createQueueDto.strategy,
+      rules: createQueueDto.rules,
+      position: createQueueDto.position,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await getQueueRepository().createQueue(queue);
+
+    return queue;
+  }
+
+  // Every queue, in routing order
+  static async listQueues(auth?: AuthContext): Promise<Queue[]> {
+    if (auth) {
+      assertCanViewQueues(auth);
+    }
+    return (await getQueueRepository().listQueues()).sort(byRoutingOrder);
+  }
+
+  static async getQueueById(id: string, auth?: AuthContext): Promise<Queue> {
+    if (auth) {
+      assertCanViewQueues(auth);
+    }
+
+    const queue = await getQueueRepository().getQueue(id);
+    if (!queue) {
+      throw new NotFoundError(ErrorCodes.QUEUE_NOT_FOUND, `Queue with id ${id} not found`);
+    }
+    return queue;
+  }
+
+  // Undefined fields are kept and a null description is removed. Tickets already routed keep their queue and assignee.
+  static async patchQueue(id: string, patchQueueDto: PatchQueueDto, auth?: AuthContext, attempt: number = 1): Promise<Queue> {
+    if (auth) {
+      assertCanManageQueues(auth);
+    }
+
+    const current = await QueueService.getQueueById(id);
+    const next: Queue = { ...current, version: current.version + 1, updatedAt: new Date().toISOString() };
+    for (const [field, value] of Object.entries(patchQueueDto)) {
+      if (value === null) {
+        delete next[field as keyof Queue];
+      } else if (value !== undefined) {
+        Object.assign(next, { [field]: value });
+      }
+    }
+
+    if (await getQueueRepository().updateQueue(current, next)) {
+      return next;
+    }
+
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return QueueService.patchQueue(id, patchQueueDto, auth, attempt + 1);
+    }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Queue with id ${id} was modified concurrently`);
+  }
+
+  // Tickets of a deleted queue keep its id; they are routed again by the rules if they are re-opened
+  static async deleteQueue(id: string, auth?: AuthContext): Promise<void> {
+    if (auth) {
+      assertCanManageQueues(auth);
+    }
+
+    if (!await getQueueRepository().deleteQueue(id)) {
+      throw new NotFoundError(ErrorCodes.QUEUE_NOT_FOUND, `Queue with id ${id} not found`);
+    }
+  }
+
+  // Tickets routed to the queue, newest first by default, through the queue index
+  static async listQueueTickets(id: string, query: ListQueueTicketsQueryDto, auth?: AuthContext): Promise<TicketPage> {
+    await QueueService.getQueueById(id, auth);
+
+    return getTicketRepository().queryTickets({
+      filters: {
+        queueId: id,
+        status: query.status,
+        priority: query.priority,
+        type: query.type,
+        assignedToId: query.assignedToId,
+      },
+      sort: query.sort,
+      limit: query.limit,
+      cursor: query.cursor,
+    });
+  }
+
+  // A new ticket goes to the first queue with a rule it matches, and to an agent of it unless the caller assigned one.
+  // Imported tickets that are already resolved or closed are not handed to an agent. A dry run only picks the queue,
+  // so that it does not take a turn of the round robin.
+  static async routeNewTicket(ticket: Ticket, dryRun: boolean = false): Promise<TicketRouting> {
+    return QueueService.route(ticket, false, dryRun);
+  }
+
+  // A re-opened ticket goes back to its queue (or through the rules if it has none any more), and keeps its
+  // assignee while they are still an agent of the queue
+  static async routeReopenedTicket(ticket: Ticket): Promise<TicketRouting> {
+    return QueueService.route(ticket, true);
+  }
+
+  // Gives back the turn routing took to assign a ticket that was not written after all; least-loaded queues have no turns
+  static async releaseTurn(ticket: Ticket): Promise<void> {
+    if (!ticket.queueId || !ticket.assignedToId) {
+      return;
+    }
+    const queue = await getQueueRepository().getQueue(ticket.queueId);
+    if (queue?.strategy === AssignmentStrategy.ROUND_ROBIN) {
+      await getQueueRepository().rewindCursor(queue.id);
+    }
+  }
+
+  // Keeps the agent load counters in line with a ticket write (before undefined: created, after undefined: purged)
+  static async syncTicket(before: Ticket | undefined, after: Ticket | undefined): Promise<void> {
+    const delta = agentLoadDelta(before, after);
+    if (Object.keys(delta).length === 0) {
+      return;
+    }
+
+    await getAgentLoadStore().add(delta);
+  }
+
+  // Routing happens before the ticket is written, but is best effort: if the queues cannot be read, the write goes on unrouted
+  private static async route(ticket: Ticket, reopened: boolean, dryRun: boolean = false): Promise<TicketRouting> {
+    try {
+      const current = reopened && ticket.queueId ? await getQueueRepository().getQueue(ticket.queueId) : undefined;
+      const queue = current ?? (await QueueService.listQueues()).find(queue => queue.rules.some(rule => matchesRule(rule, ticket)));
+      if (!queue) {
+        return {};
+      }
+
+      const keepsAssignee = ticket.assignedToId !== undefined && (!reopened || queue.agentIds.includes(ticket.assignedToId));
+      const assignedToId = keepsAssignee || isFinal(ticket.status) || dryRun ? undefined : await QueueService.pickAgent(queue);
+      logger.debug("Route ticket", { ticketId: ticket.id, queueId: queue.id, assignedToId });
+
+      return assignedToId ? { queueId: queue.id, assignedToId } : { queueId: queue.id };
+    } catch (error) {
+      logger.error("Ticket routing failed", { ticketId: ticket.id, error });
+      return {};
+    }
+  }
+
+  // Undefined when the queue has no agents (or was deleted meanwhile)
+  private static async pickAgent(queue: Queue): Promise<string | undefined> {
+    if (queue.agentIds.length === 0) {
+      return undefined;
+    }
+
+    if (queue.strategy === AssignmentStrategy.LEAST_LOADED) {
+      const loads = await getAgentLoadStore().getLoads(queue.agentIds);
+      // Ties go to the agent listed first
+      return queue.agentIds.reduce((best, agentId) => loads[agentId] < loads[best] ? agentId : best);
+    }
+
+    const cursor = await getQueueRepository().advanceCursor(queue.id);
+    return cursor === undefined ? undefined : queue.agentIds[cursor % queue.agentIds.length];
+  }
+}
@@ -0,0 +1,73 @@
+import { TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { setReportCounterStore } from "../repositories";
+import { InMemoryReportCounterStore } from "../repositories/in-memory-report-counter-store";
+import { Ticket } from "../types/ticket";
+import { reportCounterDelta, ReportService } from "./report-service";
+
+const createdAt = "2025-03-03T09:00:00.000Z";
+
+function buildTicket(overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id: "6f1c1f5e-2a4b-4c1e-9a55-000000000001",
+    title: "VPN down",
+    description: "Cannot connect",
+    status: TicketStatus.NEW,
+    reporterId: "6f1c1f5e-2a4b-4c1e-9a55-000000000002",
+    priority: TicketPriority.HIGH,
+    type: TicketType.INCIDENT,
+    version: 1,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe("reportCounterDelta", () => {
+  it("counts creations, moves resolved tickets out of the backlog and forgets deleted ones", () => {
+    const created = buildTicket();
+    expect(reportCounterDelta(undefined, created)).toEqual({
+      totals: { "total": 1, "status:NEW": 1, "open": 1, "priority:HIGH": 1, "type:INCIDENT": 1, "assignee:unassigned": 1 },
+      days: { "2025-03-03": { open: 1, created: 1 } },
+    });
+
+    const resolved = buildTicket({ status: TicketStatus.RESOLVED, resolvedAt: "2025-03-04T11:00:00.000Z", version: 2 });
+    expect(reportCounterDelta(created, resolved)).toEqual({
+      totals: { "status:NEW": -1, "status:RESOLVED": 1, "open": -1, "priority:HIGH": -1, "type:INCIDENT": -1, "assignee:unassigned": -1 },
+      days: { "2025-03-03": { open: -1 }, "2025-03-04": { resolved: 1, resolutionMs: 26 * 60 * 60 * 1000 } },
+    });
+
+    // The creation and resolution stay in the daily flow; only the current counts drop
+    const deleted = { ...resolved, deletedAt: "2025-03-05T08:00:00.000Z", version: 3 };
+    expect(reportCounterDelta(resolved, deleted)).toEqual({ totals: { "total": -1, "status:RESOLVED": -1 }, days: {} });
+    expect(reportCounterDelta(deleted, undefined)).toEqual({ totals: {}, days: {} });
+  });
+});
+
+describe("ReportService.getTicketReport", () => {
+  const store = new InMemoryReportCounterStore();
+
+  beforeAll(() => setReportCounterStore(store));
+  afterAll(() => setReportCounterStore(undefined));
+  beforeEach(() => store.clear());
+
+  it("derives the backlog age percentiles and the mean time to resolution from the counters", async () => {
+    for (let age = 0; age < 10; age++) {
+      await ReportService.syncTicket(undefined, buildTicket({ id: `ticket-${age}`, createdAt: daysAgo(age) }));
+    }
+    const oldest = buildTicket({ id: "ticket-9", createdAt: daysAgo(9) });
+    const resolvedAt = new Date(Date.parse(oldest.createdAt) + 6 * 60 * 60 * 1000).toISOString();
+    await ReportService.syncTicket(oldest, { ...oldest, status: TicketStatus.RESOLVED, resolvedAt, version: 2 });
+
+    const report = await ReportService.getTicketReport({ format: "json" });
+
+    expect(report.counts).toMatchObject({ total: 10, open: 9, byStatus: { NEW: 9, RESOLVED: 1 } });
+    expect(report.daily).toHaveLength(30);
+    expect(report.daily.reduce((sum, day) => sum + day.created, 0)).toBe(10);
+    expect(report.meanTimeToResolutionHours).toBe(6);
+    expect(report.backlogAgeDays).toEqual({ p50: 4, p90: 8, p99: 8, max: 8 });
+  });
+});
@@ -0,0 +1,209 @@
+import { isAdmin, isAgent } from '../auth/authorization';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { logger } from '../observability/logger';
+import { getReportCounterStore } from '../repositories';
+import { DailyCounters, ReportCounterDelta } from '../repositories/report-counter-store';
+import { DEFAULT_REPORT_DAYS, MAX_REPORT_DAYS, TicketReportQueryDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { BacklogAge, TicketCounts, TicketReport } from '../types/report';
+import { Ticket } from '../types/ticket';
+import { CsvValue, toCsv } from '../utils/csv';
+import { isFinal } from './sla-service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNASSIGNED = "unassigned";
+
+// UTC day of an ISO timestamp or date
+function dayOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function addCounter(counters: Record<string, number>, counter: string, value: number): void {
+  counters[counter] = (counters[counter] ?? 0) + value;
+}
+
+function dayCounters(delta: ReportCounterDelta, timestamp: string): Record<string, number> {
+  delta.days[dayOf(timestamp)] ??= {};
+  return delta.days[dayOf(timestamp)];
+}
+
+// What a ticket counts for while it exists: the totals, and the backlog of its creation day while open.
+// Deleted tickets count nowhere.
+function addTicketCounters(delta: ReportCounterDelta, ticket: Ticket | undefined, sign: 1 | -1): void {
+  if (!ticket || ticket.deletedAt) {
+    return;
+  }
+
+  addCounter(delta.totals, "total", sign);
+  addCounter(delta.totals, `status:${ticket.status}`, sign);
+  if (!isFinal(ticket.status)) {
+    addCounter(delta.totals, "open", sign);
+    addCounter(delta.totals, `priority:${ticket.priority}`, sign);
+    addCounter(delta.totals, `type:${ticket.type}`, sign);
+    addCounter(delta.totals, `assignee:${ticket.assignedToId ?? UNASSIGNED}`, sign);
+    addCounter(dayCounters(delta, ticket.createdAt), "open", sign);
+  }
+}
+
+function withoutZeros(counters: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counters).filter(([, value]) => value !== 0));
+}
+
+// Counter changes of a ticket write (before undefined: created, after undefined: purged)
+export function reportCounterDelta(before: Ticket | undefined, after: Ticket | undefined): ReportCounterDelta {
+  const delta: ReportCounterDelta = { totals: {}, days: {} };
+  addTicketCounters(delta, before, -1);
+  addTicketCounters(delta, after, 1);
+
+  // Creations and resolutions are counted when they happen and stay counted if the ticket is deleted later
+  if (!before && after) {
+    addCounter(dayCounters(delta, after.createdAt), "created", 1);
+  }
+  if (after?.resolvedAt && after.resolvedAt !== before?.resolvedAt) {
+    const counters = dayCounters(delta, after.resolvedAt);
+    addCounter(counters, "resolved", 1);
+    addCounter(counters, "resolutionMs", Date.parse(after.resolvedAt) - Date.parse(after.createdAt));
+  }
+
+  const days: Record<string, Record<string, number>> = {};
+  for (const [date, counters] of Object.entries(delta.days)) {
+    const changed = withoutZeros(counters);
+    if (Object.keys(changed).length > 0) {
+      days[date] = changed;
+    }
+  }
+  return { totals: withoutZeros(delta.totals), days };
+}
+
+// Counters can only drift below zero if updates were lost; they are reported as zero
+function toCounts(totals: Record<string, number>): TicketCounts {
+  const counts: TicketCounts = { total: Math.max(totals.total ?? 0, 0), open: Math.max(totals.open ?? 0, 0), byStatus: {}, byPriority: {}, byType: {}, byAssignee: {} };
+  const breakdowns: Record<string, Record<string, number>> = {
+    status: counts.byStatus,
+    priority: counts.byPriority,
+    type: counts.byType,
+    assignee: counts.byAssignee,
+  };
+
+  for (const [counter, value] of Object.entries(totals)) {
+    const separator = counter.indexOf(":");
+    const breakdown = separator > 0 ? breakdowns[counter.slice(0, separator)] : undefined;
+    if (breakdown && value > 0) {
+      breakdown[counter.slice(separator + 1)] = value;
+    }
+  }
+  return counts;
+}
+
+// Nearest-rank percentiles over the open tickets, aged by their creation day
+function backlogAge(days: DailyCounters[], today: string): BacklogAge | null {
+  const buckets = days
+    .filter(day => (day.counters.open ?? 0) > 0)
+    .map(day => ({ age: Math.round((Date.parse(today) - Date.parse(day.date)) / DAY_MS), count: day.counters.open }))
+    .sort((a, b) => a.age - b.age);
+  const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const percentile = (p: number) => {
+    const rank = Math.ceil((p / 100) * total);
+    let seen = 0;
+    return buckets.find(bucket => (seen += bucket.count) >= rank)!.age;
+  };
+  return { p50: percentile(50), p90: percentile(90), p99: percentile(99), max: buckets[buckets.length - 1].age };
+}
+
+export class ReportService {
+  // Built from the report counters only: counts over current tickets, flows and MTTR over the range, backlog age now
+  static async getTicketReport(query: TicketReportQueryDto, auth?: AuthContext): Promise<TicketReport> {
+    if (auth && !isAdmin(auth) && !isAgent(auth)) {
+      throw new ForbiddenError(ErrorCodes.FORBIDDEN, "Only staff can read ticket reports");
+    }
+
+    const now = new Date();
+    const today = dayOf(now.toISOString());
+    const to = query.to ?? (query.from ? addDays(query.from, DEFAULT_REPORT_DAYS - 1) : today);
+    const from = query.from ?? addDays(to, -(DEFAULT_REPORT_DAYS - 1));
+    const rangeDays = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+    if (rangeDays > MAX_REPORT_DAYS) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid query parameters", [`to - The range can cover at most ${MAX_REPORT_DAYS} days`]);
+    }
+
+    const totals = await getReportCounterStore().getTotals();
+    const days = await getReportCounterStore().getDays();
+    const countersByDate = new Map(days.map(day => [day.date, day.counters]));
+
+    const daily = Array.from({ length: rangeDays }, (_, index) => {
+      const date = addDays(from, index);
+      const counters = countersByDate.get(date) ?? {};
+      return { date, created: counters.created ?? 0, resolved: counters.resolved ?? 0 };
+    });
+
+    let resolved = 0;
+    let resolutionMs = 0;
+    for (const day of days.filter(day => day.date >= from && day.date <= to)) {
+      resolved += day.counters.resolved ?? 0;
+      resolutionMs += day.counters.resolutionMs ?? 0;
+    }
+
+    logger.debug("Ticket report", { from, to, days: days.length });
+    return {
+      generatedAt: now.toISOString(),
+      from,
+      to,
+      counts: toCounts(totals),
+      daily,
+      meanTimeToResolutionHours: resolved > 0 ? Math.round((resolutionMs / resolved / HOUR_MS) * 100) / 100 : null,
+      backlogAgeDays: backlogAge(days, today),
+    };
+  }
+
+  // One "metric,key,value" row per figure, so that the report opens as a single sheet
+  static toCsv(report: TicketReport): string {
+    const rows: CsvValue[][] = [
+      ["metric", "key", "value"],
+      ["total", null, report.counts.total],
+      ["open", null, report.counts.open],
+    ];
+
+    const breakdowns: [string, Record<string, number>][] = [
+      ["status", report.counts.byStatus],
+      ["open_by_priority", report.counts.byPriority],
+      ["open_by_type", report.counts.byType],
+      ["open_by_assignee", report.counts.byAssignee],
+    ];
+    for (const [metric, counts] of breakdowns) {
+      for (const [key, value] of Object.entries(counts)) {
+        rows.push([metric, key, value]);
+      }
+    }
+    for (const day of report.daily) {
+      rows.push(["created", day.date, day.created], ["resolved", day.date, day.resolved]);
+    }
+    rows.push(["mean_time_to_resolution_hours", null, report.meanTimeToResolutionHours]);
+    for (const [key, value] of Object.entries(report.backlogAgeDays ?? {})) {
+      rows.push(["backlog_age_days", key, value]);
+    }
+
+    return toCsv(rows);
+  }
+
+  // Keeps the report counters in line with a ticket write (before undefined: created, after undefined: purged)
+  static async syncTicket(before: Ticket | undefined, after: Ticket | undefined): Promise<void> {
+    const delta = reportCounterDelta(before, after);
+    if (Object.keys(delta.totals).length === 0 && Object.keys(delta.days).length === 0) {
+      return;
+    }
+
+    await getReportCounterStore().add(delta);
+  }
+}
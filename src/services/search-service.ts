@@ -0,0 +1,178 @@
+import { isAdmin, isAgent } from '../auth/authorization';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { logger } from '../observability/logger';
+import { getSearchIndex, getTicketRepository } from '../repositories';
+import { SearchField } from '../repositories/search-index';
+import { SearchTicketsQueryDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Comment } from '../types/comment';
+import { SearchHighlight, SearchHit, SearchPage } from '../types/search';
+import { Ticket } from '../types/ticket';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { buildSnippet, tokenize } from '../utils/text-search';
+
+// A match in the title counts more than one in the description or a comment
+const FIELD_WEIGHTS = { title: 3, description: 1, comment: 1 };
+// Words that only start with a term (prefix matches) count half as much as the exact word
+const PREFIX_MATCH_FACTOR = 0.5;
+
+const MAX_SEARCH_TERMS = 8;
+// Postings read per term and ranked tickets paged through; very broad searches only see the best matches
+const MAX_POSTINGS_PER_TERM = 1000;
+const MAX_SEARCH_CANDIDATES = 500;
+const SEARCH_CURSOR_INDEX = "search";
+
+type TicketFilterField = "status" | "priority" | "type" | "reporterId" | "assignedToId";
+
+interface RankedTicket {
+  ticketId: string;
+  score: number;
+  // Score of each matching field, to pick the highlights
+  fields: Map<SearchField, number>;
+}
+
+function weightTokens(text: string | undefined, weight: number): Record<string, number> {
+  const tokens = tokenize(text ?? "");
+  for (const token of Object.keys(tokens)) {
+    tokens[token] *= weight;
+  }
+  return tokens;
+}
+
+// Tickets matching every term, best first
+async function rankTickets(terms: string[]): Promise<RankedTicket[]> {
+  let ranked: Map<string, RankedTicket> | undefined;
+
+  for (const term of terms) {
+    const matches = new Map<string, RankedTicket>();
+    for (const posting of await getSearchIndex().findByPrefix(term, MAX_POSTINGS_PER_TERM)) {
+      const score = posting.weight * (posting.token === term ? 1 : PREFIX_MATCH_FACTOR);
+      const match = matches.get(posting.ticketId) ?? { ticketId: posting.ticketId, score: 0, fields: new Map() };
+      match.score += score;
+      match.fields.set(posting.field, (match.fields.get(posting.field) ?? 0) + score);
+      matches.set(posting.ticketId, match);
+    }
+
+    if (!ranked) {
+      ranked = matches;
+      continue;
+    }
+
+    // All terms must match, each in any field
+    const previous: Map<string, RankedTicket> = ranked;
+    ranked = new Map();
+    for (const [ticketId, match] of matches) {
+      const earlier = previous.get(ticketId);
+      if (earlier) {
+        for (const [field, score] of match.fields) {
+          earlier.fields.set(field, (earlier.fields.get(field) ?? 0) + score);
+        }
+        ranked.set(ticketId, { ...earlier, score: earlier.score + match.score });
+      }
+    }
+  }
+
+  return [...(ranked?.values() ?? [])]
+    .sort((a, b) => b.score - a.score || a.ticketId.localeCompare(b.ticketId))
+    .slice(0, MAX_SEARCH_CANDIDATES);
+}
+
+async function buildHighlights(ticket: Ticket, match: RankedTicket, terms: string[]): Promise<SearchHighlight[]> {
+  const highlights: SearchHighlight[] = [];
+
+  for (const field of ["title", "description"] as const) {
+    const snippet = match.fields.has(field) ? buildSnippet(ticket[field], terms) : undefined;
+    if (snippet) {
+      highlights.push({ field, snippet });
+    }
+  }
+
+  // Only the best matching comment is read back
+  const [bestComment] = [...match.fields.entries()]
+    .filter(([field]) => field.startsWith("comment:"))
+    .sort(([, a], [, b]) => b - a);
+  if (bestComment) {
+    const commentId = bestComment[0].slice("comment:".length);
+    const comment = await getTicketRepository().getComment(ticket.id, commentId);
+    const snippet = comment ? buildSnippet(comment.body, terms) : undefined;
+    if (snippet) {
+      highlights.push({ field: "comment", commentId, snippet });
+    }
+  }
+
+  return highlights;
+}
+
+export class SearchService {
+  // Tokenized, case and accent insensitive prefix search over title, description and comments
+  static async searchTickets(query: SearchTicketsQueryDto, auth?: AuthContext): Promise<SearchPage> {
+    // Requesters only ever find the tickets they reported
+    if (auth && !isAdmin(auth) && !isAgent(auth)) {
+      if (query.reporterId && query.reporterId !== auth.userId) {
+        throw new ForbiddenError(ErrorCodes.FORBIDDEN, "You can only search your own tickets");
+      }
+      query = { ...query, reporterId: auth.userId };
+    }
+
+    const terms = Object.keys(tokenize(query.q));
+    if (terms.length === 0) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid query parameters", ["q - Must contain a word of at least 2 letters or digits"]);
+    }
+    if (terms.length > MAX_SEARCH_TERMS) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid query parameters", [`q - At most ${MAX_SEARCH_TERMS} words are allowed`]);
+    }
+
+    const ranked = await rankTickets(terms);
+    const filters = (["status", "priority", "type", "reporterId", "assignedToId"] as TicketFilterField[])
+      .filter(field => query[field] !== undefined);
+
+    // The cursor is the position in the ranking; filters are applied while paging, like a FilterExpression
+    let position = decodeCursor(SEARCH_CURSOR_INDEX, query.cursor)?.position ?? 0;
+    const items: SearchHit[] = [];
+    while (items.length < query.limit && position < ranked.length) {
+      const batch = ranked.slice(position, position + query.limit);
+      const tickets = new Map((await getTicketRepository().getTickets(batch.map(match => match.ticketId))).map(ticket => [ticket.id, ticket]));
+
+      for (const match of batch) {
+        position++;
+        // Postings of a ticket deleted in the meantime are skipped
+        const ticket = tickets.get(match.ticketId);
+        if (!ticket || !filters.every(field => ticket[field] === query[field])) {
+          continue;
+        }
+
+        items.push({ ticket, score: Math.round(match.score * 100) / 100, highlights: await buildHighlights(ticket, match, terms) });
+        if (items.length === query.limit) {
+          break;
+        }
+      }
+    }
+
+    logger.debug("Search tickets", { terms, candidates: ranked.length, count: items.length });
+    return {
+      items,
+      nextCursor: position < ranked.length ? encodeCursor(SEARCH_CURSOR_INDEX, { position }) : null,
+    };
+  }
+
+  // Keeps the index in line with a ticket write (before undefined: created, after undefined: deleted)
+  static async syncTicket(before: Ticket | undefined, after: Ticket | undefined): Promise<void> {
+    if (!after) {
+      await getSearchIndex().removeTicket(before!.id);
+      return;
+    }
+
+    for (const field of ["title", "description"] as const) {
+      if (!before || before[field] !== after[field]) {
+        await getSearchIndex().indexField(after.id, field, weightTokens(after[field], FIELD_WEIGHTS[field]));
+      }
+    }
+  }
+
+  // Indexes a created or edited comment; undefined removes a deleted one
+  static async syncComment(ticketId: string, commentId: string, comment: Comment | undefined): Promise<void> {
+    await getSearchIndex().indexField(ticketId, `comment:${commentId}`, weightTokens(comment?.body, FIELD_WEIGHTS.comment));
+  }
+}
@@ -0,0 +1,152 @@
+import { SlaState, TicketHistoryAction, TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { setTicketRepository } from "../repositories";
+import { InMemoryTicketRepository } from "../repositories/in-memory-ticket-repository";
+import { Ticket } from "../types/ticket";
+import { buildHistoryEntry } from "./history-service";
+import { computeSlaDueDates, computeSlaUpdates, evaluateSlaState, initialSlaFields, SlaService } from "./sla-service";
+
+const HOUR_MS = 60 * 60 * 1000;
+const createdAt = new Date("2025-03-03T09:00:00.000Z");
+
+function at(hours: number): Date {
+  return new Date(createdAt.getTime() + hours * HOUR_MS);
+}
+
+// HIGH incident: first response within 1h, resolution within 8h
+function buildTicket(overrides: Partial<Ticket> = {}): Ticket {
+  const ticket: Ticket = {
+    id: "6f1c1f5e-2a4b-4c1e-9a55-000000000001",
+    title: "VPN down",
+    description: "Cannot connect",
+    status: TicketStatus.NEW,
+    reporterId: "6f1c1f5e-2a4b-4c1e-9a55-000000000002",
+    priority: TicketPriority.HIGH,
+    type: TicketType.INCIDENT,
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    updatedAt: createdAt.toISOString(),
+    ...overrides,
+  };
+  return { ...ticket, ...initialSlaFields(ticket, createdAt), ...overrides };
+}
+
+describe("computeSlaDueDates", () => {
+  it("uses the priority targets, overridden per type", () => {
+    expect(computeSlaDueDates(buildTicket())).toEqual({
+      responseDueAt: at(1).toISOString(),
+      resolutionDueAt: at(8).toISOString(),
+    });
+    expect(computeSlaDueDates(buildTicket({ type: TicketType.SERVICE_REQUEST })).resolutionDueAt).toBe(at(24).toISOString());
+  });
+
+  it("shifts the due dates by the paused time", () => {
+    expect(computeSlaDueDates(buildTicket({ slaPausedMs: 2 * HOUR_MS })).responseDueAt).toBe(at(3).toISOString());
+  });
+});
+
+describe("evaluateSlaState", () => {
+  it("is on track, at risk in the last quarter of a target, then breached", () => {
+    const ticket = buildTicket();
+
+    expect(evaluateSlaState(ticket, at(0.5))).toBe(SlaState.ON_TRACK);
+    expect(evaluateSlaState(ticket, at(0.8))).toBe(SlaState.AT_RISK);
+    expect(evaluateSlaState(ticket, at(1.1))).toBe(SlaState.BREACHED);
+  });
+
+  it("only looks at the resolution target once responded", () => {
+    const ticket = buildTicket({ status: TicketStatus.OPEN, firstRespondedAt: at(0.5).toISOString() });
+
+    expect(evaluateSlaState(ticket, at(3))).toBe(SlaState.ON_TRACK);
+    expect(evaluateSlaState(ticket, at(7))).toBe(SlaState.AT_RISK);
+  });
+
+  it("stays breached when the response was late", () => {
+    const ticket = buildTicket({ status: TicketStatus.OPEN, firstRespondedAt: at(2).toISOString() });
+
+    expect(evaluateSlaState(ticket, at(3))).toBe(SlaState.BREACHED);
+  });
+
+  it("freezes the clock while paused", () => {
+    const ticket = buildTicket({
+      status: TicketStatus.WAITING_ON_CUSTOMER,
+      firstRespondedAt: at(0.5).toISOString(),
+      slaPausedAt: at(1).toISOString(),
+    });
+
+    expect(evaluateSlaState(ticket, at(48))).toBe(SlaState.ON_TRACK);
+  });
+
+  it("judges resolved tickets by their resolution time", () => {
+    const resolved = { status: TicketStatus.RESOLVED, firstRespondedAt: at(0.5).toISOString() };
+
+    expect(evaluateSlaState(buildTicket({ ...resolved, resolvedAt: at(4).toISOString() }), at(100))).toBe(SlaState.ON_TRACK);
+    expect(evaluateSlaState(buildTicket({ ...resolved, resolvedAt: at(9).toISOString() }), at(100))).toBe(SlaState.BREACHED);
+  });
+});
+
+describe("computeSlaUpdates", () => {
+  it("records the first response when the ticket leaves NEW", () => {
+    const updates = computeSlaUpdates(buildTicket(), { status: TicketStatus.OPEN }, at(0.5));
+
+    expect(updates).toEqual({ firstRespondedAt: at(0.5).toISOString() });
+  });
+
+  it("pauses on WAITING_ON_CUSTOMER and pushes the due dates back on resume", () => {
+    const open = buildTicket({ status: TicketStatus.OPEN, firstRespondedAt: at(0.5).toISOString() });
+
+    const paused = computeSlaUpdates(open, { status: TicketStatus.WAITING_ON_CUSTOMER }, at(2));
+    expect(paused).toEqual({ slaPausedAt: at(2).toISOString() });
+
+    const waiting = { ...open, status: TicketStatus.WAITING_ON_CUSTOMER, slaPausedAt: at(2).toISOString() };
+    const resumed = computeSlaUpdates(waiting, { status: TicketStatus.OPEN }, at(5));
+    expect(resumed).toMatchObject({
+      slaPausedAt: null,
+      slaPausedMs: 3 * HOUR_MS,
+      resolutionDueAt: at(11).toISOString(),
+    });
+  });
+
+  it("recomputes the targets when the priority changes", () => {
+    const updates = computeSlaUpdates(buildTicket(), { priority: TicketPriority.CRITICAL }, at(0.5));
+
+    expect(updates).toMatchObject({
+      responseDueAt: at(0.25).toISOString(),
+      resolutionDueAt: at(4).toISOString(),
+      slaState: SlaState.BREACHED,
+    });
+  });
+
+  it("stamps resolvedAt on resolution and clears it when reopened", () => {
+    const open = buildTicket({ status: TicketStatus.OPEN, firstRespondedAt: at(0.5).toISOString() });
+    expect(computeSlaUpdates(open, { status: TicketStatus.RESOLVED }, at(3)).resolvedAt).toBe(at(3).toISOString());
+
+    const resolved = { ...open, status: TicketStatus.RESOLVED, resolvedAt: at(3).toISOString() };
+    expect(computeSlaUpdates(resolved, { status: TicketStatus.OPEN }, at(4)).resolvedAt).toBeNull();
+  });
+});
+
+describe("SlaService.flagTickets", () => {
+  let repository: InMemoryTicketRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryTicketRepository();
+    setTicketRepository(repository);
+  });
+
+  afterAll(() => setTicketRepository(undefined));
+
+  it("flags active tickets whose state changed and leaves paused ones alone", async () => {
+    const late = buildTicket({ id: "6f1c1f5e-2a4b-4c1e-9a55-00000000000a" });
+    const fresh = buildTicket({ id: "6f1c1f5e-2a4b-4c1e-9a55-00000000000b", priority: TicketPriority.LOW });
+    const waiting = buildTicket({ id: "6f1c1f5e-2a4b-4c1e-9a55-00000000000c", status: TicketStatus.WAITING_ON_CUSTOMER });
+    for (const ticket of [late, fresh, waiting]) {
+      await repository.createTicket(ticket, buildHistoryEntry(ticket.id, TicketHistoryAction.CREATED, [], {}, ticket.createdAt));
+    }
+
+    const result = await SlaService.flagTickets(at(2));
+
+    expect(result).toEqual({ checked: 2, atRisk: 0, breached: 1, updated: 1 });
+    expect((await repository.getTicket(late.id))?.slaState).toBe(SlaState.BREACHED);
+    expect((await repository.getTicket(fresh.id))?.slaState).toBe(SlaState.ON_TRACK);
+  });
+});
@@ -0,0 +1,179 @@
+import { SlaState, TicketStatus } from '../common/enums';
+import { getSlaTarget, SlaPolicies } from '../common/sla-policies';
+import { logger } from '../observability/logger';
+import { PatchTicketDto } from '../schemas/schemas';
+import { getTicketRepository } from '../repositories';
+import { Ticket } from '../types/ticket';
+
+const MINUTE_MS = 60 * 1000;
+
+// Tickets read per repository page by the monitor
+const MONITOR_PAGE_SIZE = 100;
+
+// Statuses in which the work is done and the resolution clock has stopped for good
+const FINAL_STATUSES = [TicketStatus.RESOLVED, TicketStatus.CLOSED];
+
+// Statuses checked by the scheduled monitor; paused and final tickets cannot change SLA state on their own
+const MONITORED_STATUSES = [TicketStatus.NEW, TicketStatus.OPEN, TicketStatus.IN_PROGRESS];
+
+export interface SlaMonitorResult {
+  checked: number;
+  atRisk: number;
+  breached: number;
+  updated: number;
+}
+
+export function isFinal(status: TicketStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+function isPaused(status: TicketStatus): boolean {
+  return SlaPolicies.pausedStatuses.includes(status);
+}
+
+// Due dates run from creation, shifted by the time the clock was stopped
+export function computeSlaDueDates(ticket: Pick<Ticket, "priority" | "type" | "createdAt" | "slaPausedMs">): Pick<Ticket, "responseDueAt" | "resolutionDueAt"> {
+  const target = getSlaTarget(ticket.priority, ticket.type);
+  const start = Date.parse(ticket.createdAt) + (ticket.slaPausedMs ?? 0);
+
+  return {
+    responseDueAt: new Date(start + target.responseMinutes * MINUTE_MS).toISOString(),
+    resolutionDueAt: new Date(start + target.resolutionMinutes * MINUTE_MS).toISOString(),
+  };
+}
+
+// Breached if a target was missed, at risk if less than atRiskRatio of a pending target remains
+export function evaluateSlaState(ticket: Ticket, now: Date): SlaState | undefined {
+  if (!ticket.responseDueAt || !ticket.resolutionDueAt) {
+    return undefined;
+  }
+
+  // While paused the clock is frozen at the moment it stopped
+  const clock = ticket.slaPausedAt ? Date.parse(ticket.slaPausedAt) : now.getTime();
+  const resolvedAt = isFinal(ticket.status) ? Date.parse(ticket.resolvedAt ?? ticket.updatedAt) : undefined;
+  const target = getSlaTarget(ticket.priority, ticket.type);
+
+  const checks = [
+    {
+      dueAt: Date.parse(ticket.responseDueAt),
+      doneAt: ticket.firstRespondedAt ? Date.parse(ticket.firstRespondedAt) : resolvedAt,
+      targetMs: target.responseMinutes * MINUTE_MS,
+    },
+    {
+      dueAt: Date.parse(ticket.resolutionDueAt),
+      doneAt: resolvedAt,
+      targetMs: target.resolutionMinutes * MINUTE_MS,
+    },
+  ];
+
+  let state = SlaState.ON_TRACK;
+  for (const check of checks) {
+    if (check.doneAt !== undefined) {
+      if (check.doneAt > check.dueAt) {
+        return SlaState.BREACHED;
+      }
+      continue;
+    }
+
+    if (clock > check.dueAt) {
+      return SlaState.BREACHED;
+    }
+    if (check.dueAt - clock < check.targetMs * SlaPolicies.atRiskRatio) {
+      state = SlaState.AT_RISK;
+    }
+  }
+
+  return state;
+}
+
+// SLA bookkeeping for a create: due dates and initial state
+export function initialSlaFields(ticket: Ticket, now: Date): Partial<Ticket> {
+  const dueDates = computeSlaDueDates(ticket);
+  return { ...dueDates, slaState: evaluateSlaState({ ...ticket, ...dueDates }, now) };
+}
+
+// SLA bookkeeping for a PUT/PATCH. Null values mean the attribute must be removed.
+export function computeSlaUpdates(current: Ticket, changes: PatchTicketDto, now: Date): Record<string, unknown> {
+  const nowIso = now.toISOString();
+  const updates: Record<string, unknown> = {};
+  const targetStatus = changes.status ?? current.status;
+
+  if (targetStatus !== current.status) {
+    // Any move out of NEW counts as the first response
+    if (current.status === TicketStatus.NEW && !current.firstRespondedAt) {
+      updates.firstRespondedAt = nowIso;
+    }
+
+    if (isFinal(targetStatus) && !isFinal(current.status)) {
+      updates.resolvedAt = nowIso;
+    } else if (!isFinal(targetStatus) && current.resolvedAt) {
+      updates.resolvedAt = null;
+    }
+
+    if (isPaused(targetStatus) && !isPaused(current.status)) {
+      updates.slaPausedAt = nowIso;
+    } else if (!isPaused(targetStatus) && current.slaPausedAt) {
+      updates.slaPausedMs = (current.slaPausedMs ?? 0) + (now.getTime() - Date.parse(current.slaPausedAt));
+      updates.slaPausedAt = null;
+    }
+  }
+
+  const next: Record<string, any> = { ...current };
+  for (const [field, value] of Object.entries({ ...changes, ...updates })) {
+    if (value === null) {
+      delete next[field];
+    } else if (value !== undefined) {
+      next[field] = value;
+    }
+  }
+
+  // Targets depend on priority and type; resuming from a pause shifts them
+  const targetsChanged = next.priority !== current.priority || next.type !== current.type;
+  if (targetsChanged || updates.slaPausedMs !== undefined || !current.resolutionDueAt) {
+    const dueDates = computeSlaDueDates(next as Ticket);
+    Object.assign(updates, dueDates);
+    Object.assign(next, dueDates);
+  }
+
+  const slaState = evaluateSlaState(next as Ticket, now);
+  if (slaState !== current.slaState) {
+    updates.slaState = slaState ?? null;
+  }
+
+  return updates;
+}
+
+export class SlaService {
+  // Entry point of the scheduled monitor: re-evaluates every active ticket and flags state changes
+  static async flagTickets(now: Date = new Date()): Promise<SlaMonitorResult> {
+    const result: SlaMonitorResult = { checked: 0, atRisk: 0, breached: 0, updated: 0 };
+
+    const repository = getTicketRepository();
+
+    for (const status of MONITORED_STATUSES) {
+      let cursor: string | undefined;
+      do {
+        const page = await repository.queryTickets({ filters: { status }, sort: "asc", limit: MONITOR_PAGE_SIZE, cursor });
+        cursor = page.nextCursor ?? undefined;
+
+        for (const ticket of page.items) {
+          result.checked++;
+          const slaState = evaluateSlaState(ticket, now);
+          if (slaState === SlaState.AT_RISK) {
+            result.atRisk++;
+          } else if (slaState === SlaState.BREACHED) {
+            result.breached++;
+          }
+
+          // SLA state is derived data: it does not bump the ticket version and is skipped if the status changed meanwhile
+          if (slaState && slaState !== ticket.slaState && await repository.setSlaState(ticket, slaState)) {
+            result.updated++;
+          }
+        }
+      } while (cursor);
+    }
+
+    logger.info("SLA monitor", { ...result });
+    return result;
+  }
+}
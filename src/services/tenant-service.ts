@@ -0,0 +1,144 @@
+import { config } from '../common/config';
+import { TicketPriority, TicketType } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ForbiddenError } from '../errors/forbidden.error';
+import { TooManyRequestsError } from '../errors/too-many-requests.error';
+import { UnauthorizedError } from '../errors/unauthorized.error';
+import { logger } from '../observability/logger';
+import { getTenantId } from '../observability/request-context';
+import { getTenantUsageStore } from '../repositories';
+import { TenantId, TenantsConfig, TenantSettingsDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Tenant, TenantSettings } from '../types/tenant';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// TENANTS as last parsed, so that it is validated once per value
+let parsedTenants: { source: string; tenants: Record<string, TenantSettingsDto> } | undefined;
+
+// A configuration that does not parse fails every request rather than serving organizations with the wrong settings
+function configuredTenants(): Record<string, TenantSettingsDto> {
+  if (parsedTenants?.source !== config.tenancy.tenants) {
+    let json: unknown;
+    try {
+      json = JSON.parse(config.tenancy.tenants);
+    } catch (error) {
+      // Not a SyntaxError, which would be answered as a malformed request body
+      throw new Error(`Invalid TENANTS configuration: ${(error as Error).message}`);
+    }
+    const parsed = TenantsConfig.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(`Invalid TENANTS configuration: ${parsed.error.issues.map(issue => `${issue.path.join(".")} - ${issue.message}`).join(", ")}`);
+    }
+    parsedTenants = { source: config.tenancy.tenants, tenants: parsed.data };
+  }
+  return parsedTenants.tenants;
+}
+
+// Quota windows are aligned on UTC minutes and days; the counter is named after the window
+function quotaWindow(now: Date, lengthMs: number): { name: string; endsAt: Date } {
+  const start = Math.floor(now.getTime() / lengthMs) * lengthMs;
+  const name = new Date(start).toISOString().slice(0, lengthMs === DAY_MS ? 10 : 16);
+  return { name, endsAt: new Date(start + lengthMs) };
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+export class TenantService {
+  // Organization the request acts for: the one in the token, or X-Tenant-Id when the token names none and the header is enabled
+  static resolveTenant(auth: AuthContext, header: string | undefined): string {
+    if (header !== undefined) {
+      if (!TenantId.safeParse(header).success) {
+        throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid X-Tenant-Id header", ["X-Tenant-Id - Organization ids are 1 to 63 lowercase letters, digits and dashes"]);
+      }
+      if (auth.tenantId && auth.tenantId !== header) {
+        throw new ForbiddenError(ErrorCodes.FORBIDDEN, "The token belongs to another organization");
+      }
+      if (!auth.tenantId && !config.tenancy.allowHeader) {
+        throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid X-Tenant-Id header", ["X-Tenant-Id - The organization comes from the token"]);
+      }
+    }
+    if (auth.tenantId && !TenantId.safeParse(auth.tenantId).success) {
+      throw new UnauthorizedError(ErrorCodes.UNAUTHORIZED, "Token has an invalid organization");
+    }
+
+    const tenantId = auth.tenantId ?? header ?? config.tenancy.defaultTenantId;
+    if (!TenantService.listTenantIds().includes(tenantId)) {
+      throw new ForbiddenError(ErrorCodes.UNKNOWN_TENANT, `Unknown organization ${tenantId}`);
+    }
+    return tenantId;
+  }
+
+  // The default organization and the configured ones, e.g. for scheduled jobs that go through every organization
+  static listTenantIds(): string[] {
+    return [...new Set([config.tenancy.defaultTenantId, ...Object.keys(configuredTenants())])];
+  }
+
+  static getSettings(tenantId: string = getTenantId()): TenantSettings {
+    const settings = configuredTenants()[tenantId] ?? {};
+    return {
+      allowedTypes: settings.allowedTypes ?? Object.values(TicketType),
+      defaultPriority: settings.defaultPriority ?? TicketPriority.MEDIUM,
+      quotas: settings.quotas ?? {},
+    };
+  }
+
+  // Settings and current usage of the caller's organization
+  static async getTenant(now: Date = new Date()): Promise<Tenant> {
+    const tenantId = getTenantId();
+    const [requestsThisMinute, ticketsToday] = await Promise.all([
+      getTenantUsageStore().get(tenantId, `requests#${quotaWindow(now, MINUTE_MS).name}`),
+      getTenantUsageStore().get(tenantId, `tickets#${quotaWindow(now, DAY_MS).name}`),
+    ]);
+    return { id: tenantId, ...TenantService.getSettings(tenantId), usage: { requestsThisMinute, ticketsToday } };
+  }
+
+  // Counts a request against the organization's requests per minute; 429 once the minute's quota is used up
+  static async consumeRequest(now: Date = new Date()): Promise<void> {
+    const tenantId = getTenantId();
+    const limit = TenantService.getSettings(tenantId).quotas.requestsPerMinute;
+    if (limit === undefined) {
+      return;
+    }
+
+    const { name, endsAt } = quotaWindow(now, MINUTE_MS);
+    if (!await getTenantUsageStore().consume(tenantId, `requests#${name}`, 1, limit, endsAt)) {
+      logger.warn("Request quota exceeded", { tenantId, limit });
+      throw new TooManyRequestsError(ErrorCodes.RATE_LIMIT_EXCEEDED, secondsUntil(endsAt, now), `Organization ${tenantId} is limited to ${limit} requests per minute`);
+    }
+  }
+
+  // Counts new tickets against the organization's tickets per day
+  static async consumeTickets(count: number, now: Date = new Date()): Promise<void> {
+    const tenantId = getTenantId();
+    const limit = TenantService.getSettings(tenantId).quotas.ticketsPerDay;
+    if (limit === undefined) {
+      return;
+    }
+
+    const { name, endsAt } = quotaWindow(now, DAY_MS);
+    if (!await getTenantUsageStore().consume(tenantId, `tickets#${name}`, count, limit, endsAt)) {
+      logger.warn("Ticket quota exceeded", { tenantId, limit });
+      throw new TooManyRequestsError(ErrorCodes.TICKET_QUOTA_EXCEEDED, secondsUntil(endsAt, now), `Organization ${tenantId} is limited to ${limit} new tickets per day`);
+    }
+  }
+
+  // Takes back tickets counted by consumeTickets that were not written after all, e.g. those of a failed atomic batch
+  static async releaseTickets(count: number, now: Date = new Date()): Promise<void> {
+    const tenantId = getTenantId();
+    if (TenantService.getSettings(tenantId).quotas.ticketsPerDay === undefined) {
+      return;
+    }
+    await getTenantUsageStore().release(tenantId, `tickets#${quotaWindow(now, DAY_MS).name}`, count);
+  }
+
+  static assertTypeAllowed(type: TicketType): void {
+    if (!TenantService.getSettings().allowedTypes.includes(type)) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`type - Ticket type ${type} is not enabled for this organization`]);
+    }
+  }
+}
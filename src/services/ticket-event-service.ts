@@ -0,0 +1,136 @@
+import { SlaState, TicketEventType, TicketHistoryAction } from '../common/enums';
+import { config } from '../common/config';
+import { Comment } from '../types/comment';
+import { TicketEvent, TicketSnapshot } from '../types/events';
+import { FieldChange, TicketHistoryEntry } from '../types/history';
+import { Ticket } from '../types/ticket';
+import { diffTickets } from './history-service';
+
+// Bump the version of an event type whenever its data changes in a non backwards-compatible way
+export const TicketEventSchemaVersions: Record<TicketEventType, number> = {
+  [TicketEventType.TICKET_CREATED]: 1,
+  [TicketEventType.TICKET_UPDATED]: 1,
+  [TicketEventType.TICKET_ASSIGNED]: 1,
+  [TicketEventType.TICKET_STATUS_CHANGED]: 1,
+  [TicketEventType.TICKET_PRIORITY_CHANGED]: 1,
+  [TicketEventType.TICKET_SLA_STATE_CHANGED]: 1,
+  [TicketEventType.TICKET_DELETED]: 1,
+  [TicketEventType.TICKET_RESTORED]: 1,
+  [TicketEventType.TICKET_PURGED]: 1,
+  [TicketEventType.TICKET_COMMENT_ADDED]: 1,
+};
+
+interface EventOrigin {
+  // Identifier of the stored record the event comes from; combined with the type it makes the event id
+  sourceId: string;
+  ticketId: string;
+  occurredAt: string;
+  actorId?: string;
+  requestId?: string;
+}
+
+function buildEvent<E extends TicketEvent>(type: E["type"], origin: EventOrigin, data: E["data"]): E {
+  return {
+    id: `${origin.sourceId}:${type}`,
+    type,
+    schemaVersion: TicketEventSchemaVersions[type],
+    source: config.events.source,
+    ticketId: origin.ticketId,
+    occurredAt: origin.occurredAt,
+    actorId: origin.actorId,
+    requestId: origin.requestId,
+    data,
+  } as E;
+}
+
+function toSnapshot(changes: FieldChange[], side: "oldValue" | "newValue"): TicketSnapshot {
+  const snapshot: Record<string, unknown> = {};
+  for (const change of changes) {
+    if (change[side] !== null) {
+      snapshot[change.field] = change[side];
+    }
+  }
+  return snapshot as TicketSnapshot;
+}
+
+// History entries are written in the same transaction as the ticket change, so they act as the outbox
+export function eventsFromHistoryEntry(entry: TicketHistoryEntry): TicketEvent[] {
+  const origin: EventOrigin = {
+    sourceId: entry.id,
+    ticketId: entry.ticketId,
+    occurredAt: entry.occurredAt,
+    actorId: entry.actorId,
+    requestId: entry.requestId,
+  };
+
+  if (entry.action === TicketHistoryAction.CREATED) {
+    return [buildEvent(TicketEventType.TICKET_CREATED, origin, { ticket: toSnapshot(entry.changes, "newValue") })];
+  }
+
+  if (entry.action === TicketHistoryAction.DELETED) {
+    return [buildEvent(TicketEventType.TICKET_DELETED, origin, { ticket: toSnapshot(entry.changes, "oldValue") })];
+  }
+
+  if (entry.action === TicketHistoryAction.RESTORED) {
+    return [buildEvent(TicketEventType.TICKET_RESTORED, origin, { ticket: toSnapshot(entry.changes, "newValue") })];
+  }
+
+  if (entry.action === TicketHistoryAction.PURGED) {
+    return [buildEvent(TicketEventType.TICKET_PURGED, origin, { ticket: toSnapshot(entry.changes, "oldValue"), expired: false })];
+  }
+
+  // Every update yields TicketUpdated, plus a specific event for the changes other teams react to
+  const events: TicketEvent[] = [buildEvent(TicketEventType.TICKET_UPDATED, origin, { changes: entry.changes })];
+  for (const change of entry.changes) {
+    if (change.field === "assignedToId") {
+      events.push(buildEvent(TicketEventType.TICKET_ASSIGNED, origin, {
+        previousAssigneeId: change.oldValue as string | null,
+        assigneeId: change.newValue as string | null,
+      }));
+    } else if (change.field === "status") {
+      events.push(buildEvent(TicketEventType.TICKET_STATUS_CHANGED, origin, {
+        from: change.oldValue as Ticket["status"],
+        to: change.newValue as Ticket["status"],
+      }));
+    } else if (change.field === "priority") {
+      events.push(buildEvent(TicketEventType.TICKET_PRIORITY_CHANGED, origin, {
+        from: change.oldValue as Ticket["priority"],
+        to: change.newValue as Ticket["priority"],
+      }));
+    }
+  }
+
+  return events;
+}
+
+export function eventFromComment(comment: Comment): TicketEvent {
+  return buildEvent(TicketEventType.TICKET_COMMENT_ADDED, {
+    sourceId: comment.id,
+    ticketId: comment.ticketId,
+    occurredAt: comment.createdAt,
+    actorId: comment.authorId,
+  }, { commentId: comment.id, authorId: comment.authorId });
+}
+
+// SLA state is also changed by the scheduled monitor, which leaves no history entry, so it is read from the ticket images.
+// streamEventId identifies the stream record and stays the same across redeliveries.
+export function eventFromSlaStateChange(before: Ticket, after: Ticket, streamEventId: string, occurredAt: string): TicketEvent | undefined {
+  if (before.slaState === after.slaState) {
+    return undefined;
+  }
+
+  return buildEvent(TicketEventType.TICKET_SLA_STATE_CHANGED, {
+    sourceId: streamEventId,
+    ticketId: after.id,
+    occurredAt,
+  }, { from: (before.slaState ?? null) as SlaState | null, to: (after.slaState ?? null) as SlaState | null });
+}
+
+// The table TTL removes expired tickets from the trash without a history entry, so the purge is read from the removed item
+export function eventFromExpiredTicket(ticket: Ticket, streamEventId: string, occurredAt: string): TicketEvent {
+  return buildEvent(TicketEventType.TICKET_PURGED, {
+    sourceId: streamEventId,
+    ticketId: ticket.id,
+    occurredAt,
+  }, { ticket: toSnapshot(diffTickets(ticket, undefined), "oldValue"), expired: true });
+}
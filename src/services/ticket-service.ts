@@ -1,225 +1,497 @@
-import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
+import { assertCanDeleteTicket, assertCanEditTicket, assertCanManageTrash, assertCanSetReporter, assertCanViewTicket, isAdmin, isAgent } from '../auth/authorization';
+import { config } from '../common/config';
+import { BadRequestError } from '../errors/bad-request.error';
+import { ConflictError } from '../errors/conflict.error';
+import { ForbiddenError } from '../errors/forbidden.error';
 import { NotFoundError } from '../errors/not-found-error';
-import { CreateTicketDto, UpdateTicketDto, PatchTicketDto } from '../schemas/schemas';
-import { Ticket } from '../types/ticket';
-import { TicketStatus } from '../common/enums';
+import { CreateTicketDto, UpdateTicketDto, PatchTicketDto, ListTicketsQueryDto, ListTrashQueryDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Comment } from '../types/comment';
+import { TicketHistoryEntry } from '../types/history';
+import { Ticket, TicketPage, TicketWriteOptions } from '../types/ticket';
+import { TicketHistoryAction } from '../common/enums';
 import { ErrorCodes } from '../common/error-codes';
-const tableName = "dyn-tickets";
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
+import { getAllowedNextStatuses, getRequiredFields, isTransitionAllowed, TicketWorkflow } from '../common/ticket-workflow';
+import { InvalidStatusTransitionError } from '../errors/invalid-status-transition.error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getTicketRepository } from '../repositories';
+import { AttachmentService } from './attachment-service';
+import { FieldDefinitionService } from './field-definition-service';
+import { buildHistoryEntry, diffTickets } from './history-service';
+import { LinkService } from './link-service';
+import { QueueService } from './queue-service';
+import { ReportService } from './report-service';
+import { SearchService } from './search-service';
+import { TenantService } from './tenant-service';
+import { WebhookService } from './webhook-service';
+import { computeSlaUpdates, initialSlaFields, isFinal } from './sla-service';
+
+// Attempts for a PUT/PATCH when the ticket changes between the read and the conditional write
+const MAX_WRITE_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What is kept in line with each ticket write (before undefined: created, after undefined: purged), in this order
+const FOLLOW_UPS = {
+  search: (before: Ticket | undefined, after: Ticket | undefined) => SearchService.syncTicket(before, after),
+  reports: (before: Ticket | undefined, after: Ticket | undefined) => ReportService.syncTicket(before, after),
+  queues: (before: Ticket | undefined, after: Ticket | undefined) => QueueService.syncTicket(before, after),
+  webhooks: (before: Ticket | undefined, after: Ticket | undefined) => WebhookService.syncTicket(before, after),
+  links: (before: Ticket | undefined, after: Ticket | undefined) => LinkService.syncTicket(before, after),
+};
+type FollowUp = keyof typeof FOLLOW_UPS;
+
+// Field changes accepted by the shared PUT/PATCH write path; merges also set mergedIntoId
+type TicketChanges = PatchTicketDto & { mergedIntoId?: string };
+
+// How a new ticket is checked, on top of its request body
+interface CreateOptions {
+  requireCustomFields?: boolean;
+  // Checks the ticket without side effects, e.g. for a dry run of an import: no quota is counted and no agent is picked
+  dryRun?: boolean;
+  // What an imported ticket had in the system it comes from; only set by imports
+  original?: ImportedTicketFields;
+}
+
+interface ImportedTicketFields {
+  id?: string;
+  externalRef?: string;
+  resolutionNote?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  resolvedAt?: string;
+}
+
+// A follow-up failure is logged and leaves what it keeps in line off by that write
+async function runFollowUp(followUp: FollowUp, context: Record<string, unknown>, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+  } catch (error) {
+    logger.error("Ticket write follow-up failed", { followUp, ...context, error });
+  }
+}
+
+// Checks a PUT/PATCH against the status workflow: allowed transition and fields required by the resulting status
+function assertWorkflow(current: Ticket, changes: TicketChanges): void {
+  const targetStatus = changes.status ?? current.status;
+
+  if (!isTransitionAllowed(current.status, targetStatus)) {
+    throw new InvalidStatusTransitionError(
+      ErrorCodes.INVALID_STATUS_TRANSITION,
+      `Cannot move ticket from ${current.status} to ${targetStatus}`,
+      getAllowedNextStatuses(current.status)
+    );
+  }
+
+  const statusChanged = targetStatus !== current.status;
+  const missingFields = getRequiredFields(targetStatus).filter(field => {
+    // Only enforce on entering the status, or when the request clears a required field
+    if (!statusChanged && changes[field] !== null) {
+      return false;
+    }
+    const value = changes[field] !== undefined ? changes[field] : current[field];
+    return value === null || value === undefined;
+  });
+
+  if (missingFields.length > 0) {
+    throw new InvalidStatusTransitionError(
+      ErrorCodes.INVALID_STATUS_TRANSITION,
+      `Ticket cannot be in status ${targetStatus} without ${missingFields.join(", ")}`,
+      missingFields.map(field => `${field} - Required for status ${targetStatus}`),
+      422
+    );
+  }
+}
+
+// Imported tickets can be in any status, but need the fields the workflow requires to be in it
+function assertImportedStatus(createTicketDto: CreateTicketDto, original: ImportedTicketFields): void {
+  const values = { assignedToId: createTicketDto.assignedToId, resolutionNote: original.resolutionNote };
+  const missingFields = getRequiredFields(createTicketDto.status).filter(field => values[field] === undefined);
+
+  if (missingFields.length > 0) {
+    throw new InvalidStatusTransitionError(
+      ErrorCodes.INVALID_STATUS_TRANSITION,
+      `Ticket cannot be in status ${createTicketDto.status} without ${missingFields.join(", ")}`,
+      missingFields.map(field => `${field} - Required for status ${createTicketDto.status}`),
+      422
+    );
+  }
+}
+
+// If-Match: the client's change was based on this version of the ticket
+export function assertExpectedVersion(current: Ticket, expectedVersion: number | undefined): void {
+  if (expectedVersion !== undefined && current.version !== expectedVersion) {
+    throw new PreconditionFailedError(
+      ErrorCodes.PRECONDITION_FAILED,
+      `Ticket version is ${current.version}, but If-Match expected ${expectedVersion}`
+    );
+  }
+}
 
 export class TicketService {
-  static async createTicket(createTicketDto: CreateTicketDto): Promise<Ticket> {
+  static async createTicket(createTicketDto: CreateTicketDto, options: TicketWriteOptions = {}, createOptions: CreateOptions = {}): Promise<Ticket> {
+    const { ticket, history } = await TicketService.prepareCreate(createTicketDto, options, createOptions);
+    try {
+      await getTicketRepository().createTicket(ticket, history);
+    } catch (error) {
+      await TicketService.releaseCreate(createTicketDto, ticket);
+      throw error;
+    }
+    await TicketService.afterWrite(undefined, ticket);
+
+    return ticket;
+  }
+
+  // Keeps the search index, report counters, agent loads, webhook deliveries and links in line with a ticket write
+  // (before undefined: created, after undefined: purged). The write has already succeeded, so every follow-up is best
+  // effort: a failure is logged rather than thrown, and the remaining follow-ups still run.
+  static async afterWrite(before: Ticket | undefined, after: Ticket | undefined, followUps: FollowUp[] = Object.keys(FOLLOW_UPS) as FollowUp[]): Promise<void> {
+    const ticketId = (after ?? before)?.id;
+    for (const followUp of followUps) {
+      await runFollowUp(followUp, { ticketId }, () => FOLLOW_UPS[followUp](before, after));
+    }
+  }
+
+  // Same for a comment write: the comment is indexed for search (undefined: deleted)
+  static async afterCommentWrite(ticketId: string, commentId: string, comment: Comment | undefined): Promise<void> {
+    await runFollowUp("search", { ticketId, commentId }, () => SearchService.syncComment(ticketId, commentId, comment));
+  }
+
+  // Validated and routed new ticket and the history entry recording it, not written yet.
+  // Tickets from email cannot carry custom fields, so they are created without the required ones.
+  // Imported tickets keep their original id, status and timestamps; their SLA deadlines run from the original creation.
+  static async prepareCreate(
+    createTicketDto: CreateTicketDto,
+    options: TicketWriteOptions = {},
+    { requireCustomFields = true, dryRun = false, original }: CreateOptions = {}
+  ): Promise<{ ticket: Ticket; history: TicketHistoryEntry }> {
+    // Authenticated callers report as themselves unless staff reports on behalf of someone else
+    if (options.auth) {
+      assertCanSetReporter(options.auth, createTicketDto.reporterId);
+    }
+    const reporterId = createTicketDto.reporterId ?? options.auth?.userId;
+    if (!reporterId) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["reporterId - Required"]);
+    }
+
+    if (original) {
+      assertImportedStatus(createTicketDto, original);
+    } else if (!TicketWorkflow.initialStatuses.includes(createTicketDto.status)) {
+      throw new InvalidStatusTransitionError(
+        ErrorCodes.INVALID_STATUS_TRANSITION,
+        `Tickets cannot be created with status ${createTicketDto.status}`,
+        TicketWorkflow.initialStatuses,
+        422
+      );
+    }
+    TenantService.assertTypeAllowed(createTicketDto.type);
+    const customFields = await FieldDefinitionService.resolveCustomFields(createTicketDto.type, undefined, createTicketDto.customFields, { requireAll: requireCustomFields });
+    if (!dryRun) {
+      await TenantService.consumeTickets(1);
+    }
+
+    const now = new Date();
+    const createdAt = original?.createdAt ? new Date(original.createdAt).toISOString() : now.toISOString();
+    const updatedAt = original?.updatedAt ? new Date(original.updatedAt).toISOString() : createdAt;
     const newTicket: Ticket = {
-      id: uuidv4(),
+      id: original?.id ?? uuidv4(),
       title: createTicketDto.title,
       description: createTicketDto.description,
       status: createTicketDto.status,
-      reporterId: createTicketDto.reporterId,
+      reporterId,
       assignedToId: createTicketDto.assignedToId,
-      priority: createTicketDto.priority,
+      priority: createTicketDto.priority ?? TenantService.getSettings().defaultPriority,
       type: createTicketDto.type,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      customFields,
+      resolutionNote: original?.resolutionNote,
+      resolvedAt: isFinal(createTicketDto.status) ? new Date(original?.resolvedAt ?? updatedAt).toISOString() : undefined,
+      externalRef: original?.externalRef,
+      version: 1,
+      commentCount: 0,
+      lastActivityAt: updatedAt,
+      createdAt,
+      updatedAt,
     };
+    Object.assign(newTicket, await QueueService.routeNewTicket(newTicket, dryRun));
+    Object.assign(newTicket, initialSlaFields(newTicket, now));
 
-    const command = new PutCommand({
-      TableName: tableName,
-      Item: newTicket
-    });
-
-    const response = await docClient.send(command);
-    console.log({ response });
-    console.log({ response: JSON.stringify(response) });
+    return {
+      ticket: newTicket,
+      history: buildHistoryEntry(newTicket.id, TicketHistoryAction.CREATED, diffTickets(undefined, newTicket), options, createdAt),
+    };
+  }
 
-    return newTicket;
+  // Gives back what prepareCreate took for a ticket that is not written after all: its place in the ticket quota and,
+  // when routing picked its agent, that agent's turn. Best effort: a failure is logged, as the write has failed already.
+  static async releaseCreate(createTicketDto: CreateTicketDto, ticket: Ticket): Promise<void> {
+    try {
+      await TenantService.releaseTickets(1);
+      if (!createTicketDto.assignedToId) {
+        await QueueService.releaseTurn(ticket);
+      }
+    } catch (error) {
+      logger.error("Ticket create release failed", { ticketId: ticket.id, error });
+    }
   }
 
-  static async getAllTickets(): Promise<Ticket[]> {
-    const command = new ScanCommand({
-      ProjectionExpression: "id, createdAt, description, priority, reporterId, assignedToId, #status, title, #type, updatedAt",
-      ExpressionAttributeNames: { 
-        "#status": "status",
-        "#type": "type"
+  static async listTickets(query: ListTicketsQueryDto, auth?: AuthContext): Promise<TicketPage> {
+    // Requesters only ever list the tickets they reported
+    if (auth && !isAdmin(auth) && !isAgent(auth)) {
+      if (query.reporterId && query.reporterId !== auth.userId) {
+        throw new ForbiddenError(ErrorCodes.FORBIDDEN, "You can only list your own tickets");
+      }
+      query = { ...query, reporterId: auth.userId };
+    }
+
+    const customFields = query.customFields && await FieldDefinitionService.resolveCustomFieldFilters(query.customFields, query.type);
+
+    // Values are normalized to UTC ISO strings to compare lexicographically with stored timestamps
+    return getTicketRepository().queryTickets({
+      filters: {
+        slaState: query.slaState,
+        status: query.status,
+        assignedToId: query.assignedToId,
+        reporterId: query.reporterId,
+        priority: query.priority,
+        type: query.type,
       },
-      TableName: tableName,
+      customFields,
+      createdFrom: query.createdFrom ? new Date(query.createdFrom).toISOString() : undefined,
+      createdTo: query.createdTo ? new Date(query.createdTo).toISOString() : undefined,
+      sort: query.sort,
+      limit: query.limit,
+      cursor: query.cursor,
     });
+  }
 
-    const response = await docClient.send(command);
-    const tickets: Ticket[] = (response.Items ?? []) as Ticket[];
-    console.log({ response });
-    console.log({ response: JSON.stringify(response) });
-
-    for (const ticket of tickets) {
-      console.log(`${ticket.id} - (${ticket.createdAt}, ${ticket.description}, ${ticket.status}, ${ticket.title})`);
+  // Without auth this is an internal read; with auth the caller must be allowed to see the ticket
+  static async getTicketById(id: string, auth?: AuthContext): Promise<Ticket | undefined> {
+    const ticket = await getTicketRepository().getTicket(id);
+    if (ticket && auth) {
+      assertCanViewTicket(auth, ticket);
     }
-    return tickets;
+    return ticket;
   }
 
-  static async getTicketById(id: string): Promise<Ticket | undefined> {
-    const command = new GetCommand({
-      TableName: tableName,
-      Key: {
-        id,
-      },
-    });
-
-    const response = await docClient.send(command);
-    console.log({ response });
-    console.log({ response: JSON.stringify(response) });
-    return response.Item as Ticket;
+  static async updateTicket(id: string, updateTicketDto: UpdateTicketDto, options: TicketWriteOptions = {}): Promise<Ticket> {
+    return TicketService.applyTicketChanges(id, updateTicketDto, options);
   }
 
-  static async updateTicket(id: string, updateTicketDto: UpdateTicketDto): Promise<Record<string, any> | undefined> {
-    try {
-      const updateExpressions: string[] = [];
-      const expressionAttributeNames: Record<string, string> = {};
-      const expressionAttributeValues: Record<string, any> = {};
+  static async patchTicket(id: string, patchTicketDto: PatchTicketDto, options: TicketWriteOptions = {}): Promise<Ticket> {
+    return TicketService.applyTicketChanges(id, patchTicketDto, options);
+  }
 
-      // Campos requeridos que siempre se actualizan
-      updateExpressions.push("title = :title");
-      expressionAttributeValues[":title"] = updateTicketDto.title;
+  // Shared write path for PUT and PATCH: undefined fields are kept, null fields are removed.
+  // Writes are conditioned on the version that was read; a concurrent change triggers a re-read and re-validation.
+  private static async applyTicketChanges(id: string, changes: TicketChanges, options: TicketWriteOptions, attempt: number = 1): Promise<Ticket> {
+    const current = await TicketService.getTicketById(id);
+    if (!current) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
+    }
 
-      updateExpressions.push("description = :description");
-      expressionAttributeValues[":description"] = updateTicketDto.description;
+    const { next, history } = await TicketService.prepareUpdate(current, changes, options);
+    if (await getTicketRepository().updateTicket(current, next, history)) {
+      await TicketService.afterWrite(current, next);
+      return next;
+    }
 
-      updateExpressions.push("#status = :status");
-      expressionAttributeNames["#status"] = "status";
-      expressionAttributeValues[":status"] = updateTicketDto.status;
+    // The ticket was deleted or modified since we read it: start over against the latest state
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return TicketService.applyTicketChanges(id, changes, options, attempt + 1);
+    }
 
-      updateExpressions.push("reporterId = :reporterId");
-      expressionAttributeValues[":reporterId"] = updateTicketDto.reporterId;
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${id} was modified concurrently`);
+  }
 
-      updateExpressions.push("priority = :priority");
-      expressionAttributeValues[":priority"] = updateTicketDto.priority;
+  // Checks a change against the ticket as read (permissions, If-Match, workflow, open children) and computes the resulting ticket.
+  // Merges close duplicates from any status, so they skip the workflow.
+  static async prepareUpdate(
+    current: Ticket,
+    changes: TicketChanges,
+    options: TicketWriteOptions = {},
+    { enforceWorkflow = true }: { enforceWorkflow?: boolean } = {}
+  ): Promise<{ next: Ticket; history?: TicketHistoryEntry }> {
+    const { auth, actorId, expectedVersion } = options;
+
+    if (auth) {
+      assertCanEditTicket(auth, current);
+      if (changes.reporterId !== current.reporterId) {
+        assertCanSetReporter(auth, changes.reporterId);
+      }
+    }
 
-      updateExpressions.push("#type = :type");
-      expressionAttributeNames["#type"] = "type";
-      expressionAttributeValues[":type"] = updateTicketDto.type;
+    assertExpectedVersion(current, expectedVersion);
+    const typeChanged = changes.type !== undefined && changes.type !== current.type;
+    if (typeChanged) {
+      TenantService.assertTypeAllowed(changes.type!);
+    }
 
-      if (updateTicketDto.assignedToId !== undefined) {
-        updateExpressions.push("assignedToId = :assignedToId");
-        expressionAttributeValues[":assignedToId"] = updateTicketDto.assignedToId;
+    const statusChanged = changes.status !== undefined && changes.status !== current.status;
+    if (enforceWorkflow) {
+      assertWorkflow(current, changes);
+      if (statusChanged && isFinal(changes.status!)) {
+        await LinkService.assertNoOpenChildren(current, changes.status!);
       }
+    }
 
-      updateExpressions.push("updatedAt = :updatedAt");
-      expressionAttributeValues[":updatedAt"] = new Date().toISOString();
+    const now = new Date().toISOString();
+    const derived: Record<string, unknown> = {
+      version: current.version + 1,
+      updatedAt: now,
+      lastActivityAt: now,
+    };
+    if (statusChanged) {
+      derived.statusChangedAt = now;
+      derived.statusChangedBy = actorId ?? null;
+    }
 
-      const command = new UpdateCommand({
-        TableName: tableName,
-        Key: { id },
-        UpdateExpression: `set ${updateExpressions.join(", ")}`,
-        ExpressionAttributeNames: expressionAttributeNames,
-        ExpressionAttributeValues: expressionAttributeValues,
-        ReturnValues: "ALL_NEW",
-        ConditionExpression: "attribute_exists(id)" // Si el ID no existe, lanza ConditionalCheckFailedException
-      });
+    // Derived SLA fields follow the new status, priority and type
+    Object.assign(derived, computeSlaUpdates(current, changes, new Date(now)));
 
-      const response = await docClient.send(command);
-      console.log({ response });
-      console.log({ response: JSON.stringify(response) });
-      return response.Attributes;
+    // Custom fields are merged into the ticket's rather than replaced
+    if (changes.customFields !== undefined || typeChanged) {
+      const customFields = await FieldDefinitionService.resolveCustomFields(changes.type ?? current.type, current.customFields, changes.customFields, { typeChanged });
+      derived.customFields = customFields ?? null;
+    }
 
-    } catch (error) {
-      if (error instanceof ConditionalCheckFailedException) {
-        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
+    // Undefined fields are kept; null fields (e.g. assignedToId, an index key) are removed
+    const next: Record<string, any> = { ...current };
+    for (const [field, value] of Object.entries({ ...changes, ...derived })) {
+      if (value === null) {
+        delete next[field];
+      } else if (value !== undefined) {
+        next[field] = value;
       }
+    }
 
-      throw error;
+    const updated = next as Ticket;
+
+    // Re-opened tickets go back through their queue, unless the change assigns them itself
+    if (isFinal(current.status) && !isFinal(updated.status) && changes.assignedToId === undefined) {
+      Object.assign(updated, await QueueService.routeReopenedTicket(updated));
     }
+
+    const fieldChanges = diffTickets(current, updated);
+
+    // Writes without field changes (e.g. same values on PUT) still bump the version but leave no history entry
+    return {
+      next: updated,
+      history: fieldChanges.length > 0 ? buildHistoryEntry(current.id, TicketHistoryAction.UPDATED, fieldChanges, options, now) : undefined,
+    };
   }
 
-  static async patchTicket(id: string, patchTicketDto: PatchTicketDto): Promise<Record<string, any> | undefined> {
-    try {
-      const updateExpressions: string[] = [];
-      const expressionAttributeNames: Record<string, string> = {};
-      const expressionAttributeValues: Record<string, any> = {};
+  // Moves the ticket to the trash: hidden from reads, restorable until the table TTL purges it after the retention window.
+  // Search postings and attachment contents are kept for a restore and cleaned up on purge.
+  static async deleteTicket(id: string, options: TicketWriteOptions = {}, attempt: number = 1): Promise<void> {
+    if (options.auth) {
+      assertCanDeleteTicket(options.auth);
+    }
 
-      if (patchTicketDto.title !== undefined) {
-        updateExpressions.push("title = :title");
-        expressionAttributeValues[":title"] = patchTicketDto.title;
-      }
+    const current = await TicketService.getTicketById(id);
+    if (!current) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
+    }
 
-      if (patchTicketDto.description !== undefined) {
-        updateExpressions.push("description = :description");
-        expressionAttributeValues[":description"] = patchTicketDto.description;
-      }
+    const { next, history } = TicketService.prepareDelete(current, options);
+    if (await getTicketRepository().updateTicket(current, next, history)) {
+      await TicketService.afterWrite(current, next);
+      return;
+    }
 
-      if (patchTicketDto.status !== undefined) {
-        updateExpressions.push("#status = :status");
-        expressionAttributeNames["#status"] = "status";
-        expressionAttributeValues[":status"] = patchTicketDto.status;
-      }
+    // Deleted or modified concurrently: re-read to report 404 or 412 accurately
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return TicketService.deleteTicket(id, options, attempt + 1);
+    }
 
-      if (patchTicketDto.reporterId !== undefined) {
-        updateExpressions.push("reporterId = :reporterId");
-        expressionAttributeValues[":reporterId"] = patchTicketDto.reporterId;
-      }
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${id} was modified concurrently`);
+  }
 
-      if (patchTicketDto.assignedToId !== undefined) {
-        updateExpressions.push("assignedToId = :assignedToId");
-        expressionAttributeValues[":assignedToId"] = patchTicketDto.assignedToId;
-      }
+  // Trashed state of the ticket as read and the history entry recording the deletion, once If-Match is checked;
+  // delete permission is checked before reading. The entry keeps the last known field values.
+  static prepareDelete(current: Ticket, options: TicketWriteOptions = {}): { next: Ticket; history: TicketHistoryEntry } {
+    assertExpectedVersion(current, options.expectedVersion);
+
+    const deletedAt = new Date();
+    const now = deletedAt.toISOString();
+    const next: Ticket = {
+      ...current,
+      version: current.version + 1,
+      updatedAt: now,
+      deletedAt: now,
+      purgeAt: new Date(deletedAt.getTime() + config.trash.retentionDays * DAY_MS).toISOString(),
+    };
+    if (options.actorId) {
+      next.deletedBy = options.actorId;
+    }
 
-      if (patchTicketDto.priority !== undefined) {
-        updateExpressions.push("priority = :priority");
-        expressionAttributeValues[":priority"] = patchTicketDto.priority;
-      }
+    return { next, history: buildHistoryEntry(current.id, TicketHistoryAction.DELETED, diffTickets(current, undefined), options, now) };
+  }
 
-      if (patchTicketDto.type !== undefined) {
-        updateExpressions.push("#type = :type");
-        expressionAttributeNames["#type"] = "type";
-        expressionAttributeValues[":type"] = patchTicketDto.type;
-      }
+  // Deleted tickets, most recently deleted first
+  static async listDeletedTickets(query: ListTrashQueryDto, auth?: AuthContext): Promise<TicketPage> {
+    if (auth) {
+      assertCanManageTrash(auth);
+    }
+    return getTicketRepository().queryDeletedTickets({ limit: query.limit, cursor: query.cursor });
+  }
 
-      updateExpressions.push("updatedAt = :updatedAt");
-      expressionAttributeValues[":updatedAt"] = new Date().toISOString();
+  // Takes a ticket out of the trash as it was when deleted
+  static async restoreTicket(id: string, options: TicketWriteOptions = {}, attempt: number = 1): Promise<Ticket> {
+    if (options.auth) {
+      assertCanManageTrash(options.auth);
+    }
 
-      const command = new UpdateCommand({
-        TableName: tableName,
-        Key: { id },
-        UpdateExpression: `set ${updateExpressions.join(", ")}`,
-        ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined,
-        ExpressionAttributeValues: expressionAttributeValues,
-        ReturnValues: "ALL_NEW",
-        ConditionExpression: "attribute_exists(id)"
-      });
+    const current = await getTicketRepository().getTicket(id, { includeDeleted: true });
+    if (!current) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
+    }
+    if (!current.deletedAt) {
+      throw new ConflictError(ErrorCodes.TICKET_NOT_DELETED, `Ticket with id ${id} is not deleted`);
+    }
+    assertExpectedVersion(current, options.expectedVersion);
 
-      const response = await docClient.send(command);
-      console.log({ response });
-      console.log({ response: JSON.stringify(response) });
-      return response.Attributes;
+    const now = new Date().toISOString();
+    const { deletedAt, deletedBy, purgeAt, ...ticket } = current;
+    const next: Ticket = { ...ticket, version: current.version + 1, updatedAt: now };
+    const history = buildHistoryEntry(current.id, TicketHistoryAction.RESTORED, diffTickets(undefined, next), options, now);
 
-    } catch (error) {
-      if (error instanceof ConditionalCheckFailedException) {
-        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
-      }
+    if (await getTicketRepository().updateTicket(current, next, history)) {
+      await TicketService.afterWrite(current, next);
+      return next;
+    }
 
-      throw error;
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return TicketService.restoreTicket(id, options, attempt + 1);
     }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${id} was modified concurrently`);
   }
 
-  static async deleteTicket(id: string): Promise<void> {
-    try {
-      const command = new DeleteCommand({
-        TableName: tableName,
-        Key: {
-          id
-        },
-        ConditionExpression: "attribute_exists(id)" // Si el ID no existe, lanza ConditionalCheckFailedException
-      });
-
-      const response = await docClient.send(command);
-      console.log({ response });
-      console.log({ response: JSON.stringify(response) });
-    } catch (error) {
-      if (error instanceof ConditionalCheckFailedException) {
-        throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
-      }
+  // Removes the ticket for good, from the trash or not; only its history entries are kept
+  static async purgeTicket(id: string, options: TicketWriteOptions = {}, attempt: number = 1): Promise<void> {
+    if (options.auth) {
+      assertCanManageTrash(options.auth);
+    }
 
-      throw error;
+    const current = await getTicketRepository().getTicket(id, { includeDeleted: true });
+    if (!current) {
+      throw new NotFoundError(ErrorCodes.TICKET_NOT_FOUND, `Ticket with id ${id} not found`);
+    }
+    assertExpectedVersion(current, options.expectedVersion);
+
+    const history = buildHistoryEntry(current.id, TicketHistoryAction.PURGED, diffTickets(current, undefined), options, new Date().toISOString());
+    if (await getTicketRepository().deleteTicket(current, history)) {
+      await TicketService.afterWrite(current, undefined);
+      await AttachmentService.deleteObjects(current.id, current.attachments);
+      return;
     }
+
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return TicketService.purgeTicket(id, options, attempt + 1);
+    }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Ticket with id ${id} was modified concurrently`);
   }
 }
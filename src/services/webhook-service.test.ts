@@ -0,0 +1,61 @@
+import { createHmac } from "crypto";
+import { TicketPriority, TicketStatus, TicketType, WebhookEventType } from "../common/enums";
+import { Ticket } from "../types/ticket";
+import { matchesFilter, retryDelayMs, signWebhookPayload, webhookEventOf } from "./webhook-service";
+
+const createdAt = "2025-03-03T09:00:00.000Z";
+
+function buildTicket(overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id: "6f1c1f5e-2a4b-4c1e-9a55-000000000001",
+    title: "VPN down",
+    description: "Since this morning",
+    status: TicketStatus.NEW,
+    reporterId: "6f1c1f5e-2a4b-4c1e-9a55-000000000002",
+    priority: TicketPriority.HIGH,
+    type: TicketType.INCIDENT,
+    version: 1,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and the body together", () => {
+    const expected = createHmac("sha256", "secret").update('1741000000.{"id":"1"}').digest("hex");
+    expect(signWebhookPayload("secret", 1741000000, '{"id":"1"}')).toBe(`sha256=${expected}`);
+    expect(signWebhookPayload("secret", 1741000001, '{"id":"1"}')).not.toBe(`sha256=${expected}`);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from 30 seconds up to 6 hours", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe("webhookEventOf", () => {
+  it("tells creations, updates, deletions, restores and purges apart", () => {
+    const ticket = buildTicket();
+    const deleted = { ...ticket, deletedAt: createdAt, version: 2 };
+
+    expect(webhookEventOf(undefined, ticket)).toBe(WebhookEventType.TICKET_CREATED);
+    expect(webhookEventOf(ticket, { ...ticket, status: TicketStatus.OPEN, version: 2 })).toBe(WebhookEventType.TICKET_UPDATED);
+    expect(webhookEventOf(ticket, deleted)).toBe(WebhookEventType.TICKET_DELETED);
+    expect(webhookEventOf(deleted, { ...ticket, version: 3 })).toBe(WebhookEventType.TICKET_RESTORED);
+    expect(webhookEventOf(deleted, undefined)).toBe(WebhookEventType.TICKET_PURGED);
+  });
+});
+
+describe("matchesFilter", () => {
+  it("requires every condition that is set", () => {
+    const ticket = buildTicket();
+
+    expect(matchesFilter({}, WebhookEventType.TICKET_UPDATED, ticket)).toBe(true);
+    expect(matchesFilter({ events: [WebhookEventType.TICKET_CREATED] }, WebhookEventType.TICKET_UPDATED, ticket)).toBe(false);
+    expect(matchesFilter({ statuses: [TicketStatus.NEW], priorities: [TicketPriority.HIGH, TicketPriority.CRITICAL] }, WebhookEventType.TICKET_UPDATED, ticket)).toBe(true);
+    expect(matchesFilter({ statuses: [TicketStatus.NEW], types: [TicketType.QUESTION] }, WebhookEventType.TICKET_UPDATED, ticket)).toBe(false);
+  });
+});
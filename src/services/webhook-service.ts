@@ -0,0 +1,340 @@
+import { createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { assertCanManageWebhooks } from '../auth/authorization';
+import { config } from '../common/config';
+import { WebhookDeliveryStatus, WebhookEventType } from '../common/enums';
+import { ErrorCodes } from '../common/error-codes';
+import { BadRequestError } from '../errors/bad-request.error';
+import { NotFoundError } from '../errors/not-found-error';
+import { PreconditionFailedError } from '../errors/precondition-failed.error';
+import { logger } from '../observability/logger';
+import { getWebhookRepository } from '../repositories';
+import { CreateWebhookDto, ListWebhookDeliveriesQueryDto, MAX_WEBHOOKS, PatchWebhookDto } from '../schemas/schemas';
+import { AuthContext } from '../types/auth';
+import { Ticket } from '../types/ticket';
+import { PublicWebhook, Webhook, WebhookDelivery, WebhookDeliveryPage, WebhookFilter, WebhookPayload } from '../types/webhook';
+
+// Attempts for a PATCH when the webhook changes between the read and the conditional write
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Retries back off exponentially from 30 seconds, up to 6 hours between attempts
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Deliveries sent per run of the dispatcher, and how many of them are in flight at once
+const MAX_DELIVERIES_PER_RUN = 100;
+const PARALLEL_DELIVERIES = 10;
+
+// Fields that change on every write; they are not reported in changedFields
+const BOOKKEEPING_FIELDS = new Set(["version", "updatedAt", "lastActivityAt"]);
+
+export interface WebhookDispatchResult {
+  due: number;
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+interface AttemptOutcome {
+  responseStatus?: number;
+  error?: string;
+}
+
+// X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>" with the webhook secret, so that a captured delivery
+// cannot be replayed with another timestamp
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Wait after the given number of failed attempts
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// The change a ticket write represents (before undefined: created, after undefined: purged)
+export function webhookEventOf(before: Ticket | undefined, after: Ticket | undefined): WebhookEventType | undefined {
+  if (!before) {
+    return after ? WebhookEventType.TICKET_CREATED : undefined;
+  }
+  if (!after) {
+    return WebhookEventType.TICKET_PURGED;
+  }
+  if (!before.deletedAt && after.deletedAt) {
+    return WebhookEventType.TICKET_DELETED;
+  }
+  if (before.deletedAt && !after.deletedAt) {
+    return WebhookEventType.TICKET_RESTORED;
+  }
+  return WebhookEventType.TICKET_UPDATED;
+}
+
+// Every condition the filter sets must match
+export function matchesFilter(filter: WebhookFilter, event: WebhookEventType, ticket: Pick<Ticket, "status" | "priority" | "type">): boolean {
+  return (!filter.events || filter.events.includes(event))
+    && (!filter.statuses || filter.statuses.includes(ticket.status))
+    && (!filter.priorities || filter.priorities.includes(ticket.priority))
+    && (!filter.types || filter.types.includes(ticket.type));
+}
+
+function changedFields(before: Ticket, after: Ticket): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => !BOOKKEEPING_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field as keyof Ticket]) !== JSON.stringify(after[field as keyof Ticket]))
+    .sort();
+}
+
+function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { secret, ...publicWebhook } = webhook;
+  return publicWebhook;
+}
+
+// Deliveries carry ticket data, so plain http is only accepted when explicitly allowed (e.g. a local stand-in)
+function assertTargetUrl(url: string | undefined): void {
+  if (url !== undefined && !url.startsWith("https://") && !config.webhooks.allowInsecureUrls) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", ["url - Must be an https URL"]);
+  }
+}
+
+// One POST of the payload; any answer but a 2xx (redirects included) is a failure
+async function postPayload(webhook: Webhook, payload: WebhookPayload): Promise<AttemptOutcome> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ticket-system-webhooks",
+        "X-Webhook-Id": webhook.id,
+        "X-Webhook-Delivery": payload.id,
+        "X-Webhook-Event": payload.type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    // The response body is not used
+    await response.body?.cancel();
+    return response.ok ? { responseStatus: response.status } : { responseStatus: response.status, error: `Endpoint answered ${response.status}` };
+  } catch (error) {
+    // fetch reports network errors as "fetch failed", with the reason as cause
+    const cause = (error as { cause?: unknown })?.cause instanceof Error ? (error as { cause: Error }).cause : error;
+    return { error: cause instanceof Error ? cause.message : String(cause) };
+  }
+}
+
+export class WebhookService {
+  static async createWebhook(createWebhookDto: CreateWebhookDto, auth?: AuthContext): Promise<PublicWebhook> {
+    if (auth) {
+      assertCanManageWebhooks(auth);
+    }
+    assertTargetUrl(createWebhookDto.url);
+
+    const webhooks = await getWebhookRepository().listWebhooks();
+    if (webhooks.length >= MAX_WEBHOOKS) {
+      throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Validation failed", [`There can be at most ${MAX_WEBHOOKS} webhooks`]);
+    }
+
+    const now = new Date().toISOString();
+    const webhook: Webhook = {
+      id: uuidv4(),
+      url: createWebhookDto.url,
+      description: createWebhookDto.description,
+      secret: createWebhookDto.secret,
+      filter: createWebhookDto.filter,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await getWebhookRepository().createWebhook(webhook);
+
+    return toPublicWebhook(webhook);
+  }
+
+  // Every webhook, oldest first
+  static async listWebhooks(auth?: AuthContext): Promise<PublicWebhook[]> {
+    if (auth) {
+      assertCanManageWebhooks(auth);
+    }
+    const webhooks = await getWebhookRepository().listWebhooks();
+    return webhooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt)).map(toPublicWebhook);
+  }
+
+  static async getWebhookById(id: string, auth?: AuthContext): Promise<PublicWebhook> {
+    return toPublicWebhook(await WebhookService.getWebhook(id, auth));
+  }
+
+  // Undefined fields are kept and a null description is removed. Pending deliveries are retried with the new URL and secret.
+  static async patchWebhook(id: string, patchWebhookDto: PatchWebhookDto, auth?: AuthContext, attempt: number = 1): Promise<PublicWebhook> {
+    if (auth) {
+      assertCanManageWebhooks(auth);
+    }
+    assertTargetUrl(patchWebhookDto.url);
+
+    const current = await WebhookService.getWebhook(id);
+    const next: Webhook = { ...current, version: current.version + 1, updatedAt: new Date().toISOString() };
+    for (const [field, value] of Object.entries(patchWebhookDto)) {
+      if (value === null) {
+        delete next[field as keyof Webhook];
+      } else if (value !== undefined) {
+        Object.assign(next, { [field]: value });
+      }
+    }
+
+    if (await getWebhookRepository().updateWebhook(current, next)) {
+      return toPublicWebhook(next);
+    }
+
+    if (attempt < MAX_WRITE_ATTEMPTS) {
+      return WebhookService.patchWebhook(id, patchWebhookDto, auth, attempt + 1);
+    }
+
+    throw new PreconditionFailedError(ErrorCodes.PRECONDITION_FAILED, `Webhook with id ${id} was modified concurrently`);
+  }
+
+  // Pending deliveries of a deleted webhook are dead-lettered when they are next due
+  static async deleteWebhook(id: string, auth?: AuthContext): Promise<void> {
+    if (auth) {
+      assertCanManageWebhooks(auth);
+    }
+
+    if (!await getWebhookRepository().deleteWebhook(id)) {
+      throw new NotFoundError(ErrorCodes.WEBHOOK_NOT_FOUND, `Webhook with id ${id} not found`);
+    }
+  }
+
+  // Delivery log of the webhook, newest first by default
+  static async listDeliveries(id: string, query: ListWebhookDeliveriesQueryDto, auth?: AuthContext): Promise<WebhookDeliveryPage> {
+    await WebhookService.getWebhook(id, auth);
+    return getWebhookRepository().queryDeliveries(id, query);
+  }
+
+  // Sends a WebhookTest delivery right away, to check the endpoint and its signature verification; it is not retried
+  static async testWebhook(id: string, auth?: AuthContext): Promise<WebhookDelivery> {
+    const webhook = await WebhookService.getWebhook(id, auth);
+    const delivery = await WebhookService.recordDelivery(webhook, WebhookEventType.WEBHOOK_TEST, undefined, {});
+    return (await WebhookService.attemptDelivery(delivery, webhook, 1)) ?? delivery;
+  }
+
+  // Records a pending delivery for each webhook whose filter matches a ticket write (before undefined: created,
+  // after undefined: purged). Nothing is sent here, so writes never wait on the endpoints: the dispatcher sends them.
+  static async syncTicket(before: Ticket | undefined, after: Ticket | undefined): Promise<void> {
+    const event = webhookEventOf(before, after);
+    const ticket = after ?? before;
+    if (!event || !ticket) {
+      return;
+    }
+
+    const webhooks = (await getWebhookRepository().listWebhooks()).filter(webhook => matchesFilter(webhook.filter, event, ticket));
+    const data = event === WebhookEventType.TICKET_UPDATED ? { ticket, changedFields: changedFields(before!, after!) } : { ticket };
+    await Promise.all(webhooks.map(webhook => WebhookService.recordDelivery(webhook, event, ticket.id, data)));
+  }
+
+  // Sends the deliveries that are due, first attempts and retries alike; invoked on a schedule by the webhook-dispatcher Lambda
+  static async sendDueDeliveries(now: Date = new Date()): Promise<WebhookDispatchResult> {
+    const repository = getWebhookRepository();
+    const due = await repository.listDueDeliveries(now.toISOString(), MAX_DELIVERIES_PER_RUN);
+    const webhooks = new Map((await repository.listWebhooks()).map(webhook => [webhook.id, webhook]));
+    const result: WebhookDispatchResult = { due: due.length, delivered: 0, retrying: 0, deadLettered: 0 };
+
+    for (let start = 0; start < due.length; start += PARALLEL_DELIVERIES) {
+      const attempted = await Promise.all(due.slice(start, start + PARALLEL_DELIVERIES).map(delivery =>
+        WebhookService.attemptDelivery(delivery, webhooks.get(delivery.webhookId), config.webhooks.maxAttempts)
+      ));
+      for (const delivery of attempted) {
+        if (delivery?.status === WebhookDeliveryStatus.DELIVERED) {
+          result.delivered++;
+        } else if (delivery?.status === WebhookDeliveryStatus.DEAD_LETTER) {
+          result.deadLettered++;
+        } else if (delivery) {
+          result.retrying++;
+        }
+      }
+    }
+
+    logger.info("Webhook dispatcher", { ...result });
+    return result;
+  }
+
+  private static async getWebhook(id: string, auth?: AuthContext): Promise<Webhook> {
+    if (auth) {
+      assertCanManageWebhooks(auth);
+    }
+
+    const webhook = await getWebhookRepository().getWebhook(id);
+    if (!webhook) {
+      throw new NotFoundError(ErrorCodes.WEBHOOK_NOT_FOUND, `Webhook with id ${id} not found`);
+    }
+    return webhook;
+  }
+
+  // Records the delivery as due right away
+  private static async recordDelivery(webhook: Webhook, event: WebhookEventType, ticketId: string | undefined, data: WebhookPayload["data"]): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const id = uuidv4();
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: webhook.id,
+      eventType: event,
+      ticketId,
+      payload: { id, type: event, webhookId: webhook.id, occurredAt: now, data },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await getWebhookRepository().createDelivery(delivery);
+
+    return delivery;
+  }
+
+  // Claims the delivery by recording the attempt with the next retry already scheduled, so that an attempt cut short
+  // (e.g. by a Lambda timeout) is retried; undefined if another attempt claimed it first
+  private static async attemptDelivery(delivery: WebhookDelivery, webhook: Webhook | undefined, maxAttempts: number): Promise<WebhookDelivery | undefined> {
+    const repository = getWebhookRepository();
+    const attempts = delivery.attempts + 1;
+    const startedAt = new Date();
+    const claimed: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      lastAttemptAt: startedAt.toISOString(),
+      nextAttemptAt: new Date(startedAt.getTime() + retryDelayMs(attempts)).toISOString(),
+      updatedAt: startedAt.toISOString(),
+    };
+    if (!await repository.updateDelivery(delivery, claimed)) {
+      return undefined;
+    }
+
+    // A delivery whose webhook is gone, or whose last attempt was cut short, is not sent again
+    const outcome: AttemptOutcome = !webhook
+      ? { error: "Webhook was deleted" }
+      : attempts > maxAttempts ? { error: "No attempts left" } : await postPayload(webhook, delivery.payload);
+
+    const next: WebhookDelivery = { ...claimed, responseStatus: outcome.responseStatus, error: outcome.error, updatedAt: new Date().toISOString() };
+    if (!outcome.error) {
+      next.status = WebhookDeliveryStatus.DELIVERED;
+    } else if (!webhook || attempts >= maxAttempts) {
+      next.status = WebhookDeliveryStatus.DEAD_LETTER;
+    }
+    if (next.status !== WebhookDeliveryStatus.PENDING) {
+      delete next.nextAttemptAt;
+    }
+    await repository.updateDelivery(claimed, next);
+
+    logger.info("Webhook delivery", {
+      webhookId: delivery.webhookId,
+      deliveryId: delivery.id,
+      event: delivery.eventType,
+      attempts,
+      status: next.status,
+      responseStatus: outcome.responseStatus,
+      error: outcome.error,
+    });
+    return next;
+  }
+}
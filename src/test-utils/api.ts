@@ -0,0 +1,90 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { SignJWT } from "jose";
+import { setTokenVerifier } from "../auth/authenticator";
+import { JwtTokenVerifier } from "../auth/token-verifier";
+import { handler } from "../handlers/index";
+import { router } from "../handlers/routes";
+import { ErrorResponse } from "../schemas/responses";
+
+const secret = new TextEncoder().encode("test-secret-for-the-ticket-api-suite");
+
+export interface TestUser {
+  sub: string;
+  groups?: string[];
+  // Organization claim of the token; none means the default organization
+  tenantId?: string;
+}
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  // Caller to sign a token for; null sends no Authorization header
+  user?: TestUser | null;
+}
+
+export interface ApiResponse<T = any> {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: T;
+}
+
+// Tokens are signed with a shared secret and verified by the real JwtTokenVerifier
+export function installTestAuth(): void {
+  setTokenVerifier(new JwtTokenVerifier({ key: secret }));
+}
+
+export async function signToken(user: TestUser, expiresIn: string = "5m"): Promise<string> {
+  const tenantClaim = user.tenantId ? { "custom:tenantId": user.tenantId } : {};
+  return new SignJWT({ "cognito:groups": user.groups ?? [], ...tenantClaim })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(user.sub)
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(secret);
+}
+
+export async function buildEvent(request: ApiRequest): Promise<APIGatewayProxyEvent> {
+  const headers: Record<string, string> = { "Content-Type": "application/json", ...request.headers };
+  if (request.user) {
+    headers.Authorization = `Bearer ${await signToken(request.user)}`;
+  }
+
+  return {
+    httpMethod: request.method,
+    path: request.path,
+    resource: request.path,
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: request.query ?? null,
+    multiValueQueryStringParameters: null,
+    pathParameters: null,
+    stageVariables: null,
+    body: request.body === undefined ? null : typeof request.body === "string" ? request.body : JSON.stringify(request.body),
+    isBase64Encoded: false,
+    requestContext: { requestId: `test-${Math.random().toString(36).slice(2)}` } as APIGatewayProxyEvent["requestContext"],
+  };
+}
+
+// Contract check: JSON bodies must match the schema the route documents, errors the ErrorResponse schema
+function checkResponseContract(request: ApiRequest, statusCode: number, body: unknown): void {
+  const schema = statusCode >= 400 ? ErrorResponse : router.find(request.method, request.path)?.route.responses[statusCode]?.schema;
+  const parsed = schema?.safeParse(body);
+  if (parsed && !parsed.success) {
+    throw new Error(`${request.method} ${request.path} returned ${statusCode} with a body that does not match the OpenAPI contract:\n${parsed.error.message}`);
+  }
+}
+
+// Drives the Lambda handler end to end and parses the JSON body; other content types are returned as text
+export async function callApi<T = any>(request: ApiRequest): Promise<ApiResponse<T>> {
+  const result: APIGatewayProxyResult = await handler(await buildEvent(request));
+  const headers = (result.headers ?? {}) as Record<string, string>;
+  const isJson = !headers["Content-Type"] || headers["Content-Type"].startsWith("application/json");
+  const body = result.body ? (isJson ? JSON.parse(result.body) : result.body) : undefined;
+  if (isJson && body !== undefined) {
+    checkResponseContract(request, result.statusCode, body);
+  }
+  return { statusCode: result.statusCode, headers, body };
+}
@@ -0,0 +1,33 @@
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+
+export interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local HTTP stand-in for a webhook subscriber: records every request and answers with statusCode
+export class WebhookReceiver {
+  readonly requests: ReceivedWebhook[] = [];
+  statusCode = 204;
+  private readonly server: Server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", chunk => chunks.push(chunk));
+    request.on("end", () => {
+      this.requests.push({ headers: request.headers, body: Buffer.concat(chunks).toString("utf8") });
+      response.writeHead(this.statusCode).end();
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hooks`;
+  }
+
+  start(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, "127.0.0.1", resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close(error => error ? reject(error) : resolve()));
+  }
+}
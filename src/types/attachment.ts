@@ -0,0 +1,37 @@
+// File attached to a ticket; the content lives in object storage, the metadata on the ticket
+export interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  // Bytes, enforced by the presigned upload
+  size: number;
+  // Base64 SHA-256 of the content, enforced by the presigned upload
+  checksum: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// Where and how to upload the content of a new attachment
+export interface AttachmentUpload {
+  attachment: Attachment;
+  uploadUrl: string;
+  // Headers the PUT to uploadUrl must carry, as they are part of the signature
+  uploadHeaders: Record<string, string>;
+  expiresAt: string;
+}
+
+export interface AttachmentDownload extends Attachment {
+  downloadUrl: string;
+  expiresAt: string;
+}
+
+export interface AttachmentList {
+  items: AttachmentDownload[];
+}
+
+// File received by the server itself, e.g. attached to an inbound email
+export interface AttachmentContent {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
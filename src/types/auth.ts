@@ -0,0 +1,10 @@
+import { UserRole } from "../common/enums";
+
+// Authenticated caller, derived from the verified token claims
+export interface AuthContext {
+  userId: string;
+  roles: UserRole[];
+  email?: string;
+  // Organization named by the token, if any
+  tenantId?: string;
+}
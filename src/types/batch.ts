@@ -0,0 +1,23 @@
+import { Ticket } from "./ticket";
+
+// Same shape as the body of an error response
+export interface BatchOperationError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+// Outcome of one operation, in the order of the request: the HTTP status it would have had as a single request
+export interface BatchOperationResult {
+  index: number;
+  status: number;
+  ticket?: Ticket;
+  error?: BatchOperationError;
+}
+
+export interface BatchResult {
+  atomic: boolean;
+  succeeded: number;
+  failed: number;
+  results: BatchOperationResult[];
+}
@@ -0,0 +1,15 @@
+export interface Comment {
+  id: string;
+  ticketId: string;
+  authorId: string;
+  body: string;
+  // Duplicate the comment was moved from by a merge
+  mergedFromTicketId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentPage {
+  items: Comment[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,16 @@
+import { EmailIngestOutcome } from "../common/enums";
+
+// Outcome of ingesting one inbound email
+export interface EmailIngestResult {
+  // Message-ID header, or a digest of the raw message if it has none
+  messageId: string;
+  outcome: EmailIngestOutcome;
+  // Ticket created or commented on; for a duplicate, the ticket of the first delivery
+  ticketId?: string;
+  commentId?: string;
+  attachmentIds: string[];
+  // File names of the attachments that were not accepted (type, size or quota)
+  skippedAttachments: string[];
+  // Why the email was rejected
+  reason?: string;
+}
@@ -0,0 +1,46 @@
+import { SlaState, TicketEventType, TicketPriority, TicketStatus } from "../common/enums";
+import { FieldChange } from "./history";
+import { Ticket } from "./ticket";
+
+// Envelope shared by every event; data is versioned independently per event type through schemaVersion
+export interface TicketEventEnvelope<T extends TicketEventType, D> {
+  // Deterministic, so consumers can drop redeliveries
+  id: string;
+  type: T;
+  schemaVersion: number;
+  source: string;
+  ticketId: string;
+  occurredAt: string;
+  actorId?: string;
+  requestId?: string;
+  // Organization of the ticket; absent for the default organization
+  tenantId?: string;
+  data: D;
+}
+
+// Business fields of a ticket as carried by created/deleted/restored/purged events
+export type TicketSnapshot = Partial<Pick<Ticket, "title" | "description" | "status" | "reporterId" | "assignedToId" | "priority" | "type" | "resolutionNote">>;
+
+export type TicketCreatedEvent = TicketEventEnvelope<TicketEventType.TICKET_CREATED, { ticket: TicketSnapshot }>;
+export type TicketUpdatedEvent = TicketEventEnvelope<TicketEventType.TICKET_UPDATED, { changes: FieldChange[] }>;
+export type TicketAssignedEvent = TicketEventEnvelope<TicketEventType.TICKET_ASSIGNED, { previousAssigneeId: string | null; assigneeId: string | null }>;
+export type TicketStatusChangedEvent = TicketEventEnvelope<TicketEventType.TICKET_STATUS_CHANGED, { from: TicketStatus; to: TicketStatus }>;
+export type TicketPriorityChangedEvent = TicketEventEnvelope<TicketEventType.TICKET_PRIORITY_CHANGED, { from: TicketPriority; to: TicketPriority }>;
+export type TicketSlaStateChangedEvent = TicketEventEnvelope<TicketEventType.TICKET_SLA_STATE_CHANGED, { from: SlaState | null; to: SlaState | null }>;
+export type TicketDeletedEvent = TicketEventEnvelope<TicketEventType.TICKET_DELETED, { ticket: TicketSnapshot }>;
+export type TicketRestoredEvent = TicketEventEnvelope<TicketEventType.TICKET_RESTORED, { ticket: TicketSnapshot }>;
+// expired: purged by the table TTL at the end of the retention window rather than by a hard delete
+export type TicketPurgedEvent = TicketEventEnvelope<TicketEventType.TICKET_PURGED, { ticket: TicketSnapshot; expired: boolean }>;
+export type TicketCommentAddedEvent = TicketEventEnvelope<TicketEventType.TICKET_COMMENT_ADDED, { commentId: string; authorId: string }>;
+
+export type TicketEvent =
+  | TicketCreatedEvent
+  | TicketUpdatedEvent
+  | TicketAssignedEvent
+  | TicketStatusChangedEvent
+  | TicketPriorityChangedEvent
+  | TicketSlaStateChangedEvent
+  | TicketDeletedEvent
+  | TicketRestoredEvent
+  | TicketPurgedEvent
+  | TicketCommentAddedEvent;
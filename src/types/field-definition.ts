@@ -0,0 +1,21 @@
+import { CustomFieldKind, TicketType } from "../common/enums";
+
+// Value of a custom field as stored on a ticket: numbers for NUMBER fields, strings for the others
+export type CustomFieldValue = string | number;
+
+// Custom field of the tickets of one type, stored in the ticket's customFields under its key
+export interface FieldDefinition {
+  id: string;
+  ticketType: TicketType;
+  key: string;
+  label: string;
+  description?: string;
+  kind: CustomFieldKind;
+  // Required fields must be set on create, and whenever the custom fields or the type of a ticket change
+  required: boolean;
+  // Accepted values of ENUM fields
+  options?: string[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,24 @@
+import { TicketHistoryAction } from "../common/enums";
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface TicketHistoryEntry {
+  id: string;
+  ticketId: string;
+  action: TicketHistoryAction;
+  changes: FieldChange[];
+  actorId?: string;
+  requestId?: string;
+  occurredAt: string;
+  // Copied from the history of a duplicate merged into the ticket
+  mergedFromTicketId?: string;
+}
+
+export interface TicketHistoryPage {
+  items: TicketHistoryEntry[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,17 @@
+// Response of a request made with an Idempotency-Key, replayed as is on retries
+export interface IdempotentResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface IdempotencyRecord {
+  // Idempotency-Key scoped to the caller
+  key: string;
+  // Hash of the request, to tell a retry from a different request reusing the key
+  fingerprint: string;
+  // Missing while the first request is still running
+  response?: IdempotentResponse;
+  // Epoch seconds, used as the DynamoDB TTL attribute; short while in progress
+  expiresAt: number;
+}
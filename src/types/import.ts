@@ -0,0 +1,29 @@
+import { ImportRowOutcome } from "../common/enums";
+import { BatchOperationError } from "./batch";
+
+// Outcome of one row of an import, in the order of the body
+export interface ImportRowResult {
+  // Position among the data rows, from 1
+  row: number;
+  // Line of the body the row starts on
+  line: number;
+  outcome: ImportRowOutcome;
+  // Ticket created, or the one the reference was imported as when skipped
+  ticketId?: string;
+  error?: BatchOperationError;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+// One part of an export: the tickets of the body, and the cursor of the next part when there are more
+export interface TicketExport {
+  body: string;
+  count: number;
+  nextCursor?: string;
+}
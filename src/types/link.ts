@@ -0,0 +1,17 @@
+import { TicketLinkType } from "../common/enums";
+import { Ticket } from "./ticket";
+
+// One side of a link, read from ticketId: e.g. ticketId PARENT_OF linkedTicketId
+export interface TicketLink {
+  ticketId: string;
+  linkedTicketId: string;
+  type: TicketLinkType;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Survivor of a merge and what was taken from each duplicate
+export interface TicketMergeResult {
+  ticket: Ticket;
+  merged: { ticketId: string; movedComments: number; copiedHistoryEntries: number }[];
+}
@@ -0,0 +1,24 @@
+import { AssignmentStrategy, TicketPriority, TicketType } from "../common/enums";
+
+// Matches a new ticket when every condition that is set matches: one of the types, one of the priorities,
+// one of the keywords in the title (whole words, ignoring case and accents)
+export interface QueueRule {
+  types?: TicketType[];
+  priorities?: TicketPriority[];
+  keywords?: string[];
+}
+
+// Group of agents that tickets are routed to by its rules and assigned within by its strategy
+export interface Queue {
+  id: string;
+  name: string;
+  description?: string;
+  agentIds: string[];
+  strategy: AssignmentStrategy;
+  // A ticket goes to the first queue, by position, with a rule it matches
+  rules: QueueRule[];
+  position: number;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,40 @@
+import { TicketPriority, TicketStatus, TicketType } from "../common/enums";
+
+// Tickets created and resolutions recorded on one UTC day
+export interface DailyTicketFlow {
+  date: string;
+  created: number;
+  resolved: number;
+}
+
+export interface TicketCounts {
+  total: number;
+  open: number;
+  byStatus: Partial<Record<TicketStatus, number>>;
+  // Priority, type and assignee breakdowns count open tickets only (not RESOLVED or CLOSED)
+  byPriority: Partial<Record<TicketPriority, number>>;
+  byType: Partial<Record<TicketType, number>>;
+  // Keyed by assignee id, "unassigned" for tickets without one
+  byAssignee: Record<string, number>;
+}
+
+// Age of the open tickets in days, from their creation day
+export interface BacklogAge {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface TicketReport {
+  generatedAt: string;
+  // Inclusive range of UTC days covered by daily and meanTimeToResolutionHours
+  from: string;
+  to: string;
+  counts: TicketCounts;
+  daily: DailyTicketFlow[];
+  // Mean of resolvedAt - createdAt over the resolutions in the range; null without resolutions
+  meanTimeToResolutionHours: number | null;
+  // Null without open tickets
+  backlogAgeDays: BacklogAge | null;
+}
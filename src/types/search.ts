@@ -0,0 +1,20 @@
+import { Ticket } from "./ticket";
+
+export interface SearchHighlight {
+  field: "title" | "description" | "comment";
+  // Set for comment highlights
+  commentId?: string;
+  // HTML fragment of the field with the matching words wrapped in <em>, the rest escaped
+  snippet: string;
+}
+
+export interface SearchHit {
+  ticket: Ticket;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchPage {
+  items: SearchHit[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,20 @@
+import { TicketPriority, TicketType } from "../common/enums";
+
+// Settings of an organization, with the defaults filled in; quotas that are not set are unlimited
+export interface TenantSettings {
+  allowedTypes: TicketType[];
+  defaultPriority: TicketPriority;
+  quotas: {
+    requestsPerMinute?: number;
+    ticketsPerDay?: number;
+  };
+}
+
+// Organization of the caller, with its usage of the current quota windows
+export interface Tenant extends TenantSettings {
+  id: string;
+  usage: {
+    requestsThisMinute: number;
+    ticketsToday: number;
+  };
+}
@@ -1,4 +1,7 @@
-import { TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { SlaState, TicketPriority, TicketStatus, TicketType } from "../common/enums";
+import { Attachment } from "./attachment";
+import { AuthContext } from "./auth";
+import { CustomFieldValue } from "./field-definition";
 
 export interface Ticket {
   id: string;
@@ -7,8 +10,52 @@ export interface Ticket {
   status: TicketStatus;
   reporterId: string;
   assignedToId?: string;
+  // Agent queue the ticket was routed to by the assignment rules
+  queueId?: string;
   priority: TicketPriority;
   type: TicketType;
+  resolutionNote?: string;
+  // Values of the custom fields defined for the ticket type, by key
+  customFields?: Record<string, CustomFieldValue>;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  version: number;
+  commentCount?: number;
+  lastActivityAt?: string;
+  responseDueAt?: string;
+  resolutionDueAt?: string;
+  firstRespondedAt?: string;
+  resolvedAt?: string;
+  slaState?: SlaState;
+  // Set while the SLA clock is stopped (waiting on the customer)
+  slaPausedAt?: string;
+  // Total time the SLA clock has been stopped, added to the due dates
+  slaPausedMs?: number;
+  attachments?: Attachment[];
+  // Reference of the ticket in the system it was imported from
+  externalRef?: string;
+  // Survivor this duplicate was merged into (and closed)
+  mergedIntoId?: string;
+  // Set while the ticket is in the trash: hidden from reads, restorable until purgeAt
+  deletedAt?: string;
+  deletedBy?: string;
+  purgeAt?: string;
   createdAt: string;
   updatedAt: string;
 }
+
+export interface TicketPage {
+  items: Ticket[];
+  nextCursor: string | null;
+}
+
+export interface TicketWriteOptions {
+  // Authenticated caller whose permissions are enforced; undefined for internal callers
+  auth?: AuthContext;
+  // Identifier of the caller, recorded on status transitions and in the history
+  actorId?: string;
+  // API Gateway request id, recorded in the history
+  requestId?: string;
+  // Version the client based its change on (from If-Match); undefined skips the check
+  expectedVersion?: number;
+}
@@ -0,0 +1,63 @@
+import { TicketPriority, TicketStatus, TicketType, WebhookDeliveryStatus, WebhookEventType } from "../common/enums";
+import { Ticket } from "./ticket";
+
+// Matches a ticket change when every condition that is set matches the ticket after the change
+// (before it, for deletions and purges)
+export interface WebhookFilter {
+  events?: WebhookEventType[];
+  statuses?: TicketStatus[];
+  priorities?: TicketPriority[];
+  types?: TicketType[];
+}
+
+// Subscription of an external endpoint to ticket changes; deliveries are signed with its secret
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string;
+  secret: string;
+  filter: WebhookFilter;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of a delivery; the same on every attempt
+export interface WebhookPayload {
+  // Id of the delivery, for subscribers to drop the ones they already processed
+  id: string;
+  type: WebhookEventType;
+  webhookId: string;
+  occurredAt: string;
+  data: {
+    ticket?: Ticket;
+    // Fields that changed, for TicketUpdated
+    changedFields?: string[];
+  };
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventType: WebhookEventType;
+  ticketId?: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When a PENDING delivery is retried
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  // Outcome of the last attempt: the HTTP status, or the error if there was no response
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryPage {
+  items: WebhookDelivery[];
+  nextCursor: string | null;
+}
+
+// Webhook as returned by the API: the secret is write-only
+export type PublicWebhook = Omit<Webhook, "secret">;
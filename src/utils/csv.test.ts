@@ -0,0 +1,39 @@
+import { CsvError, CsvReader, neutralizeFormula, parseCsv, restoreFormula, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const text = '\uFEFFtitle,description\r\n"Printer, 2nd floor","Says ""jammed""\r\ntwice"\r\n\r\nVPN,\r\n';
+
+    expect([...parseCsv(text)]).toEqual([
+      { line: 1, fields: ["title", "description"] },
+      { line: 2, fields: ["Printer, 2nd floor", 'Says "jammed"\ntwice'] },
+      { line: 5, fields: ["VPN", ""] },
+    ]);
+  });
+
+  it("reads what toCsv writes", () => {
+    const rows = [["id", "note"], ["1", 'a "quoted", multi\nline value']];
+
+    expect([...parseCsv(toCsv(rows))].map(record => record.fields)).toEqual(rows);
+  });
+
+  it("rejects a quoted field that is never closed", () => {
+    const reader = new CsvReader();
+    reader.push("title");
+    reader.push('"Printer');
+
+    expect(() => reader.end()).toThrow(CsvError);
+    expect(() => [...parseCsv('title\n"Printer\njammed')]).toThrow("Unterminated quoted field in the record starting on line 2");
+  });
+});
+
+describe("neutralizeFormula", () => {
+  it("puts a quote before fields a spreadsheet would run, which restoreFormula removes", () => {
+    const values = ["=HYPERLINK(\"http://x\")", "+1", "-5", "@SUM(A1)", "'=1", "'quoted", "plain"];
+    const exported = values.map(neutralizeFormula);
+
+    expect(exported).toEqual(["'=HYPERLINK(\"http://x\")", "'+1", "'-5", "'@SUM(A1)", "''=1", "'quoted", "plain"]);
+    expect(exported.map(value => restoreFormula(value as string))).toEqual(values);
+    expect(neutralizeFormula(-5)).toBe(-5);
+  });
+});
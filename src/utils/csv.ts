@@ -0,0 +1,112 @@
+export type CsvValue = string | number | null | undefined;
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted and their quotes doubled; lines end with CRLF
+function toCsvField(value: CsvValue): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Spreadsheets run fields starting with =, +, -, @, a tab or a carriage return as formulas. Exports put a ' before
+// them (and before fields that already start with quotes and one of those), which restoreFormula removes again.
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+export function neutralizeFormula(value: CsvValue): CsvValue {
+  return typeof value === "string" && FORMULA_PATTERN.test(value) ? `'${value}` : value;
+}
+
+export function restoreFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_PATTERN.test(text) ? text.slice(1) : text;
+}
+
+// A record of a CSV body and the line it starts on, counted from 1
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+export class CsvError extends Error {
+  constructor(public readonly line: number, message: string) {
+    super(message);
+  }
+}
+
+// RFC 4180 reader fed one line at a time (without its line break), so that large files can be streamed.
+// Quoted fields may span lines; blank lines between records are skipped.
+export class CsvReader {
+  private lineNumber = 0;
+  private recordLine = 0;
+  private fields: string[] = [];
+  private field = "";
+  private inRecord = false;
+  private inQuotes = false;
+
+  // The record completed by the line, if any
+  push(line: string): CsvRecord | undefined {
+    this.lineNumber++;
+    if (this.lineNumber === 1) {
+      line = line.replace(/^\uFEFF/, "");
+    }
+
+    if (this.inRecord) {
+      // Line break inside a quoted field
+      this.field += "\n";
+    } else if (line === "") {
+      return undefined;
+    } else {
+      this.inRecord = true;
+      this.recordLine = this.lineNumber;
+    }
+
+    for (let index = 0; index < line.length; index++) {
+      const char = line[index];
+      if (this.inQuotes) {
+        if (char === '"' && line[index + 1] === '"') {
+          this.field += '"';
+          index++;
+        } else if (char === '"') {
+          this.inQuotes = false;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"') {
+        this.inQuotes = true;
+      } else if (char === ",") {
+        this.fields.push(this.field);
+        this.field = "";
+      } else {
+        this.field += char;
+      }
+    }
+
+    if (this.inQuotes) {
+      return undefined;
+    }
+    const record = { line: this.recordLine, fields: [...this.fields, this.field] };
+    this.fields = [];
+    this.field = "";
+    this.inRecord = false;
+    return record;
+  }
+
+  // Throws when the input ends inside a quoted field
+  end(): void {
+    if (this.inRecord) {
+      throw new CsvError(this.recordLine, `Unterminated quoted field in the record starting on line ${this.recordLine}`);
+    }
+  }
+}
+
+export function* parseCsv(text: string): Generator<CsvRecord> {
+  const reader = new CsvReader();
+  for (const line of text.split(/\r?\n/)) {
+    const record = reader.push(line);
+    if (record) {
+      yield record;
+    }
+  }
+  reader.end();
+}
@@ -0,0 +1,37 @@
+import { ErrorCodes } from "../common/error-codes";
+import { BadRequestError } from "../errors/bad-request.error";
+
+interface CursorPayload {
+  index: string;
+  key: Record<string, any>;
+}
+
+// Opaque pagination token: base64url(JSON) of the DynamoDB LastEvaluatedKey plus the index it belongs to
+export function encodeCursor(index: string, key: Record<string, any> | undefined): string | null {
+  if (!key) {
+    return null;
+  }
+
+  const payload: CursorPayload = { index, key };
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+}
+
+export function decodeCursor(index: string, cursor: string | undefined): Record<string, any> | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid cursor", ["cursor - Malformed pagination token"]);
+  }
+
+  // A cursor is only valid for the same index (i.e. the same filter combination) that produced it
+  if (!payload || payload.index !== index || typeof payload.key !== "object" || payload.key === null) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid cursor", ["cursor - Pagination token does not match the query"]);
+  }
+
+  return payload.key;
+}
@@ -0,0 +1,26 @@
+import { ErrorCodes } from "../common/error-codes";
+import { BadRequestError } from "../errors/bad-request.error";
+
+// Strong entity tag derived from the ticket version
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Returns the expected version from an If-Match header, "*" for any version, or undefined when absent
+export function parseIfMatch(header: string | undefined): number | "*" | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+
+  const value = header.trim();
+  if (value === "*") {
+    return "*";
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(value);
+  if (!match) {
+    throw new BadRequestError(ErrorCodes.BAD_REQUEST, "Invalid If-Match header", [`If-Match - Expected an ETag like "1", got ${value}`]);
+  }
+
+  return Number(match[1]);
+}
@@ -0,0 +1,31 @@
+import { buildSnippet, tokenize } from "./text-search";
+
+describe("tokenize", () => {
+  it("counts case and accent insensitive words of at least 2 characters", () => {
+    expect(tokenize("Añadir usuario: ERROR 500, error! a")).toEqual({ anadir: 1, usuario: 1, error: 2, "500": 1 });
+    expect(tokenize("constructor toString")).toEqual({ constructor: 1, tostring: 1 });
+  });
+});
+
+describe("buildSnippet", () => {
+  it("wraps every word starting with a term", () => {
+    expect(buildSnippet("Login fails after logout", ["log"])).toBe("<em>Login</em> fails after <em>logout</em>");
+  });
+
+  it("cuts long texts around the first match at word boundaries", () => {
+    const text = `${"lorem ipsum ".repeat(20)}the printer is jammed ${"dolor sit ".repeat(20)}`;
+
+    const snippet = buildSnippet(text, ["print"], 60)!;
+
+    expect(snippet).toMatch(/^…ipsum .*the <em>printer<\/em> is jammed .*sit…$/);
+    expect(snippet.length).toBeLessThanOrEqual(60 + 2 + "<em></em>".length);
+  });
+
+  it("escapes the text around the matches", () => {
+    expect(buildSnippet(`<img src=x onerror="alert(1)"> & login`, ["log"])).toBe("&lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; <em>login</em>");
+  });
+
+  it("returns undefined without a match", () => {
+    expect(buildSnippet("Nothing here", ["vpn"])).toBeUndefined();
+  });
+});
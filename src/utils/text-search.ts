@@ -0,0 +1,66 @@
+// Words are runs of letters and digits; shorter ones are too common to be worth indexing
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+
+// Case and accent insensitive form of a word: "Añadir" -> "anadir"
+export function normalizeWord(word: string): string {
+  return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+// Occurrences of each token in the text; counted in a Map, so that words like "constructor" are not taken for inherited keys
+export function tokenize(text: string): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const token = normalizeWord(word);
+    if (token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  }
+  return Object.fromEntries(counts);
+}
+
+const HTML_ENTITIES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+
+// Ticket text may come from anyone, e.g. inbound email; escaped so that only the <em> markers are markup
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => HTML_ENTITIES[char]);
+}
+
+// HTML fragment of the text around the first word matching a term prefix, with matching words wrapped in <em>
+// and the rest escaped. Undefined when no word matches.
+export function buildSnippet(text: string, terms: string[], maxLength: number = 160): string | undefined {
+  const words = [...text.matchAll(WORD_PATTERN)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    matches: terms.some(term => normalizeWord(match[0]).startsWith(term)),
+  }));
+
+  const first = words.find(word => word.matches);
+  if (!first) {
+    return undefined;
+  }
+
+  // Keep some context before the match, starting at a word boundary
+  const contextStart = first.start - Math.floor(maxLength / 4);
+  const start = contextStart <= 0 ? 0 : words.find(word => word.start >= contextStart)!.start;
+  // End at a word boundary too
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    end = [...words].reverse().find(word => word.end <= end && word.start >= start)?.end ?? end;
+  }
+
+  let snippet = "";
+  let position = start;
+  for (const word of words) {
+    if (word.start < start || word.end > end) {
+      continue;
+    }
+    snippet += escapeHtml(text.slice(position, word.start));
+    snippet += word.matches ? `<em>${escapeHtml(text.slice(word.start, word.end))}</em>` : escapeHtml(text.slice(word.start, word.end));
+    position = word.end;
+  }
+  snippet += escapeHtml(text.slice(position, end));
+
+  return `${start > 0 ? "…" : ""}${snippet.trim()}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,67 @@
+const INDENT = "  ";
+
+// Strings written without quotes: no YAML indicators, and not readable as another type
+const PLAIN_STRING = /^[A-Za-z_/$][A-Za-z0-9 _./$()+,;=@`'*-]*$/;
+const RESERVED_WORDS = /^(true|false|null|yes|no|on|off|y|n|~)$/i;
+
+function isPlain(value: string): boolean {
+  return PLAIN_STRING.test(value) && !RESERVED_WORDS.test(value) && !value.endsWith(" ") && !value.includes(" #");
+}
+
+function scalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value === "string") {
+    // Double-quoted JSON strings are valid YAML
+    return isPlain(value) ? value : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return typeof value === "object" && value !== null && Object.keys(value).length === 0;
+}
+
+function isBlockString(value: unknown): value is string {
+  return typeof value === "string" && value.includes("\n") && !/[ \t]\n|^\s|\s$/.test(value);
+}
+
+// Value after "key:" or "-": scalars on the same line, collections and multi-line strings on the next ones
+function emitValue(value: unknown, depth: number): string {
+  if (isBlockString(value)) {
+    const indent = INDENT.repeat(depth + 1);
+    return ` |-\n${value.split("\n").map(line => line ? indent + line : "").join("\n")}`;
+  }
+  if (isEmptyCollection(value)) {
+    return Array.isArray(value) ? " []" : " {}";
+  }
+  if (typeof value === "object" && value !== null) {
+    return `\n${emit(value, depth + 1)}`;
+  }
+  return ` ${scalar(value)}`;
+}
+
+function emit(value: object, depth: number): string {
+  const indent = INDENT.repeat(depth);
+
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      // Mappings in a sequence start on the dash line
+      if (typeof item === "object" && item !== null && !Array.isArray(item) && !isEmptyCollection(item)) {
+        return `${indent}- ${emit(item, depth + 1).trimStart()}`;
+      }
+      return `${indent}-${emitValue(item, depth)}`;
+    }).join("\n");
+  }
+
+  return Object.entries(value)
+    .filter(([, field]) => field !== undefined)
+    .map(([key, field]) => `${indent}${scalar(key)}:${emitValue(field, depth)}`)
+    .join("\n");
+}
+
+// Block-style YAML for JSON data (objects, arrays, strings, numbers, booleans and null), keys in insertion order
+export function toYaml(value: object): string {
+  return `${emit(value, 0)}\n`;
+}